@@ -10,6 +10,7 @@ interface DashboardStats {
   inactiveUsers: number
   todayQueries: number
   todayConversations: number
+  todayCacheHits: number
   expiredSubscriptions: number
   validSubscriptions: number
 }
@@ -23,6 +24,7 @@ export default function AdminDashboardClient() {
     inactiveUsers: 0,
     todayQueries: 0,
     todayConversations: 0,
+    todayCacheHits: 0,
     expiredSubscriptions: 0,
     validSubscriptions: 0,
   })
@@ -75,7 +77,7 @@ export default function AdminDashboardClient() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Quick Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 xl:grid-cols-5 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6 mb-8">
         <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-xl border border-white/20 hover:shadow-2xl transition-all duration-200">
           <div className="flex items-center">
             <div className="flex-1">
@@ -145,6 +147,20 @@ export default function AdminDashboardClient() {
             </div>
           </div>
         </div>
+
+        <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-xl border border-white/20 hover:shadow-2xl transition-all duration-200">
+          <div className="flex items-center">
+            <div className="flex-1">
+              <p className="text-sm font-medium text-slate-600">Respuestas desde Caché</p>
+              <p className="text-3xl font-bold bg-gradient-to-r from-emerald-600 to-teal-700 bg-clip-text text-transparent">{stats.todayCacheHits}</p>
+            </div>
+            <div className="w-12 h-12 bg-gradient-to-br from-emerald-400 to-teal-600 rounded-xl flex items-center justify-center">
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Navigation Cards */}
@@ -193,7 +209,7 @@ export default function AdminDashboardClient() {
                 Gestión de Archivos
               </h3>
               <p className="text-slate-600 leading-relaxed">
-                Subir PDFs, activar/desactivar, gestionar archivos de proveedores y controlar el contenido disponible.
+                Subir archivos (PDF, Excel, CSV, imágenes), activar/desactivar, gestionar archivos de proveedores y controlar el contenido disponible.
               </p>
               <div className="mt-4 inline-flex items-center text-amber-600 text-sm font-medium group-hover:text-amber-700">
                 Administrar archivos
@@ -259,6 +275,114 @@ export default function AdminDashboardClient() {
           </div>
         </a>
 
+        <a
+          href="/admin/analytics"
+          className="group bg-white/80 backdrop-blur-sm p-8 rounded-3xl shadow-2xl border border-white/20 hover:shadow-3xl hover:scale-105 transition-all duration-300"
+        >
+          <div className="flex items-start space-x-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-rose-400 to-pink-600 rounded-2xl flex items-center justify-center group-hover:rotate-6 transition-transform duration-300">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+            </div>
+            <div className="flex-1">
+              <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-rose-700 transition-colors">
+                Analítica de Uso
+              </h3>
+              <p className="text-slate-600 leading-relaxed">
+                Tokens consumidos, costo estimado por modelo y latencia p50/p95 por día, usuario y modelo.
+              </p>
+              <div className="mt-4 inline-flex items-center text-rose-600 text-sm font-medium group-hover:text-rose-700">
+                Ver analítica
+                <svg className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        </a>
+
+        <a
+          href="/admin/feedback"
+          className="group bg-white/80 backdrop-blur-sm p-8 rounded-3xl shadow-2xl border border-white/20 hover:shadow-3xl hover:scale-105 transition-all duration-300"
+        >
+          <div className="flex items-start space-x-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-amber-400 to-orange-600 rounded-2xl flex items-center justify-center group-hover:rotate-6 transition-transform duration-300">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+              </svg>
+            </div>
+            <div className="flex-1">
+              <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-orange-700 transition-colors">
+                Valoraciones
+              </h3>
+              <p className="text-slate-600 leading-relaxed">
+                Respuestas marcadas como incorrectas, con la pregunta, los archivos usados y la corrección del usuario.
+              </p>
+              <div className="mt-4 inline-flex items-center text-orange-600 text-sm font-medium group-hover:text-orange-700">
+                Revisar valoraciones
+                <svg className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        </a>
+
+        <a
+          href="/admin/evals"
+          className="group bg-white/80 backdrop-blur-sm p-8 rounded-3xl shadow-2xl border border-white/20 hover:shadow-3xl hover:scale-105 transition-all duration-300"
+        >
+          <div className="flex items-start space-x-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-teal-400 to-cyan-600 rounded-2xl flex items-center justify-center group-hover:rotate-6 transition-transform duration-300">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+            </div>
+            <div className="flex-1">
+              <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-teal-700 transition-colors">
+                Evaluación de Respuestas
+              </h3>
+              <p className="text-slate-600 leading-relaxed">
+                Preguntas de prueba con datos esperados para comparar la calidad de las respuestas entre ejecuciones.
+              </p>
+              <div className="mt-4 inline-flex items-center text-teal-600 text-sm font-medium group-hover:text-teal-700">
+                Ver evaluaciones
+                <svg className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        </a>
+
+        <a
+          href="/admin/audit"
+          className="group bg-white/80 backdrop-blur-sm p-8 rounded-3xl shadow-2xl border border-white/20 hover:shadow-3xl hover:scale-105 transition-all duration-300"
+        >
+          <div className="flex items-start space-x-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-stone-400 to-zinc-600 rounded-2xl flex items-center justify-center group-hover:rotate-6 transition-transform duration-300">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+            </div>
+            <div className="flex-1">
+              <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-zinc-700 transition-colors">
+                Auditoría
+              </h3>
+              <p className="text-slate-600 leading-relaxed">
+                Registro de los cambios hechos por administradores: usuarios, archivos, configuración y sincronizaciones.
+              </p>
+              <div className="mt-4 inline-flex items-center text-zinc-600 text-sm font-medium group-hover:text-zinc-700">
+                Ver auditoría
+                <svg className="w-4 h-4 ml-2 group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        </a>
+
       </div>
     </div>
   )
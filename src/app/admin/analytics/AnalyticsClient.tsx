@@ -0,0 +1,179 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import type { UsageAnalytics, UsageAnalyticsRow } from '@/lib/usage-analytics'
+
+const formatNumber = (value: number) => value.toLocaleString('es-VE')
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 4 : 2 })}`
+
+const formatMs = (value: number | null) => (value === null ? '-' : `${formatNumber(Math.round(value))} ms`)
+
+// Calendar days; parse at noon so the local timezone never shifts them
+const formatDay = (day: string) => new Date(`${day}T12:00:00`).toLocaleDateString('es-VE', { day: '2-digit', month: '2-digit' })
+
+const caracasDay = (offsetDays = 0) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Caracas' }).format(new Date(Date.now() + offsetDays * 86_400_000))
+
+function BreakdownTable({ title, rows, labelHeader }: { title: string; rows: UsageAnalyticsRow[]; labelHeader: string }) {
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">Sin respuestas en el período.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-slate-600 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2 text-left font-semibold">{labelHeader}</th>
+                <th className="px-2 py-2 text-right font-semibold">Respuestas</th>
+                <th className="px-2 py-2 text-right font-semibold">Tokens</th>
+                <th className="px-2 py-2 text-right font-semibold">Costo est.</th>
+                <th className="px-2 py-2 text-right font-semibold">p50</th>
+                <th className="px-2 py-2 text-right font-semibold">p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.group_key} className="border-t border-slate-100">
+                  <td className="px-2 py-2 text-slate-800 truncate max-w-[16rem]">{row.label}</td>
+                  <td className="px-2 py-2 text-right text-slate-700">{formatNumber(row.answers)}</td>
+                  <td className="px-2 py-2 text-right font-mono text-slate-900">{formatNumber(row.tokens)}</td>
+                  <td className="px-2 py-2 text-right font-mono text-slate-900">
+                    {formatUsd(row.cost_usd)}
+                    {row.unpriced_tokens > 0 && <span className="ml-1 text-amber-600" title="Incluye tokens de modelos sin precio configurado">*</span>}
+                  </td>
+                  <td className="px-2 py-2 text-right text-slate-600">{formatMs(row.p50_response_ms)}</td>
+                  <td className="px-2 py-2 text-right text-slate-600">{formatMs(row.p95_response_ms)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Token usage, estimated spend and latency of chat answers over a period
+export default function AnalyticsClient() {
+  const { showError } = useToast()
+  const [from, setFrom] = useState(() => caracasDay(-29))
+  const [to, setTo] = useState(() => caracasDay())
+  // Range actually loaded: editing the dates only applies with the "Actualizar" button
+  const [range, setRange] = useState({ from, to })
+  const [analytics, setAnalytics] = useState<UsageAnalytics | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/analytics?from=${range.from}&to=${range.to}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudieron cargar las estadísticas')
+      setAnalytics(json.analytics)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudieron cargar las estadísticas')
+    } finally {
+      setLoading(false)
+    }
+  }, [range, showError])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const totals = analytics?.totals
+  const maxDayTokens = Math.max(1, ...(analytics?.by_day.map(day => day.tokens) ?? []))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      {/* Range */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Desde</label>
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Hasta</label>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setRange({ from, to })}
+          disabled={loading || !from || !to}
+          className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+        >
+          {loading ? 'Cargando...' : 'Actualizar'}
+        </button>
+      </div>
+
+      {totals && analytics && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {[
+              { label: 'Respuestas', value: formatNumber(totals.answers) },
+              { label: 'Tokens', value: formatNumber(totals.tokens) },
+              { label: 'Costo estimado', value: formatUsd(totals.cost_usd) },
+              { label: 'Latencia p50 / p95', value: `${formatMs(totals.p50_response_ms)} / ${formatMs(totals.p95_response_ms)}` },
+            ].map(card => (
+              <div key={card.label} className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-xl border border-white/20">
+                <p className="text-sm font-medium text-slate-600">{card.label}</p>
+                <p className="text-2xl font-bold text-slate-800 mt-1">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {totals.unpriced_tokens > 0 && (
+            <p className="text-sm text-amber-700">
+              * {formatNumber(totals.unpriced_tokens)} tokens corresponden a modelos sin precio configurado y no se incluyen en el costo estimado.
+            </p>
+          )}
+
+          {/* Tokens per day */}
+          <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+            <h3 className="text-lg font-semibold text-slate-800 mb-4">Tokens por día</h3>
+            {analytics.by_day.length === 0 ? (
+              <p className="text-sm text-slate-500">Sin respuestas en el período.</p>
+            ) : (
+              <div className="flex items-end gap-1 h-40 overflow-x-auto">
+                {analytics.by_day.map(day => (
+                  <div key={day.group_key} className="flex flex-col items-center justify-end h-full min-w-[1.5rem] flex-1">
+                    <div
+                      className="w-full bg-gradient-to-t from-indigo-500 to-purple-400 rounded-t"
+                      style={{ height: `${Math.max(2, (day.tokens / maxDayTokens) * 100)}%` }}
+                      title={`${formatDay(day.group_key)}: ${formatNumber(day.tokens)} tokens, ${formatUsd(day.cost_usd)}, p95 ${formatMs(day.p95_response_ms)}`}
+                    />
+                    <span className="text-[10px] text-slate-500 mt-1">{formatDay(day.group_key)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <BreakdownTable title="Por día" labelHeader="Día" rows={analytics.by_day} />
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+            <BreakdownTable title="Por usuario" labelHeader="Usuario" rows={analytics.by_user} />
+            <BreakdownTable title="Por modelo" labelHeader="Modelo" rows={analytics.by_model} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { ALLOWED_MODELS } from '@/lib/model-settings'
+import { formatDateVE } from '@/lib/date-utils'
+import type { ModelPrice } from '@/lib/usage-analytics'
+
+// Admin-managed per-model prices used to estimate spend
+export default function ModelPricesClient() {
+  const { showError, showSuccess } = useToast()
+  const { confirmDanger } = useConfirmation()
+  const [prices, setPrices] = useState<ModelPrice[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [model, setModel] = useState<string>(ALLOWED_MODELS[0])
+  const [usd, setUsd] = useState('')
+
+  useEffect(() => {
+    let mounted = true
+    async function fetchPrices() {
+      setLoading(true)
+      try {
+        const res = await fetch('/api/admin/model-prices', { cache: 'no-store' })
+        const json = await res.json()
+        if (!res.ok) throw new Error(json.error || 'No se pudieron cargar los precios')
+        if (mounted) setPrices(json.prices || [])
+      } catch (error) {
+        if (mounted) showError(error instanceof Error ? error.message : 'No se pudieron cargar los precios')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    fetchPrices()
+    return () => { mounted = false }
+  }, [showError])
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/model-prices', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, usd_per_1m_tokens: Number(usd.replace(',', '.')) })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo guardar el precio')
+
+      setPrices(prev => [...prev.filter(p => p.model !== json.price.model), json.price]
+        .sort((a, b) => a.model.localeCompare(b.model)))
+      setUsd('')
+      showSuccess('Precio guardado')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo guardar el precio')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function onDelete(price: ModelPrice) {
+    const confirmed = await confirmDanger(
+      'Eliminar precio',
+      `¿Eliminar el precio de ${price.model}? Sus tokens dejarán de contar en el costo estimado.`
+    )
+    if (!confirmed) return
+
+    try {
+      const res = await fetch(`/api/admin/model-prices?model=${encodeURIComponent(price.model)}`, { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo eliminar el precio')
+      setPrices(prev => prev.filter(p => p.model !== price.model))
+      showSuccess('Precio eliminado')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo eliminar el precio')
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-2 text-slate-900">Precios por modelo</h2>
+        <p className="text-sm text-slate-700 mb-6">
+          Precio en USD por millón de tokens. Los mensajes solo registran el total de tokens, así que usa un precio promedio entre entrada y salida.
+        </p>
+
+        <form onSubmit={onSave} className="flex flex-wrap items-end gap-3 mb-6">
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Modelo</label>
+            <input
+              type="text"
+              required
+              list="model-price-options"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-48 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <datalist id="model-price-options">
+              {ALLOWED_MODELS.map(option => <option key={option} value={option} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">USD por 1M tokens</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              required
+              value={usd}
+              onChange={(e) => setUsd(e.target.value)}
+              placeholder="0,60"
+              className="w-36 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+          >
+            {saving ? 'Guardando...' : 'Guardar precio'}
+          </button>
+        </form>
+
+        {loading ? (
+          <span className="text-slate-600">Cargando...</span>
+        ) : prices.length === 0 ? (
+          <p className="text-sm text-slate-500">No hay precios configurados. El costo estimado será $0.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Modelo</th>
+                  <th className="px-3 py-2 text-right font-semibold">USD por 1M tokens</th>
+                  <th className="px-3 py-2 text-left font-semibold">Actualizado</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {prices.map(price => (
+                  <tr key={price.model} className="border-t border-slate-200">
+                    <td className="px-3 py-2 text-slate-800">{price.model}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-900">{price.usd_per_1m_tokens.toLocaleString('es-VE', { maximumFractionDigits: 4 })}</td>
+                    <td className="px-3 py-2 text-slate-600">{formatDateVE(price.updated_at)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onDelete(price)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import AppLayout from '@/components/AppLayout'
+import { getServerProfile } from '@/lib/auth-server'
+import AnalyticsClient from './AnalyticsClient'
+import ModelPricesClient from './ModelPricesClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AnalyticsPage() {
+  const profile = await getServerProfile()
+
+  return (
+    <AppLayout 
+      title="Analítica de Uso" 
+      subtitle="Tokens, costo estimado y latencia de las respuestas del chat"
+      showBackButton={true}
+      backHref="/admin"
+      profile={profile}
+    >
+      <AnalyticsClient />
+      <ModelPricesClient />
+    </AppLayout>
+  )
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { formatDateTimeVE } from '@/lib/date-utils'
+import type { AuditAction, AuditEvent } from '@/lib/audit-log'
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'user.update': 'Usuario modificado',
+  'user.delete': 'Usuario eliminado',
+  'user.quota_update': 'Cuota de usuario',
+  'usage_plan.create': 'Plan creado',
+  'usage_plan.update': 'Plan modificado',
+  'usage_plan.delete': 'Plan eliminado',
+  'file.upload': 'Archivo subido',
+  'file.activate': 'Archivo activado',
+  'file.deactivate': 'Archivo desactivado',
+  'file.delete': 'Archivo eliminado',
+  'master_store.sync': 'Sincronización del almacén maestro',
+  'master_store.add_file': 'Archivo agregado al almacén maestro',
+  'master_store.remove_file': 'Archivo quitado del almacén maestro',
+  'vector_store.create': 'Almacén vectorial creado',
+  'vector_store.delete': 'Almacén vectorial eliminado',
+  'vector_store.add_file': 'Archivo agregado a un almacén',
+  'vector_store.remove_file': 'Archivo quitado de un almacén',
+  'vector_store.reconcile': 'Conciliación de almacenes',
+  'vector_store.gc': 'Limpieza de almacenes',
+  'settings.update': 'Configuración modificada',
+  'instructions.rollback': 'Instrucciones restauradas',
+  'exchange_rate.create': 'Tasa de cambio registrada',
+  'exchange_rate.delete': 'Tasa de cambio eliminada',
+  'model_price.update': 'Precio de modelo',
+  'model_price.delete': 'Precio de modelo eliminado',
+  'feedback.update': 'Valoración revisada',
+  'eval_question.create': 'Pregunta de prueba creada',
+  'eval_question.update': 'Pregunta de prueba modificada',
+  'eval_question.delete': 'Pregunta de prueba eliminada',
+  'eval_run.start': 'Evaluación iniciada',
+  'messages.export': 'Exportación de mensajes',
+  'organization.create': 'Organización creada',
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+const caracasDay = (offsetDays = 0) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Caracas' }).format(new Date(Date.now() + offsetDays * 86_400_000))
+
+const formatJson = (value: unknown) => (value === null || value === undefined ? '-' : JSON.stringify(value, null, 2))
+
+function EventRow({ event }: { event: AuditEvent }) {
+  const [open, setOpen] = useState(false)
+  const hasChanges = event.before !== null || event.after !== null
+
+  return (
+    <>
+      <tr
+        className={`border-t border-slate-200 ${hasChanges ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+        onClick={() => hasChanges && setOpen(o => !o)}
+      >
+        <td className="px-3 py-2 text-slate-800 whitespace-nowrap">{formatDateTimeVE(event.created_at)}</td>
+        <td className="px-3 py-2 text-slate-800">{event.actor_email || 'Desconocido'}</td>
+        <td className="px-3 py-2 text-slate-900">{ACTION_LABELS[event.action] ?? event.action}</td>
+        <td className="px-3 py-2 text-xs text-slate-600 font-mono">
+          {event.target_type}{event.target_id && ` · ${event.target_id}`}
+        </td>
+        <td className="px-3 py-2 text-xs text-slate-500" title={event.user_agent || undefined}>{event.ip || '-'}</td>
+        <td className="px-3 py-2 text-xs text-blue-600">{hasChanges && (open ? 'Ocultar' : 'Ver cambios')}</td>
+      </tr>
+      {open && (
+        <tr className="bg-slate-50">
+          <td colSpan={6} className="px-3 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Antes</p>
+                <pre className="text-xs text-slate-700 whitespace-pre-wrap bg-white border border-slate-200 rounded p-2 max-h-64 overflow-auto">{formatJson(event.before)}</pre>
+              </div>
+              <div>
+                <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Después</p>
+                <pre className="text-xs text-slate-700 whitespace-pre-wrap bg-white border border-slate-200 rounded p-2 max-h-64 overflow-auto">{formatJson(event.after)}</pre>
+              </div>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+// Administrative actions, newest first, with filters and CSV export
+export default function AuditLogClient() {
+  const { showError } = useToast()
+  const [action, setAction] = useState('all')
+  const [actor, setActor] = useState('')
+  const [from, setFrom] = useState(() => caracasDay(-29))
+  const [to, setTo] = useState(() => caracasDay())
+  // Filters in use; the form only applies on submit so typing doesn't refetch
+  const [query, setQuery] = useState(() => new URLSearchParams({ action: 'all', from: caracasDay(-29), to: caracasDay() }).toString())
+  const [page, setPage] = useState(1)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [pageSize, setPageSize] = useState(50)
+  const [loading, setLoading] = useState(false)
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/audit?${query}&page=${page}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo cargar la auditoría')
+      setEvents(json.events || [])
+      setTotal(json.total || 0)
+      setPageSize(json.page_size || 50)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo cargar la auditoría')
+    } finally {
+      setLoading(false)
+    }
+  }, [query, page, showError])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setQuery(new URLSearchParams({ action, actor: actor.trim(), from, to }).toString())
+    setPage(1)
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <form onSubmit={onSubmit} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Acción</label>
+          <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+            <option value="all">Todas</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(key => (
+              <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Administrador</label>
+          <input
+            type="text"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="correo@ejemplo.com"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Desde</label>
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Hasta</label>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <button
+          type="submit"
+          disabled={loading || !from || !to}
+          className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+        >
+          {loading ? 'Cargando...' : 'Buscar'}
+        </button>
+        <a
+          href={`/api/admin/audit?${query}&format=csv`}
+          className="px-4 py-2 border border-slate-300 rounded text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Exportar CSV
+        </a>
+        <span className="text-sm text-slate-600 pb-2">{total} eventos</span>
+      </form>
+
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+        {loading && events.length === 0 ? (
+          <p className="p-6 text-slate-600">Cargando...</p>
+        ) : events.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No hay eventos con estos filtros.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold">Fecha</th>
+                <th className="px-3 py-2 text-left font-semibold">Administrador</th>
+                <th className="px-3 py-2 text-left font-semibold">Acción</th>
+                <th className="px-3 py-2 text-left font-semibold">Objetivo</th>
+                <th className="px-3 py-2 text-left font-semibold">IP</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map(event => <EventRow key={event.id} event={event} />)}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1 border border-slate-300 rounded disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span className="text-slate-600">Página {page} de {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= totalPages || loading}
+            className="px-3 py-1 border border-slate-300 rounded disabled:opacity-50"
+          >
+            Siguiente
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import AppLayout from '@/components/AppLayout'
+import { getServerProfile } from '@/lib/auth-server'
+import AuditLogClient from './AuditLogClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AuditPage() {
+  const profile = await getServerProfile()
+
+  return (
+    <AppLayout 
+      title="Auditoría" 
+      subtitle="Quién cambió qué en la administración, y cuándo"
+      showBackButton={true}
+      backHref="/admin"
+      profile={profile}
+    >
+      <AuditLogClient />
+    </AppLayout>
+  )
+}
@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import type { EvalQuestion } from '@/lib/evals'
+
+interface FileOption {
+  id: string
+  displayName: string
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+const EMPTY_FORM = { question: '', facts: '', priceListIds: [] as string[] }
+
+// Golden questions with the facts each answer must contain
+export default function EvalQuestionsClient() {
+  const { showError, showSuccess } = useToast()
+  const { confirmDanger } = useConfirmation()
+  const [questions, setQuestions] = useState<EvalQuestion[]>([])
+  const [files, setFiles] = useState<FileOption[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  useEffect(() => {
+    let mounted = true
+    async function fetchQuestions() {
+      setLoading(true)
+      try {
+        const [questionsRes, filesRes] = await Promise.all([
+          fetch('/api/admin/evals/questions', { cache: 'no-store' }),
+          fetch('/api/chat/files', { cache: 'no-store' })
+        ])
+        const [questionsJson, filesJson] = await Promise.all([questionsRes.json(), filesRes.json()])
+        if (!questionsRes.ok) throw new Error(questionsJson.error || 'No se pudieron cargar las preguntas')
+        if (mounted) {
+          setQuestions(questionsJson.questions || [])
+          setFiles(filesRes.ok ? filesJson.files || [] : [])
+        }
+      } catch (error) {
+        if (mounted) showError(error instanceof Error ? error.message : 'No se pudieron cargar las preguntas')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    fetchQuestions()
+    return () => { mounted = false }
+  }, [showError])
+
+  const fileName = (id: string) => files.find(file => file.id === id)?.displayName ?? id.slice(-8)
+
+  function onEdit(question: EvalQuestion) {
+    setEditingId(question.id)
+    setForm({ question: question.question, facts: question.expected_facts.join('\n'), priceListIds: question.price_list_ids ?? [] })
+  }
+
+  function onCancel() {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  async function save(body: Record<string, unknown>, successMessage: string) {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/evals/questions', {
+        method: body.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo guardar la pregunta')
+
+      setQuestions(prev => body.id
+        ? prev.map(q => (q.id === json.question.id ? json.question : q))
+        : [...prev, json.question])
+      showSuccess(successMessage)
+      return true
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo guardar la pregunta')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    const current = questions.find(q => q.id === editingId)
+    const saved = await save({
+      ...(editingId ? { id: editingId } : {}),
+      question: form.question,
+      expected_facts: form.facts,
+      price_list_ids: form.priceListIds,
+      is_active: current?.is_active ?? true
+    }, editingId ? 'Pregunta actualizada' : 'Pregunta agregada')
+    if (saved) onCancel()
+  }
+
+  async function onToggleActive(question: EvalQuestion) {
+    await save({ ...question, is_active: !question.is_active }, question.is_active ? 'Pregunta desactivada' : 'Pregunta activada')
+  }
+
+  async function onDelete(question: EvalQuestion) {
+    const confirmed = await confirmDanger(
+      'Eliminar pregunta',
+      '¿Eliminar esta pregunta? Las ejecuciones anteriores conservan sus resultados.'
+    )
+    if (!confirmed) return
+
+    try {
+      const res = await fetch(`/api/admin/evals/questions?id=${question.id}`, { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo eliminar la pregunta')
+      setQuestions(prev => prev.filter(q => q.id !== question.id))
+      if (editingId === question.id) onCancel()
+      showSuccess('Pregunta eliminada')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo eliminar la pregunta')
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-2 text-slate-900">Preguntas de prueba</h2>
+        <p className="text-sm text-slate-700 mb-6">
+          Cada respuesta debe contener todos los datos esperados. Los montos se comparan como números (12,50 = $12.50); el resto como texto sin distinguir mayúsculas ni acentos.
+        </p>
+
+        <form onSubmit={onSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Pregunta</label>
+            <textarea
+              required
+              rows={4}
+              value={form.question}
+              onChange={(e) => setForm(prev => ({ ...prev, question: e.target.value }))}
+              placeholder="¿Cuánto cuesta el cemento gris de 42,5 kg?"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Datos esperados (uno por línea)</label>
+            <textarea
+              required
+              rows={4}
+              value={form.facts}
+              onChange={(e) => setForm(prev => ({ ...prev, facts: e.target.value }))}
+              placeholder={'12,50\nFerretería Central'}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Limitar a archivos (opcional)</label>
+            <select
+              multiple
+              value={form.priceListIds}
+              onChange={(e) => setForm(prev => ({ ...prev, priceListIds: Array.from(e.target.selectedOptions, option => option.value) }))}
+              className={`${inputClass} h-[6.5rem]`}
+            >
+              {files.map(file => <option key={file.id} value={file.id}>{file.displayName}</option>)}
+            </select>
+          </div>
+          <div className="lg:col-span-3 flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+            >
+              {saving ? 'Guardando...' : editingId ? 'Guardar cambios' : 'Agregar pregunta'}
+            </button>
+            {editingId && (
+              <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-600 hover:text-slate-800">
+                Cancelar
+              </button>
+            )}
+          </div>
+        </form>
+
+        {loading ? (
+          <span className="text-slate-600">Cargando...</span>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-slate-500">Todavía no hay preguntas de prueba.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Pregunta</th>
+                  <th className="px-3 py-2 text-left font-semibold">Datos esperados</th>
+                  <th className="px-3 py-2 text-left font-semibold">Archivos</th>
+                  <th className="px-3 py-2 text-left font-semibold">Estado</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {questions.map(question => (
+                  <tr key={question.id} className={`border-t border-slate-200 ${question.is_active ? '' : 'opacity-60'}`}>
+                    <td className="px-3 py-2 text-slate-900 max-w-md">{question.question}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {question.expected_facts.map(fact => (
+                          <span key={fact} className="px-2 py-0.5 rounded-full bg-indigo-50 border border-indigo-200 text-xs text-indigo-800">{fact}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-slate-600">
+                      {question.price_list_ids?.length ? question.price_list_ids.map(fileName).join(', ') : 'Todos los activos'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => onToggleActive(question)}
+                        disabled={saving}
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${question.is_active ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-600'}`}
+                      >
+                        {question.is_active ? 'Activa' : 'Inactiva'}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button type="button" onClick={() => onEdit(question)} className="text-xs text-blue-600 hover:text-blue-800 mr-3">
+                        Editar
+                      </button>
+                      <button type="button" onClick={() => onDelete(question)} className="text-xs text-red-600 hover:text-red-800">
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
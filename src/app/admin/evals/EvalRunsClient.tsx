@@ -0,0 +1,260 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { formatDateTimeVE } from '@/lib/date-utils'
+import type { EvalChange, EvalComparisonRow, EvalResult, EvalRun } from '@/lib/evals'
+
+const POLL_INTERVAL_MS = 3000
+
+const formatScore = (score: number | null) => (score === null ? '-' : `${Math.round(score * 100)}%`)
+
+const STATUS_LABELS: Record<EvalRun['status'], { label: string; className: string }> = {
+  running: { label: 'En curso', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Completada', className: 'bg-emerald-100 text-emerald-800' },
+  failed: { label: 'Fallida', className: 'bg-red-100 text-red-800' },
+}
+
+const CHANGE_LABELS: Record<EvalChange, { label: string; className: string }> = {
+  fixed: { label: 'Corregida', className: 'text-emerald-700' },
+  regressed: { label: 'Empeoró', className: 'text-red-700 font-semibold' },
+  unchanged: { label: 'Sin cambios', className: 'text-slate-500' },
+  added: { label: 'Nueva', className: 'text-blue-700' },
+  removed: { label: 'Ya no se evalúa', className: 'text-slate-500' },
+}
+
+const runLabel = (run: EvalRun) => `${formatDateTimeVE(run.started_at)} · ${formatScore(run.score)}`
+
+function ResultRow({ result }: { result: EvalResult }) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <tr className="border-t border-slate-200 cursor-pointer hover:bg-slate-50" onClick={() => setOpen(o => !o)}>
+        <td className="px-3 py-2">{result.passed ? '✅' : '❌'}</td>
+        <td className="px-3 py-2 text-slate-900">{result.question}</td>
+        <td className="px-3 py-2 text-right font-mono">{formatScore(result.score)}</td>
+        <td className="px-3 py-2 text-xs">
+          {result.missing_facts.length > 0 && <span className="text-red-700">Faltan: {result.missing_facts.join(', ')}</span>}
+          {result.error && <span className="text-red-700"> {result.error}</span>}
+        </td>
+      </tr>
+      {open && (
+        <tr className="bg-slate-50">
+          <td />
+          <td colSpan={3} className="px-3 py-2 text-xs text-slate-700 whitespace-pre-wrap">
+            {result.answer || 'Sin respuesta'}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+// Evaluation runs: start one, follow its progress and compare it with an earlier run
+export default function EvalRunsClient() {
+  const { showError, showSuccess } = useToast()
+  const [runs, setRuns] = useState<EvalRun[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareTo, setCompareTo] = useState('')
+  const [results, setResults] = useState<EvalResult[]>([])
+  const [comparison, setComparison] = useState<EvalComparisonRow[] | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/evals/runs', { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudieron cargar las ejecuciones')
+      setRuns(json.runs || [])
+      setSelectedId(prev => prev ?? json.runs?.[0]?.id ?? null)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudieron cargar las ejecuciones')
+    }
+  }, [showError])
+
+  const fetchRun = useCallback(async (runId: string, baseId: string) => {
+    try {
+      const query = baseId ? `?compare_to=${baseId}` : ''
+      const res = await fetch(`/api/admin/evals/runs/${runId}${query}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo cargar la ejecución')
+      setResults(json.results || [])
+      setComparison(json.comparison?.rows ?? null)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo cargar la ejecución')
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  useEffect(() => {
+    if (selectedId) fetchRun(selectedId, compareTo)
+  }, [selectedId, compareTo, fetchRun])
+
+  // Follow running evaluations until they finish
+  const running = runs.some(run => run.status === 'running')
+  useEffect(() => {
+    if (!running) return
+    const timer = setInterval(() => {
+      fetchRuns()
+      if (selectedId) fetchRun(selectedId, compareTo)
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [running, selectedId, compareTo, fetchRuns, fetchRun])
+
+  async function onStart() {
+    setStarting(true)
+    try {
+      const res = await fetch('/api/admin/evals/runs', { method: 'POST' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo iniciar la evaluación')
+
+      setRuns(prev => [json.run, ...prev])
+      setSelectedId(json.run.id)
+      setCompareTo(runs.find(run => run.status === 'completed')?.id ?? '')
+      showSuccess('Evaluación iniciada')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo iniciar la evaluación')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const selectedRun = runs.find(run => run.id === selectedId) ?? null
+  const regressions = comparison?.filter(row => row.change === 'regressed').length ?? 0
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">Ejecuciones</h2>
+            <p className="text-sm text-slate-700">
+              Responde las preguntas activas con los archivos, instrucciones y modelo actuales, como lo haría el chat.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onStart}
+            disabled={starting || running}
+            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+          >
+            {starting ? 'Iniciando...' : running ? 'Evaluación en curso...' : 'Ejecutar evaluación'}
+          </button>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-slate-500">Todavía no hay ejecuciones.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Fecha</th>
+                  <th className="px-3 py-2 text-left font-semibold">Estado</th>
+                  <th className="px-3 py-2 text-right font-semibold">Aprobadas</th>
+                  <th className="px-3 py-2 text-right font-semibold">Puntaje</th>
+                  <th className="px-3 py-2 text-left font-semibold">Modelo</th>
+                  <th className="px-3 py-2 text-left font-semibold">Instrucciones</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr
+                    key={run.id}
+                    onClick={() => setSelectedId(run.id)}
+                    className={`border-t border-slate-200 cursor-pointer ${run.id === selectedId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="px-3 py-2 text-slate-800">{formatDateTimeVE(run.started_at)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_LABELS[run.status].className}`} title={run.error || undefined}>
+                        {STATUS_LABELS[run.status].label}
+                        {run.status === 'running' && ` ${run.completed}/${run.total}`}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-800">{run.passed}/{run.total}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-900">{formatScore(run.score)}</td>
+                    <td className="px-3 py-2 text-slate-600">{run.model || '-'}</td>
+                    <td className="px-3 py-2 text-slate-600">{run.instructions_version ? `v${run.instructions_version}` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {selectedRun && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <h3 className="text-lg font-semibold text-slate-800 mr-auto">Resultados del {formatDateTimeVE(selectedRun.started_at)}</h3>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-slate-800">Comparar con</label>
+                <select
+                  value={compareTo}
+                  onChange={(e) => setCompareTo(e.target.value)}
+                  className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Sin comparar</option>
+                  {runs.filter(run => run.id !== selectedRun.id && run.status !== 'running').map(run => (
+                    <option key={run.id} value={run.id}>{runLabel(run)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {comparison ? (
+              <>
+                <p className={`text-sm ${regressions > 0 ? 'text-red-700' : 'text-slate-700'}`}>
+                  {regressions > 0 ? `${regressions} pregunta(s) empeoraron respecto a la ejecución anterior.` : 'Ninguna pregunta empeoró.'}
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm border border-slate-200">
+                    <thead className="bg-slate-50 text-slate-700">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold">Pregunta</th>
+                        <th className="px-3 py-2 text-right font-semibold">Antes</th>
+                        <th className="px-3 py-2 text-right font-semibold">Ahora</th>
+                        <th className="px-3 py-2 text-left font-semibold">Cambio</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.map(row => (
+                        <tr key={row.key} className="border-t border-slate-200">
+                          <td className="px-3 py-2 text-slate-900">{row.question}</td>
+                          <td className="px-3 py-2 text-right font-mono">{row.base ? `${row.base.passed ? '✅' : '❌'} ${formatScore(row.base.score)}` : '-'}</td>
+                          <td className="px-3 py-2 text-right font-mono">{row.target ? `${row.target.passed ? '✅' : '❌'} ${formatScore(row.target.score)}` : '-'}</td>
+                          <td className={`px-3 py-2 ${CHANGE_LABELS[row.change].className}`}>{CHANGE_LABELS[row.change].label}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : results.length === 0 ? (
+              <p className="text-sm text-slate-500">Sin resultados todavía.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm border border-slate-200">
+                  <thead className="bg-slate-50 text-slate-700">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2 text-left font-semibold">Pregunta</th>
+                      <th className="px-3 py-2 text-right font-semibold">Puntaje</th>
+                      <th className="px-3 py-2 text-left font-semibold">Detalle</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map(result => <ResultRow key={result.id} result={result} />)}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
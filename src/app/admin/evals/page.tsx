@@ -0,0 +1,23 @@
+import AppLayout from '@/components/AppLayout'
+import { getServerProfile } from '@/lib/auth-server'
+import EvalRunsClient from './EvalRunsClient'
+import EvalQuestionsClient from './EvalQuestionsClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function EvalsPage() {
+  const profile = await getServerProfile()
+
+  return (
+    <AppLayout 
+      title="Evaluación de Respuestas" 
+      subtitle="Preguntas de prueba para detectar regresiones antes de cambiar instrucciones o catálogos"
+      showBackButton={true}
+      backHref="/admin"
+      profile={profile}
+    >
+      <EvalRunsClient />
+      <EvalQuestionsClient />
+    </AppLayout>
+  )
+}
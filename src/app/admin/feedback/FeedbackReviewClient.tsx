@@ -0,0 +1,228 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { formatDateTimeVE } from '@/lib/date-utils'
+import type { FeedbackQueueItem, FeedbackStatus } from '@/lib/message-feedback'
+
+const selectClass = 'px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+function FeedbackCard({ item, onUpdated }: { item: FeedbackQueueItem; onUpdated: (item: FeedbackQueueItem) => void }) {
+  const { showError, showSuccess } = useToast()
+  const [note, setNote] = useState(item.resolution_note ?? '')
+  const [saving, setSaving] = useState(false)
+
+  async function setStatus(status: FeedbackStatus) {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/feedback', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: item.id, status, resolution_note: note })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo actualizar la valoración')
+
+      onUpdated({ ...item, ...json.feedback })
+      showSuccess(status === 'resolved' ? 'Marcada como resuelta' : 'Reabierta')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo actualizar la valoración')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2 text-slate-700">
+          <span className="text-lg">{item.rating === 'down' ? '👎' : '👍'}</span>
+          <span className="font-medium">{item.user_email || 'Usuario desconocido'}</span>
+          <span className="text-slate-500">· {formatDateTimeVE(item.created_at)}</span>
+          {item.model && <span className="text-slate-500">· {item.model}</span>}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${item.status === 'resolved'
+          ? 'bg-emerald-100 text-emerald-800'
+          : 'bg-amber-100 text-amber-800'
+          }`}>
+          {item.status === 'resolved' ? 'Resuelta' : 'Pendiente'}
+        </span>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Pregunta</p>
+        <p className="text-sm text-slate-900 whitespace-pre-wrap">{item.question || '-'}</p>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Respuesta</p>
+        <div className="text-sm text-slate-800 whitespace-pre-wrap max-h-64 overflow-y-auto bg-slate-50 border border-slate-200 rounded p-3">
+          {item.answer}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Archivos usados</p>
+        {item.citations.length === 0 ? (
+          <p className="text-sm text-slate-500">Sin fuentes registradas.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {item.citations.map((citation, index) => (
+              <span
+                key={`${citation.price_list_id ?? citation.file_name}-${index}`}
+                title={citation.snippet || undefined}
+                className="px-2 py-0.5 rounded-full border border-emerald-200 bg-emerald-50 text-xs text-emerald-700"
+              >
+                {citation.file_name}
+                {citation.supplier_name && <span className="text-emerald-600"> · {citation.supplier_name}</span>}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(item.comment || item.correct_value) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Comentario</p>
+            <p className="text-sm text-slate-800 whitespace-pre-wrap">{item.comment || '-'}</p>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase text-slate-500 mb-1">Valor correcto</p>
+            <p className="text-sm font-medium text-slate-900 whitespace-pre-wrap">{item.correct_value || '-'}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 pt-3 border-t border-slate-100">
+        {item.status === 'open' ? (
+          <>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              placeholder="Nota de resolución (opcional)"
+              className={`flex-1 min-w-[16rem] ${selectClass}`}
+            />
+            <button
+              type="button"
+              onClick={() => setStatus('resolved')}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+            >
+              {saving ? 'Guardando...' : 'Marcar como resuelta'}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="flex-1 text-sm text-slate-600">
+              Resuelta {item.resolved_at && formatDateTimeVE(item.resolved_at)}
+              {item.resolution_note && <>: <span className="text-slate-800">{item.resolution_note}</span></>}
+            </p>
+            <button
+              type="button"
+              onClick={() => setStatus('open')}
+              disabled={saving}
+              className="px-4 py-2 border border-slate-300 text-slate-700 rounded disabled:opacity-60"
+            >
+              Reabrir
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Review queue of rated answers, negative and unresolved by default
+export default function FeedbackReviewClient() {
+  const { showError } = useToast()
+  const [rating, setRating] = useState('down')
+  const [status, setStatus] = useState('open')
+  const [page, setPage] = useState(1)
+  const [items, setItems] = useState<FeedbackQueueItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [pageSize, setPageSize] = useState(25)
+  const [loading, setLoading] = useState(false)
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/feedback?rating=${rating}&status=${status}&page=${page}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudieron cargar las valoraciones')
+      setItems(json.feedback || [])
+      setTotal(json.total || 0)
+      setPageSize(json.page_size || 25)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudieron cargar las valoraciones')
+    } finally {
+      setLoading(false)
+    }
+  }, [rating, status, page, showError])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  // Keep the card in place after resolving; it leaves the list on the next load
+  const onUpdated = (updated: FeedbackQueueItem) =>
+    setItems(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Valoración</label>
+          <select value={rating} onChange={(e) => { setRating(e.target.value); setPage(1) }} className={selectClass}>
+            <option value="down">👎 Negativas</option>
+            <option value="up">👍 Positivas</option>
+            <option value="all">Todas</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1 text-slate-800">Estado</label>
+          <select value={status} onChange={(e) => { setStatus(e.target.value); setPage(1) }} className={selectClass}>
+            <option value="open">Pendientes</option>
+            <option value="resolved">Resueltas</option>
+            <option value="all">Todas</option>
+          </select>
+        </div>
+        <span className="text-sm text-slate-600 pb-2">{total} valoraciones</span>
+      </div>
+
+      {loading ? (
+        <span className="text-slate-600">Cargando...</span>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-slate-500">No hay valoraciones con estos filtros.</p>
+      ) : (
+        items.map(item => <FeedbackCard key={item.id} item={item} onUpdated={onUpdated} />)
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1 border border-slate-300 rounded disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span className="text-slate-600">Página {page} de {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= totalPages || loading}
+            className="px-3 py-1 border border-slate-300 rounded disabled:opacity-50"
+          >
+            Siguiente
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import AppLayout from '@/components/AppLayout'
+import { getServerProfile } from '@/lib/auth-server'
+import FeedbackReviewClient from './FeedbackReviewClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function FeedbackPage() {
+  const profile = await getServerProfile()
+
+  return (
+    <AppLayout 
+      title="Valoraciones" 
+      subtitle="Revisa las respuestas que los usuarios marcaron como incorrectas"
+      showBackButton={true}
+      backHref="/admin"
+      profile={profile}
+    >
+      <FeedbackReviewClient />
+    </AppLayout>
+  )
+}
@@ -4,6 +4,9 @@ import { useState, useEffect, useRef } from 'react'
 import { formatDateVE } from '@/lib/date-utils'
 import { useToast } from '@/contexts/ToastContext'
 import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { ACCEPTED_FILE_EXTENSIONS, SUPPORTED_FILE_LABELS, getFileTypeByName } from '@/lib/file-types'
+import type { ManageFileBody } from '@/lib/api-schemas'
+import VectorStoreCleanupClient from './VectorStoreCleanupClient'
 
 interface PriceList {
   id: string
@@ -12,6 +15,10 @@ interface PriceList {
   storage_path: string
   openai_file_id: string | null
   openai_vector_file_id: string | null
+  mime_type: string | null
+  extraction_status: string | null
+  extracted_items_count: number | null
+  extraction_error: string | null
   is_active: boolean
   uploaded_at: string
 }
@@ -27,6 +34,56 @@ interface VectorStoreStatus {
   health_status: string
 }
 
+interface IngestionJob {
+  id: string
+  price_list_id: string
+  job_type: 'upload' | 'activate' | 'deactivate'
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+}
+
+const JOB_POLL_INTERVAL_MS = 3000
+
+const isJobActive = (job?: IngestionJob) => job?.status === 'pending' || job?.status === 'running'
+
+const JOB_LABELS: Record<IngestionJob['job_type'], { running: string; failed: string }> = {
+  upload: { running: 'Subiendo a OpenAI', failed: 'Error al subir' },
+  activate: { running: 'Indexando', failed: 'Error al indexar' },
+  deactivate: { running: 'Desactivando', failed: 'Error al desactivar' },
+}
+
+// Background ingestion job state (queued, running, retrying or failed)
+function IngestionJobBadge({ job }: { job?: IngestionJob }) {
+  if (!job || job.status === 'completed') return null
+
+  const labels = JOB_LABELS[job.job_type]
+
+  if (job.status === 'failed') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-red-100 text-red-800" title={job.last_error || undefined}>
+        ⚠️ {labels.failed}
+      </span>
+    )
+  }
+
+  if (job.status === 'pending' && job.attempts > 0) {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-yellow-100 text-yellow-800" title={job.last_error || undefined}>
+        🔁 Reintentando ({job.attempts}/{job.max_attempts})
+      </span>
+    )
+  }
+
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-blue-100 text-blue-800">
+      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-800 mr-1"></div>
+      {job.status === 'running' ? labels.running : `En cola: ${labels.running.toLowerCase()}`}
+    </span>
+  )
+}
+
 interface VectorStoreStatusBadgeProps {
   priceListId: string
   vectorStatus: Record<string, VectorStoreStatus>
@@ -137,11 +194,15 @@ export default function FilesManagementClient() {
   const [vectorStatus, setVectorStatus] = useState<Record<string, VectorStoreStatus>>({})
   const [statusLoading, setStatusLoading] = useState(false)
   const [syncing, setSyncing] = useState(false)
+  const [reconciling, setReconciling] = useState(false)
   const [isDragging, setIsDragging] = useState(false)
   const [togglingFiles, setTogglingFiles] = useState<Set<string>>(new Set())
+  const [jobs, setJobs] = useState<Record<string, IngestionJob>>({})
   const fileInputRef = useRef<HTMLInputElement>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const jobsTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const activeJobIdsRef = useRef<Set<string>>(new Set())
 
   // Helper function to check if any files are still processing
   const hasProcessingFiles = (statusMap: Record<string, VectorStoreStatus>) => {
@@ -173,15 +234,56 @@ export default function FilesManagementClient() {
   useEffect(() => {
     fetchFiles()
     fetchVectorStoreStatus()
+    fetchJobs()
     
     // Cleanup interval on unmount
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current)
       }
+      if (jobsTimeoutRef.current) {
+        clearTimeout(jobsTimeoutRef.current)
+      }
     }
   }, [])
 
+  // Poll ingestion jobs while any is queued or running; refresh the list when one finishes
+  const fetchJobs = async () => {
+    if (jobsTimeoutRef.current) {
+      clearTimeout(jobsTimeoutRef.current)
+      jobsTimeoutRef.current = null
+    }
+
+    try {
+      const response = await fetch(`/api/admin/ingestion-jobs?ts=${Date.now()}`, { cache: 'no-store' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch ingestion jobs')
+      }
+
+      const data = await response.json()
+      const jobMap: Record<string, IngestionJob> = {}
+      data.jobs.forEach((job: IngestionJob) => {
+        jobMap[job.price_list_id] = job
+      })
+      setJobs(jobMap)
+
+      const activeIds = new Set(Object.values(jobMap).filter(isJobActive).map(job => job.id))
+      const finished = Array.from(activeJobIdsRef.current).some(id => !activeIds.has(id))
+      activeJobIdsRef.current = activeIds
+
+      if (finished) {
+        await fetchFiles()
+        await fetchVectorStoreStatus()
+      }
+
+      if (activeIds.size > 0) {
+        jobsTimeoutRef.current = setTimeout(fetchJobs, JOB_POLL_INTERVAL_MS)
+      }
+    } catch (error) {
+      console.error('Error fetching ingestion jobs:', error)
+    }
+  }
+
   const fetchFiles = async () => {
     try {
       const response = await fetch('/api/admin/files')
@@ -234,11 +336,12 @@ export default function FilesManagementClient() {
   // Process files (used by both input and drag & drop)
   const processFiles = async (fileList: FileList | File[]) => {
     const filesArray = Array.from(fileList)
-    const pdfFiles = filesArray.filter(f => f.type === 'application/pdf')
-    const skipped = filesArray.length - pdfFiles.length
+    // Server validates magic bytes; here we only filter by extension
+    const supportedFiles = filesArray.filter(f => getFileTypeByName(f.name) !== null)
+    const skipped = filesArray.length - supportedFiles.length
 
-    if (pdfFiles.length === 0) {
-      showWarning('Por favor selecciona archivos PDF')
+    if (supportedFiles.length === 0) {
+      showWarning(`Por favor selecciona archivos compatibles (${SUPPORTED_FILE_LABELS})`)
       return
     }
 
@@ -248,14 +351,14 @@ export default function FilesManagementClient() {
     const errors: string[] = []
 
     try {
-      console.log(`Uploading ${pdfFiles.length} PDF(s) directly to OpenAI for ultra-fast processing...`)
+      console.log(`Uploading ${supportedFiles.length} file(s) directly to OpenAI for ultra-fast processing...`)
       
-      for (const file of pdfFiles) {
+      for (const file of supportedFiles) {
         const formData = new FormData()
         formData.append('file', file)
         formData.append('supplier_name', '') // Can be enhanced with supplier input
 
-        const response = await fetch('/api/openai/upload-pdf', {
+        const response = await fetch('/api/openai/upload-file', {
           method: 'POST',
           body: formData,
         })
@@ -286,7 +389,7 @@ export default function FilesManagementClient() {
 
       const parts: string[] = []
       if (successCount > 0) parts.push(`¡${successCount} archivo(s) subido(s) exitosamente a OpenAI!`)
-      if (skipped > 0) parts.push(`${skipped} archivo(s) no eran PDF y fueron ignorados.`)
+      if (skipped > 0) parts.push(`${skipped} archivo(s) con formato no compatible fueron ignorados.`)
       if (errors.length > 0) parts.push(`Errores:\n- ${errors.join('\n- ')}`)
       
       if (errors.length > 0) {
@@ -353,15 +456,16 @@ export default function FilesManagementClient() {
       console.log(`${currentStatus ? 'Deactivating' : 'Activating'} file with vector store management...`)
       
       // Use OpenAI management API for vector store handling
+      const body: ManageFileBody = {
+        action: 'toggle_active',
+        priceListId: id,
+      }
       const response = await fetch('/api/openai/manage-file', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          action: 'toggle_active',
-          priceListId: id,
-        }),
+        body: JSON.stringify(body),
       })
 
       // Try to parse JSON; gracefully handle HTML/redirect responses
@@ -398,17 +502,17 @@ export default function FilesManagementClient() {
 
       // Update local state
       setFiles(files.map(file => 
-        file.id === id ? { 
-          ...file, 
-          is_active: result.is_active,
-          openai_vector_file_id: result.vector_store_id || file.openai_vector_file_id
-        } : file
+        file.id === id ? { ...file, is_active: result.is_active } : file
       ))
 
-      // Refresh vector store status since file activation may trigger processing
-      await fetchVectorStoreStatus()
+      // Indexing/removal runs as a background job; poll it until it finishes
+      await fetchJobs()
 
-      showSuccess(`¡Archivo ${result.is_active ? 'activado' : 'desactivado'} exitosamente! Tiempo de procesamiento: ${result.processing_time_ms}ms`)
+      if (currentStatus) {
+        showSuccess('¡Archivo desactivado exitosamente!')
+      } else {
+        showInfo('Activación en cola: el archivo se activará cuando termine la indexación.')
+      }
     } catch (error: any) {
       console.error('Error toggling file status:', error)
       showError(`Error al actualizar archivo: ${error.message}`)
@@ -435,15 +539,16 @@ export default function FilesManagementClient() {
       console.log('Initiating complete file deletion from all systems...')
       
       // Use comprehensive deletion API
+      const body: ManageFileBody = {
+        action: 'delete_complete',
+        priceListId: id,
+      }
       const response = await fetch('/api/openai/manage-file', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          action: 'delete_complete',
-          priceListId: id,
-        }),
+        body: JSON.stringify(body),
       })
 
       if (!response.ok) {
@@ -482,14 +587,15 @@ export default function FilesManagementClient() {
     try {
       console.log('Iniciando sincronización del Master Vector Store...')
       
+      const body: ManageFileBody = {
+        action: 'sync_master_store',
+      }
       const response = await fetch('/api/openai/manage-file', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          action: 'sync_master_store',
-        }),
+        body: JSON.stringify(body),
       })
 
       if (!response.ok) {
@@ -512,6 +618,35 @@ export default function FilesManagementClient() {
     }
   }
 
+  const reconcileVectorStores = async () => {
+    setReconciling(true)
+
+    try {
+      const response = await fetch('/api/admin/vector-stores', { method: 'POST' })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error)
+      }
+
+      const { drift } = await response.json()
+      const changes = drift.missing.length + drift.status_changed.length + drift.file_mismatches.length + drift.adopted.length
+
+      if (changes === 0 && drift.untracked.length === 0) {
+        showSuccess(`Registro verificado: ${drift.checked} vector stores coinciden con OpenAI.`)
+      } else {
+        showWarning(`Registro actualizado:\n\nEliminados en OpenAI: ${drift.missing.length}\nCambios de estado: ${drift.status_changed.length}\nArchivos desincronizados: ${drift.file_mismatches.length}\nNo registrados: ${drift.untracked.length} (${drift.adopted.length} incorporados)`)
+      }
+
+      await fetchVectorStoreStatus()
+    } catch (error) {
+      console.error('Error reconciling vector stores:', error)
+      showError(`Error al verificar el registro: ${error instanceof Error ? error.message : 'Error desconocido'}`)
+    } finally {
+      setReconciling(false)
+    }
+  }
+
   const filteredFiles = files.filter(file =>
     file.file_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (file.supplier_name && file.supplier_name.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -537,7 +672,7 @@ export default function FilesManagementClient() {
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Upload Section */}
       <div className="bg-white p-6 rounded-lg shadow mb-8">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Subir PDF</h2>
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Subir Archivos</h2>
         <div
           ref={dropZoneRef}
           onDragEnter={handleDragEnter}
@@ -553,7 +688,7 @@ export default function FilesManagementClient() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf"
+            accept={ACCEPTED_FILE_EXTENSIONS}
             multiple
             onChange={handleFileUpload}
             disabled={uploading}
@@ -581,7 +716,7 @@ export default function FilesManagementClient() {
                   />
                 </svg>
                 <p className="text-lg font-semibold text-blue-600 mb-2">Suelta los archivos aquí</p>
-                <p className="text-sm text-gray-600">Suelta los archivos PDF para subirlos</p>
+                <p className="text-sm text-gray-600">Suelta los archivos para subirlos</p>
               </>
             ) : (
               <>
@@ -599,7 +734,7 @@ export default function FilesManagementClient() {
                   />
                 </svg>
                 <p className="text-lg font-semibold text-gray-700 mb-2">
-                  Arrastra y suelta archivos PDF aquí
+                  Arrastra y suelta archivos aquí
                 </p>
                 <p className="text-sm text-gray-500 mb-4">o</p>
                 <button
@@ -609,7 +744,7 @@ export default function FilesManagementClient() {
                 >
                   Seleccionar archivos
                 </button>
-                <p className="text-xs text-gray-400 mt-4">Solo archivos PDF</p>
+                <p className="text-xs text-gray-400 mt-4">Formatos: {SUPPORTED_FILE_LABELS}</p>
               </>
             )}
           </div>
@@ -636,12 +771,21 @@ export default function FilesManagementClient() {
               </>
             )}
           </button>
+          <button
+            onClick={reconcileVectorStores}
+            disabled={reconciling}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {reconciling ? 'Verificando...' : '🔎 Verificar registro'}
+          </button>
           <p className="text-sm text-gray-600">
             Sincroniza todos los archivos activos con el Master Vector Store para asegurar consistencia
           </p>
         </div>
       </div>
 
+      <VectorStoreCleanupClient />
+
       {/* Search */}
       <div className="mb-6">
         <input
@@ -679,6 +823,9 @@ export default function FilesManagementClient() {
                         Subido {formatDateVE(file.uploaded_at)}
                       </p>
                       <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-slate-100 text-slate-700" title={file.mime_type || undefined}>
+                          {getFileTypeByName(file.file_name)?.label || 'PDF'}
+                        </span>
                         <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${
                           file.openai_file_id 
                             ? 'bg-green-100 text-green-800' 
@@ -687,6 +834,22 @@ export default function FilesManagementClient() {
                           <span className="hidden sm:inline">{file.openai_file_id ? '✓ OpenAI Listo' : '⏳ Procesando'}</span>
                           <span className="sm:hidden">{file.openai_file_id ? '✓ Listo' : '⏳'}</span>
                         </span>
+                        {file.extraction_status === 'completed' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-indigo-100 text-indigo-800">
+                            💲 {file.extracted_items_count ?? 0} precios
+                          </span>
+                        )}
+                        {file.extraction_status === 'processing' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-yellow-100 text-yellow-800">
+                            ⏳ Extrayendo precios
+                          </span>
+                        )}
+                        {file.extraction_status === 'failed' && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 bg-red-100 text-red-800" title={file.extraction_error || undefined}>
+                            ⚠️ Sin tabla de precios
+                          </span>
+                        )}
+                        <IngestionJobBadge job={jobs[file.id]} />
                         {file.openai_vector_file_id && (
                           <VectorStoreStatusBadge 
                             priceListId={file.id}
@@ -703,14 +866,14 @@ export default function FilesManagementClient() {
                   <div className="flex flex-wrap items-center gap-2 sm:space-x-2 sm:flex-nowrap">
                     <button
                       onClick={() => toggleFileStatus(file.id, file.is_active)}
-                      disabled={togglingFiles.has(file.id)}
+                      disabled={togglingFiles.has(file.id) || isJobActive(jobs[file.id])}
                       className={`inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs font-medium flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed ${
                         file.is_active
                           ? 'bg-green-100 text-green-800 hover:bg-green-200'
                           : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
                       }`}
                     >
-                      {togglingFiles.has(file.id) ? (
+                      {togglingFiles.has(file.id) || isJobActive(jobs[file.id]) ? (
                         <>
                           <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-current mr-1"></div>
                           <span className="hidden sm:inline">Procesando...</span>
@@ -0,0 +1,204 @@
+'use client'
+
+import { useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { formatDateVE } from '@/lib/date-utils'
+import type { GarbageReport, GarbageCollectionResult, OrphanedFile, OrphanedStore } from '@/lib/vector-store-gc'
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`
+
+const KIND_LABELS: Record<string, string> = {
+  master: 'Maestro (legado)',
+  temp: 'Temporal',
+  individual: 'Individual (legado)',
+}
+
+function StoresTable({ stores }: { stores: OrphanedStore[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border border-gray-200">
+        <thead className="bg-gray-50 text-gray-700">
+          <tr>
+            <th className="px-3 py-2 text-left font-semibold">Vector store</th>
+            <th className="px-3 py-2 text-left font-semibold">Tipo</th>
+            <th className="px-3 py-2 text-left font-semibold">Último uso</th>
+            <th className="px-3 py-2 text-right font-semibold">Tamaño</th>
+            <th className="px-3 py-2 text-left font-semibold">Motivo</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stores.map(store => (
+            <tr key={store.id} className="border-t border-gray-200">
+              <td className="px-3 py-2 text-gray-800">
+                {store.name || '-'}
+                <div className="text-xs font-mono text-gray-500">{store.id}</div>
+              </td>
+              <td className="px-3 py-2 text-gray-600">{KIND_LABELS[store.kind] || store.kind}</td>
+              <td className="px-3 py-2 text-gray-600">{formatDateVE(store.last_active_at)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatBytes(store.usage_bytes)}</td>
+              <td className="px-3 py-2 text-gray-600">{store.reason}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function FilesTable({ files }: { files: OrphanedFile[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border border-gray-200">
+        <thead className="bg-gray-50 text-gray-700">
+          <tr>
+            <th className="px-3 py-2 text-left font-semibold">Archivo de OpenAI</th>
+            <th className="px-3 py-2 text-left font-semibold">Subido</th>
+            <th className="px-3 py-2 text-right font-semibold">Tamaño</th>
+          </tr>
+        </thead>
+        <tbody>
+          {files.map(file => (
+            <tr key={file.id} className="border-t border-gray-200">
+              <td className="px-3 py-2 text-gray-800">
+                {file.filename}
+                <div className="text-xs font-mono text-gray-500">{file.id}</div>
+              </td>
+              <td className="px-3 py-2 text-gray-600">{formatDateVE(file.created_at)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatBytes(file.bytes)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// Dry-run report of orphaned vector stores/files, then deletion on confirmation
+export default function VectorStoreCleanupClient() {
+  const { showError, showSuccess, showWarning } = useToast()
+  const { confirmDanger } = useConfirmation()
+  const [report, setReport] = useState<GarbageReport | null>(null)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  // Untracked stores from older versions are only deleted when ticked
+  const [includeLegacy, setIncludeLegacy] = useState(false)
+
+  async function onAnalyze() {
+    setAnalyzing(true)
+    try {
+      const res = await fetch('/api/admin/vector-store-gc', { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.details || json.error || 'No se pudo analizar')
+      setReport(json.report)
+      setIncludeLegacy(false)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo analizar')
+    } finally {
+      setAnalyzing(false)
+    }
+  }
+
+  async function onDelete() {
+    if (!report) return
+    const confirmed = await confirmDanger(
+      'Eliminar recursos huérfanos',
+      `¿Eliminar ${storeCount} vector store(s) y ${fileCount} archivo(s) de OpenAI? Esta acción no se puede deshacer.`
+    )
+    if (!confirmed) return
+
+    setDeleting(true)
+    try {
+      const res = await fetch('/api/admin/vector-store-gc', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retention_days: report.retention_days, include_legacy: includeLegacy })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.details || json.error || 'No se pudo completar la limpieza')
+
+      const result: GarbageCollectionResult = json.result
+      const summary = `${result.deleted_stores.length} vector store(s) y ${result.deleted_files.length} archivo(s) eliminados`
+      if (result.errors.length > 0) {
+        showWarning(`${summary}. ${result.errors.length} no se pudieron eliminar.`)
+      } else {
+        showSuccess(summary)
+      }
+      setReport(null)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo completar la limpieza')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const hasLegacy = !!report && (report.legacy_stores.length > 0 || report.legacy_files.length > 0)
+  const hasOrphans = !!report && (report.stores.length > 0 || report.files.length > 0 || hasLegacy)
+  const storeCount = report ? report.stores.length + (includeLegacy ? report.legacy_stores.length : 0) : 0
+  const fileCount = report ? report.files.length + (includeLegacy ? report.legacy_files.length : 0) : 0
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">Limpieza de vector stores</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Busca vector stores temporales y legados que ninguna lista de precios usa y que no se han consultado recientemente, y archivos de OpenAI sin lista de precios.
+      </p>
+
+      <div className="flex items-center space-x-4 mb-4">
+        <button
+          onClick={onAnalyze}
+          disabled={analyzing || deleting}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {analyzing ? 'Analizando...' : '🔍 Analizar (sin eliminar)'}
+        </button>
+        {report && storeCount + fileCount > 0 && (
+          <button
+            onClick={onDelete}
+            disabled={deleting}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {deleting ? 'Eliminando...' : `🧹 Eliminar ${storeCount + fileCount} recurso(s)`}
+          </button>
+        )}
+      </div>
+
+      {report && !hasOrphans && (
+        <p className="text-sm text-emerald-700">No hay recursos huérfanos (sin uso en los últimos {report.retention_days} días).</p>
+      )}
+
+      {report && hasOrphans && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Espacio a liberar: <span className="font-medium">{formatBytes(report.total_bytes)}</span> · Sin uso desde antes del {formatDateVE(report.cutoff)}
+          </p>
+
+          {report.stores.length > 0 && <StoresTable stores={report.stores} />}
+          {report.files.length > 0 && <FilesTable files={report.files} />}
+
+          {hasLegacy && (
+            <div className="space-y-4 border-t border-gray-200 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900">Recursos legados sin registrar</h3>
+              <p className="text-sm text-gray-600">
+                Vector stores creados por versiones anteriores al registro (temporales, individuales y el maestro único) y sus archivos. Otro despliegue que comparta el proyecto de OpenAI usa los mismos nombres: revise la lista antes de incluirlos ({formatBytes(report.legacy_bytes)}).
+              </p>
+              {report.legacy_stores.length > 0 && <StoresTable stores={report.legacy_stores} />}
+              {report.legacy_files.length > 0 && <FilesTable files={report.legacy_files} />}
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeLegacy}
+                  onChange={e => setIncludeLegacy(e.target.checked)}
+                  disabled={deleting}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <span>Incluir los recursos legados en la limpieza</span>
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
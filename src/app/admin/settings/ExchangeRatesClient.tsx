@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { formatDateVE } from '@/lib/date-utils'
+import type { ExchangeRate } from '@/lib/currency'
+
+const formatRate = (rate: number) =>
+  Number(rate).toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 6 })
+
+// Dates are calendar days; parse at noon so the local timezone never shifts them
+const formatDay = (day: string) => formatDateVE(`${day}T12:00:00`)
+
+const today = () => new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Caracas' }).format(new Date())
+
+// Admin-managed USD/VES rate history used to convert catalog prices
+export default function ExchangeRatesClient() {
+  const { showError, showSuccess } = useToast()
+  const { confirmDanger } = useConfirmation()
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [rate, setRate] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState(today)
+  const [source, setSource] = useState('BCV')
+
+  useEffect(() => {
+    let mounted = true
+    async function fetchRates() {
+      setLoading(true)
+      try {
+        const res = await fetch('/api/admin/exchange-rates', { cache: 'no-store' })
+        const json = await res.json()
+        if (!res.ok) throw new Error(json.error || 'No se pudieron cargar las tasas')
+        if (mounted) setRates(json.rates || [])
+      } catch (error) {
+        if (mounted) showError(error instanceof Error ? error.message : 'No se pudieron cargar las tasas')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    fetchRates()
+    return () => { mounted = false }
+  }, [showError])
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rate: Number(rate.replace(',', '.')), effective_date: effectiveDate, source })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo guardar la tasa')
+
+      setRates(prev => [json.rate, ...prev.filter(r => r.effective_date !== json.rate.effective_date)]
+        .sort((a, b) => b.effective_date.localeCompare(a.effective_date)))
+      setRate('')
+      showSuccess('Tasa de cambio guardada')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo guardar la tasa')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function onDelete(exchangeRate: ExchangeRate) {
+    const confirmed = await confirmDanger(
+      'Eliminar tasa',
+      `¿Eliminar la tasa del ${formatDay(exchangeRate.effective_date)}? Los catálogos de esa fecha usarán la tasa anterior.`
+    )
+    if (!confirmed) return
+
+    try {
+      const res = await fetch(`/api/admin/exchange-rates?id=${exchangeRate.id}`, { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo eliminar la tasa')
+      setRates(prev => prev.filter(r => r.id !== exchangeRate.id))
+      showSuccess('Tasa eliminada')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo eliminar la tasa')
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 pb-6">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-2 text-slate-900">Tasa de cambio USD/VES</h2>
+        <p className="text-sm text-slate-700 mb-6">
+          Los precios se convierten con la tasa vigente en la fecha de carga de cada catálogo (la última registrada en o antes de esa fecha).
+        </p>
+
+        <form onSubmit={onSave} className="flex flex-wrap items-end gap-3 mb-6">
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Bs por USD</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              required
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="36,50"
+              className="w-36 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Vigente desde</label>
+            <input
+              type="date"
+              required
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Fuente</label>
+            <input
+              type="text"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="w-36 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+          >
+            {saving ? 'Guardando...' : 'Registrar tasa'}
+          </button>
+        </form>
+
+        {loading ? (
+          <span className="text-slate-600">Cargando...</span>
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-slate-500">No hay tasas registradas. Los precios se mostrarán sin conversión.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Vigente desde</th>
+                  <th className="px-3 py-2 text-right font-semibold">Bs por USD</th>
+                  <th className="px-3 py-2 text-left font-semibold">Fuente</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((exchangeRate, index) => (
+                  <tr key={exchangeRate.id} className="border-t border-slate-200">
+                    <td className="px-3 py-2 text-slate-800">
+                      {formatDay(exchangeRate.effective_date)}
+                      {index === 0 && <span className="ml-2 text-xs text-emerald-700">(más reciente)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-900">{formatRate(exchangeRate.rate)}</td>
+                    <td className="px-3 py-2 text-slate-600">{exchangeRate.source || '-'}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onDelete(exchangeRate)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { formatDateTimeVE } from '@/lib/date-utils'
+import { diffLines, diffStats } from '@/lib/text-diff'
+import type { InstructionVersionWithAuthor } from '@/lib/instruction-versions'
+
+interface InstructionHistoryProps {
+  // Bumped by the settings form after a save so the list reloads
+  refreshKey: number
+  onRestored: (instructions: string | null) => void
+}
+
+const DIFF_STYLES = {
+  equal: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+}
+
+const DIFF_PREFIX = { equal: ' ', added: '+', removed: '-' }
+
+// Versions of the system instructions with a diff against the previous one and rollback
+export default function InstructionHistory({ refreshKey, onRestored }: InstructionHistoryProps) {
+  const { showError, showSuccess } = useToast()
+  const { confirmWarning } = useConfirmation()
+  const [versions, setVersions] = useState<InstructionVersionWithAuthor[]>([])
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let mounted = true
+    async function fetchVersions() {
+      setLoading(true)
+      try {
+        const res = await fetch('/api/admin/settings/versions', { cache: 'no-store' })
+        const json = await res.json()
+        if (!res.ok) throw new Error(json.error || 'No se pudo cargar el historial')
+        if (mounted) {
+          setVersions(json.versions || [])
+          setCurrentVersion(json.current_version ?? null)
+          setSelected(json.versions?.[0]?.version ?? null)
+        }
+      } catch (error) {
+        if (mounted) showError(error instanceof Error ? error.message : 'No se pudo cargar el historial')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    fetchVersions()
+    return () => { mounted = false }
+  }, [refreshKey, reloadKey, showError])
+
+  // Versions are listed latest first, so the previous one is the next entry
+  const selectedIndex = versions.findIndex(v => v.version === selected)
+  const selectedVersion = selectedIndex >= 0 ? versions[selectedIndex] : null
+  const previousVersion = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null
+
+  const diff = useMemo(
+    () => (selectedVersion ? diffLines(previousVersion?.system_instructions, selectedVersion.system_instructions) : []),
+    [selectedVersion, previousVersion]
+  )
+  const stats = diffStats(diff)
+
+  async function onRestore(version: InstructionVersionWithAuthor) {
+    const confirmed = await confirmWarning(
+      'Restaurar instrucciones',
+      `¿Restaurar la versión ${version.version}? Se guardará como una nueva versión y se aplicará desde la siguiente consulta.`
+    )
+    if (!confirmed) return
+
+    setRestoring(true)
+    try {
+      const res = await fetch('/api/admin/settings/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: version.version })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo restaurar la versión')
+
+      onRestored(json.version.system_instructions)
+      setReloadKey(key => key + 1)
+      showSuccess(`Versión ${version.version} restaurada como versión ${json.version.version}`)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo restaurar la versión')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 pb-6">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-2 text-slate-900">Historial de instrucciones</h2>
+        <p className="text-sm text-slate-700 mb-6">
+          Cada cambio de las instrucciones se guarda como una versión. Selecciona una para ver qué cambió respecto a la anterior.
+        </p>
+
+        {loading && versions.length === 0 ? (
+          <span className="text-slate-600">Cargando...</span>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-slate-500">Todavía no hay versiones guardadas.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {versions.map(version => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(version.version)}
+                    className={`w-full text-left px-3 py-2 rounded-md border text-sm transition-colors ${version.version === selected
+                      ? 'border-indigo-300 bg-indigo-50'
+                      : 'border-slate-200 hover:bg-slate-50'
+                      }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-slate-900">Versión {version.version}</span>
+                      {version.version === currentVersion && (
+                        <span className="px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-800 text-xs font-medium">Actual</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-600 mt-1">
+                      {formatDateTimeVE(version.created_at)} · {version.created_by_email || 'Desconocido'}
+                    </div>
+                    {version.note && <div className="text-xs text-slate-700 mt-1 truncate" title={version.note}>{version.note}</div>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="lg:col-span-2">
+              {selectedVersion && (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                    <div className="text-sm text-slate-700">
+                      {previousVersion ? `Cambios respecto a la versión ${previousVersion.version}` : 'Primera versión'}
+                      <span className="ml-2 text-emerald-700">+{stats.added}</span>
+                      <span className="ml-1 text-red-700">-{stats.removed}</span>
+                    </div>
+                    {selectedVersion.version !== currentVersion && (
+                      <button
+                        type="button"
+                        onClick={() => onRestore(selectedVersion)}
+                        disabled={restoring}
+                        className="px-4 py-2 bg-blue-600 text-white rounded text-sm disabled:opacity-60"
+                      >
+                        {restoring ? 'Restaurando...' : `Restaurar versión ${selectedVersion.version}`}
+                      </button>
+                    )}
+                  </div>
+                  {selectedVersion.system_instructions === null && (
+                    <p className="text-sm text-slate-500 mb-2">Esta versión usa las instrucciones predeterminadas.</p>
+                  )}
+                  <pre className="max-h-[28rem] overflow-auto border border-slate-200 rounded-md text-xs font-mono whitespace-pre-wrap">
+                    {diff.map((line, index) => (
+                      <div key={index} className={`px-3 ${DIFF_STYLES[line.type]}`}>
+                        {DIFF_PREFIX[line.type]} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
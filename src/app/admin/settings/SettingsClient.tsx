@@ -1,11 +1,28 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import {
+  ALLOWED_MODELS,
+  DEFAULT_MODEL,
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  TEMPERATURE_RANGE,
+  MAX_OUTPUT_TOKENS_RANGE,
+} from '@/lib/model-settings'
+import { appSettingsSchema, MAX_VERSION_NOTE_LENGTH } from '@/lib/api-schemas'
+import InstructionHistory from './InstructionHistory'
 
 export default function SettingsClient() {
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [instructions, setInstructions] = useState<string>('')
+  // Optional note stored with the instructions version created on save
+  const [note, setNote] = useState<string>('')
+  const [historyKey, setHistoryKey] = useState(0)
+  // Blank fields mean "use the default"
+  const [model, setModel] = useState<string>('')
+  const [temperature, setTemperature] = useState<string>('')
+  const [maxOutputTokens, setMaxOutputTokens] = useState<string>('')
   const [message, setMessage] = useState<string>('')
 
   useEffect(() => {
@@ -17,7 +34,12 @@ export default function SettingsClient() {
         const res = await fetch('/api/admin/settings', { cache: 'no-store' })
         const json = await res.json()
         if (!res.ok) throw new Error(json.error || 'Failed to load settings')
-        if (mounted) setInstructions(json.settings?.system_instructions || '')
+        if (mounted) {
+          setInstructions(json.settings?.system_instructions || '')
+          setModel(json.settings?.model || '')
+          setTemperature(json.settings?.temperature != null ? String(json.settings.temperature) : '')
+          setMaxOutputTokens(json.settings?.max_output_tokens != null ? String(json.settings.max_output_tokens) : '')
+        }
       } catch (e: any) {
         if (mounted) setMessage(e.message || 'Error loading settings')
       } finally {
@@ -29,17 +51,33 @@ export default function SettingsClient() {
   }, [])
 
   async function onSave() {
+    const body = {
+      system_instructions: instructions || null,
+      note,
+      model,
+      temperature: temperature.replace(',', '.'),
+      max_output_tokens: maxOutputTokens,
+    }
+    const { errors } = appSettingsSchema.parse(body)
+    if (errors) {
+      const [field, error] = Object.entries(errors)[0]
+      setMessage(`Valor inválido: ${field} ${error}`)
+      return
+    }
+
     setSaving(true)
     setMessage('')
     try {
       const res = await fetch('/api/admin/settings', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ system_instructions: instructions || null })
+        body: JSON.stringify(body)
       })
       const json = await res.json()
       if (!res.ok) throw new Error(json.error || 'Failed to save settings')
       setMessage('Settings saved')
+      setNote('')
+      setHistoryKey(key => key + 1)
     } catch (e: any) {
       setMessage(e.message || 'Error saving settings')
     } finally {
@@ -48,31 +86,87 @@ export default function SettingsClient() {
   }
 
   return (
-    <div className="max-w-6xl mx-auto p-6">
-      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
-        <h1 className="text-2xl font-semibold mb-2 text-slate-900">Configuración del Sistema</h1>
-        <p className="text-sm text-slate-700 mb-6">Define las instrucciones del sistema para guiar al asistente. Deje en blanco para usar las instrucciones predeterminadas.</p>
-        <div>
-          <label className="block text-sm font-medium mb-2 text-slate-800">Instrucciones del Sistema</label>
-          <textarea
-            className="w-full h-128 p-3 border border-slate-300 rounded-md font-mono text-sm bg-white text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-          value={instructions}
-          onChange={(e) => setInstructions(e.target.value)}
-            placeholder="Ingrese las instrucciones del sistema para guiar al asistente..."
-          />
-        </div>
-        <div className="mt-4 flex items-center gap-3">
-          <button
-            onClick={onSave}
-            disabled={saving}
-            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
-          >
-            {saving ? 'Guardando...' : 'Guardar'}
-          </button>
-          {loading && <span className="text-slate-600">Cargando...</span>}
-          {message && <span className="text-slate-800">{message}</span>}
+    <>
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+          <h1 className="text-2xl font-semibold mb-2 text-slate-900">Configuración del Sistema</h1>
+          <p className="text-sm text-slate-700 mb-6">Define las instrucciones del sistema para guiar al asistente. Deje en blanco para usar las instrucciones predeterminadas.</p>
+          <div>
+            <label className="block text-sm font-medium mb-2 text-slate-800">Instrucciones del Sistema</label>
+            <textarea
+              className="w-full h-128 p-3 border border-slate-300 rounded-md font-mono text-sm bg-white text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+              placeholder="Ingrese las instrucciones del sistema para guiar al asistente..."
+            />
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={MAX_VERSION_NOTE_LENGTH}
+              placeholder="Nota del cambio (opcional), ej: Agregar regla de moneda"
+              className="mt-2 w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="mt-6">
+            <h2 className="text-lg font-semibold mb-1 text-slate-900">Modelo</h2>
+            <p className="text-sm text-slate-700 mb-3">Se aplica desde la siguiente consulta. Deje un campo en blanco para usar el valor predeterminado.</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1 text-slate-800">Modelo</label>
+                <select
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Predeterminado ({DEFAULT_MODEL})</option>
+                  {ALLOWED_MODELS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-slate-800">Temperatura</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  placeholder={`${DEFAULT_TEMPERATURE.retrieval} / ${DEFAULT_TEMPERATURE.fallback}`}
+                  title={`Entre ${TEMPERATURE_RANGE.min} y ${TEMPERATURE_RANGE.max}. Predeterminado: ${DEFAULT_TEMPERATURE.retrieval} con búsqueda en archivos, ${DEFAULT_TEMPERATURE.fallback} sin ella`}
+                  className="w-32 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1 text-slate-800">Máx. tokens de respuesta</label>
+                <input
+                  type="number"
+                  min={MAX_OUTPUT_TOKENS_RANGE.min}
+                  max={MAX_OUTPUT_TOKENS_RANGE.max}
+                  step={1}
+                  value={maxOutputTokens}
+                  onChange={(e) => setMaxOutputTokens(e.target.value)}
+                  placeholder={String(DEFAULT_MAX_OUTPUT_TOKENS)}
+                  title={`Entre ${MAX_OUTPUT_TOKENS_RANGE.min} y ${MAX_OUTPUT_TOKENS_RANGE.max}. Aumente si las comparaciones largas se cortan.`}
+                  className="w-40 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+          </div>
+          <div className="mt-4 flex items-center gap-3">
+            <button
+              onClick={onSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </button>
+            {loading && <span className="text-slate-600">Cargando...</span>}
+            {message && <span className="text-slate-800">{message}</span>}
+          </div>
         </div>
       </div>
-    </div>
+      <InstructionHistory refreshKey={historyKey} onRestored={(restored) => setInstructions(restored || '')} />
+    </>
   )
 }
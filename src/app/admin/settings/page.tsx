@@ -1,6 +1,7 @@
 import AppLayout from '@/components/AppLayout'
 import { getServerProfile } from '@/lib/auth-server'
 import SettingsClient from './SettingsClient'
+import ExchangeRatesClient from './ExchangeRatesClient'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,12 +11,13 @@ export default async function SettingsPage() {
   return (
     <AppLayout 
       title="Configuración" 
-      subtitle="Instrucciones globales del sistema para el chat"
+      subtitle="Instrucciones globales del sistema, modelo y tasa de cambio"
       showBackButton={true}
       backHref="/admin"
       profile={profile}
     >
       <SettingsClient />
+      <ExchangeRatesClient />
     </AppLayout>
   )
 }
@@ -0,0 +1,226 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { QUOTA_LIMIT_KEYS, type QuotaLimitKey, type UsagePlan } from '@/lib/usage-quotas'
+
+type PlanWithUsers = UsagePlan & { users_count: number }
+
+export const QUOTA_LIMIT_LABELS: Record<QuotaLimitKey, string> = {
+  daily_token_limit: 'Tokens por día',
+  monthly_token_limit: 'Tokens por mes',
+  daily_request_limit: 'Consultas por día',
+  monthly_request_limit: 'Consultas por mes',
+}
+
+const EMPTY_FORM = {
+  name: '',
+  is_default: false,
+  daily_token_limit: '',
+  monthly_token_limit: '',
+  daily_request_limit: '',
+  monthly_request_limit: '',
+}
+
+export const formatLimit = (limit: number | null) =>
+  limit === null ? 'Ilimitado' : limit.toLocaleString('es-VE')
+
+// Admin-managed chat quota plans; users without a plan get the default one
+export default function UsagePlansClient() {
+  const { showError, showSuccess } = useToast()
+  const { confirmDanger } = useConfirmation()
+  const [plans, setPlans] = useState<PlanWithUsers[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const fetchPlans = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/admin/usage-plans', { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudieron cargar los planes')
+      setPlans(json.plans || [])
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudieron cargar los planes')
+    } finally {
+      setLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchPlans()
+  }, [fetchPlans])
+
+  function startEditing(plan: PlanWithUsers) {
+    setEditingId(plan.id)
+    setForm({
+      name: plan.name,
+      is_default: plan.is_default,
+      ...Object.fromEntries(QUOTA_LIMIT_KEYS.map(key => [key, plan[key] === null ? '' : String(plan[key])])) as Record<QuotaLimitKey, string>,
+    })
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/usage-plans', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, id: editingId ?? undefined })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo guardar el plan')
+
+      await fetchPlans()
+      resetForm()
+      showSuccess('Plan guardado')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo guardar el plan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function onDelete(plan: PlanWithUsers) {
+    const confirmed = await confirmDanger(
+      'Eliminar plan',
+      `¿Eliminar el plan "${plan.name}"? Sus ${plan.users_count} usuario(s) pasarán al plan por defecto.`
+    )
+    if (!confirmed) return
+
+    try {
+      const res = await fetch(`/api/admin/usage-plans?id=${plan.id}`, { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo eliminar el plan')
+      setPlans(prev => prev.filter(p => p.id !== plan.id))
+      if (editingId === plan.id) resetForm()
+      showSuccess('Plan eliminado')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo eliminar el plan')
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold mb-2 text-slate-900">Planes de uso del chat</h2>
+        <p className="text-sm text-slate-700 mb-6">
+          Límites diarios y mensuales de tokens y consultas (hora de Venezuela). Un campo vacío significa ilimitado.
+          Los usuarios sin plan asignado usan el plan por defecto.
+        </p>
+
+        <form onSubmit={onSave} className="flex flex-wrap items-end gap-3 mb-6">
+          <div>
+            <label className="block text-sm font-medium mb-1 text-slate-800">Nombre</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Básico"
+              className="w-40 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          {QUOTA_LIMIT_KEYS.map(key => (
+            <div key={key}>
+              <label className="block text-sm font-medium mb-1 text-slate-800">{QUOTA_LIMIT_LABELS[key]}</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                placeholder="Ilimitado"
+                className="w-36 px-3 py-2 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <label className="flex items-center gap-2 py-2 text-sm text-slate-800">
+            <input
+              type="checkbox"
+              checked={form.is_default}
+              onChange={(e) => setForm({ ...form, is_default: e.target.checked })}
+            />
+            Por defecto
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-60"
+          >
+            {saving ? 'Guardando...' : editingId ? 'Guardar cambios' : 'Crear plan'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-slate-200 text-slate-700 rounded"
+            >
+              Cancelar
+            </button>
+          )}
+        </form>
+
+        {loading ? (
+          <span className="text-slate-600">Cargando...</span>
+        ) : plans.length === 0 ? (
+          <p className="text-sm text-slate-500">No hay planes. El uso del chat no tiene límites.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-slate-200">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Plan</th>
+                  {QUOTA_LIMIT_KEYS.map(key => (
+                    <th key={key} className="px-3 py-2 text-right font-semibold">{QUOTA_LIMIT_LABELS[key]}</th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-semibold">Usuarios</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {plans.map(plan => (
+                  <tr key={plan.id} className="border-t border-slate-200">
+                    <td className="px-3 py-2 text-slate-800">
+                      {plan.name}
+                      {plan.is_default && <span className="ml-2 text-xs text-emerald-700">(por defecto)</span>}
+                    </td>
+                    {QUOTA_LIMIT_KEYS.map(key => (
+                      <td key={key} className="px-3 py-2 text-right font-mono text-slate-900">{formatLimit(plan[key])}</td>
+                    ))}
+                    <td className="px-3 py-2 text-right text-slate-600">{plan.users_count}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => startEditing(plan)}
+                        className="text-xs text-blue-600 hover:text-blue-800 mr-3"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(plan)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,9 @@ import { useState, useEffect } from 'react'
 import { formatDateVE } from '@/lib/date-utils'
 import { useToast } from '@/contexts/ToastContext'
 import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { QUOTA_LIMIT_KEYS, formatCaracasDateTime, type QuotaLimitKey, type QuotaStatus, type UsagePlan } from '@/lib/usage-quotas'
+import { QUOTA_LIMIT_LABELS, formatLimit } from './UsagePlansClient'
+import type { UpdateUserBody } from '@/lib/api-schemas'
 
 interface UserProfile {
   id: string
@@ -30,6 +33,13 @@ export default function UserManagementClient() {
   const [customDate, setCustomDate] = useState('')
   const [updatingSubscription, setUpdatingSubscription] = useState(false)
 
+  // Quota modal state
+  const [quotaUser, setQuotaUser] = useState<UserProfile | null>(null)
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null)
+  const [quotaPlans, setQuotaPlans] = useState<UsagePlan[]>([])
+  const [quotaForm, setQuotaForm] = useState<Record<'plan_id' | QuotaLimitKey, string> | null>(null)
+  const [savingQuota, setSavingQuota] = useState(false)
+
   useEffect(() => {
     fetchUsers()
   }, [])
@@ -56,15 +66,16 @@ export default function UserManagementClient() {
 
   const toggleUserStatus = async (id: string, currentStatus: boolean) => {
     try {
+      const body: UpdateUserBody = {
+        userId: id,
+        updates: { is_active: !currentStatus }
+      }
       const response = await fetch('/api/admin/users', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userId: id,
-          updates: { is_active: !currentStatus }
-        })
+        body: JSON.stringify(body)
       })
 
       if (!response.ok) {
@@ -165,15 +176,16 @@ export default function UserManagementClient() {
       const dateAtMidnight = new Date(newExpirationDate)
       dateAtMidnight.setHours(0, 0, 0, 0)
 
+      const body: UpdateUserBody = {
+        userId: selectedUser.id,
+        updates: { subscription_expires_at: dateAtMidnight.toISOString() }
+      }
       const response = await fetch('/api/admin/users', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userId: selectedUser.id,
-          updates: { subscription_expires_at: dateAtMidnight.toISOString() }
-        })
+        body: JSON.stringify(body)
       })
 
       if (!response.ok) {
@@ -235,6 +247,67 @@ export default function UserManagementClient() {
     updateSubscriptionDate(yesterday)
   }
 
+  // Quota management functions
+  const openQuotaModal = async (user: UserProfile) => {
+    setQuotaUser(user)
+    try {
+      const [quotaResponse, plansResponse] = await Promise.all([
+        fetch(`/api/admin/users/${user.id}/quota`),
+        fetch('/api/admin/usage-plans')
+      ])
+      const quotaResult = await quotaResponse.json()
+      const plansResult = await plansResponse.json()
+      if (!quotaResponse.ok) throw new Error(quotaResult.error || 'Failed to fetch quota')
+      if (!plansResponse.ok) throw new Error(plansResult.error || 'Failed to fetch plans')
+
+      const quota = quotaResult.quota
+      setQuotaStatus(quotaResult.status)
+      setQuotaPlans(plansResult.plans || [])
+      setQuotaForm({
+        plan_id: quota?.plan_id || '',
+        ...Object.fromEntries(QUOTA_LIMIT_KEYS.map(key => [key, quota?.[key] == null ? '' : String(quota[key])])) as Record<QuotaLimitKey, string>
+      })
+    } catch (error) {
+      console.error('Error fetching quota:', error)
+      showError(`Error al obtener límites: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      closeQuotaModal()
+    }
+  }
+
+  const closeQuotaModal = () => {
+    setQuotaUser(null)
+    setQuotaStatus(null)
+    setQuotaForm(null)
+  }
+
+  const saveQuota = async () => {
+    if (!quotaUser || !quotaForm) return
+
+    setSavingQuota(true)
+    try {
+      const response = await fetch(`/api/admin/users/${quotaUser.id}/quota`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(quotaForm)
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`)
+      }
+
+      setQuotaStatus(result.status)
+      showSuccess('¡Límites actualizados exitosamente!')
+    } catch (error) {
+      console.error('Error updating quota:', error)
+      showError(`Error al actualizar límites: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSavingQuota(false)
+    }
+  }
+
   const getSubscriptionDaysLeft = (expiresAt: string | null) => {
     if (!expiresAt) return null
 
@@ -406,6 +479,17 @@ export default function UserManagementClient() {
                           </button>
                         )}
 
+                        {user.role === 'USER' && (
+                          <button
+                            onClick={() => openQuotaModal(user)}
+                            className="inline-flex items-center px-2 sm:px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs font-medium hover:bg-indigo-200 flex-shrink-0"
+                          >
+                            <span className="mr-1">📊</span>
+                            <span className="hidden sm:inline">Límites de Uso</span>
+                            <span className="sm:hidden">Límites</span>
+                          </button>
+                        )}
+
                         <button
                           onClick={() => toggleUserStatus(user.id, user.is_active)}
                           className={`inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs font-medium flex-shrink-0 ${user.is_active
@@ -554,6 +638,100 @@ export default function UserManagementClient() {
           </div>
         </div>
       )}
+
+      {/* Quota Management Modal */}
+      {quotaUser && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[28rem] max-w-full shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                Límites de Uso - {quotaUser.email}
+              </h3>
+
+              {!quotaForm || !quotaStatus ? (
+                <div className="py-6 text-center">
+                  <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                <>
+                  {/* Current usage */}
+                  <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm">
+                    <div className="flex justify-between mb-2">
+                      <span className="font-medium text-gray-700">Plan:</span>
+                      <span className="text-gray-900">{quotaStatus.plan?.name || 'Sin plan (ilimitado)'}</span>
+                    </div>
+                    <div className="text-gray-600">
+                      Hoy: {quotaStatus.usage.day_requests} consultas • {quotaStatus.usage.day_tokens.toLocaleString('es-VE')} tokens
+                    </div>
+                    <div className="text-gray-600">
+                      Este mes: {quotaStatus.usage.month_requests} consultas • {quotaStatus.usage.month_tokens.toLocaleString('es-VE')} tokens
+                    </div>
+                    {quotaStatus.exceeded && (
+                      <div className="mt-2 text-red-700">
+                        Límite alcanzado hasta el {formatCaracasDateTime(quotaStatus.exceeded.reset_at)}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Plan and overrides */}
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Plan asignado:</label>
+                    <select
+                      value={quotaForm.plan_id}
+                      onChange={(e) => setQuotaForm({ ...quotaForm, plan_id: e.target.value })}
+                      disabled={savingQuota}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black"
+                    >
+                      <option value="">Plan por defecto</option>
+                      {quotaPlans.map(plan => (
+                        <option key={plan.id} value={plan.id}>{plan.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Límites personalizados:</h4>
+                  <div className="grid grid-cols-2 gap-3 mb-2">
+                    {QUOTA_LIMIT_KEYS.map(key => (
+                      <div key={key}>
+                        <label className="block text-xs text-gray-600 mb-1">{QUOTA_LIMIT_LABELS[key]}</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={quotaForm[key]}
+                          onChange={(e) => setQuotaForm({ ...quotaForm, [key]: e.target.value })}
+                          disabled={savingQuota}
+                          placeholder={formatLimit(quotaStatus.limits[key])}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mb-6 text-xs text-gray-500">Deja un campo vacío para usar el valor del plan.</p>
+                </>
+              )}
+
+              {/* Modal buttons */}
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={closeQuotaModal}
+                  disabled={savingQuota}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-400 disabled:opacity-50"
+                >
+                  Cerrar
+                </button>
+                <button
+                  onClick={saveQuota}
+                  disabled={savingQuota || !quotaForm}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {savingQuota ? 'Guardando...' : 'Guardar'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import AppLayout from '@/components/AppLayout'
 import { getServerProfile } from '@/lib/auth-server'
 import UserManagementClient from './UserManagementClient'
+import UsagePlansClient from './UsagePlansClient'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,12 +11,13 @@ export default async function UserManagement() {
   return (
     <AppLayout 
       title="Gestión de Usuarios" 
-      subtitle="Administrar usuarios y suscripciones"
+      subtitle="Administrar usuarios, suscripciones y límites de uso"
       showBackButton={true}
       backHref="/admin"
       profile={profile}
     >
       <UserManagementClient />
+      <UsagePlansClient />
     </AppLayout>
   )
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { GET as getUsers, PATCH as updateUser, DELETE as deleteUser } from '../users/route'
+import { GET as getDashboard } from '../dashboard/route'
+import { POST as exportMessages } from '../messages/export/route'
+import { POST as createOrganization } from '../organizations/route'
+import { createServerClient } from '@supabase/ssr'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(),
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn(),
+  })),
+}))
+
+jest.mock('@/lib/audit-log', () => ({
+  recordAuditEvent: jest.fn(),
+}))
+
+describe('admin API routes', () => {
+  const mockSupabaseClient = {
+    auth: {
+      getUser: jest.fn(),
+    },
+  }
+
+  // Only the guard's profile lookup is expected to reach the database
+  const mockSupabaseAdmin = {
+    from: jest.fn(() => ({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          maybeSingle: jest.fn().mockResolvedValue({
+            data: { id: 'user-1', role: 'USER', is_active: true },
+            error: null,
+          }),
+        })),
+      })),
+    })),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(createServerClient as jest.Mock).mockReturnValue(mockSupabaseClient)
+    ;(createSupabaseAdmin as jest.Mock).mockReturnValue(mockSupabaseAdmin)
+  })
+
+  it('should return 403 to a signed-in non-admin', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-1' } },
+      error: null,
+    })
+
+    const responses = await Promise.all([
+      getUsers(),
+      deleteUser(new NextRequest('http://localhost/api/admin/users?userId=user-2', { method: 'DELETE' })),
+      getDashboard(new NextRequest('http://localhost/api/admin/dashboard')),
+      exportMessages(new NextRequest('http://localhost/api/admin/messages/export', { method: 'POST', body: '{}' })),
+    ])
+
+    for (const response of responses) {
+      expect(response.status).toBe(403)
+      await expect(response.json()).resolves.toEqual({ error: 'Admin access required' })
+    }
+    expect(mockSupabaseAdmin.from).toHaveBeenCalledTimes(responses.length)
+    expect(mockSupabaseAdmin.from).toHaveBeenCalledWith('user_profiles')
+  })
+
+  it('should return 401 when signed out', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: null,
+    })
+
+    const response = await getUsers()
+
+    expect(response.status).toBe(401)
+    expect(mockSupabaseAdmin.from).not.toHaveBeenCalled()
+  })
+
+  it('should reject user updates outside the allowlist before touching the profile', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'admin-1' } },
+      error: null,
+    })
+    mockSupabaseAdmin.from.mockReturnValueOnce({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          maybeSingle: jest.fn().mockResolvedValue({
+            data: { id: 'admin-1', role: 'ADMIN', is_active: true },
+            error: null,
+          }),
+        })),
+      })),
+    })
+
+    const response = await updateUser(new NextRequest('http://localhost/api/admin/users', {
+      method: 'PATCH',
+      body: JSON.stringify({ userId: '5c8e2a14-7b3d-4f6a-9e1c-8d2b4a6f0e33', updates: { is_active: false, email: 'otro@example.com', role: 'OWNER' } }),
+    }))
+
+    expect(response.status).toBe(400)
+    await expect(response.json()).resolves.toEqual({
+      error: 'Invalid request body: updates.role must be one of: USER, ADMIN; updates.email is not an allowed field',
+      fields: {
+        'updates.role': 'must be one of: USER, ADMIN',
+        'updates.email': 'is not an allowed field',
+      },
+    })
+    // Only the guard's profile lookup
+    expect(mockSupabaseAdmin.from).toHaveBeenCalledTimes(1)
+  })
+
+  it('should only let platform admins create organizations', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'admin-1' } },
+      error: null,
+    })
+    const lookup = (data: unknown) => ({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          maybeSingle: jest.fn().mockResolvedValue({ data, error: null }),
+        })),
+      })),
+    })
+    mockSupabaseAdmin.from
+      .mockReturnValueOnce(lookup({ id: 'admin-1', role: 'ADMIN', is_active: true, organization_id: 'org-1' }))
+      .mockReturnValueOnce(lookup(null))
+
+    const response = await createOrganization(new NextRequest('http://localhost/api/admin/organizations', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Distribuidora El Ávila' }),
+    }))
+
+    expect(response.status).toBe(403)
+    await expect(response.json()).resolves.toEqual({ error: 'Platform admin access required' })
+    expect(mockSupabaseAdmin.from).toHaveBeenNthCalledWith(2, 'admins')
+    expect(mockSupabaseAdmin.from).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { parseAnalyticsRange, getUsageAnalytics } from '@/lib/usage-analytics'
+
+// Token, cost and latency analytics: ?from=YYYY-MM-DD&to=YYYY-MM-DD (default: last 30 days)
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { searchParams } = request.nextUrl
+    const { range, error: validationError } = parseAnalyticsRange(searchParams.get('from'), searchParams.get('to'))
+    if (!range) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const analytics = await getUsageAnalytics(profile.organization_id, range)
+    const processingTime = Date.now() - startTime
+    console.log(`📈 Usage analytics ${range.from}..${range.to} computed in ${processingTime}ms`)
+
+    return NextResponse.json({ success: true, analytics, processing_time_ms: processingTime })
+
+  } catch (error) {
+    console.error('Usage analytics error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute usage analytics', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { AUDIT_EXPORT_LIMIT, auditEventsToCsv, listAuditEvents, parseAuditFilters } from '@/lib/audit-log'
+
+// Audit trail: ?action=&target_type=&actor=&from=&to=&page=; ?format=csv exports
+// every matching event (up to AUDIT_EXPORT_LIMIT) instead of one page
+export async function GET(request: NextRequest) {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const params = new URL(request.url).searchParams
+    const { filters, error: validationError } = parseAuditFilters(params)
+    if (!filters) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (params.get('format') === 'csv') {
+      const { events } = await listAuditEvents(profile.organization_id, filters, AUDIT_EXPORT_LIMIT)
+      return new NextResponse(auditEventsToCsv(events), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="auditoria_${filters.range.from}_${filters.range.to}.csv"`,
+          'Cache-Control': 'no-cache',
+        },
+      })
+    }
+
+    const { events, total } = await listAuditEvents(profile.organization_id, filters)
+
+    return NextResponse.json({
+      success: true,
+      events,
+      total,
+      range: filters.range,
+      page: filters.page,
+      page_size: filters.pageSize
+    })
+
+  } catch (error) {
+    console.error('Get audit events error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get audit events', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
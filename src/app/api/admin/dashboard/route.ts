@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
 
 interface DashboardStats {
   totalFiles: number
@@ -9,6 +10,7 @@ interface DashboardStats {
   inactiveUsers: number
   todayQueries: number
   todayConversations: number
+  todayCacheHits: number
   expiredSubscriptions: number
   validSubscriptions: number
 }
@@ -17,12 +19,17 @@ export async function GET(request: NextRequest) {
   const startTime = Date.now()
 
   try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
     const supabaseAdmin = createSupabaseAdmin()
+    const organizationId = profile.organization_id
 
     // Fetch file stats
     const { data: files, error: filesError } = await supabaseAdmin
       .from('price_lists')
       .select('is_active')
+      .eq('organization_id', organizationId)
 
     if (filesError) {
       console.error('Files fetch error:', filesError)
@@ -39,6 +46,7 @@ export async function GET(request: NextRequest) {
     const { data: users, error: usersError } = await supabaseAdmin
       .from('user_profiles')
       .select('id, subscription_expires_at, role, is_active')
+      .eq('organization_id', organizationId)
 
     if (usersError) {
       console.error('Users fetch error:', usersError)
@@ -67,11 +75,22 @@ export async function GET(request: NextRequest) {
     const { data: messages, error: messagesError } = await supabaseAdmin
       .from('messages')
       .select('id')
+      .eq('organization_id', organizationId)
       .gte('created_at', today)
 
     const { data: conversations, error: conversationsError } = await supabaseAdmin
       .from('conversations')
       .select('id')
+      .eq('organization_id', organizationId)
+      .gte('created_at', today)
+
+    // Answers served from the answer cache instead of a model call
+    const { data: cacheHits, error: cacheHitsError } = await supabaseAdmin
+      .from('messages')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('role', 'assistant')
+      .eq('cache_hit', true)
       .gte('created_at', today)
 
     if (messagesError) {
@@ -90,8 +109,17 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (cacheHitsError) {
+      console.error('Cache hits fetch error:', cacheHitsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch cache stats' },
+        { status: 500 }
+      )
+    }
+
     const todayQueries = messages?.length || 0
     const todayConversations = conversations?.length || 0
+    const todayCacheHits = cacheHits?.length || 0
 
     const stats: DashboardStats = {
       totalFiles,
@@ -101,6 +129,7 @@ export async function GET(request: NextRequest) {
       inactiveUsers,
       todayQueries,
       todayConversations,
+      todayCacheHits,
       expiredSubscriptions,
       validSubscriptions,
     }
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+import { listEvalQuestions, toEvalQuestionInput } from '@/lib/evals'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { createEvalQuestionSchema, updateEvalQuestionSchema } from '@/lib/api-schemas'
+
+// Golden questions used by evaluation runs
+export async function GET() {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const questions = await listEvalQuestions(profile.organization_id)
+
+    return NextResponse.json({ success: true, questions })
+
+  } catch (error) {
+    console.error('Get eval questions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get eval questions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Add a question: { question, expected_facts, price_list_ids?, is_active? }
+export async function POST(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, createEvalQuestionSchema)
+    if (invalidBody) return invalidBody
+
+    const question = toEvalQuestionInput(body)
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('eval_questions')
+      .insert({ ...question, organization_id: profile.organization_id, created_by: user.id })
+      .select('id, question, expected_facts, price_list_ids, is_active, created_at, updated_at')
+      .single()
+
+    if (error) {
+      console.error('Error creating eval question:', error)
+      return NextResponse.json(
+        { error: 'Failed to create eval question', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'eval_question.create', targetType: 'eval_question', targetId: data.id, after: question, actor: user })
+
+    return NextResponse.json({ success: true, question: data })
+
+  } catch (error) {
+    console.error('Create eval question error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create eval question', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Update a question: { id, question, expected_facts, price_list_ids?, is_active? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, updateEvalQuestionSchema)
+    if (invalidBody) return invalidBody
+
+    const question = toEvalQuestionInput(body)
+
+    const supabase = createSupabaseAdmin()
+    const { data: previous } = await supabase
+      .from('eval_questions')
+      .select('question, expected_facts, price_list_ids, is_active')
+      .eq('organization_id', profile.organization_id)
+      .eq('id', body.id)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('eval_questions')
+      .update({ ...question, updated_at: new Date().toISOString() })
+      .eq('organization_id', profile.organization_id)
+      .eq('id', body.id)
+      .select('id, question, expected_facts, price_list_ids, is_active, created_at, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating eval question:', error)
+      return NextResponse.json(
+        { error: 'Failed to update eval question', details: error.message },
+        { status: 500 }
+      )
+    }
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Eval question not found' },
+        { status: 404 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'eval_question.update', targetType: 'eval_question', targetId: data.id, before: previous, after: question, actor: user })
+
+    return NextResponse.json({ success: true, question: data })
+
+  } catch (error) {
+    console.error('Update eval question error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update eval question', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a question: ?id= (past results keep their copy of it)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('eval_questions')
+      .delete()
+      .eq('organization_id', profile.organization_id)
+      .eq('id', id)
+      .select('question, expected_facts, price_list_ids, is_active')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting eval question:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete eval question', details: error.message },
+        { status: 500 }
+      )
+    }
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Eval question not found' },
+        { status: 404 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'eval_question.delete', targetType: 'eval_question', targetId: id, before: data, actor: user })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete eval question error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete eval question', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
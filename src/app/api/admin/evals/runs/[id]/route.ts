@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import { compareRuns, getEvalRun } from '@/lib/evals'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// A run with its results; ?compare_to=<run id> adds the per-question changes
+// from that run to this one
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { id } = await params
+    const run = await getEvalRun(profile.organization_id, id)
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Eval run not found' },
+        { status: 404 }
+      )
+    }
+
+    const compareTo = new URL(request.url).searchParams.get('compare_to')
+    let comparison = null
+    if (compareTo) {
+      const base = await getEvalRun(profile.organization_id, compareTo)
+      if (!base) {
+        return NextResponse.json(
+          { error: 'Run to compare with not found' },
+          { status: 404 }
+        )
+      }
+      comparison = { base_run: base.run, rows: compareRuns(base.results, run.results) }
+    }
+
+    return NextResponse.json({ success: true, ...run, comparison })
+
+  } catch (error) {
+    console.error('Get eval run error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get eval run', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { requireAdmin } from '@/lib/api-auth'
+import {
+  createEvalRun,
+  failStaleEvalRuns,
+  listEvalQuestions,
+  listEvalRuns,
+  runEvalWorker,
+  MAX_EVAL_RUN_QUESTIONS,
+} from '@/lib/evals'
+import { recordAuditEvent } from '@/lib/audit-log'
+
+// Evaluation runs, latest first. While one is running the admin page polls
+// this, so each poll also advances it by a batch (the cron does without it)
+export async function GET() {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const runs = await listEvalRuns(profile.organization_id)
+    if (runs.some(run => run.status === 'running')) {
+      after(() => runEvalWorker())
+    }
+
+    return NextResponse.json({ success: true, runs })
+
+  } catch (error) {
+    console.error('Get eval runs error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get eval runs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Start a run over every active question; it continues after the response in
+// batches, poll GET /api/admin/evals/runs/:id for progress. One run at a time
+export async function POST(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const organizationId = profile.organization_id
+    const questions = await listEvalQuestions(organizationId, { activeOnly: true })
+    if (questions.length === 0) {
+      return NextResponse.json(
+        { error: 'There are no active eval questions' },
+        { status: 400 }
+      )
+    }
+    if (questions.length > MAX_EVAL_RUN_QUESTIONS) {
+      return NextResponse.json(
+        { error: `A run answers at most ${MAX_EVAL_RUN_QUESTIONS} questions; deactivate some of the ${questions.length} active ones` },
+        { status: 400 }
+      )
+    }
+
+    // A run left without progress does not block the next one
+    await failStaleEvalRuns(organizationId)
+    const run = await createEvalRun(organizationId, questions, user.id)
+    if (!run) {
+      return NextResponse.json(
+        { error: 'An evaluation is already running' },
+        { status: 409 }
+      )
+    }
+    after(() => runEvalWorker())
+
+    await recordAuditEvent(request, { action: 'eval_run.start', targetType: 'eval_run', targetId: run.id, after: { total: questions.length }, actor: user })
+
+    console.log(`🧪 Eval run ${run.id.slice(-8)} started with ${questions.length} question(s)`)
+    return NextResponse.json({ success: true, run }, { status: 202 })
+
+  } catch (error) {
+    console.error('Start eval run error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start eval run', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
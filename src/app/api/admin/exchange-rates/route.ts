@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin, requirePlatformAdmin } from '@/lib/api-auth'
+import { BASE_CURRENCY, QUOTE_CURRENCY, invalidateExchangeRatesCache } from '@/lib/currency'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { exchangeRateSchema } from '@/lib/api-schemas'
+
+// USD/VES rate history, newest first
+export async function GET() {
+  try {
+    const { response } = await requireAdmin()
+    if (response) return response
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('exchange_rates')
+      .select('id, base_currency, quote_currency, rate, effective_date, source, created_at')
+      .eq('base_currency', BASE_CURRENCY)
+      .eq('quote_currency', QUOTE_CURRENCY)
+      .order('effective_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching exchange rates:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch exchange rates', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, rates: data || [] })
+
+  } catch (error) {
+    console.error('Get exchange rates error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get exchange rates', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Record the rate for a date (replaces an existing rate for that same date).
+// Rates are shared by every organization, so only platform admins change them
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, exchangeRateSchema)
+    if (invalidBody) return invalidBody
+
+    const { rate, effective_date, source } = body
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('exchange_rates')
+      .upsert({
+        base_currency: BASE_CURRENCY,
+        quote_currency: QUOTE_CURRENCY,
+        rate,
+        effective_date,
+        source: source || null,
+        created_by: user.id
+      }, { onConflict: 'base_currency,quote_currency,effective_date' })
+      .select('id, base_currency, quote_currency, rate, effective_date, source, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error saving exchange rate:', error)
+      return NextResponse.json(
+        { error: 'Failed to save exchange rate', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    invalidateExchangeRatesCache()
+    await recordAuditEvent(request, { action: 'exchange_rate.create', targetType: 'exchange_rate', targetId: data.id, after: data, actor: user })
+    console.log(`💱 Exchange rate ${rate} ${QUOTE_CURRENCY}/${BASE_CURRENCY} recorded for ${effective_date}`)
+
+    return NextResponse.json({ success: true, rate: data })
+
+  } catch (error) {
+    console.error('Save exchange rate error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save exchange rate', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a rate: ?id=
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id)
+      .select('id, base_currency, quote_currency, rate, effective_date, source, created_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete exchange rate', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    invalidateExchangeRatesCache()
+    await recordAuditEvent(request, { action: 'exchange_rate.delete', targetType: 'exchange_rate', targetId: id, before: data, actor: user })
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete exchange rate error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete exchange rate', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
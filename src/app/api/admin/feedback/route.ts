@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+import { getFeedbackQueue, parseQueueFilters } from '@/lib/message-feedback'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { feedbackResolutionSchema } from '@/lib/api-schemas'
+
+// Feedback review queue: ?rating=down|up|all&status=open|resolved|all&page=
+export async function GET(request: NextRequest) {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { filters, error: validationError } = parseQueueFilters(new URL(request.url).searchParams)
+    if (!filters) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { items, total } = await getFeedbackQueue(profile.organization_id, filters)
+
+    return NextResponse.json({
+      success: true,
+      feedback: items,
+      total,
+      page: filters.page,
+      page_size: filters.pageSize
+    })
+
+  } catch (error) {
+    console.error('Get feedback queue error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Resolve or reopen a feedback entry: { id, status: 'open' | 'resolved', resolution_note? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, feedbackResolutionSchema)
+    if (invalidBody) return invalidBody
+
+    const resolved = body.status === 'resolved'
+    // The note is kept only when resolving; blank becomes null
+    const resolution = { status: body.status, resolution_note: resolved ? body.resolution_note || null : null }
+    const supabase = createSupabaseAdmin()
+    const { data: previous } = await supabase
+      .from('message_feedback')
+      .select('message_id, status, resolution_note')
+      .eq('id', body.id)
+      .maybeSingle()
+
+    // Feedback belongs to the organization of the rated message
+    const { data: message } = previous
+      ? await supabase
+        .from('messages')
+        .select('id')
+        .eq('id', previous.message_id)
+        .eq('organization_id', profile.organization_id)
+        .maybeSingle()
+      : { data: null }
+
+    if (!previous || !message) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('message_feedback')
+      .update({
+        ...resolution,
+        resolved_by: resolved ? user.id : null,
+        resolved_at: resolved ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', body.id)
+      .select('id, status, resolution_note, resolved_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating feedback:', error)
+      return NextResponse.json(
+        { error: 'Failed to update feedback', details: error.message },
+        { status: 500 }
+      )
+    }
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Feedback not found' },
+        { status: 404 }
+      )
+    }
+
+    await recordAuditEvent(request, {
+      action: 'feedback.update',
+      targetType: 'message_feedback',
+      targetId: data.id,
+      before: { status: previous.status, resolution_note: previous.resolution_note },
+      after: { status: data.status, resolution_note: data.resolution_note },
+      actor: user
+    })
+
+    console.log(`${resolved ? '✅' : '🔄'} Feedback ${data.id.slice(-8)} marked ${data.status}`)
+    return NextResponse.json({ success: true, feedback: data })
+
+  } catch (error) {
+    console.error('Update feedback error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
 
 export async function GET(request: NextRequest) {
   try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
     const supabaseAdmin = createSupabaseAdmin()
     
     const { data: files, error } = await supabaseAdmin
       .from('price_lists')
       .select('*')
+      .eq('organization_id', profile.organization_id)
       .order('uploaded_at', { ascending: false })
 
     if (error) {
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+
+// Latest ingestion job per price list, polled by the admin files page
+export async function GET() {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const supabaseAdmin = createSupabaseAdmin()
+
+    // Jobs belong to the organization through their price list
+    const { data: priceLists, error: priceListsError } = await supabaseAdmin
+      .from('price_lists')
+      .select('id')
+      .eq('organization_id', profile.organization_id)
+
+    if (priceListsError) {
+      console.error('Error fetching price lists:', priceListsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch ingestion jobs', details: priceListsError.message },
+        { status: 500 }
+      )
+    }
+
+    const { data: jobs, error } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('id, price_list_id, job_type, status, attempts, max_attempts, run_after, last_error, created_at, completed_at')
+      .in('price_list_id', (priceLists || []).map(list => list.id))
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (error) {
+      console.error('Error fetching ingestion jobs:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch ingestion jobs', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const latestByPriceList = new Map<string, NonNullable<typeof jobs>[number]>()
+    for (const job of jobs || []) {
+      if (!latestByPriceList.has(job.price_list_id)) {
+        latestByPriceList.set(job.price_list_id, job)
+      }
+    }
+
+    return NextResponse.json({ jobs: Array.from(latestByPriceList.values()) })
+  } catch (error) {
+    console.error('API error fetching ingestion jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
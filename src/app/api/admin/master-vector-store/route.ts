@@ -4,19 +4,28 @@ import {
   getOrCreateMasterVectorStore, 
   syncMasterVectorStore,
   addFileToMasterVectorStore,
-  removeFileFromMasterVectorStore 
+  removeFileFromMasterVectorStore,
+  buildMasterFileAttributes
 } from '@/lib/openai'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { requireAdmin } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { masterVectorStoreSchema } from '@/lib/api-schemas'
 
-// Get master vector store status
+// Get the status of the organization's master vector store
 export async function GET() {
   try {
-    const masterStore = await getOrCreateMasterVectorStore()
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const masterStore = await getOrCreateMasterVectorStore(profile.organization_id)
     
     // Get active files from database
     const supabaseAdmin = createSupabaseAdmin()
     const { data: activeFiles, error } = await supabaseAdmin
       .from('price_lists')
       .select('openai_file_id, file_name, supplier_name, is_active')
+      .eq('organization_id', profile.organization_id)
       .not('openai_file_id', 'is', null)
       .order('uploaded_at', { ascending: false })
 
@@ -61,17 +70,24 @@ export async function GET() {
   }
 }
 
-// Sync master vector store
+// Sync the organization's master vector store
 export async function POST(request: NextRequest) {
   try {
-    const { action } = await request.json()
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const organizationId = profile.organization_id
 
-    if (action === 'sync') {
+    const { body, response: invalidBody } = await parseRequestBody(request, masterVectorStoreSchema)
+    if (invalidBody) return invalidBody
+
+    if (body.action === 'sync') {
       // Get active files
       const supabaseAdmin = createSupabaseAdmin()
       const { data: activeFiles, error } = await supabaseAdmin
         .from('price_lists')
-        .select('openai_file_id')
+        .select('id, openai_file_id, supplier_name, uploaded_at')
+        .eq('organization_id', organizationId)
         .eq('is_active', true)
         .not('openai_file_id', 'is', null)
 
@@ -82,54 +98,58 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const activeFileIds = activeFiles?.map(f => f.openai_file_id) || []
+      const masterFiles = (activeFiles || []).map(f => ({
+        fileId: f.openai_file_id as string,
+        attributes: buildMasterFileAttributes(f)
+      }))
       
-      console.log(`🔄 Manual sync requested for ${activeFileIds.length} active files`)
-      const syncResult = await syncMasterVectorStore(activeFileIds)
+      console.log(`🔄 Manual sync requested for ${masterFiles.length} active files`)
+      const syncResult = await syncMasterVectorStore(organizationId, masterFiles)
+      await recordAuditEvent(request, { action: 'master_store.sync', targetType: 'vector_store', targetId: syncResult.masterStoreId, after: syncResult })
 
       return NextResponse.json({
         success: true,
         sync_result: syncResult,
-        message: `Sync completed: ${syncResult.added} files added, ${syncResult.removed} files removed`
+        message: `Sync completed: ${syncResult.added} files added, ${syncResult.removed} files removed, ${syncResult.attributesUpdated} files tagged`
       })
 
-    } else if (action === 'add_file') {
-      const { fileId } = await request.json()
-      if (!fileId) {
+    } else if (body.action === 'add_file') {
+      const { fileId } = body
+
+      // Only files of the organization's own price lists
+      const { data: priceList } = await createSupabaseAdmin()
+        .from('price_lists')
+        .select('id, supplier_name, uploaded_at')
+        .eq('organization_id', organizationId)
+        .eq('openai_file_id', fileId)
+        .limit(1)
+        .maybeSingle()
+
+      if (!priceList) {
         return NextResponse.json(
-          { error: 'fileId is required' },
-          { status: 400 }
+          { error: 'File not found' },
+          { status: 404 }
         )
       }
 
-      const result = await addFileToMasterVectorStore(fileId)
+      const result = await addFileToMasterVectorStore(organizationId, fileId, buildMasterFileAttributes(priceList))
+      await recordAuditEvent(request, { action: 'master_store.add_file', targetType: 'openai_file', targetId: fileId })
       return NextResponse.json({
         success: true,
         result,
         message: `File ${fileId} added to master vector store`
       })
 
-    } else if (action === 'remove_file') {
-      const { fileId } = await request.json()
-      if (!fileId) {
-        return NextResponse.json(
-          { error: 'fileId is required' },
-          { status: 400 }
-        )
-      }
+    } else {
+      const { fileId } = body
 
-      const result = await removeFileFromMasterVectorStore(fileId)
+      const result = await removeFileFromMasterVectorStore(organizationId, fileId)
+      await recordAuditEvent(request, { action: 'master_store.remove_file', targetType: 'openai_file', targetId: fileId })
       return NextResponse.json({
         success: true,
         result,
         message: `File ${fileId} removed from master vector store`
       })
-
-    } else {
-      return NextResponse.json(
-        { error: 'Invalid action. Use "sync", "add_file", or "remove_file"' },
-        { status: 400 }
-      )
     }
 
   } catch (error: any) {
@@ -1,20 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { requireAdmin } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { exportMessagesSchema } from '@/lib/api-schemas'
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
 
   try {
-    const { startDate, endDate } = await request.json()
+    const { profile, response } = await requireAdmin()
+    if (response) return response
 
-    if (!startDate || !endDate) {
-      return NextResponse.json(
-        { error: 'Se requieren fechas de inicio y fin' },
-        { status: 400 }
-      )
-    }
+    const { body, response: invalidBody } = await parseRequestBody(request, exportMessagesSchema)
+    if (invalidBody) return invalidBody
 
-    // Validate date format and logic
+    // Validate calendar dates and their order
+    const { startDate, endDate } = body
     const start = new Date(startDate)
     const end = new Date(endDate)
     
@@ -44,6 +46,7 @@ export async function POST(request: NextRequest) {
     const { data: messages, error: messagesError } = await supabaseAdmin
       .from('messages')
       .select('content, created_at')
+      .eq('organization_id', profile.organization_id)
       .eq('role', 'user')
       .gte('created_at', `${startDateStr}T00:00:00.000Z`)
       .lte('created_at', `${endDateStr}T23:59:59.999Z`)
@@ -69,6 +72,12 @@ export async function POST(request: NextRequest) {
       ...csvRows.map(row => row.join(','))
     ].join('\n')
 
+    await recordAuditEvent(request, {
+      action: 'messages.export',
+      targetType: 'messages',
+      after: { start_date: startDateStr, end_date: endDateStr, rows: messages?.length || 0 }
+    })
+
     const processingTime = Date.now() - startTime
     console.log(`Messages CSV export completed in ${processingTime}ms - ${messages?.length || 0} messages`)
 
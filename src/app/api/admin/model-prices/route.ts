@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin, requirePlatformAdmin } from '@/lib/api-auth'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { modelPriceSchema } from '@/lib/api-schemas'
+
+// Configured per-model prices used to estimate spend
+export async function GET() {
+  try {
+    const { response } = await requireAdmin()
+    if (response) return response
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('model_prices')
+      .select('model, usd_per_1m_tokens, updated_at')
+      .order('model', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching model prices:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch model prices', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      prices: (data || []).map(price => ({ ...price, usd_per_1m_tokens: Number(price.usd_per_1m_tokens) }))
+    })
+
+  } catch (error) {
+    console.error('Get model prices error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get model prices', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set the price of a model: { model, usd_per_1m_tokens }. Prices are shared by
+// every organization, so only platform admins change them
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const { body: price, response: invalidBody } = await parseRequestBody(request, modelPriceSchema)
+    if (invalidBody) return invalidBody
+
+    const supabase = createSupabaseAdmin()
+    const { data: previous } = await supabase
+      .from('model_prices')
+      .select('model, usd_per_1m_tokens')
+      .eq('model', price.model)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('model_prices')
+      .upsert({ ...price, updated_by: user.id, updated_at: new Date().toISOString() }, { onConflict: 'model' })
+      .select('model, usd_per_1m_tokens, updated_at')
+      .single()
+
+    if (error) {
+      console.error('Error saving model price:', error)
+      return NextResponse.json(
+        { error: 'Failed to save model price', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'model_price.update', targetType: 'model_price', targetId: price.model, before: previous, after: price, actor: user })
+
+    console.log(`💵 Price for ${price.model} set to $${price.usd_per_1m_tokens} per 1M tokens`)
+    return NextResponse.json({ success: true, price: { ...data, usd_per_1m_tokens: Number(data.usd_per_1m_tokens) } })
+
+  } catch (error) {
+    console.error('Save model price error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save model price', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Remove a model price: ?model=
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const model = new URL(request.url).searchParams.get('model')
+    if (!model) {
+      return NextResponse.json(
+        { error: 'model parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('model_prices')
+      .delete()
+      .eq('model', model)
+      .select('model, usd_per_1m_tokens')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting model price:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete model price', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'model_price.delete', targetType: 'model_price', targetId: model, before: data, actor: user })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete model price error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete model price', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePlatformAdmin } from '@/lib/api-auth'
+import { createOrganization, listOrganizations } from '@/lib/organizations'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { createOrganizationSchema } from '@/lib/api-schemas'
+
+// Every organization; tenants are managed by platform admins only
+export async function GET() {
+  try {
+    const { response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const organizations = await listOrganizations()
+    return NextResponse.json({ success: true, organizations })
+  } catch (error) {
+    console.error('Get organizations error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get organizations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create an organization: { name, slug? }
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, createOrganizationSchema)
+    if (invalidBody) return invalidBody
+
+    const organization = await createOrganization(body)
+    if (!organization) {
+      return NextResponse.json({ error: 'An organization with this slug already exists' }, { status: 409 })
+    }
+
+    await recordAuditEvent(request, {
+      action: 'organization.create',
+      targetType: 'organization',
+      targetId: organization.id,
+      after: organization,
+      actor: user,
+      organizationId: organization.id
+    })
+
+    console.log(`🏢 Organization "${organization.name}" created (${organization.slug})`)
+    return NextResponse.json({ success: true, organization })
+  } catch (error) {
+    console.error('Create organization error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create organization', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
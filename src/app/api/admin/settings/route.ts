@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { setSystemInstructionsCache, invalidateSystemInstructionsCache } from '@/lib/openai-responses'
+import { requireAdmin } from '@/lib/api-auth'
+import { setAppSettingsCache, invalidateSystemInstructionsCache } from '@/lib/openai-responses'
+import { normalizeInstructions, saveInstructionVersion } from '@/lib/instruction-versions'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { appSettingsSchema } from '@/lib/api-schemas'
+
+const SETTINGS_COLUMNS = 'system_instructions, instructions_version, model, temperature, max_output_tokens, updated_at, updated_by'
 
 export async function GET() {
   try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
     const supabase = createSupabaseAdmin()
     const { data, error } = await supabase
       .from('app_settings')
-      .select('system_instructions, updated_at, updated_by')
-      .eq('id', 1)
+      .select(SETTINGS_COLUMNS)
+      .eq('organization_id', profile.organization_id)
       .maybeSingle()
 
     if (error) {
@@ -23,37 +33,88 @@ export async function GET() {
 
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { system_instructions } = body || {}
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
 
-    if (system_instructions !== null && typeof system_instructions !== 'string') {
-      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
-    }
+    const { body, response: invalidBody } = await parseRequestBody(request, appSettingsSchema)
+    if (invalidBody) return invalidBody
+
+    const { system_instructions, model, temperature, max_output_tokens } = body
+    const modelSettings = { model, temperature, max_output_tokens }
+    const note = body.note || null
 
     const supabase = createSupabaseAdmin()
+    const organizationId = profile.organization_id
+    const updatedBy = user.id
+    const instructions = normalizeInstructions(system_instructions)
+
+    const { data: current, error: currentError } = await supabase
+      .from('app_settings')
+      .select('system_instructions, instructions_version, model, temperature, max_output_tokens')
+      .eq('organization_id', organizationId)
+      .maybeSingle()
 
-    // Identify user from request (via service role write, we set updated_by if possible)
-    let updatedBy: string | null = null
-    try {
-      const authHeader = request.headers.get('x-user-id') // optional passthrough
-      updatedBy = authHeader || null
-    } catch {}
+    if (currentError) {
+      return NextResponse.json({ error: 'Failed to load settings' }, { status: 500 })
+    }
+
+    const { error: upsertError } = await supabase
+      .from('app_settings')
+      .upsert({
+        organization_id: organizationId,
+        ...modelSettings,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'organization_id' })
+
+    if (upsertError) {
+      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+    }
+
+    // Instructions are only written through a new version, and only when they changed
+    let newVersion: number | null = null
+    if (normalizeInstructions(current?.system_instructions) !== instructions) {
+      const version = await saveInstructionVersion(organizationId, instructions, note, updatedBy)
+      newVersion = version.version
+      console.log(`📝 System instructions saved as version ${version.version}`)
+    }
+
+    // The instructions text lives in instruction_versions; the audit keeps the version numbers
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      targetType: 'app_settings',
+      targetId: organizationId,
+      before: current ? {
+        model: current.model,
+        temperature: current.temperature,
+        max_output_tokens: current.max_output_tokens,
+        instructions_version: current.instructions_version
+      } : null,
+      after: { ...modelSettings, instructions_version: newVersion ?? current?.instructions_version ?? null },
+      actor: user
+    })
 
     const { data, error } = await supabase
       .from('app_settings')
-      .upsert({ id: 1, system_instructions, updated_by: updatedBy, updated_at: new Date().toISOString() }, { onConflict: 'id' })
-      .select('system_instructions, updated_at, updated_by')
+      .select(SETTINGS_COLUMNS)
+      .eq('organization_id', organizationId)
       .maybeSingle()
 
     if (error) {
-      return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+      return NextResponse.json({ error: 'Failed to load settings' }, { status: 500 })
     }
 
     // Update in-memory cache used by chat retrieval
     if (data) {
-      setSystemInstructionsCache(data.system_instructions ?? null)
+      setAppSettingsCache(organizationId, {
+        system_instructions: data.system_instructions ?? null,
+        instructions_version: data.instructions_version ?? null,
+        model: data.model ?? null,
+        temperature: data.temperature === null ? null : Number(data.temperature),
+        max_output_tokens: data.max_output_tokens ?? null,
+      })
     } else {
-      invalidateSystemInstructionsCache()
+      invalidateSystemInstructionsCache(organizationId)
     }
 
     return NextResponse.json({ settings: data })
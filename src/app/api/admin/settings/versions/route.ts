@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+import { invalidateSystemInstructionsCache } from '@/lib/openai-responses'
+import { getInstructionVersion, listInstructionVersions, rollbackNote, saveInstructionVersion } from '@/lib/instruction-versions'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { rollbackInstructionsSchema } from '@/lib/api-schemas'
+
+// Instructions history, latest first, with the current version number
+export async function GET() {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const versions = await listInstructionVersions(profile.organization_id)
+
+    const { data: settings, error } = await createSupabaseAdmin()
+      .from('app_settings')
+      .select('instructions_version')
+      .eq('organization_id', profile.organization_id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching current instructions version:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch instructions versions', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      versions,
+      current_version: settings?.instructions_version ?? null
+    })
+
+  } catch (error) {
+    console.error('Get instructions versions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get instructions versions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Roll back to an earlier version: { version, note? }. Saved as a new version
+export async function POST(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, rollbackInstructionsSchema)
+    if (invalidBody) return invalidBody
+
+    const target = body.version
+    const note = body.note || null
+
+    const previous = await getInstructionVersion(profile.organization_id, target)
+    if (!previous) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    const version = await saveInstructionVersion(profile.organization_id, previous.system_instructions, rollbackNote(target, note), user.id)
+
+    // Chat picks up the restored instructions on the next request
+    invalidateSystemInstructionsCache(profile.organization_id)
+
+    await recordAuditEvent(request, {
+      action: 'instructions.rollback',
+      targetType: 'instructions',
+      targetId: String(version.version),
+      after: { restored_version: target, version: version.version, note: version.note },
+      actor: user
+    })
+
+    console.log(`⏪ System instructions rolled back to version ${target} (saved as version ${version.version})`)
+    return NextResponse.json({ success: true, version })
+
+  } catch (error) {
+    console.error('Rollback instructions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back instructions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
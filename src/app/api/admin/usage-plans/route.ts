@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { createUsagePlanSchema, updateUsagePlanSchema } from '@/lib/api-schemas'
+
+const PLAN_COLUMNS = 'id, name, daily_token_limit, monthly_token_limit, daily_request_limit, monthly_request_limit, is_default, created_at, updated_at'
+
+// Only one plan per organization can be the default (idx_usage_plans_default_per_organization)
+async function clearDefaultPlan(organizationId: string, exceptId?: string) {
+  let query = createSupabaseAdmin()
+    .from('usage_plans')
+    .update({ is_default: false, updated_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .eq('is_default', true)
+  if (exceptId) query = query.neq('id', exceptId)
+
+  const { error } = await query
+  if (error) throw new Error(`Failed to clear default plan: ${error.message}`)
+}
+
+// The organization's usage plans with the number of users assigned to each
+export async function GET() {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const supabaseAdmin = createSupabaseAdmin()
+    const { data: plans, error } = await supabaseAdmin
+      .from('usage_plans')
+      .select(PLAN_COLUMNS)
+      .eq('organization_id', profile.organization_id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching usage plans:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch usage plans', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const { data: assignments } = await supabaseAdmin
+      .from('user_quotas')
+      .select('plan_id')
+      .in('plan_id', (plans || []).map(plan => plan.id))
+
+    const userCounts = new Map<string, number>()
+    for (const { plan_id } of assignments || []) {
+      userCounts.set(plan_id, (userCounts.get(plan_id) || 0) + 1)
+    }
+
+    return NextResponse.json({
+      success: true,
+      plans: (plans || []).map(plan => ({ ...plan, users_count: userCounts.get(plan.id) || 0 }))
+    })
+
+  } catch (error) {
+    console.error('Get usage plans error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get usage plans', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a plan: { name, is_default, ...limits }
+export async function POST(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, createUsagePlanSchema)
+    if (invalidBody) return invalidBody
+
+    const { name, is_default: isDefault, ...limits } = body
+
+    if (isDefault) await clearDefaultPlan(profile.organization_id)
+
+    const { data, error } = await createSupabaseAdmin()
+      .from('usage_plans')
+      .insert({ organization_id: profile.organization_id, name, ...limits, is_default: isDefault })
+      .select(PLAN_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error creating usage plan:', error)
+      return NextResponse.json(
+        { error: 'Failed to create usage plan', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'usage_plan.create', targetType: 'usage_plan', targetId: data.id, after: data, actor: user })
+
+    console.log(`📊 Usage plan "${name}" created${isDefault ? ' (default)' : ''}`)
+    return NextResponse.json({ success: true, plan: data })
+
+  } catch (error) {
+    console.error('Create usage plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create usage plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Update a plan: { id, name, is_default, ...limits }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, updateUsagePlanSchema)
+    if (invalidBody) return invalidBody
+
+    const { id, name, is_default: isDefault, ...limits } = body
+
+    const supabase = createSupabaseAdmin()
+    const { data: previous } = await supabase
+      .from('usage_plans')
+      .select(PLAN_COLUMNS)
+      .eq('organization_id', profile.organization_id)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!previous) {
+      return NextResponse.json(
+        { error: 'Usage plan not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isDefault) await clearDefaultPlan(profile.organization_id, id)
+
+    const { data, error } = await supabase
+      .from('usage_plans')
+      .update({ name, ...limits, is_default: isDefault, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(PLAN_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error updating usage plan:', error)
+      return NextResponse.json(
+        { error: 'Failed to update usage plan', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'usage_plan.update', targetType: 'usage_plan', targetId: data.id, before: previous, after: data, actor: user })
+
+    return NextResponse.json({ success: true, plan: data })
+
+  } catch (error) {
+    console.error('Update usage plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update usage plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a plan: ?id= (its users fall back to the default plan)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createSupabaseAdmin()
+    const { data: previous } = await supabase
+      .from('usage_plans')
+      .select(PLAN_COLUMNS)
+      .eq('organization_id', profile.organization_id)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!previous) {
+      return NextResponse.json(
+        { error: 'Usage plan not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('usage_plans')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting usage plan:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete usage plan', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, { action: 'usage_plan.delete', targetType: 'usage_plan', targetId: id, before: previous, actor: user })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete usage plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete usage plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/api-auth'
+import { getUserQuotaStatus } from '@/lib/usage-quotas'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { userQuotaSchema } from '@/lib/api-schemas'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Admins only manage the quotas of their own organization's users
+async function isOrganizationMember(userId: string, organizationId: string): Promise<boolean> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('user_profiles')
+    .select('id')
+    .eq('id', userId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load user: ${error.message}`)
+  return !!data
+}
+
+const userNotFound = () => NextResponse.json({ error: 'User not found' }, { status: 404 })
+
+// Plan assignment, per-user overrides and current usage of a user
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { id } = await params
+    if (!await isOrganizationMember(id, profile.organization_id)) return userNotFound()
+
+    const { data: quota, error } = await createSupabaseAdmin()
+      .from('user_quotas')
+      .select('user_id, plan_id, daily_token_limit, monthly_token_limit, daily_request_limit, monthly_request_limit, updated_at')
+      .eq('user_id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching user quota:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch user quota', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const status = await getUserQuotaStatus(profile.organization_id, id)
+
+    return NextResponse.json({ success: true, quota, status })
+
+  } catch (error) {
+    console.error('Get user quota error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get user quota', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Assign a plan and overrides: { plan_id, ...limits }; blank limits use the plan's value
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { id } = await params
+    if (!await isOrganizationMember(id, profile.organization_id)) return userNotFound()
+
+    const { body, response: invalidBody } = await parseRequestBody(request, userQuotaSchema)
+    if (invalidBody) return invalidBody
+
+    const { plan_id: planId, ...limits } = body
+
+    const supabase = createSupabaseAdmin()
+
+    if (planId) {
+      const { data: plan } = await supabase
+        .from('usage_plans')
+        .select('id')
+        .eq('id', planId)
+        .eq('organization_id', profile.organization_id)
+        .maybeSingle()
+
+      if (!plan) {
+        return NextResponse.json({ error: 'Usage plan not found' }, { status: 404 })
+      }
+    }
+
+    const { data: previous } = await supabase
+      .from('user_quotas')
+      .select('plan_id, daily_token_limit, monthly_token_limit, daily_request_limit, monthly_request_limit')
+      .eq('user_id', id)
+      .maybeSingle()
+
+    const { error } = await supabase
+      .from('user_quotas')
+      .upsert({ user_id: id, plan_id: planId, ...limits, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+
+    if (error) {
+      console.error('Error saving user quota:', error)
+      return NextResponse.json(
+        { error: 'Failed to save user quota', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(request, {
+      action: 'user.quota_update',
+      targetType: 'user',
+      targetId: id,
+      before: previous,
+      after: { plan_id: planId, ...limits },
+      actor: user
+    })
+
+    const status = await getUserQuotaStatus(profile.organization_id, id)
+    console.log(`📊 Quota updated for user ${id.slice(-8)}`)
+
+    return NextResponse.json({ success: true, status })
+
+  } catch (error) {
+    console.error('Save user quota error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save user quota', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,54 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { cookies } from 'next/headers'
+import { isPlatformAdmin, requireAdmin } from '@/lib/api-auth'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody, validationErrorResponse } from '@/lib/api-validation'
+import { updateUserSchema } from '@/lib/api-schemas'
 
-// Get all users
+// Get the users of the admin's organization (every organization for platform admins)
 export async function GET() {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
-
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
 
-    // Verify user is admin
     const supabaseAdmin = createSupabaseAdmin()
-    const { data: profile, error: profileError } = await supabaseAdmin
+
+    let query = supabaseAdmin
       .from('user_profiles')
-      .select('role')
-      .eq('id', session.user.id)
-      .single()
+      .select('id, organization_id, email, full_name, role, is_active, created_at, subscription_expires_at')
+      .order('created_at', { ascending: false })
 
-    if (profileError || profile?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      )
+    if (!await isPlatformAdmin(user.id)) {
+      query = query.eq('organization_id', profile.organization_id)
     }
 
-    // Fetch all users
-    const { data: users, error } = await supabaseAdmin
-      .from('user_profiles')
-      .select('id, email, full_name, role, is_active, created_at, subscription_expires_at')
-      .order('created_at', { ascending: false })
+    const { data: users, error } = await query
 
     if (error) {
       console.error('Error fetching users:', error)
@@ -72,53 +46,41 @@ export async function GET() {
   }
 }
 
-// Update user status or role
+// Update user status, role, name or license expiry (any other column is rejected).
+// Only platform admins can move a user to another organization
 export async function PATCH(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
 
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    const { body, response: invalidBody } = await parseRequestBody(request, updateUserSchema)
+    if (invalidBody) return invalidBody
+
+    const { userId, updates } = body
+    if (Object.keys(updates).length === 0) {
+      return validationErrorResponse({ updates: 'must change at least one field' })
     }
 
-    // Verify user is admin
     const supabaseAdmin = createSupabaseAdmin()
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('role')
-      .eq('id', session.user.id)
-      .single()
+    const platformAdmin = await isPlatformAdmin(user.id)
 
-    if (profileError || profile?.role !== 'ADMIN') {
+    if (updates.organization_id !== undefined && !platformAdmin) {
       return NextResponse.json(
-        { error: 'Admin access required' },
+        { error: 'Only platform admins can move users between organizations' },
         { status: 403 }
       )
     }
 
-    const { userId, updates } = await request.json()
+    const { data: previous } = await supabaseAdmin
+      .from('user_profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
 
-    if (!userId || !updates) {
+    if (!previous || (!platformAdmin && previous.organization_id !== profile.organization_id)) {
       return NextResponse.json(
-        { error: 'userId and updates are required' },
-        { status: 400 }
+        { error: 'User not found' },
+        { status: 404 }
       )
     }
 
@@ -138,6 +100,21 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    // Record only the fields that were sent, before and after
+    const changed = Object.keys(updates)
+    const pick = (row: Record<string, unknown> | null) =>
+      row ? Object.fromEntries(changed.map(key => [key, row[key] ?? null])) : null
+
+    await recordAuditEvent(request, {
+      action: 'user.update',
+      targetType: 'user',
+      targetId: userId,
+      before: pick(previous),
+      after: pick(data),
+      actor: user,
+      organizationId: previous.organization_id
+    })
+
     return NextResponse.json({
       success: true,
       user: data
@@ -152,46 +129,13 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
-// Delete user
+// Delete a user of the admin's organization
 export async function DELETE(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
-
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
 
-    // Verify user is admin
     const supabaseAdmin = createSupabaseAdmin()
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('role')
-      .eq('id', session.user.id)
-      .single()
-
-    if (profileError || profile?.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Admin access required' },
-        { status: 403 }
-      )
-    }
 
     const { searchParams } = new URL(request.url)
     const userId = searchParams.get('userId')
@@ -206,11 +150,11 @@ export async function DELETE(request: NextRequest) {
     // Check if trying to delete another admin
     const { data: targetUser, error: targetUserError } = await supabaseAdmin
       .from('user_profiles')
-      .select('role')
+      .select('id, organization_id, email, full_name, role, is_active, subscription_expires_at')
       .eq('id', userId)
       .single()
 
-    if (targetUserError) {
+    if (targetUserError || (targetUser.organization_id !== profile.organization_id && !await isPlatformAdmin(user.id))) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
@@ -238,6 +182,15 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    await recordAuditEvent(request, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: userId,
+      before: targetUser,
+      actor: user,
+      organizationId: targetUser.organization_id
+    })
+
     // TODO: Also delete from auth.users if needed (requires additional service role permissions)
 
     return NextResponse.json({
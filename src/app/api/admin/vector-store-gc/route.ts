@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requirePlatformAdmin } from '@/lib/api-auth'
+import { findOrphanedResources, collectVectorStoreGarbage, DEFAULT_RETENTION_DAYS } from '@/lib/vector-store-gc'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseRequestBody } from '@/lib/api-validation'
+import { vectorStoreGcSchema } from '@/lib/api-schemas'
+
+// Accepts ?retention_days=; falls back to VECTOR_STORE_GC_RETENTION_DAYS
+function parseRetentionDays(value: unknown) {
+  const days = Number(value)
+  return Number.isInteger(days) && days >= 1 ? days : DEFAULT_RETENTION_DAYS
+}
+
+// Dry run: what would be deleted, plus the latest recorded runs. Stores of
+// every organization are collected, so this is for platform admins only
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const retentionDays = parseRetentionDays(request.nextUrl.searchParams.get('retention_days'))
+    const report = await findOrphanedResources(retentionDays)
+
+    const { data: runs } = await createSupabaseAdmin()
+      .from('vector_store_gc_runs')
+      .select('id, trigger, retention_days, deleted_stores, deleted_files, errors, created_at')
+      .order('created_at', { ascending: false })
+      .limit(5)
+
+    return NextResponse.json({ success: true, report, runs: runs || [] })
+  } catch (error) {
+    console.error('Vector store GC report error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build cleanup report', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete the orphaned stores and files and record the run
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePlatformAdmin()
+    if (response) return response
+
+    // { retention_days, include_legacy } are optional, and so is the body itself
+    const { body, response: invalidBody } = await parseRequestBody(request, vectorStoreGcSchema, { optional: true })
+    if (invalidBody) return invalidBody
+
+    const result = await collectVectorStoreGarbage({
+      trigger: 'admin',
+      triggeredBy: user.id,
+      retentionDays: body.retention_days ?? DEFAULT_RETENTION_DAYS,
+      includeLegacy: body.include_legacy,
+    })
+
+    await recordAuditEvent(request, {
+      action: 'vector_store.gc',
+      targetType: 'vector_store',
+      targetId: result.run_id,
+      after: {
+        retention_days: result.retention_days,
+        include_legacy: body.include_legacy,
+        deleted_stores: result.deleted_stores,
+        deleted_files: result.deleted_files,
+        errors: result.errors.length
+      },
+      actor: user
+    })
+
+    return NextResponse.json({ success: result.errors.length === 0, result })
+  } catch (error) {
+    console.error('Vector store GC error:', error)
+    return NextResponse.json(
+      { error: 'Failed to clean up vector stores', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,22 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { openaiNoCache as openai } from '@/lib/openai-client'
+import { getLLMProvider } from '@/lib/llm-provider'
+import { requireAdmin } from '@/lib/api-auth'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
 export async function GET(request: NextRequest) {
   try {
+    // ALLOW_PUBLIC_STATUS exposes this status to monitors without a session (see middleware);
+    // admins only see their own organization's stores
+    let organizationId: string | null = null
+    if (process.env.ALLOW_PUBLIC_STATUS !== 'true') {
+      const { profile, response } = await requireAdmin()
+      if (response) return response
+      organizationId = profile.organization_id
+    }
+
     const supabaseAdmin = createSupabaseAdmin()
     
     // Get all active price lists with vector store IDs
-    const { data: priceLists, error: dbError } = await supabaseAdmin
+    let query = supabaseAdmin
       .from('price_lists')
       .select('id, file_name, supplier_name, openai_vector_file_id, openai_file_id, is_active')
       .not('openai_vector_file_id', 'is', null)
       .eq('is_active', true)
       .order('uploaded_at', { ascending: false })
 
+    if (organizationId) query = query.eq('organization_id', organizationId)
+
+    const { data: priceLists, error: dbError } = await query
+
     if (dbError) {
       console.error('Error fetching file:', dbError)
       return NextResponse.json(
@@ -33,18 +47,18 @@ export async function GET(request: NextRequest) {
       }, { headers: { 'Cache-Control': 'no-store, no-cache, must-revalidate' } })
     }
 
-    // Check status of each vector store with OpenAI
+    // Check status of each vector store with the LLM provider
+    const provider = getLLMProvider()
     const vectorStoreStatuses = await Promise.allSettled(
       priceLists.map(async (priceList) => {
         try {
           // Get vector store status (legacy individual store)
-          const vectorStore = await openai.vectorStores.retrieve(priceList.openai_vector_file_id!)
+          const vectorStore = await provider.retrieveVectorStore(priceList.openai_vector_file_id!)
           
           // Get files in the vector store to get detailed file information
           let vectorStoreFiles: any[] = []
           try {
-            const filesResponse = await openai.vectorStores.files.list(priceList.openai_vector_file_id!)
-            vectorStoreFiles = filesResponse.data || []
+            vectorStoreFiles = await provider.listVectorStoreFiles(priceList.openai_vector_file_id!)
           } catch (filesError) {
             console.warn(`Failed to get files for vector store ${priceList.openai_vector_file_id}:`, filesError)
           }
@@ -53,7 +67,7 @@ export async function GET(request: NextRequest) {
           const fileDetails = await Promise.allSettled(
             vectorStoreFiles.map(async (vsFile) => {
               try {
-                const fileInfo = await openai.files.retrieve(vsFile.id)
+                const fileInfo = await provider.retrieveFile(vsFile.id)
                 return {
                   id: vsFile.id,
                   filename: fileInfo.filename,
@@ -89,7 +103,7 @@ export async function GET(request: NextRequest) {
           
           if (needsFileStatusCheck && priceList.openai_file_id) {
             try {
-              const openaiFile = await openai.files.retrieve(priceList.openai_file_id)
+              const openaiFile = await provider.retrieveFile(priceList.openai_file_id)
               openaiFileStatus = openaiFile.status || 'unknown'
               // File is ready when status is "processed" (ready to use in vector stores)
               openaiFileReady = openaiFile.status === 'processed'
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { reconcileVectorStores } from '@/lib/openai'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { isPlatformAdmin, requireAdmin, requirePlatformAdmin } from '@/lib/api-auth'
+
+// Vector store registry, newest first: the organization's stores, or every
+// store (temp ones included) for platform admins
+export async function GET() {
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    const supabaseAdmin = createSupabaseAdmin()
+
+    let query = supabaseAdmin
+      .from('vector_stores')
+      .select('id, organization_id, kind, name, file_ids, price_list_id, status, expires_at, last_synced_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (!await isPlatformAdmin(user.id)) {
+      query = query.eq('organization_id', profile.organization_id)
+    }
+
+    const { data: stores, error } = await query
+
+    if (error) {
+      console.error('Error fetching vector store registry:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch vector stores', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ stores: stores || [] })
+  } catch (error) {
+    console.error('API error fetching vector store registry:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Reconcile the registry with the stores that exist in OpenAI (every
+// organization's, so platform admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requirePlatformAdmin()
+    if (response) return response
+
+    const drift = await reconcileVectorStores()
+    await recordAuditEvent(request, { action: 'vector_store.reconcile', targetType: 'vector_store', after: drift })
+    return NextResponse.json({ success: true, drift })
+  } catch (error) {
+    console.error('Vector store reconciliation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reconcile vector stores', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -19,7 +19,7 @@ jest.mock('next/headers', () => ({
 describe('GET /api/auth/get-profile', () => {
   const mockSupabaseClient = {
     auth: {
-      getSession: jest.fn(),
+      getUser: jest.fn(),
     },
   }
 
@@ -42,6 +42,11 @@ describe('GET /api/auth/get-profile', () => {
   })
 
   it('should return profile when userId is provided in query params', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    })
+
     const mockProfile = {
       id: 'user-123',
       email: 'test@example.com',
@@ -80,9 +85,37 @@ describe('GET /api/auth/get-profile', () => {
     expect(data.profile.id).toBe('user-123')
   })
 
+  it('should return 403 when a non-admin asks for another user\'s profile', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    })
+
+    // Profile lookup made by the admin guard
+    mockSupabaseAdmin.from.mockReturnValue({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          maybeSingle: jest.fn().mockResolvedValue({
+            data: { id: 'user-123', role: 'USER', is_active: true },
+            error: null,
+          }),
+        })),
+      })),
+    })
+
+    const request = new NextRequest('http://localhost/api/auth/get-profile?userId=user-456')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.error).toBe('Admin access required')
+    expect(mockSupabaseAdmin.auth.admin.getUserById).not.toHaveBeenCalled()
+  })
+
   it('should return 401 when no session and no userId provided', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: { session: null },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: null,
     })
 
     const request = new NextRequest('http://localhost/api/auth/get-profile')
@@ -94,12 +127,9 @@ describe('GET /api/auth/get-profile', () => {
   })
 
   it('should create profile when profile does not exist', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     // Profile not found
@@ -184,12 +214,9 @@ describe('GET /api/auth/get-profile', () => {
   })
 
   it('should return 404 when auth user not found', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     mockSupabaseAdmin.from.mockReturnValue({
@@ -217,7 +244,7 @@ describe('GET /api/auth/get-profile', () => {
   })
 
   it('should handle errors gracefully', async () => {
-    mockSupabaseClient.auth.getSession.mockRejectedValue(
+    mockSupabaseClient.auth.getUser.mockRejectedValue(
       new Error('Network error')
     )
 
@@ -19,7 +19,7 @@ jest.mock('next/headers', () => ({
 describe('POST /api/auth/update-profile', () => {
   const mockSupabaseClient = {
     auth: {
-      getSession: jest.fn(),
+      getUser: jest.fn(),
     },
   }
 
@@ -37,12 +37,9 @@ describe('POST /api/auth/update-profile', () => {
   })
 
   it('should update profile successfully', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     const updatedProfile = {
@@ -80,8 +77,9 @@ describe('POST /api/auth/update-profile', () => {
   })
 
   it('should return 401 when not authenticated', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: { session: null },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: null,
     })
 
     const request = new NextRequest('http://localhost/api/auth/update-profile', {
@@ -96,12 +94,9 @@ describe('POST /api/auth/update-profile', () => {
   })
 
   it('should return 400 when name is missing', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     const request = new NextRequest('http://localhost/api/auth/update-profile', {
@@ -112,16 +107,14 @@ describe('POST /api/auth/update-profile', () => {
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Name is required')
+    expect(data.error).toBe('Invalid request body: name is required')
+    expect(data.fields).toEqual({ name: 'is required' })
   })
 
   it('should return 400 when name is empty string', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     const request = new NextRequest('http://localhost/api/auth/update-profile', {
@@ -132,16 +125,14 @@ describe('POST /api/auth/update-profile', () => {
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Name is required')
+    expect(data.error).toBe('Invalid request body: name is required')
+    expect(data.fields).toEqual({ name: 'is required' })
   })
 
   it('should trim name before updating', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     const updatedProfile = {
@@ -176,12 +167,9 @@ describe('POST /api/auth/update-profile', () => {
   })
 
   it('should handle update errors', async () => {
-    mockSupabaseClient.auth.getSession.mockResolvedValue({
-      data: {
-        session: {
-          user: { id: 'user-123' },
-        },
-      },
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
     })
 
     mockSupabaseAdmin.from.mockReturnValue({
@@ -209,7 +197,7 @@ describe('POST /api/auth/update-profile', () => {
   })
 
   it('should handle exceptions gracefully', async () => {
-    mockSupabaseClient.auth.getSession.mockRejectedValue(
+    mockSupabaseClient.auth.getUser.mockRejectedValue(
       new Error('Network error')
     )
 
@@ -1,50 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { createRouteClient, requireUser } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { changePasswordSchema } from '@/lib/api-schemas'
 
 export async function POST(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
+    const { user, response } = await requireUser()
+    if (response) return response
 
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-
-    const { currentPassword, newPassword } = await request.json()
-
-    if (!currentPassword || !newPassword) {
-      return NextResponse.json(
-        { error: 'Current password and new password are required' },
-        { status: 400 }
-      )
-    }
+    const { body, response: invalidBody } = await parseRequestBody(request, changePasswordSchema)
+    if (invalidBody) return invalidBody
 
-    if (newPassword.length < 6) {
-      return NextResponse.json(
-        { error: 'New password must be at least 6 characters long' },
-        { status: 400 }
-      )
-    }
+    const { currentPassword, newPassword } = body
 
     // Check if user signed up with email (has password)
-    const userEmail = session.user.email
+    const userEmail = user.email
     if (!userEmail) {
       return NextResponse.json(
         { error: 'Unable to change password for this account type' },
@@ -53,6 +23,7 @@ export async function POST(request: NextRequest) {
     }
 
     // First, verify current password by attempting to sign in
+    const supabase = await createRouteClient()
     const { error: signInError } = await supabase.auth.signInWithPassword({
       email: userEmail,
       password: currentPassword
@@ -1,15 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin, requireUser } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { createProfileSchema } from '@/lib/api-schemas'
+import { resolveNewUserOrganizationId } from '@/lib/organizations'
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId, email, fullName } = await request.json()
-    
-    if (!userId || !email) {
-      return NextResponse.json(
-        { error: 'userId and email are required' },
-        { status: 400 }
-      )
+    const { user, response } = await requireUser()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, createProfileSchema)
+    if (invalidBody) return invalidBody
+
+    const { userId, email, fullName } = body
+
+    // Users create their own profile; admins may create one in their organization
+    let adminOrganizationId: string | null = null
+    if (userId !== user.id) {
+      const { profile: adminProfile, response: adminResponse } = await requireAdmin()
+      if (adminResponse) return adminResponse
+      adminOrganizationId = adminProfile.organization_id
     }
 
     const supabaseAdmin = createSupabaseAdmin()
@@ -29,6 +40,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (existingProfile && adminOrganizationId && existingProfile.organization_id !== adminOrganizationId) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+
     if (existingProfile) {
       return NextResponse.json({
         success: true,
@@ -42,6 +57,7 @@ export async function POST(request: NextRequest) {
       .from('user_profiles')
       .insert({
         id: userId,
+        organization_id: adminOrganizationId ?? await resolveNewUserOrganizationId(user.app_metadata),
         email: email,
         full_name: fullName || null,
         role: 'USER',
@@ -1,38 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { cookies } from 'next/headers'
+import { requireAdmin, requireUser } from '@/lib/api-auth'
+import { resolveNewUserOrganizationId } from '@/lib/organizations'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    let userId = searchParams.get('userId')
-
-    // If no userId provided, get from authenticated session
-    if (!userId) {
-      const cookieStore = await cookies()
-      const supabase = createServerClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-        {
-          cookies: {
-            get(name: string) {
-              return cookieStore.get(name)?.value
-            }
-          }
-        }
-      )
+    const { user, response } = await requireUser()
+    if (response) return response
 
-      const { data: { session } } = await supabase.auth.getSession()
-      
-      if (!session?.user) {
-        return NextResponse.json(
-          { error: 'Authentication required' },
-          { status: 401 }
-        )
-      }
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId') || user.id
 
-      userId = session.user.id
+    // Other users' profiles are for admins of their organization only
+    let adminOrganizationId: string | null = null
+    if (userId !== user.id) {
+      const { profile: adminProfile, response: adminResponse } = await requireAdmin()
+      if (adminResponse) return adminResponse
+      adminOrganizationId = adminProfile.organization_id
     }
 
     const supabaseAdmin = createSupabaseAdmin()
@@ -44,6 +28,10 @@ export async function GET(request: NextRequest) {
       .eq('id', userId)
       .single()
 
+    if (profile && adminOrganizationId && profile.organization_id !== adminOrganizationId) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+
     if (profile && !profileError) {
       // Get provider information from auth user
       const { data: authUserData } = await supabaseAdmin.auth.admin.getUserById(userId)
@@ -77,6 +65,7 @@ export async function GET(request: NextRequest) {
       .from('user_profiles')
       .insert({
         id: userId,
+        organization_id: adminOrganizationId ?? await resolveNewUserOrganizationId(authUserData.user.app_metadata),
         email,
         full_name: fullName,
         role: 'USER',
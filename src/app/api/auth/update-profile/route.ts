@@ -1,52 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { cookies } from 'next/headers'
+import { requireUser } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { updateProfileSchema } from '@/lib/api-schemas'
 
 export async function POST(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
-
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+    const { user, response } = await requireUser()
+    if (response) return response
 
-    const { name } = await request.json()
+    const { body, response: invalidBody } = await parseRequestBody(request, updateProfileSchema)
+    if (invalidBody) return invalidBody
 
-    if (!name || typeof name !== 'string' || !name.trim()) {
-      return NextResponse.json(
-        { error: 'Name is required' },
-        { status: 400 }
-      )
-    }
+    const { name } = body
 
-    const userId = session.user.id
+    const userId = user.id
 
-    console.log('🔍 Updating profile for user:', userId, 'with name:', name.trim())
+    console.log('🔍 Updating profile for user:', userId, 'with name:', name)
 
     // Update user profile using admin client
     const supabaseAdmin = createSupabaseAdmin()
     const { data, error } = await supabaseAdmin
       .from('user_profiles')
       .update({
-        full_name: name.trim()
+        full_name: name
       })
       .eq('id', userId)
       .select()
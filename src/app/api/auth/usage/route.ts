@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { getUserQuotaStatus } from '@/lib/usage-quotas'
+import { requireProfile } from '@/lib/api-auth'
+
+// Chat quotas and usage of the current user (profile page)
+export async function GET() {
+  try {
+    const { user, profile, response } = await requireProfile()
+    if (response) return response
+
+    const status = await getUserQuotaStatus(profile.organization_id, user.id)
+
+    return NextResponse.json({ success: true, usage: status })
+  } catch (error) {
+    console.error('Get usage error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get usage', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
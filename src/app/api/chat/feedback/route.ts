@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireActiveSubscription } from '@/lib/api-auth'
+import { toFeedbackInput } from '@/lib/message-feedback'
+import { parseRequestBody } from '@/lib/api-validation'
+import { messageFeedbackSchema } from '@/lib/api-schemas'
+
+// Rate one of the user's answers: { messageId, rating: 'up' | 'down', comment?, correct_value? }
+// Rating again replaces the previous rating and reopens it for review
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, messageFeedbackSchema)
+    if (invalidBody) return invalidBody
+
+    const feedback = toFeedbackInput(body)
+
+    const supabaseAdmin = createSupabaseAdmin()
+
+    // Only the user's own assistant answers can be rated
+    const { data: message, error: messageError } = await supabaseAdmin
+      .from('messages')
+      .select('id')
+      .eq('id', feedback.message_id)
+      .eq('user_id', user.id)
+      .eq('role', 'assistant')
+      .maybeSingle()
+
+    if (messageError) {
+      console.error('Error fetching rated message:', messageError)
+      return NextResponse.json(
+        { error: 'Failed to save feedback', details: messageError.message },
+        { status: 500 }
+      )
+    }
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('message_feedback')
+      .upsert({
+        ...feedback,
+        user_id: user.id,
+        status: 'open',
+        resolution_note: null,
+        resolved_by: null,
+        resolved_at: null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'message_id,user_id' })
+      .select('rating, comment, correct_value, status')
+      .single()
+
+    if (error) {
+      console.error('Error saving feedback:', error)
+      return NextResponse.json(
+        { error: 'Failed to save feedback', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    console.log(`${feedback.rating === 'up' ? '👍' : '👎'} Feedback on message ${feedback.message_id.slice(-8)} from user ${user.id.slice(-8)}`)
+    return NextResponse.json({ success: true, feedback: data })
+
+  } catch (error) {
+    console.error('Save feedback error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Withdraw the user's rating of an answer: ?messageId=
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const messageId = new URL(request.url).searchParams.get('messageId')
+    if (!messageId) {
+      return NextResponse.json(
+        { error: 'messageId parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await createSupabaseAdmin()
+      .from('message_feedback')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error deleting feedback:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete feedback', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Delete feedback error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
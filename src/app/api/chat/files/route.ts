@@ -1,40 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { cookies } from 'next/headers'
+import { requireActiveSubscription } from '@/lib/api-auth'
 
 // Get active files for mention autocomplete
 export async function GET(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
-
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+    const { profile, response } = await requireActiveSubscription()
+    if (response) return response
 
     const supabaseAdmin = createSupabaseAdmin()
     
-    // Get all active files
+    // Get the active files of the user's organization
     const { data: activeFiles, error: fileError } = await supabaseAdmin
       .from('price_lists')
       .select('id, file_name, supplier_name, openai_file_id, openai_vector_file_id')
+      .eq('organization_id', profile.organization_id)
       .eq('is_active', true)
       .not('openai_file_id', 'is', null)
       .order('uploaded_at', { ascending: false })
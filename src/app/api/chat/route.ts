@@ -1,10 +1,294 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@supabase/ssr'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
-import { queryPricesFast, type ChatMessage } from '@/lib/openai-responses'
-import { getOrCreateMasterVectorStore, getOrCreateTempVectorStore, waitForVectorStoreReady, generateFileIdsHash } from '@/lib/openai'
-import { openaiDirect as openai } from '@/lib/openai-client'
-import { cookies } from 'next/headers'
+import { requireActiveSubscription } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { chatRequestSchema } from '@/lib/api-schemas'
+import { queryPricesFast, streamPricesFast, type ChatMessage, type OpenAIResponse, type FileSearchFilter } from '@/lib/openai-responses'
+import { formatSSE } from '@/lib/sse'
+import { resolveCitations, type Citation } from '@/lib/citations'
+import { buildConversationTitle, getOwnedConversation, loadConversationHistory, type OwnedConversation } from '@/lib/conversations'
+import { summarizeConversationIfNeeded } from '@/lib/rolling-summary'
+import { isAnswerCacheEnabled, lookupCachedAnswer, resolveCacheContextKey, storeCachedAnswer, type CachedAnswer } from '@/lib/answer-cache'
+import { lookupStructuredPrices, type StructuredPriceLookup } from '@/lib/price-search'
+import { comparePrices, isComparisonQuery, type PriceComparison } from '@/lib/price-comparison'
+import { getOrCreateMasterVectorStore, buildPriceListFilter } from '@/lib/openai'
+import { checkChatQuota, quotaExceededMessage } from '@/lib/usage-quotas'
+import type { MessageFeedback } from '@/lib/message-feedback'
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdmin>
+
+// Persist the user message and the assistant reply, creating the conversation if needed.
+// Returns the saved answer's id so the client can rate it
+async function saveChatExchange(
+  supabaseAdmin: SupabaseAdminClient,
+  userId: string,
+  conversationId: string | undefined,
+  message: string,
+  aiResponse: OpenAIResponse,
+  citations: Citation[] = [],
+  comparison: PriceComparison | null = null,
+  cacheHit = false
+): Promise<{ conversationId: string | undefined; messageId: string | undefined }> {
+  console.log('💾 Starting message storage. User:', userId.slice(-8), 'ConvID:', conversationId?.slice(-8) || 'new')
+
+  let actualConversationId = conversationId
+
+  if (!actualConversationId) {
+    console.log('💾 Creating new conversation...')
+    // Create a new conversation for this chat session
+    const { data: newConversation, error: conversationError } = await supabaseAdmin
+      .from('conversations')
+      .insert({
+        user_id: userId,
+        title: buildConversationTitle(message),
+      })
+      .select('id')
+      .single()
+
+    if (conversationError) {
+      console.error('❌ Error creating conversation:', conversationError)
+      // Continue without conversation ID - save messages anyway
+    } else {
+      actualConversationId = newConversation.id
+      console.log('✅ Created conversation:', newConversation.id.slice(-8))
+    }
+  } else {
+    console.log('💾 Using existing conversation:', actualConversationId.slice(-8))
+  }
+
+  // Save user message to database
+  const { data: savedUserMessage, error: userMessageError } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      conversation_id: actualConversationId,
+      user_id: userId,
+      content: message,
+      role: 'user',
+      response_time_ms: 0,
+      tokens_used: 0
+    })
+    .select()
+
+  if (userMessageError) {
+    console.error('❌ Error saving user message:', userMessageError)
+  } else {
+    console.log('✅ User message saved')
+  }
+
+  // Save AI response to database
+  const { data: savedAiMessage, error: aiMessageError } = await supabaseAdmin
+    .from('messages')
+    .insert({
+      conversation_id: actualConversationId,
+      user_id: userId,
+      content: aiResponse.content,
+      role: 'assistant',
+      response_time_ms: aiResponse.response_time_ms || 0,
+      tokens_used: aiResponse.tokens_used || 0,
+      citations,
+      comparison,
+      model: aiResponse.generation?.model ?? null,
+      temperature: aiResponse.generation?.temperature ?? null,
+      max_output_tokens: aiResponse.generation?.max_output_tokens ?? null,
+      instructions_version: aiResponse.instructions_version ?? null,
+      cache_hit: cacheHit
+    })
+    .select()
+
+  if (aiMessageError) {
+    console.error('❌ Error saving AI message:', aiMessageError)
+  } else {
+    console.log('✅ AI response saved (', aiResponse.tokens_used || 0, 'tokens,', aiResponse.response_time_ms || 0, 'ms)')
+  }
+
+  console.log('💾 Storage completed')
+
+  return { conversationId: actualConversationId, messageId: savedAiMessage?.[0]?.id }
+}
+
+// Stream the answer as SSE: "delta" events while generating, then "done" once messages are saved
+function streamChatResponse(params: {
+  supabaseAdmin: SupabaseAdminClient
+  userId: string
+  organizationId: string
+  userIdentifier: string
+  conversationId: string | undefined
+  message: string
+  conversationHistory: ChatMessage[]
+  conversationSummary: string | null
+  vectorStoreIds: string[]
+  searchFilters: FileSearchFilter | undefined
+  priceLookup: StructuredPriceLookup | null
+  activeCatalogsCount: number
+  // Set when the answer should be stored in the answer cache
+  cache: { contextKey: string; embedding: number[] | null } | null
+  startTime: number
+}): Response {
+  const encoder = new TextEncoder()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatSSE(event, data)))
+      }
+
+      const queryStartTime = Date.now()
+      let aiResponse: OpenAIResponse
+      let failed = false
+
+      console.log(`🌊 Streaming query with ${params.vectorStoreIds.length} vector store(s): ${params.vectorStoreIds.join(', ')}`)
+
+      try {
+        aiResponse = await streamPricesFast(
+          params.message,
+          params.vectorStoreIds,
+          params.conversationHistory,
+          params.userIdentifier,
+          (delta) => send('delta', { text: delta }),
+          {
+            organizationId: params.organizationId,
+            priceContext: params.priceLookup?.context,
+            filters: params.searchFilters,
+            conversationSummary: params.conversationSummary
+          }
+        )
+      } catch (error) {
+        console.log('⚠️ OpenAI stream failed, but still saving messages to database...')
+        console.error('OpenAI Error:', error)
+        failed = true
+        aiResponse = {
+          content: 'Lo siento, hubo un error procesando tu consulta. Por favor intenta nuevamente.',
+          tokens_used: 0,
+          response_time_ms: Date.now() - queryStartTime
+        }
+      }
+      const queryTime = Date.now() - queryStartTime
+
+      try {
+        const citations = params.priceLookup && !failed
+          ? params.priceLookup.citations
+          : await resolveCitations(aiResponse.sources || [])
+        const comparison = failed ? null : params.priceLookup?.comparison ?? null
+        const saved = await saveChatExchange(
+          params.supabaseAdmin,
+          params.userId,
+          params.conversationId,
+          params.message,
+          aiResponse,
+          citations,
+          comparison
+        )
+
+        const totalTime = Date.now() - params.startTime
+        console.log(`Chat stream completed in ${totalTime}ms (query: ${queryTime}ms)`)
+
+        send(failed ? 'error' : 'done', {
+          success: !failed,
+          response: aiResponse.content,
+          citations,
+          comparison,
+          conversationId: saved.conversationId,
+          messageId: saved.messageId,
+          tokens_used: aiResponse.tokens_used,
+          response_time_ms: totalTime,
+          query_time_ms: queryTime,
+          active_catalogs: params.activeCatalogsCount
+        })
+
+        if (params.cache && !failed) {
+          await storeCachedAnswer({
+            organizationId: params.organizationId,
+            contextKey: params.cache.contextKey,
+            query: params.message,
+            embedding: params.cache.embedding,
+            response: aiResponse.content,
+            citations,
+            comparison,
+            model: aiResponse.generation?.model ?? null,
+            instructionsVersion: aiResponse.instructions_version ?? null
+          })
+        }
+      } catch (error) {
+        console.error('❌ Error finishing chat stream:', error)
+        send('error', {
+          success: false,
+          error: 'Error procesando consulta de archivos',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        })
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
+
+// Answer a repeated question from the answer cache: the exchange is saved like any other,
+// flagged as a cache hit, and streamed as a single delta when the client asked for SSE
+async function respondFromCache(params: {
+  supabaseAdmin: SupabaseAdminClient
+  userId: string
+  conversationId: string | undefined
+  message: string
+  cached: CachedAnswer
+  stream: boolean
+  startTime: number
+}): Promise<Response> {
+  const { cached } = params
+  const aiResponse: OpenAIResponse = {
+    content: cached.response,
+    tokens_used: 0,
+    response_time_ms: Date.now() - params.startTime,
+    instructions_version: cached.instructions_version
+  }
+  const saved = await saveChatExchange(
+    params.supabaseAdmin,
+    params.userId,
+    params.conversationId,
+    params.message,
+    aiResponse,
+    cached.citations,
+    cached.comparison,
+    true
+  )
+
+  const totalTime = Date.now() - params.startTime
+  console.log(`♻️ Answered from cache (${cached.match}, similarity ${cached.similarity.toFixed(3)}) in ${totalTime}ms`)
+
+  const payload = {
+    success: true,
+    response: cached.response,
+    citations: cached.citations,
+    comparison: cached.comparison,
+    conversationId: saved.conversationId,
+    messageId: saved.messageId,
+    tokens_used: 0,
+    response_time_ms: totalTime,
+    query_time_ms: 0,
+    cached: true
+  }
+
+  if (!params.stream) {
+    return NextResponse.json(payload)
+  }
+
+  return new Response(formatSSE('delta', { text: cached.response }) + formatSSE('done', payload), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
 
 // Ultra-fast chat API using OpenAI Responses API
 // Target: 50ms response time for Venezuelan B2B price queries
@@ -13,60 +297,101 @@ export async function POST(request: NextRequest) {
   console.log('🚀 Chat API called at', new Date().toISOString())
   
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
+    const { user, profile, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, chatRequestSchema)
+    if (invalidBody) return invalidBody
+
+    const { message, conversationId, fileIds, stream, mode } = body
+    const userId = user.id
+    // Price lists, master store, instructions and cache are all per organization
+    const organizationId = profile.organization_id
+
+    // Only the owner can continue a conversation
+    const conversation: OwnedConversation | null = conversationId
+      ? await getOwnedConversation(conversationId, userId)
+      : null
+    if (conversationId && !conversation) {
+      console.log(`⛔ Conversation ${conversationId.slice(-8)} does not belong to user ${userId.slice(-8)}`)
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
 
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
+    const quota = await checkChatQuota(organizationId, userId)
+    if (quota?.exceeded) {
+      const { exceeded } = quota
+      console.log(`⛔ Quota exceeded for user ${userId.slice(-8)}: ${exceeded.period} ${exceeded.metric} (${exceeded.used}/${exceeded.limit})`)
       return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
+        {
+          error: quotaExceededMessage(exceeded),
+          code: 'quota_exceeded',
+          reset_at: exceeded.reset_at,
+          quota: exceeded
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(Math.max(1, Math.ceil((Date.parse(exceeded.reset_at) - Date.now()) / 1000))) }
+        }
       )
     }
 
-    const { 
-      message, 
-      conversationId,
-      fileIds = [], // Array of price_list IDs to filter by
-      conversationHistory = []
-    } = await request.json()
+    // Prior turns are rebuilt from the saved messages; the client never supplies them.
+    // Turns already folded into the summary are sent through it instead
+    const conversationHistory: ChatMessage[] = conversation
+      ? await loadConversationHistory(conversation.id, userId, conversation.summarized_through)
+      : []
+    const conversationSummary = conversation?.summary ?? null
+    if (conversation) {
+      console.log(`🧵 History: ${conversationHistory.length} message(s)${conversationSummary ? ' + summary' : ''} from conversation ${conversation.id.slice(-8)}`)
+      // Once this exchange is saved, fold older turns into the summary if the history grew too long
+      after(() => summarizeConversationIfNeeded(conversation.id, userId, organizationId))
+    }
 
-    const userId = session.user.id
+    const supabaseAdmin = createSupabaseAdmin()
 
-    if (!message) {
-      return NextResponse.json(
-        { error: 'Message is required' },
-        { status: 400 }
-      )
+    // Standalone questions (no earlier turns to depend on) can reuse a cached answer
+    let cache: { contextKey: string; embedding: number[] | null } | null = null
+    if (isAnswerCacheEnabled() && conversationHistory.length === 0 && !conversationSummary) {
+      try {
+        const contextKey = await resolveCacheContextKey(organizationId, fileIds, mode)
+        const { hit, embedding } = await lookupCachedAnswer(message, contextKey)
+        if (hit) {
+          return respondFromCache({ supabaseAdmin, userId, conversationId, message, cached: hit, stream, startTime })
+        }
+        cache = { contextKey, embedding }
+      } catch (error) {
+        console.error('❌ Answer cache unavailable:', error)
+      }
     }
 
     // MASTER VECTOR STORE APPROACH (Best Practice)
     // One vector store containing all active PDFs - fastest & most efficient
-    // OR use individual vector stores when specific files are selected
-    const supabaseAdmin = createSupabaseAdmin()
+    // Selected files are searched in the same store through an attribute filter
     
     let vectorStoreIds: string[] = []
+    let searchFilters: FileSearchFilter | undefined
     let activeCatalogsCount = 0
+
+    // STRUCTURED PRICES FIRST: rows extracted into price_items answer exact lookups
+    // without file_search; vector stores are only prepared when nothing matches
+    const wantsComparison = mode === 'comparison' || (mode === 'auto' && isComparisonQuery(message))
+    const priceLookup = (wantsComparison ? await comparePrices(organizationId, message, fileIds) : null)
+      ?? await lookupStructuredPrices(organizationId, message, fileIds)
     
-    if (fileIds && fileIds.length > 0) {
+    if (priceLookup) {
+      activeCatalogsCount = new Set(priceLookup.matches.map(m => m.price_list_id)).size
+      console.log(`💲 STRUCTURED PRICES: ${priceLookup.matches.length} item(s) from ${activeCatalogsCount} price list(s)`)
+    } else if (fileIds && fileIds.length > 0) {
       // User selected specific files
       console.log(`🎯 FILTERED SEARCH: User selected ${fileIds.length} specific file(s)`)
       
       const { data: selectedFiles, error: fileError } = await supabaseAdmin
         .from('price_lists')
-        .select('openai_file_id, openai_vector_file_id, file_name, supplier_name')
+        .select('id, file_name, supplier_name')
+        .eq('organization_id', organizationId)
         .in('id', fileIds)
         .eq('is_active', true)
         .not('openai_file_id', 'is', null)
@@ -89,239 +414,28 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      // Get OpenAI file IDs for selected files
-      const openaiFileIds = selectedFiles
-        .map(f => f.openai_file_id)
-        .filter((id): id is string => id !== null)
-
-      if (openaiFileIds.length === 0) {
-        return NextResponse.json({
-          success: true,
-          response: 'Los archivos seleccionados no tienen archivos de OpenAI asociados.',
-          tokens_used: 0,
-          response_time_ms: Date.now() - startTime,
-          active_catalogs: 0
-        })
-      }
-
-      // Optimization: If only one file and it has an individual vector store, use it
-      if (selectedFiles.length === 1 && selectedFiles[0].openai_vector_file_id) {
-        const singleFile = selectedFiles[0]
-        console.log(`✅ Using existing individual vector store for single file: ${singleFile.file_name}`)
-        
-        try {
-          // Verify the vector store exists and is ready
-          const vectorStoreStatus = await waitForVectorStoreReady(
-            singleFile.openai_vector_file_id,
-            20000, // Longer timeout for existing stores (20 seconds)
-            1000  // Check every second
-          )
-          
-          // Verify files are actually in the vector store
-          const filesInStore = await openai.vectorStores.files.list(singleFile.openai_vector_file_id)
-          const completedFilesInStore = filesInStore.data.filter(f => f.status === 'completed')
-          
-          console.log(`📊 Individual vector store has ${completedFilesInStore.length}/${filesInStore.data.length} completed files`)
-          
-          if (vectorStoreStatus.status === 'completed' && completedFilesInStore.length > 0) {
-            // Additional wait to ensure indexing is complete
-            console.log(`⏳ Waiting additional 2 seconds to ensure indexing is complete...`)
-            await new Promise(resolve => setTimeout(resolve, 2000))
-            
-            vectorStoreIds = [singleFile.openai_vector_file_id]
-            activeCatalogsCount = 1
-            console.log(`✅ Individual vector store ready with ${completedFilesInStore.length} file(s): ${singleFile.file_name}`)
-          } else {
-            // Vector store not ready, fall through to create temporary
-            console.log(`⚠️ Individual vector store not ready (status: ${vectorStoreStatus.status}, completed files: ${completedFilesInStore.length}), creating temporary...`)
-            throw new Error('Vector store not ready')
-          }
-        } catch (error) {
-          // If individual vector store doesn't work, fall through to create temporary
-          console.log(`⚠️ Could not use individual vector store, creating temporary: ${error}`)
-          // Continue to temporary vector store creation below
-        }
-      }
-
-      // If we don't have vectorStoreIds yet (multiple files or single file without individual store)
-      if (vectorStoreIds.length === 0) {
-        // Create a temporary vector store with the selected files
-        // This ensures we search only in the specified files
-        try {
-          // First, verify that all OpenAI files are processed and ready
-          console.log(`🔍 Verifying ${openaiFileIds.length} OpenAI file(s) are processed...`)
-          const fileStatuses = await Promise.all(
-            openaiFileIds.map(async (fileId) => {
-              try {
-                const file = await openai.files.retrieve(fileId)
-                return { fileId, status: file.status, ready: file.status === 'processed' }
-              } catch (error) {
-                console.warn(`⚠️ Could not check status of file ${fileId}:`, error)
-                return { fileId, status: 'unknown', ready: false }
-              }
-            })
-          )
-          
-          const unreadyFiles = fileStatuses.filter(f => !f.ready)
-          if (unreadyFiles.length > 0) {
-            console.warn(`⚠️ Some files are not processed yet: ${unreadyFiles.map(f => `${f.fileId} (${f.status})`).join(', ')}`)
-            // Wait a bit and check again, or continue anyway
-            await new Promise(resolve => setTimeout(resolve, 3000))
-          }
-          
-          const readyFileIds = fileStatuses.filter(f => f.ready).map(f => f.fileId)
-          if (readyFileIds.length === 0) {
-            return NextResponse.json({
-              success: true,
-              response: 'Los archivos seleccionados aún se están procesando. Por favor, espera unos momentos e intenta nuevamente.',
-              tokens_used: 0,
-              response_time_ms: Date.now() - startTime,
-              active_catalogs: 0
-            })
-          }
-          
-          console.log(`✅ ${readyFileIds.length}/${openaiFileIds.length} files are ready, getting or creating vector store...`)
-          console.log(`📋 Selected files: ${selectedFiles.map(f => `${f.file_name} (${f.openai_file_id})`).join(', ')}`)
-          console.log(`📋 OpenAI file IDs to use: ${readyFileIds.join(', ')}`)
-          
-          // Use getOrCreateTempVectorStore to reuse existing stores with same file IDs
-          const tempVectorStore = await getOrCreateTempVectorStore(readyFileIds)
-          
-          // Check if this is a reused store (was already ready when found)
-          const wasAlreadyReady = tempVectorStore.status === 'completed' && tempVectorStore.file_counts.completed > 0
-          
-          console.log(`⏳ Vector store ${tempVectorStore.id} status: ${tempVectorStore.status}${wasAlreadyReady ? ' (reused)' : ''}, waiting for files to be indexed if needed...`)
-          
-          // Wait for vector store to be ready (files processed) if not already ready
-          // Use a longer timeout for temporary stores (60 seconds) as they need to process files
-          let readyVectorStore = wasAlreadyReady
-            ? tempVectorStore // Already ready, no need to wait
-            : await waitForVectorStoreReady(tempVectorStore.id, 60000, 2000)
-          
-          // Verify files are actually in the vector store and match exactly
-          try {
-            const filesInStore = await openai.vectorStores.files.list(tempVectorStore.id)
-            const completedFilesInStore = filesInStore.data.filter(f => f.status === 'completed')
-            
-            console.log(`📊 Vector store ${tempVectorStore.id} has ${completedFilesInStore.length}/${filesInStore.data.length} completed files`)
-            console.log(`📋 Files in vector store: ${filesInStore.data.map(f => `${f.id} (${f.status})`).join(', ')}`)
-            console.log(`📋 Expected files: ${readyFileIds.join(', ')}`)
-            
-            if (completedFilesInStore.length === 0) {
-              console.error(`❌ Vector store ${tempVectorStore.id} has no completed files!`)
-              return NextResponse.json({
-                success: true,
-                response: 'Los archivos aún se están procesando en el vector store. Por favor, espera unos momentos e intenta nuevamente.',
-                tokens_used: 0,
-                response_time_ms: Date.now() - startTime,
-                active_catalogs: 0
-              })
-            }
-            
-            // Verify all expected files are present and no extra files
-            const fileIdsInStore = new Set(completedFilesInStore.map(f => f.id))
-            const requestedFileIds = new Set(readyFileIds)
-            const missingFiles = readyFileIds.filter(id => !fileIdsInStore.has(id))
-            const extraFiles = completedFilesInStore.filter(f => !requestedFileIds.has(f.id))
-            
-            if (missingFiles.length > 0) {
-              console.error(`❌ Missing files in vector store: ${missingFiles.join(', ')}`)
-              console.error(`❌ This vector store does not contain all requested files!`)
-              return NextResponse.json({
-                success: true,
-                response: 'Error: El vector store no contiene todos los archivos seleccionados. Por favor, intenta nuevamente.',
-                tokens_used: 0,
-                response_time_ms: Date.now() - startTime,
-                active_catalogs: 0
-              })
-            }
-            
-            if (extraFiles.length > 0) {
-              console.error(`❌ Vector store has extra files that were not requested: ${extraFiles.map(f => f.id).join(', ')}`)
-              console.error(`❌ This would cause the AI to search in files that were not selected!`)
-              console.error(`❌ Rejecting this vector store and creating a new one with only the requested files...`)
-              
-              // Delete the incorrect vector store and create a new one
-              try {
-                await openai.vectorStores.delete(tempVectorStore.id)
-                console.log(`🗑️ Deleted incorrect vector store ${tempVectorStore.id}`)
-              } catch (deleteError) {
-                console.warn(`⚠️ Could not delete incorrect vector store: ${deleteError}`)
-              }
-              
-              // Create a new vector store with only the requested files using the helper function
-              const hash = generateFileIdsHash(readyFileIds)
-              const tempName = `Temp-${hash}`
-              
-              console.log(`🆕 Creating new vector store with only requested files...`)
-              const newVectorStore = await openai.vectorStores.create({
-                name: tempName,
-                file_ids: readyFileIds,
-                expires_after: {
-                  anchor: 'last_active_at',
-                  days: 30
-                }
-              })
-              
-              // Wait for the new store to be ready
-              const readyNewStore = await waitForVectorStoreReady(newVectorStore.id, 60000, 2000)
-              
-              // Update references to use the new store
-              readyVectorStore = readyNewStore
-              
-              // Also update tempVectorStore reference by creating a new object
-              Object.assign(tempVectorStore, readyNewStore)
-              
-              console.log(`✅ Created and verified new vector store ${readyNewStore.id} with exact file match`)
-              
-              // Continue with the rest of the flow using the new store
-            }
-            
-            if (missingFiles.length === 0 && extraFiles.length === 0) {
-              console.log(`✅ All ${readyFileIds.length} requested file(s) are present and completed in vector store (exact match)`)
-            }
-          } catch (verifyError) {
-            console.error(`❌ Error verifying files in vector store: ${verifyError}`)
-            // Continue anyway - the waitForVectorStoreReady should have ensured readiness
-          }
-          
-          if (readyVectorStore.status !== 'completed' || readyVectorStore.file_counts.completed === 0) {
-            console.warn(`⚠️ Vector store ${tempVectorStore.id} not fully ready (status: ${readyVectorStore.status}, completed: ${readyVectorStore.file_counts.completed})`)
-            return NextResponse.json({
-              success: true,
-              response: 'Los archivos aún se están procesando en el vector store. Por favor, espera unos momentos e intenta nuevamente.',
-              tokens_used: 0,
-              response_time_ms: Date.now() - startTime,
-              active_catalogs: 0
-            })
-          }
-          
-          // Additional wait only if this is a newly created store (not reused)
-          // Reused stores are already fully indexed
-          if (!wasAlreadyReady) {
-            console.log(`⏳ Waiting additional 3 seconds to ensure indexing is complete for new vector store...`)
-            await new Promise(resolve => setTimeout(resolve, 3000))
-          } else {
-            console.log(`♻️ Using existing vector store, skipping additional wait`)
-          }
-          
-          vectorStoreIds = [tempVectorStore.id]
-          activeCatalogsCount = selectedFiles.length
-          
-          console.log(`✅ ${wasAlreadyReady ? 'Reused' : 'Temporary'} vector store ready with ${readyVectorStore.file_counts.completed}/${readyVectorStore.file_counts.total} files: ${selectedFiles.map(f => f.file_name).join(', ')}`)
-        } catch (error) {
-          console.error('Error creating/waiting for temporary vector store:', error)
-          return NextResponse.json(
-            { error: 'Failed to prepare vector store for selected files. Por favor, intenta nuevamente en unos momentos.' },
-            { status: 500 }
-          )
-        }
+      // Every active file is indexed in the master store tagged with its price_list_id,
+      // so mentioned files are searched there with an attribute filter: no per-selection
+      // vector store to build or wait for
+      try {
+        const masterStore = await getOrCreateMasterVectorStore(organizationId)
+        vectorStoreIds = [masterStore.id]
+        searchFilters = buildPriceListFilter(selectedFiles.map(f => f.id))
+        activeCatalogsCount = selectedFiles.length
+        console.log(`✅ Filtering master vector store ${masterStore.id} to: ${selectedFiles.map(f => f.file_name).join(', ')}`)
+      } catch (error) {
+        console.error('Master vector store error:', error)
+        return NextResponse.json(
+          { error: 'Failed to access files' },
+          { status: 500 }
+        )
       }
     } else {
       // No specific files selected - use master vector store (all active files)
       const { data: activeFiles, error: fileError } = await supabaseAdmin
         .from('price_lists')
         .select('openai_file_id, file_name, supplier_name')
+        .eq('organization_id', organizationId)
         .eq('is_active', true)
         .not('openai_file_id', 'is', null)
         .order('uploaded_at', { ascending: false })
@@ -349,7 +463,7 @@ export async function POST(request: NextRequest) {
       
       try {
         // Just get the master vector store - sync only happens when files are added/removed
-        const masterStore = await getOrCreateMasterVectorStore()
+        const masterStore = await getOrCreateMasterVectorStore(organizationId)
         console.log(`✅ Using master vector store: ${masterStore.id} (${masterStore.file_counts.total} files)`)
         
         vectorStoreIds = [masterStore.id]
@@ -363,10 +477,30 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (stream) {
+      return streamChatResponse({
+        supabaseAdmin,
+        userId,
+        organizationId,
+        userIdentifier: user.email || user.id,
+        conversationId,
+        message,
+        conversationHistory,
+        conversationSummary,
+        vectorStoreIds,
+        searchFilters,
+        priceLookup,
+        activeCatalogsCount,
+        cache,
+        startTime
+      })
+    }
+
     // Execute ultra-fast price query
     const queryStartTime = Date.now()
     let aiResponse
     let queryTime = 0
+    let failed = false
     
     console.log(`🔍 Executing query with ${vectorStoreIds.length} vector store(s): ${vectorStoreIds.join(', ')}`)
     console.log(`📝 Query: "${message}"`)
@@ -374,9 +508,10 @@ export async function POST(request: NextRequest) {
     try {
       aiResponse = await queryPricesFast(
         message,
-        vectorStoreIds, // Use selected vector stores (individual or master)
+        vectorStoreIds, // Master store, filtered when files are selected
         conversationHistory,
-        session.user.email || session.user.id
+        user.email || user.id,
+        { organizationId, priceContext: priceLookup?.context, filters: searchFilters, conversationSummary }
       )
       queryTime = Date.now() - queryStartTime
       console.log('🔍 OpenAI query completed successfully, about to start message storage...')
@@ -384,6 +519,7 @@ export async function POST(request: NextRequest) {
       queryTime = Date.now() - queryStartTime
       console.log('⚠️ OpenAI query failed, but still saving messages to database...')
       console.error('OpenAI Error:', error)
+      failed = true
       
       // Create a fallback response for database storage
       aiResponse = {
@@ -393,73 +529,29 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Map cited OpenAI files back to price lists so they can be stored with the answer
+    const citations = priceLookup
+      ? priceLookup.citations
+      : await resolveCitations(aiResponse.sources || [])
+    const comparison = priceLookup?.comparison ?? null
+
     // Always save messages to database - create conversation if needed
-    console.log('💾 Starting message storage. User:', userId.slice(-8), 'ConvID:', conversationId?.slice(-8) || 'new')
-    
-    let actualConversationId = conversationId
-    
-    if (!actualConversationId) {
-      console.log('💾 Creating new conversation...')
-      // Create a new conversation for this chat session
-      const { data: newConversation, error: conversationError } = await supabaseAdmin
-        .from('conversations')
-        .insert({
-          user_id: userId,
-          title: `Chat ${new Date().toLocaleDateString('es-VE', { day: '2-digit', month: '2-digit', year: 'numeric' })}`,
-        })
-        .select('id')
-        .single()
-
-      if (conversationError) {
-        console.error('❌ Error creating conversation:', conversationError)
-        // Continue without conversation ID - save messages anyway
-      } else {
-        actualConversationId = newConversation.id
-        console.log('✅ Created conversation:', actualConversationId.slice(-8))
+    const saved = await saveChatExchange(supabaseAdmin, userId, conversationId, message, aiResponse, citations, comparison)
+
+    if (cache && !failed) {
+      const entry = {
+        organizationId,
+        contextKey: cache.contextKey,
+        query: message,
+        embedding: cache.embedding,
+        response: aiResponse.content,
+        citations,
+        comparison,
+        model: aiResponse.generation?.model ?? null,
+        instructionsVersion: aiResponse.instructions_version ?? null
       }
-    } else {
-      console.log('💾 Using existing conversation:', actualConversationId.slice(-8))
-    }
-
-    // Save user message to database
-    const { data: savedUserMessage, error: userMessageError } = await supabaseAdmin
-      .from('messages')
-      .insert({
-        conversation_id: actualConversationId,
-        user_id: userId,
-        content: message,
-        role: 'user',
-        response_time_ms: 0,
-        tokens_used: 0
-      })
-      .select()
-
-    if (userMessageError) {
-      console.error('❌ Error saving user message:', userMessageError)
-    } else {
-      console.log('✅ User message saved')
-    }
-    
-    // Save AI response to database
-    const { data: savedAiMessage, error: aiMessageError } = await supabaseAdmin
-      .from('messages')
-      .insert({
-        conversation_id: actualConversationId,
-        user_id: userId,
-        content: aiResponse.content,
-        role: 'assistant',
-        response_time_ms: aiResponse.response_time_ms || 0,
-        tokens_used: aiResponse.tokens_used || 0
-      })
-      .select()
-
-    if (aiMessageError) {
-      console.error('❌ Error saving AI message:', aiMessageError)
-    } else {
-      console.log('✅ AI response saved (', aiResponse.tokens_used || 0, 'tokens,', aiResponse.response_time_ms || 0, 'ms)')
+      after(() => storeCachedAnswer(entry))
     }
-    
-    console.log('💾 Storage completed')
 
     const totalTime = Date.now() - startTime
     
@@ -468,7 +560,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       response: aiResponse.content,
-      conversationId: actualConversationId, // Include conversation ID in response
+      citations,
+      comparison,
+      conversationId: saved.conversationId, // Include conversation ID in response
+      messageId: saved.messageId, // Assistant message id, used to rate the answer
       tokens_used: aiResponse.tokens_used,
       response_time_ms: totalTime,
       query_time_ms: queryTime,
@@ -502,28 +597,8 @@ export async function POST(request: NextRequest) {
 // Get conversation history
 export async function GET(request: NextRequest) {
   try {
-    // Create server client to get authenticated user
-    const cookieStore = await cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          }
-        }
-      }
-    )
-
-    const { data: { session } } = await supabase.auth.getSession()
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
 
     const { searchParams } = new URL(request.url)
     const conversationId = searchParams.get('conversationId')
@@ -535,13 +610,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const userId = session.user.id
+    const userId = user.id
 
     // Get conversation messages using admin client
     const supabaseAdmin = createSupabaseAdmin()
     const { data: messages, error } = await supabaseAdmin
       .from('messages')
-      .select('id, content, role, tokens_used, response_time_ms, created_at')
+      .select('id, content, role, tokens_used, response_time_ms, citations, comparison, created_at')
       .eq('conversation_id', conversationId)
       .eq('user_id', userId)
       .order('created_at', { ascending: true })
@@ -554,13 +629,35 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // The user's own ratings of these answers
+    const assistantIds = messages.filter(msg => msg.role === 'assistant').map(msg => msg.id)
+    const feedbackByMessage = new Map<string, MessageFeedback>()
+    if (assistantIds.length > 0) {
+      const { data: feedback, error: feedbackError } = await supabaseAdmin
+        .from('message_feedback')
+        .select('message_id, rating, comment, correct_value, status')
+        .eq('user_id', userId)
+        .in('message_id', assistantIds)
+
+      if (feedbackError) {
+        console.error('Error fetching message feedback:', feedbackError)
+      }
+      for (const { message_id, ...entry } of feedback || []) {
+        feedbackByMessage.set(message_id, entry as MessageFeedback)
+      }
+    }
+
     // Format for frontend with all message data
     const formattedMessages = messages.map(msg => ({
+      id: msg.id,
       role: msg.role as 'user' | 'assistant',
       content: msg.content,
       timestamp: msg.created_at,
       response_time_ms: msg.response_time_ms || undefined,
-      tokens_used: msg.tokens_used || undefined
+      tokens_used: msg.tokens_used || undefined,
+      citations: msg.citations || [],
+      comparison: msg.comparison || null,
+      feedback: feedbackByMessage.get(msg.id) ?? null
     }))
 
     // Calculate performance metrics
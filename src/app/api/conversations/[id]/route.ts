@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireActiveSubscription } from '@/lib/api-auth'
+import { normalizeConversationTitle } from '@/lib/conversations'
+import { parseRequestBody } from '@/lib/api-validation'
+import { renameConversationSchema } from '@/lib/api-schemas'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Rename a conversation owned by the current user
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { id } = await params
+    const { body, response: invalidBody } = await parseRequestBody(request, renameConversationSchema)
+    if (invalidBody) return invalidBody
+
+    const normalizedTitle = normalizeConversationTitle(body.title)
+    if (!normalizedTitle) {
+      return NextResponse.json(
+        { error: 'Title is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = createSupabaseAdmin()
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .update({ title: normalizedTitle })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id, title, created_at, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error renaming conversation:', error)
+      return NextResponse.json(
+        { error: 'Failed to rename conversation', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: data
+    })
+
+  } catch (error) {
+    console.error('Rename conversation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rename conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a conversation owned by the current user, including its messages
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { id } = await params
+    const supabaseAdmin = createSupabaseAdmin()
+
+    const { data: conversation, error: fetchError } = await supabaseAdmin
+      .from('conversations')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error('Error fetching conversation:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to delete conversation', details: fetchError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    // messages.conversation_id is ON DELETE RESTRICT, so remove messages first
+    const { error: messagesError } = await supabaseAdmin
+      .from('messages')
+      .delete()
+      .eq('conversation_id', id)
+
+    if (messagesError) {
+      console.error('Error deleting conversation messages:', messagesError)
+      return NextResponse.json(
+        { error: 'Failed to delete conversation messages', details: messagesError.message },
+        { status: 500 }
+      )
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('conversations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (deleteError) {
+      console.error('Error deleting conversation:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to delete conversation', details: deleteError.message },
+        { status: 500 }
+      )
+    }
+
+    console.log('🗑️ Conversation deleted:', id.slice(-8))
+
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete conversation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireActiveSubscription } from '@/lib/api-auth'
+import type { ConversationSummary } from '@/lib/conversations'
+
+// List the current user's conversations, optionally full-text searched with ?q=
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim() || ''
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100)
+    const userId = user.id
+    const supabaseAdmin = createSupabaseAdmin()
+
+    let conversations: ConversationSummary[] = []
+
+    if (query) {
+      const { data, error } = await supabaseAdmin.rpc('search_conversations', {
+        p_user_id: userId,
+        p_query: query,
+        p_limit: limit
+      })
+
+      if (error) {
+        console.error('Error searching conversations:', error)
+        return NextResponse.json(
+          { error: 'Failed to search conversations', details: error.message },
+          { status: 500 }
+        )
+      }
+
+      conversations = (data || []).map((row: ConversationSummary) => ({
+        id: row.id,
+        title: row.title,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        snippet: row.snippet
+      }))
+    } else {
+      const { data, error } = await supabaseAdmin
+        .from('conversations')
+        .select('id, title, created_at, updated_at')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false, nullsFirst: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching conversations:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch conversations', details: error.message },
+          { status: 500 }
+        )
+      }
+
+      conversations = data || []
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversations,
+      query: query || null
+    })
+
+  } catch (error) {
+    console.error('Get conversations error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get conversations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runEvalWorker } from '@/lib/evals'
+import { verifyCronRequest } from '@/lib/cron-auth'
+
+// Cron entry point for the eval worker: answers the next questions of running
+// evaluations and marks the ones without progress as failed.
+// Requires "Authorization: Bearer <CRON_SECRET>".
+async function handleCron(request: NextRequest) {
+  const startTime = Date.now()
+
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const summary = await runEvalWorker()
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      processing_time_ms: Date.now() - startTime
+    })
+  } catch (error) {
+    console.error('Eval cron error:', error)
+    return NextResponse.json(
+      { error: 'Eval worker failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleCron
+export const POST = handleCron
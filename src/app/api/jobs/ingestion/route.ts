@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runIngestionWorker } from '@/lib/ingestion-jobs'
+import { verifyCronRequest } from '@/lib/cron-auth'
+
+// Cron entry point for the ingestion worker: picks up retries and indexing polls
+// that were not finished by the worker started after each admin request.
+// Requires "Authorization: Bearer <CRON_SECRET>".
+async function handleCron(request: NextRequest) {
+  const startTime = Date.now()
+
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const summary = await runIngestionWorker()
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      processing_time_ms: Date.now() - startTime
+    })
+  } catch (error) {
+    console.error('Ingestion cron error:', error)
+    return NextResponse.json(
+      { error: 'Ingestion worker failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleCron
+export const POST = handleCron
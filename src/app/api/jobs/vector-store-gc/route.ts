@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { collectVectorStoreGarbage } from '@/lib/vector-store-gc'
+import { verifyCronRequest } from '@/lib/cron-auth'
+
+// Scheduled cleanup of orphaned vector stores and files (run daily).
+// Requires "Authorization: Bearer <CRON_SECRET>".
+async function handleCron(request: NextRequest) {
+  const startTime = Date.now()
+
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const result = await collectVectorStoreGarbage({ trigger: 'cron' })
+
+    return NextResponse.json({
+      success: true,
+      run_id: result.run_id,
+      deleted_stores: result.deleted_stores.length,
+      deleted_files: result.deleted_files.length,
+      errors: result.errors,
+      processing_time_ms: Date.now() - startTime
+    })
+  } catch (error) {
+    console.error('Vector store GC cron error:', error)
+    return NextResponse.json(
+      { error: 'Vector store garbage collection failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleCron
+export const POST = handleCron
@@ -1,8 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import {
-  uploadPDFToOpenAI,
-  createVectorStore,
   addFileToVectorStore,
   removeFileFromVectorStore,
   deleteVectorStore,
@@ -10,44 +8,55 @@ import {
   addFileToMasterVectorStore,
   removeFileFromMasterVectorStore,
   getOrCreateMasterVectorStore,
-  syncMasterVectorStore
+  syncMasterVectorStore,
+  buildMasterFileAttributes
 } from '@/lib/openai'
+import { detectFileType, SUPPORTED_FILE_LABELS } from '@/lib/file-types'
+import { cancelPendingJobs, enqueueIngestionJob, runIngestionWorker, PRICE_LISTS_BUCKET } from '@/lib/ingestion-jobs'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { requireAdmin } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { manageFileSchema, type ManageFileBody } from '@/lib/api-schemas'
+
+type ActionBody<A extends ManageFileBody['action']> = Extract<ManageFileBody, { action: A }>
 
 // Comprehensive file lifecycle management for NeuraliticaBot
 // Handles: upload, activate, deactivate, delete with OpenAI integration
+// Upload and (de)activation are queued as ingestion jobs (see src/lib/ingestion-jobs.ts)
+// Every action is limited to the admin's organization
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    const { action, priceListId, ...actionData } = await request.json()
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const organizationId = profile.organization_id
 
-    switch (action) {
+    const { body, response: invalidBody } = await parseRequestBody(request, manageFileSchema)
+    if (invalidBody) return invalidBody
+
+    switch (body.action) {
       case 'toggle_active':
-        return await toggleActiveStatus(priceListId, startTime)
+        return await toggleActiveStatus(request, organizationId, body.priceListId, startTime)
       
       case 'upload_and_process':
-        return await uploadAndProcessFile(actionData, startTime)
+        return await uploadAndProcessFile(request, organizationId, body, startTime)
       
       case 'delete_complete':
-        return await deleteCompleteFile(priceListId, startTime)
+        return await deleteCompleteFile(request, organizationId, body.priceListId, startTime)
       
       case 'sync_master_store':
-        return await syncMasterVectorStoreAction(startTime)
+        return await syncMasterVectorStoreAction(request, organizationId, startTime)
       
       case 'get_master_store_status':
-        return await getMasterStoreStatusAction(startTime)
+        return await getMasterStoreStatusAction(organizationId, startTime)
       
       case 'add_to_master_store':
-        return await addToMasterStoreAction(actionData, startTime)
+        return await addToMasterStoreAction(request, organizationId, body, startTime)
       
       case 'remove_from_master_store':
-        return await removeFromMasterStoreAction(actionData, startTime)
-      
-      default:
-        return NextResponse.json(
-          { error: 'Invalid action. Use: toggle_active, upload_and_process, delete_complete, sync_master_store, get_master_store_status, add_to_master_store, remove_from_master_store' },
-          { status: 400 }
-        )
+        return await removeFromMasterStoreAction(request, organizationId, body, startTime)
     }
 
   } catch (error: any) {
@@ -65,15 +74,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Toggle file active status and manage vector store accordingly
-async function toggleActiveStatus(priceListId: string, startTime: number) {
-  if (!priceListId) {
-    return NextResponse.json(
-      { error: 'priceListId is required' },
-      { status: 400 }
-    )
-  }
-
+// Toggle file active status; OpenAI indexing/removal runs as a background job
+async function toggleActiveStatus(request: NextRequest, organizationId: string, priceListId: string, startTime: number) {
   // Get current file data using admin client (bypasses RLS for admin operations)
   const supabase = createSupabaseAdmin()
   
@@ -81,6 +83,7 @@ async function toggleActiveStatus(priceListId: string, startTime: number) {
     .from('price_lists')
     .select('*')
     .eq('id', priceListId)
+    .eq('organization_id', organizationId)
     .single()
 
   if (fetchError || !priceList) {
@@ -92,260 +95,186 @@ async function toggleActiveStatus(priceListId: string, startTime: number) {
 
   const newActiveStatus = !priceList.is_active
 
-  try {
-    if (newActiveStatus && !priceList.openai_file_id) {
-      return NextResponse.json(
-        { error: 'File must be uploaded to OpenAI before activating' },
-        { status: 400 }
-      )
-    }
+  if (newActiveStatus && !priceList.openai_file_id) {
+    return NextResponse.json(
+      { error: 'File must be uploaded to OpenAI before activating' },
+      { status: 400 }
+    )
+  }
 
-    if (newActiveStatus) {
-      // ACTIVATING: Add to master vector store (new best practice approach)
-      console.log(`🚀 ACTIVATING: Adding file ${priceList.openai_file_id} to master vector store`)
-      
-      try {
-        // Add file to master vector store
-        await addFileToMasterVectorStore(priceList.openai_file_id)
-        console.log(`✅ File added to master vector store successfully`)
-        
-        // Legacy: Still create individual vector store for backward compatibility
-        // TODO: Remove this once fully migrated to master store approach
-        if (!priceList.openai_vector_file_id) {
-          console.log('Creating individual vector store for legacy support...')
-          
-          const vectorStore = await createVectorStore(
-            `NeuraliticaBot-${priceList.file_name}`,
-            [priceList.openai_file_id]
-          )
-
-          // Update database with both active status and legacy vector store ID
-          const { error: updateError } = await supabase
-            .from('price_lists')
-            .update({
-              is_active: true,
-              openai_vector_file_id: vectorStore.id
-            })
-            .eq('id', priceListId)
-
-          if (updateError) throw updateError
-
-          const totalTime = Date.now() - startTime
-          return NextResponse.json({
-            success: true,
-            message: 'File activated - added to master store and legacy vector store created',
-            is_active: true,
-            vector_store_id: vectorStore.id,
-            master_store_integration: true,
-            processing_time_ms: totalTime
-          })
-
-        } else {
-          // Just activate (vector store exists)
-          const { error: updateError } = await supabase
-            .from('price_lists')
-            .update({ is_active: true })
-            .eq('id', priceListId)
-
-          if (updateError) throw updateError
-
-          const totalTime = Date.now() - startTime
-          return NextResponse.json({
-            success: true,
-            message: 'File activated - added to master store (legacy vector store already exists)',
-            is_active: true,
-            vector_store_id: priceList.openai_vector_file_id,
-            master_store_integration: true,
-            processing_time_ms: totalTime
-          })
-        }
-        
-      } catch (masterStoreError) {
-        console.error('Master store integration failed:', masterStoreError)
-        // Continue with legacy approach if master store fails
-        console.log('Falling back to legacy vector store approach...')
-        
-        if (!priceList.openai_vector_file_id) {
-          const vectorStore = await createVectorStore(
-            `NeuraliticaBot-${priceList.file_name}`,
-            [priceList.openai_file_id]
-          )
-
-          const { error: updateError } = await supabase
-            .from('price_lists')
-            .update({
-              is_active: true,
-              openai_vector_file_id: vectorStore.id
-            })
-            .eq('id', priceListId)
-
-          if (updateError) throw updateError
-        } else {
-          const { error: updateError } = await supabase
-            .from('price_lists')
-            .update({ is_active: true })
-            .eq('id', priceListId)
-
-          if (updateError) throw updateError
-        }
-
-        const totalTime = Date.now() - startTime
-        return NextResponse.json({
-          success: true,
-          message: 'File activated (master store integration failed, using legacy approach)',
-          is_active: true,
-          vector_store_id: priceList.openai_vector_file_id,
-          master_store_integration: false,
-          processing_time_ms: totalTime,
-          warning: 'Master vector store integration failed'
-        })
-      }
+  if (newActiveStatus) {
+    // ACTIVATING: the job marks the file active once the vector stores finish indexing
+    console.log(`🚀 ACTIVATING: Queueing indexing for file ${priceList.openai_file_id}`)
+    const job = await enqueueIngestionJob({ priceListId, jobType: 'activate' })
+    after(() => runIngestionWorker())
+
+    await recordAuditEvent(request, {
+      action: 'file.activate',
+      targetType: 'price_list',
+      targetId: priceListId,
+      before: { is_active: false },
+      after: { is_active: true, job_id: job.id }
+    })
 
-    } else {
-      // DEACTIVATING: Remove from master vector store and update database
-      console.log(`🗑️ DEACTIVATING: Removing file ${priceList.openai_file_id} from master vector store`)
-      
-      try {
-        // Remove from master vector store
-        await removeFileFromMasterVectorStore(priceList.openai_file_id)
-        console.log(`✅ File removed from master vector store successfully`)
-      } catch (masterStoreError) {
-        console.error('Master store removal failed (non-blocking):', masterStoreError)
-        // Continue with deactivation even if master store removal fails
-      }
+    const totalTime = Date.now() - startTime
+    return NextResponse.json({
+      success: true,
+      message: 'Activation queued - the file becomes active once indexing completes',
+      is_active: false,
+      job,
+      processing_time_ms: totalTime
+    }, { status: 202 })
+  }
 
-      // Update database status (always do this regardless of master store operation)
-      const { error: updateError } = await supabase
-        .from('price_lists')
-        .update({ is_active: false })
-        .eq('id', priceListId)
+  // DEACTIVATING: stop using the file right away; master store removal runs in the background
+  console.log(`🗑️ DEACTIVATING: Queueing removal of file ${priceList.openai_file_id} from master vector store`)
+  const { error: updateError } = await supabase
+    .from('price_lists')
+    .update({ is_active: false })
+    .eq('id', priceListId)
 
-      if (updateError) throw updateError
+  if (updateError) throw updateError
 
-      const totalTime = Date.now() - startTime
-      return NextResponse.json({
-        success: true,
-        message: 'File deactivated and removed from master store (legacy vector store preserved for reactivation)',
-        is_active: false,
-        master_store_integration: true,
-        processing_time_ms: totalTime
-      })
-    }
+  const job = await enqueueIngestionJob({ priceListId, jobType: 'deactivate' })
+  after(() => runIngestionWorker())
 
-  } catch (error: any) {
-    console.error('Toggle active status error:', error)
-    
-    // Rollback database changes if OpenAI operations failed
-    await supabase
-      .from('price_lists')
-      .update({ is_active: priceList.is_active })
-      .eq('id', priceListId)
+  await recordAuditEvent(request, {
+    action: 'file.deactivate',
+    targetType: 'price_list',
+    targetId: priceListId,
+    before: { is_active: true },
+    after: { is_active: false, job_id: job.id }
+  })
 
-    throw error
-  }
+  const totalTime = Date.now() - startTime
+  return NextResponse.json({
+    success: true,
+    message: 'File deactivated - removal from master store queued (legacy vector store preserved for reactivation)',
+    is_active: false,
+    job,
+    processing_time_ms: totalTime
+  })
 }
 
-// Upload file and process through OpenAI pipeline
-async function uploadAndProcessFile(actionData: any, startTime: number) {
-  const { fileBuffer, fileName, priceListId, autoActivate = false } = actionData
-
-  if (!fileBuffer || !fileName || !priceListId) {
-    return NextResponse.json(
-      { error: 'fileBuffer, fileName, and priceListId are required' },
-      { status: 400 }
-    )
-  }
+// Store the original file and queue the OpenAI upload (and activation if requested)
+async function uploadAndProcessFile(
+  request: NextRequest,
+  organizationId: string,
+  actionData: ActionBody<'upload_and_process'>,
+  startTime: number
+) {
+  const { fileBuffer, fileName, priceListId, autoActivate } = actionData
 
   // Convert base64 to buffer if needed
   const buffer = typeof fileBuffer === 'string' 
     ? Buffer.from(fileBuffer, 'base64')
     : Buffer.from(fileBuffer)
 
-  console.log(`Starting complete upload pipeline for ${fileName}`)
+  const fileType = detectFileType(buffer, fileName)
+  if (!fileType) {
+    return NextResponse.json(
+      { error: `Unsupported file type or content does not match extension. Supported: ${SUPPORTED_FILE_LABELS}` },
+      { status: 400 }
+    )
+  }
 
-  // Step 1: Upload to OpenAI
-  const uploadResult = await uploadPDFToOpenAI(buffer, fileName)
+  console.log(`Queueing upload pipeline for ${fileName} (${fileType.label})`)
 
-  // Step 2: Update database with OpenAI file ID
   const supabase = createSupabaseAdmin()
+  const { data: priceList } = await supabase
+    .from('price_lists')
+    .select('id, openai_file_id, openai_vector_file_id')
+    .eq('id', priceListId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (!priceList) {
+    return NextResponse.json(
+      { error: 'Price list not found' },
+      { status: 404 }
+    )
+  }
+
+  // Step 0: Stop serving the file being replaced, so its prices are not searched next to the new ones
+  await cancelPendingJobs(priceListId)
+  if (priceList.openai_file_id) {
+    try {
+      await removeFileFromMasterVectorStore(organizationId, priceList.openai_file_id)
+    } catch (error) {
+      // Never indexed or already removed
+      if (!/\b404\b/.test(error instanceof Error ? error.message : '')) throw error
+    }
+  }
+  if (priceList.openai_vector_file_id) {
+    await deleteVectorStore(priceList.openai_vector_file_id)
+  }
+
+  // Step 1: Keep the original in storage so the worker (and its retries) can read it
+  const storagePath = `${priceListId}/${fileName}`
+  const { error: storageError } = await supabase.storage
+    .from(PRICE_LISTS_BUCKET)
+    .upload(storagePath, buffer, { contentType: fileType.mimeType, upsert: true })
+
+  if (storageError) {
+    console.error('Storage upload error:', storageError)
+    throw new Error(`Failed to store file: ${storageError.message}`)
+  }
+
+  // Step 2: Point the record at the new original; the worker uploads it to OpenAI.
+  // The list stays inactive until the new file is indexed
   const { error: updateError } = await supabase
     .from('price_lists')
     .update({
-      openai_file_id: uploadResult.file_id,
+      storage_path: storagePath,
+      openai_file_id: null,
+      openai_vector_file_id: null,
+      is_active: false,
+      mime_type: fileType.mimeType,
     })
     .eq('id', priceListId)
 
   if (updateError) {
     console.error('Database update error:', updateError)
-    throw new Error('Failed to update database with OpenAI file ID')
+    throw new Error('Failed to update database with storage path')
   }
 
-  let vectorStoreResult = null
-
-  // Step 3: Create vector store and add to master store if auto-activate is enabled
-  if (autoActivate) {
-    console.log('Auto-activating file with vector store creation and master store integration...')
-    
-    // Add to master vector store (best practice approach)
-    try {
-      await addFileToMasterVectorStore(uploadResult.file_id)
-      console.log(`✅ File added to master vector store successfully`)
-    } catch (masterStoreError) {
-      console.error('Master store integration failed:', masterStoreError)
-      // Continue with legacy approach if master store fails
-    }
-    
-    // Legacy: Create individual vector store for backward compatibility
-    vectorStoreResult = await createVectorStore(
-      `NeuraliticaBot-${fileName}`,
-      [uploadResult.file_id]
-    )
-
-    // Update database with vector store ID and activate
-    const { error: activateError } = await supabase
-      .from('price_lists')
-      .update({
-        is_active: true,
-        openai_vector_file_id: vectorStoreResult.id
-      })
-      .eq('id', priceListId)
+  // Step 3: Queue the upload; it queues activation itself when autoActivate is set
+  const job = await enqueueIngestionJob({
+    priceListId,
+    jobType: 'upload',
+    payload: { auto_activate: Boolean(autoActivate) }
+  })
+  after(() => runIngestionWorker())
 
-    if (activateError) {
-      console.error('Auto-activation error:', activateError)
-      // Continue without activation rather than fail entirely
-    }
-  }
+  await recordAuditEvent(request, {
+    action: 'file.upload',
+    targetType: 'price_list',
+    targetId: priceListId,
+    after: { file_name: fileName, storage_path: storagePath, mime_type: fileType.mimeType, bytes: buffer.length, auto_activate: Boolean(autoActivate) }
+  })
 
   const totalTime = Date.now() - startTime
-  console.log(`Complete upload pipeline finished in ${totalTime}ms`)
+  console.log(`Upload pipeline queued in ${totalTime}ms`)
 
   return NextResponse.json({
     success: true,
-    message: autoActivate ? 'File uploaded, activated, and added to master vector store' : 'File uploaded successfully',
-    file_id: uploadResult.file_id,
-    vector_store_id: vectorStoreResult?.id,
-    is_active: autoActivate,
-    master_store_integration: autoActivate,
+    message: autoActivate ? 'File queued for upload and activation' : 'File queued for upload',
+    job,
+    is_active: false,
     processing_time_ms: totalTime,
-    bytes_processed: uploadResult.bytes
-  })
+    bytes_processed: buffer.length
+  }, { status: 202 })
 }
 
 // Completely delete file from OpenAI and database
-async function deleteCompleteFile(priceListId: string, startTime: number) {
-  if (!priceListId) {
-    return NextResponse.json(
-      { error: 'priceListId is required' },
-      { status: 400 }
-    )
-  }
-
+async function deleteCompleteFile(request: NextRequest, organizationId: string, priceListId: string, startTime: number) {
   // Get file data using admin client (bypasses RLS for admin operations)
   const supabase = createSupabaseAdmin()
   const { data: priceList, error: fetchError } = await supabase
     .from('price_lists')
     .select('*')
     .eq('id', priceListId)
+    .eq('organization_id', organizationId)
     .single()
 
   if (fetchError || !priceList) {
@@ -358,11 +287,14 @@ async function deleteCompleteFile(priceListId: string, startTime: number) {
   const deletionResults: any[] = []
 
   try {
+    // Queued activations would index the file again while it is being deleted
+    await cancelPendingJobs(priceListId)
+
     // Step 1: Remove from master vector store if file exists
     if (priceList.openai_file_id) {
       console.log('Removing from master vector store...')
       try {
-        await removeFileFromMasterVectorStore(priceList.openai_file_id)
+        await removeFileFromMasterVectorStore(organizationId, priceList.openai_file_id)
         deletionResults.push({ type: 'master_vector_store', success: true })
         console.log(`✅ File removed from master vector store successfully`)
       } catch (masterStoreError) {
@@ -418,6 +350,20 @@ async function deleteCompleteFile(priceListId: string, startTime: number) {
     const totalTime = Date.now() - startTime
     const allSuccessful = deletionResults.every(result => result.success)
 
+    await recordAuditEvent(request, {
+      action: 'file.delete',
+      targetType: 'price_list',
+      targetId: priceListId,
+      before: {
+        file_name: priceList.file_name,
+        supplier_name: priceList.supplier_name,
+        is_active: priceList.is_active,
+        openai_file_id: priceList.openai_file_id,
+        storage_path: priceList.storage_path
+      },
+      after: { deletion_results: deletionResults }
+    })
+
     return NextResponse.json({
       success: allSuccessful,
       message: allSuccessful ? 'File completely deleted from all systems' : 'Partial deletion completed',
@@ -442,13 +388,14 @@ async function deleteCompleteFile(priceListId: string, startTime: number) {
 // Master Vector Store Management Actions
 
 // Sync master vector store with all active files
-async function syncMasterVectorStoreAction(startTime: number) {
+async function syncMasterVectorStoreAction(request: NextRequest, organizationId: string, startTime: number) {
   try {
     // Get active files
     const supabase = createSupabaseAdmin()
     const { data: activeFiles, error } = await supabase
       .from('price_lists')
-      .select('openai_file_id')
+      .select('id, openai_file_id, supplier_name, uploaded_at')
+      .eq('organization_id', organizationId)
       .eq('is_active', true)
       .not('openai_file_id', 'is', null)
 
@@ -459,16 +406,20 @@ async function syncMasterVectorStoreAction(startTime: number) {
       )
     }
 
-    const activeFileIds = activeFiles?.map(f => f.openai_file_id) || []
+    const masterFiles = (activeFiles || []).map(f => ({
+      fileId: f.openai_file_id as string,
+      attributes: buildMasterFileAttributes(f)
+    }))
     
-    console.log(`🔄 Manual sync requested for ${activeFileIds.length} active files`)
-    const syncResult = await syncMasterVectorStore(activeFileIds)
+    console.log(`🔄 Manual sync requested for ${masterFiles.length} active files`)
+    const syncResult = await syncMasterVectorStore(organizationId, masterFiles)
+    await recordAuditEvent(request, { action: 'master_store.sync', targetType: 'vector_store', targetId: syncResult.masterStoreId, after: syncResult })
 
     const totalTime = Date.now() - startTime
     return NextResponse.json({
       success: true,
       sync_result: syncResult,
-      message: `Sync completed: ${syncResult.added} files added, ${syncResult.removed} files removed`,
+      message: `Sync completed: ${syncResult.added} files added, ${syncResult.removed} files removed, ${syncResult.attributesUpdated} files tagged`,
       processing_time_ms: totalTime
     })
 
@@ -483,15 +434,16 @@ async function syncMasterVectorStoreAction(startTime: number) {
 }
 
 // Get master vector store status
-async function getMasterStoreStatusAction(startTime: number) {
+async function getMasterStoreStatusAction(organizationId: string, startTime: number) {
   try {
-    const masterStore = await getOrCreateMasterVectorStore()
+    const masterStore = await getOrCreateMasterVectorStore(organizationId)
     
     // Get active files from database
     const supabase = createSupabaseAdmin()
     const { data: activeFiles, error } = await supabase
       .from('price_lists')
       .select('openai_file_id, file_name, supplier_name, is_active')
+      .eq('organization_id', organizationId)
       .not('openai_file_id', 'is', null)
       .order('uploaded_at', { ascending: false })
 
@@ -540,17 +492,33 @@ async function getMasterStoreStatusAction(startTime: number) {
 }
 
 // Add specific file to master vector store
-async function addToMasterStoreAction(actionData: any, startTime: number) {
+async function addToMasterStoreAction(
+  request: NextRequest,
+  organizationId: string,
+  actionData: ActionBody<'add_to_master_store'>,
+  startTime: number
+) {
   try {
     const { fileId } = actionData
-    if (!fileId) {
+
+    // Only files of the organization's price lists, tagged with their attributes
+    const { data: priceList } = await createSupabaseAdmin()
+      .from('price_lists')
+      .select('id, supplier_name, uploaded_at')
+      .eq('organization_id', organizationId)
+      .eq('openai_file_id', fileId)
+      .limit(1)
+      .maybeSingle()
+
+    if (!priceList) {
       return NextResponse.json(
-        { error: 'fileId is required' },
-        { status: 400 }
+        { error: 'File not found' },
+        { status: 404 }
       )
     }
 
-    const result = await addFileToMasterVectorStore(fileId)
+    const result = await addFileToMasterVectorStore(organizationId, fileId, buildMasterFileAttributes(priceList))
+    await recordAuditEvent(request, { action: 'master_store.add_file', targetType: 'openai_file', targetId: fileId })
     const totalTime = Date.now() - startTime
     
     return NextResponse.json({
@@ -571,17 +539,17 @@ async function addToMasterStoreAction(actionData: any, startTime: number) {
 }
 
 // Remove specific file from master vector store
-async function removeFromMasterStoreAction(actionData: any, startTime: number) {
+async function removeFromMasterStoreAction(
+  request: NextRequest,
+  organizationId: string,
+  actionData: ActionBody<'remove_from_master_store'>,
+  startTime: number
+) {
   try {
     const { fileId } = actionData
-    if (!fileId) {
-      return NextResponse.json(
-        { error: 'fileId is required' },
-        { status: 400 }
-      )
-    }
 
-    const result = await removeFileFromMasterVectorStore(fileId)
+    const result = await removeFileFromMasterVectorStore(organizationId, fileId)
+    await recordAuditEvent(request, { action: 'master_store.remove_file', targetType: 'openai_file', targetId: fileId })
     const totalTime = Date.now() - startTime
     
     return NextResponse.json({
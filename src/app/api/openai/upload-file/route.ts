@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { uploadFileToOpenAI } from '@/lib/openai'
+import { detectFileType, SUPPORTED_FILE_LABELS } from '@/lib/file-types'
+import { prepareFileForUpload } from '@/lib/file-conversion'
+import { processPriceListExtraction } from '@/lib/price-extraction'
+import { requireAdmin } from '@/lib/api-auth'
+import { recordAuditEvent } from '@/lib/audit-log'
+
+// Upload a price list (PDF, DOCX, XLSX, CSV or image) to OpenAI Files API
+// Spreadsheets and images are converted to Markdown first for better retrieval
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  
+  try {
+    const { user, profile, response } = await requireAdmin()
+    if (response) return response
+
+    // Get the uploaded file and metadata from the form
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const supplierName = formData.get('supplier_name') as string
+    const userId = user.id
+    
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File is required' },
+        { status: 400 }
+      )
+    }
+
+    // Convert File to Buffer for OpenAI
+    const arrayBuffer = await file.arrayBuffer()
+    const buffer = Buffer.from(arrayBuffer)
+
+    // Validate by extension and magic bytes (browser-reported MIME types are unreliable)
+    const fileType = detectFileType(buffer, file.name)
+    if (!fileType) {
+      return NextResponse.json(
+        { error: `Unsupported file type or content does not match extension. Supported: ${SUPPORTED_FILE_LABELS}` },
+        { status: 400 }
+      )
+    }
+
+    console.log(`Starting OpenAI upload for ${file.name} (${fileType.label}, ${buffer.length} bytes)`)
+
+    // Convert spreadsheets/images to Markdown, pass PDF/DOCX through
+    const prepared = await prepareFileForUpload(buffer, file.name, fileType)
+    if (prepared.converted) {
+      console.log(`📝 Converted ${file.name} to ${prepared.filename} (${prepared.buffer.length} bytes)`)
+    }
+
+    // Upload to OpenAI Files API
+    const uploadResult = await uploadFileToOpenAI(prepared.buffer, prepared.filename, prepared.mimeType)
+
+    // Use user ID from authenticated session
+
+    // Create database record with OpenAI file ID using admin client
+    const supabaseAdmin = createSupabaseAdmin()
+    const { data: priceListData, error: insertError } = await supabaseAdmin
+      .from('price_lists')
+      .insert({
+        organization_id: profile.organization_id,
+        uploaded_by: userId,
+        file_name: file.name,
+        supplier_name: supplierName || null,
+        storage_path: `openai:${uploadResult.file_id}`, // Reference to OpenAI file
+        openai_file_id: uploadResult.file_id,
+        mime_type: fileType.mimeType, // Original format, before any conversion
+        is_active: false, // Default to inactive
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      console.error('Database insert error:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to create database record' },
+        { status: 500 }
+      )
+    }
+
+    // Extract structured price rows after the response is sent
+    after(() => processPriceListExtraction({
+      priceListId: priceListData.id,
+      buffer,
+      fileType,
+      prepared,
+      openaiFileId: uploadResult.file_id
+    }))
+
+    await recordAuditEvent(request, {
+      action: 'file.upload',
+      targetType: 'price_list',
+      targetId: priceListData.id,
+      after: {
+        file_name: file.name,
+        supplier_name: supplierName || null,
+        openai_file_id: uploadResult.file_id,
+        mime_type: fileType.mimeType,
+        bytes: buffer.length
+      },
+      actor: user
+    })
+
+    const totalTime = Date.now() - startTime
+    console.log(`File upload pipeline completed in ${totalTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      price_list_id: priceListData.id,
+      openai_file_id: uploadResult.file_id,
+      filename: uploadResult.filename,
+      bytes: uploadResult.bytes,
+      mime_type: fileType.mimeType,
+      converted: prepared.converted,
+      extraction_status: 'processing',
+      processing_time_ms: totalTime,
+      message: 'File uploaded to OpenAI and database record created successfully'
+    })
+
+  } catch (error: any) {
+    const totalTime = Date.now() - startTime
+    console.error(`File upload failed after ${totalTime}ms:`, error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to upload file to OpenAI',
+        details: error.message,
+        processing_time_ms: totalTime
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Get OpenAI file status
+export async function GET(request: NextRequest) {
+  try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { searchParams } = new URL(request.url)
+    const priceListId = searchParams.get('priceListId')
+
+    if (!priceListId) {
+      return NextResponse.json(
+        { error: 'priceListId parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Get file info from database
+    const supabaseAdmin = createSupabaseAdmin()
+    const { data: priceList, error } = await supabaseAdmin
+      .from('price_lists')
+      .select('openai_file_id, openai_vector_file_id, file_name, mime_type, extraction_status, extracted_items_count')
+      .eq('id', priceListId)
+      .eq('organization_id', profile.organization_id)
+      .single()
+
+    if (error || !priceList) {
+      return NextResponse.json(
+        { error: 'Price list not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      openai_file_id: priceList.openai_file_id,
+      openai_vector_file_id: priceList.openai_vector_file_id,
+      file_name: priceList.file_name,
+      mime_type: priceList.mime_type,
+      extraction_status: priceList.extraction_status,
+      extracted_items_count: priceList.extracted_items_count,
+    })
+
+  } catch (error: any) {
+    console.error('Get file status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get file status', details: error.message },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -7,20 +7,31 @@ import {
   deleteVectorStore,
   getVectorStoreStatus
 } from '@/lib/openai'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { requireAdmin } from '@/lib/api-auth'
+import { parseRequestBody } from '@/lib/api-validation'
+import { vectorStoresSchema } from '@/lib/api-schemas'
 
-// Create vector store for active files
+// Create vector store for active files of the admin's organization
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    const { action, priceListId, vectorStoreName } = await request.json()
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
+    const { body, response: invalidBody } = await parseRequestBody(request, vectorStoresSchema)
+    if (invalidBody) return invalidBody
+
+    if (body.action === 'create') {
+      const { priceListId, vectorStoreName } = body
 
-    if (action === 'create') {
       // Get the price list with OpenAI file ID
       const { data: priceList, error: fetchError } = await supabase
         .from('price_lists')
         .select('openai_file_id, file_name')
         .eq('id', priceListId)
+        .eq('organization_id', profile.organization_id)
         .single()
 
       if (fetchError || !priceList) {
@@ -40,7 +51,8 @@ export async function POST(request: NextRequest) {
       // Create vector store with the file
       const vectorStoreResult = await createVectorStore(
         vectorStoreName || `NeuraliticaBot-${priceList.file_name}`,
-        [priceList.openai_file_id]
+        [priceList.openai_file_id],
+        { priceListId, organizationId: profile.organization_id }
       )
 
       // Update database with vector store ID
@@ -59,6 +71,13 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      await recordAuditEvent(request, {
+        action: 'vector_store.create',
+        targetType: 'price_list',
+        targetId: priceListId,
+        after: { vector_store_id: vectorStoreResult.id, openai_file_id: priceList.openai_file_id }
+      })
+
       const totalTime = Date.now() - startTime
       console.log(`Vector store created in ${totalTime}ms`)
 
@@ -71,19 +90,37 @@ export async function POST(request: NextRequest) {
         message: 'Vector store created successfully'
       })
 
-    } else if (action === 'add_file') {
-      // Add file to existing vector store
-      const { vectorStoreId, fileId } = await request.json()
-
-      if (!vectorStoreId || !fileId) {
+    } else {
+      // Add file to existing vector store; both must belong to the organization's price lists
+      const { vectorStoreId, fileId } = body
+
+      const [{ data: storeOwner }, { data: fileOwner }] = await Promise.all([
+        supabase
+          .from('price_lists')
+          .select('id')
+          .eq('organization_id', profile.organization_id)
+          .eq('openai_vector_file_id', vectorStoreId)
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('price_lists')
+          .select('id')
+          .eq('organization_id', profile.organization_id)
+          .eq('openai_file_id', fileId)
+          .limit(1)
+          .maybeSingle()
+      ])
+
+      if (!storeOwner || !fileOwner) {
         return NextResponse.json(
-          { error: 'vectorStoreId and fileId are required' },
-          { status: 400 }
+          { error: 'Vector store or file not found' },
+          { status: 404 }
         )
       }
 
       const result = await addFileToVectorStore(vectorStoreId, fileId)
-      
+      await recordAuditEvent(request, { action: 'vector_store.add_file', targetType: 'vector_store', targetId: vectorStoreId, after: { openai_file_id: fileId } })
+
       const totalTime = Date.now() - startTime
       return NextResponse.json({
         success: true,
@@ -91,12 +128,6 @@ export async function POST(request: NextRequest) {
         status: result.status,
         processing_time_ms: totalTime
       })
-
-    } else {
-      return NextResponse.json(
-        { error: 'Invalid action. Use "create" or "add_file"' },
-        { status: 400 }
-      )
     }
 
   } catch (error: any) {
@@ -119,6 +150,9 @@ export async function DELETE(request: NextRequest) {
   const startTime = Date.now()
   
   try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
     const { searchParams } = new URL(request.url)
     const priceListId = searchParams.get('priceListId')
     const action = searchParams.get('action') || 'remove_file'
@@ -135,6 +169,7 @@ export async function DELETE(request: NextRequest) {
       .from('price_lists')
       .select('openai_file_id, openai_vector_file_id')
       .eq('id', priceListId)
+      .eq('organization_id', profile.organization_id)
       .single()
 
     if (fetchError || !priceList) {
@@ -147,7 +182,13 @@ export async function DELETE(request: NextRequest) {
     if (action === 'remove_file' && priceList.openai_vector_file_id && priceList.openai_file_id) {
       // Remove file from vector store
       await removeFileFromVectorStore(priceList.openai_vector_file_id, priceList.openai_file_id)
-      
+      await recordAuditEvent(request, {
+        action: 'vector_store.remove_file',
+        targetType: 'price_list',
+        targetId: priceListId,
+        before: { vector_store_id: priceList.openai_vector_file_id, openai_file_id: priceList.openai_file_id }
+      })
+
       // Update database - keep vector store ID but file is no longer in it
       const totalTime = Date.now() - startTime
       
@@ -171,6 +212,13 @@ export async function DELETE(request: NextRequest) {
         console.error('Database update error:', updateError)
       }
 
+      await recordAuditEvent(request, {
+        action: 'vector_store.delete',
+        targetType: 'price_list',
+        targetId: priceListId,
+        before: { vector_store_id: priceList.openai_vector_file_id }
+      })
+
       const totalTime = Date.now() - startTime
       
       return NextResponse.json({
@@ -204,6 +252,9 @@ export async function DELETE(request: NextRequest) {
 // Get vector store status
 export async function GET(request: NextRequest) {
   try {
+    const { profile, response } = await requireAdmin()
+    if (response) return response
+
     const { searchParams } = new URL(request.url)
     const priceListId = searchParams.get('priceListId')
 
@@ -219,6 +270,7 @@ export async function GET(request: NextRequest) {
       .from('price_lists')
       .select('openai_vector_file_id, file_name')
       .eq('id', priceListId)
+      .eq('organization_id', profile.organization_id)
       .single()
 
     if (error || !priceList) {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireActiveSubscription } from '@/lib/api-auth'
+import { searchPriceItems } from '@/lib/price-search'
+
+// Search extracted price items: ?q=&limit=&match=exact|fuzzy&priceListIds=a,b
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const { profile, response } = await requireActiveSubscription()
+    if (response) return response
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim() || ''
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100)
+    const match = searchParams.get('match') || 'fuzzy'
+    const priceListIds = (searchParams.get('priceListIds') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query parameter q is required' },
+        { status: 400 }
+      )
+    }
+
+    if (match !== 'exact' && match !== 'fuzzy') {
+      return NextResponse.json(
+        { error: 'match must be "exact" or "fuzzy"' },
+        { status: 400 }
+      )
+    }
+
+    const items = await searchPriceItems(profile.organization_id, query, {
+      limit,
+      priceListIds,
+      exactOnly: match === 'exact'
+    })
+
+    return NextResponse.json({
+      success: true,
+      query,
+      items,
+      processing_time_ms: Date.now() - startTime
+    })
+
+  } catch (error) {
+    console.error('Price search error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search prices', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
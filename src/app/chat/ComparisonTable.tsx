@@ -0,0 +1,121 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { formatDateVE } from '@/lib/date-utils'
+import { formatEquivalent } from '@/lib/currency'
+import type { PriceComparison, PriceComparisonRow } from '@/lib/price-comparison'
+
+interface ComparisonTableProps {
+  comparison: PriceComparison
+}
+
+type SortKey = 'rank' | 'supplier_name' | 'description' | 'price' | 'catalog_date'
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: 'rank', label: '#' },
+  { key: 'supplier_name', label: 'Proveedor' },
+  { key: 'description', label: 'Producto' },
+  { key: 'price', label: 'Precio unitario', className: 'text-right' },
+  { key: 'catalog_date', label: 'Catálogo' },
+]
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+
+// Prices are compared by their USD value; unconverted prices only within their own currency
+// (comparisons saved before currency normalization have no price_usd at all)
+function compareRows(a: PriceComparisonRow, b: PriceComparisonRow, key: SortKey): number {
+  switch (key) {
+    case 'price': {
+      const usdA = a.price_usd ?? null
+      const usdB = b.price_usd ?? null
+      if (usdA !== null && usdB !== null) return usdA - usdB
+      if (usdA !== null || usdB !== null) return usdA !== null ? -1 : 1
+      return a.currency.localeCompare(b.currency) || a.price - b.price
+    }
+    case 'rank':
+      return 0
+    case 'catalog_date':
+      return a.catalog_date.localeCompare(b.catalog_date)
+    default:
+      return a[key].localeCompare(b[key], 'es')
+  }
+}
+
+// Ranked cross-supplier price table rendered under a comparison answer; headers toggle sorting
+export default function ComparisonTable({ comparison }: ComparisonTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('rank')
+  const [ascending, setAscending] = useState(true)
+
+  const rows = useMemo(() => {
+    // 'rank' keeps the server order (cheapest USD value first)
+    const sorted = sortKey === 'rank' ? [...comparison.rows] : [...comparison.rows].sort((a, b) => compareRows(a, b, sortKey))
+    return ascending ? sorted : sorted.reverse()
+  }, [comparison.rows, sortKey, ascending])
+
+  if (comparison.rows.length === 0) return null
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending)
+    } else {
+      setSortKey(key)
+      setAscending(true)
+    }
+  }
+
+  return (
+    <div className="not-prose mt-3 overflow-x-auto">
+      <table className="min-w-full border border-slate-200 rounded-lg text-xs">
+        <thead className="bg-slate-50">
+          <tr>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                aria-sort={sortKey === column.key ? (ascending ? 'ascending' : 'descending') : 'none'}
+                className={`border border-slate-200 px-2 py-1 font-semibold text-left ${column.className || ''}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleSort(column.key)}
+                  className="inline-flex items-center gap-1 hover:text-emerald-700"
+                >
+                  {column.label}
+                  <span className="text-slate-400">{sortKey === column.key ? (ascending ? '▲' : '▼') : '↕'}</span>
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.price_list_id}-${row.sku ?? row.description}`} className={row.rank === 1 ? 'bg-emerald-50' : undefined}>
+              <td className="border border-slate-200 px-2 py-1 text-slate-500">{row.rank}</td>
+              <td className="border border-slate-200 px-2 py-1 font-medium text-slate-800">{row.supplier_name}</td>
+              <td className="border border-slate-200 px-2 py-1 text-slate-700">
+                {row.description}
+                {(row.sku || row.unit) && (
+                  <span className="block text-slate-400">{[row.sku, row.unit].filter(Boolean).join(' · ')}</span>
+                )}
+              </td>
+              <td className="border border-slate-200 px-2 py-1 text-right font-semibold text-slate-900 whitespace-nowrap">
+                {formatPrice(row.price)} <span className="font-normal text-slate-500">{row.currency}</span>
+                {formatEquivalent(row) && (
+                  <span
+                    className="block font-normal text-slate-400"
+                    title={typeof row.exchange_rate === 'number' ? `Tasa ${formatPrice(row.exchange_rate)} Bs/USD del ${formatDateVE(`${row.rate_date}T12:00:00`)}` : undefined}
+                  >
+                    {formatEquivalent(row)}
+                  </span>
+                )}
+              </td>
+              <td className="border border-slate-200 px-2 py-1 text-slate-500 whitespace-nowrap" title={row.file_name}>
+                {formatDateVE(row.catalog_date)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { useConfirmation } from '@/contexts/ConfirmationContext'
+import { formatDateVE } from '@/lib/date-utils'
+import type { ConversationSummary } from '@/lib/conversations'
+
+interface ConversationSidebarProps {
+  activeConversationId: string | null
+  refreshKey: number
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+  onDeleted: (conversationId: string) => void
+  className?: string
+}
+
+export default function ConversationSidebar({
+  activeConversationId,
+  refreshKey,
+  onSelect,
+  onNew,
+  onDeleted,
+  className = ''
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  const { showError, showSuccess } = useToast()
+  const { confirmDanger } = useConfirmation()
+
+  const loadConversations = useCallback(async (query: string) => {
+    try {
+      const params = query ? `?q=${encodeURIComponent(query)}` : ''
+      const response = await fetch(`/api/conversations${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations || [])
+      } else {
+        console.error('Error loading conversations:', response.status)
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Debounce search; also reload when the parent signals a new/updated conversation
+  useEffect(() => {
+    const timeout = setTimeout(() => loadConversations(searchQuery.trim()), searchQuery ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, refreshKey, loadConversations])
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title || '')
+  }
+
+  const saveRename = async () => {
+    if (!editingId) return
+    const id = editingId
+    const title = editingTitle.trim()
+    setEditingId(null)
+
+    const current = conversations.find(c => c.id === id)
+    if (!title || title === current?.title) return
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'No se pudo renombrar la conversación')
+
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, title: data.conversation.title } : c))
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo renombrar la conversación')
+    }
+  }
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    const confirmed = await confirmDanger(
+      'Eliminar conversación',
+      `¿Eliminar "${conversation.title || 'Sin título'}" y todos sus mensajes? Esta acción no se puede deshacer.`
+    )
+    if (!confirmed) return
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'No se pudo eliminar la conversación')
+
+      setConversations(prev => prev.filter(c => c.id !== conversation.id))
+      onDeleted(conversation.id)
+      showSuccess('Conversación eliminada')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo eliminar la conversación')
+    }
+  }
+
+  return (
+    <aside className={`flex flex-col bg-white/80 border-r border-slate-200/80 min-h-0 ${className}`}>
+      <div className="p-3 border-b border-slate-200/80 space-y-2 flex-shrink-0">
+        <button
+          onClick={onNew}
+          className="w-full inline-flex items-center justify-center px-3 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white text-sm font-medium rounded-lg hover:from-blue-600 hover:to-indigo-700 transition-all duration-200 shadow-sm"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          Nueva Conversación
+        </button>
+        <div className="relative">
+          <svg className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Buscar conversaciones..."
+            className="w-full pl-8 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 p-2 space-y-1">
+        {loading ? (
+          <p className="text-xs text-slate-500 text-center py-6">Cargando conversaciones...</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-xs text-slate-500 text-center py-6">
+            {searchQuery ? 'Sin resultados para tu búsqueda' : 'Aún no tienes conversaciones'}
+          </p>
+        ) : (
+          conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer border transition-colors ${conversation.id === activeConversationId
+                ? 'bg-blue-50 border-blue-200'
+                : 'border-transparent hover:bg-slate-50'
+                }`}
+              onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={saveRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  maxLength={120}
+                  className="w-full px-2 py-1 text-sm border border-blue-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-slate-800 truncate">{conversation.title || 'Sin título'}</p>
+                    {conversation.snippet && (
+                      <p className="text-xs text-slate-500 line-clamp-2 mt-0.5">{conversation.snippet}</p>
+                    )}
+                    <p className="text-xs text-slate-400 mt-0.5">{formatDateVE(conversation.updated_at || conversation.created_at)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity flex-shrink-0">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); startRename(conversation) }}
+                      className="p-1 text-slate-400 hover:text-blue-600 rounded"
+                      title="Renombrar"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); deleteConversation(conversation) }}
+                      className="p-1 text-slate-400 hover:text-red-600 rounded"
+                      title="Eliminar"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import type { FeedbackRating, MessageFeedback } from '@/lib/message-feedback'
+
+interface FeedbackButtonsProps {
+  messageId: string
+  initialFeedback?: MessageFeedback | null
+}
+
+// Thumbs up/down under an assistant answer; thumbs down asks what was wrong
+export default function FeedbackButtons({ messageId, initialFeedback = null }: FeedbackButtonsProps) {
+  const { showError, showSuccess } = useToast()
+  const [feedback, setFeedback] = useState<MessageFeedback | null>(initialFeedback)
+  const [formOpen, setFormOpen] = useState(false)
+  const [comment, setComment] = useState(initialFeedback?.comment ?? '')
+  const [correctValue, setCorrectValue] = useState(initialFeedback?.correct_value ?? '')
+  const [saving, setSaving] = useState(false)
+
+  async function submit(rating: FeedbackRating) {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/chat/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, rating, comment, correct_value: correctValue })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo guardar tu valoración')
+
+      setFeedback(json.feedback)
+      setFormOpen(false)
+      if (rating === 'down') showSuccess('Gracias, revisaremos esta respuesta')
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo guardar tu valoración')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function withdraw() {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/chat/feedback?messageId=${encodeURIComponent(messageId)}`, { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'No se pudo quitar tu valoración')
+      setFeedback(null)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'No se pudo quitar tu valoración')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onThumbsUp = () => (feedback?.rating === 'up' ? withdraw() : submit('up'))
+  const onThumbsDown = () => setFormOpen(open => !open)
+
+  const buttonClass = (active: boolean) =>
+    `px-1.5 py-0.5 rounded transition-colors disabled:opacity-50 ${active ? 'bg-slate-200' : 'hover:bg-slate-100 grayscale hover:grayscale-0'}`
+
+  return (
+    <div className="not-prose">
+      <div className="inline-flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onThumbsUp}
+          disabled={saving}
+          title="Respuesta útil"
+          aria-pressed={feedback?.rating === 'up'}
+          className={buttonClass(feedback?.rating === 'up')}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          onClick={onThumbsDown}
+          disabled={saving}
+          title="Respuesta incorrecta"
+          aria-pressed={feedback?.rating === 'down'}
+          className={buttonClass(feedback?.rating === 'down')}
+        >
+          👎
+        </button>
+        {feedback?.rating === 'down' && feedback.status === 'resolved' && (
+          <span className="text-emerald-600">Revisada</span>
+        )}
+      </div>
+
+      {formOpen && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); submit('down') }}
+          className="mt-2 p-3 rounded-lg bg-slate-50 border border-slate-200 space-y-2 text-slate-700"
+        >
+          <label className="block">
+            <span className="block mb-1 font-medium">¿Qué estuvo mal? (opcional)</span>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              maxLength={2000}
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="block">
+            <span className="block mb-1 font-medium">Valor correcto (opcional)</span>
+            <input
+              type="text"
+              value={correctValue}
+              onChange={(e) => setCorrectValue(e.target.value)}
+              maxLength={2000}
+              placeholder="Ej: 12,50 USD"
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-60"
+            >
+              {saving ? 'Enviando...' : 'Enviar'}
+            </button>
+            {feedback?.rating === 'down' && (
+              <button
+                type="button"
+                onClick={() => { setFormOpen(false); withdraw() }}
+                disabled={saving}
+                className="px-3 py-1 text-red-600 hover:text-red-800"
+              >
+                Quitar valoración
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setFormOpen(false)}
+              className="px-3 py-1 text-slate-600 hover:text-slate-800"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { useState } from 'react'
+import type { Citation } from '@/lib/citations'
+
+interface SourceChipsProps {
+  citations: Citation[]
+}
+
+// Clickable source chips under an assistant answer; clicking one reveals the quoted snippet
+export default function SourceChips({ citations }: SourceChipsProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null)
+
+  if (citations.length === 0) return null
+
+  const expanded = expandedIndex !== null ? citations[expandedIndex] : null
+
+  return (
+    <div className="not-prose mt-3 pt-3 border-t border-slate-100">
+      <div className="flex items-center flex-wrap gap-1.5">
+        <span className="text-xs font-medium text-slate-500 mr-1">Fuentes:</span>
+        {citations.map((citation, index) => (
+          <button
+            key={`${citation.price_list_id ?? citation.file_name}-${index}`}
+            type="button"
+            onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+            title={citation.supplier_name ? `${citation.file_name} (${citation.supplier_name})` : citation.file_name}
+            className={`inline-flex items-center max-w-[14rem] px-2 py-0.5 rounded-full border text-xs transition-colors ${expandedIndex === index
+              ? 'bg-emerald-100 border-emerald-300 text-emerald-800'
+              : 'bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100'
+              }`}
+          >
+            <svg className="w-3 h-3 mr-1 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            <span className="truncate">{citation.file_name.replace(/\.[^.]+$/, '')}</span>
+          </button>
+        ))}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 px-3 py-2 rounded-lg bg-slate-50 border border-slate-200 text-xs text-slate-600">
+          <div className="font-semibold text-slate-700 mb-1">
+            {expanded.file_name}
+            {expanded.supplier_name && <span className="font-normal text-slate-500"> · {expanded.supplier_name}</span>}
+          </div>
+          {expanded.snippet ? (
+            <blockquote className="italic border-l-2 border-emerald-300 pl-2">{expanded.snippet}</blockquote>
+          ) : (
+            <span className="text-slate-400">Sin fragmento disponible para esta fuente.</span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
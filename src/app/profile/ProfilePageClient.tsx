@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { formatCaracasDateTime, type QuotaCheck, type QuotaStatus } from '@/lib/usage-quotas'
+import { changePasswordSchema, type ChangePasswordBody, type UpdateProfileBody } from '@/lib/api-schemas'
 
 interface UserProfile {
   id: string
@@ -11,6 +13,13 @@ interface UserProfile {
   is_active?: boolean
 }
 
+const QUOTA_CHECK_LABELS: Record<`${QuotaCheck['period']}_${QuotaCheck['metric']}`, string> = {
+  day_tokens: 'Tokens hoy',
+  day_requests: 'Consultas hoy',
+  month_tokens: 'Tokens este mes',
+  month_requests: 'Consultas este mes',
+}
+
 export default function ProfilePageClient() {
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [isEditing, setIsEditing] = useState(false)
@@ -22,9 +31,11 @@ export default function ProfilePageClient() {
   const [confirmPassword, setConfirmPassword] = useState('')
   const [message, setMessage] = useState('')
   const [showPasswordForm, setShowPasswordForm] = useState(false)
+  const [usage, setUsage] = useState<QuotaStatus | null>(null)
 
   useEffect(() => {
     fetchProfile()
+    fetchUsage()
   }, [])
 
   const fetchProfile = async () => {
@@ -43,19 +54,30 @@ export default function ProfilePageClient() {
     }
   }
 
+  const fetchUsage = async () => {
+    try {
+      const response = await fetch('/api/auth/usage')
+      if (response.ok) {
+        const data = await response.json()
+        setUsage(data.usage)
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error)
+    }
+  }
+
   const handleSaveName = async () => {
     if (!name.trim()) return
 
     setSaving(true)
     try {
+      const body: UpdateProfileBody = { name: name.trim() }
       const response = await fetch('/api/auth/update-profile', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          name: name.trim()
-        }),
+        body: JSON.stringify(body),
       })
 
       if (response.ok) {
@@ -84,7 +106,9 @@ export default function ProfilePageClient() {
       return
     }
 
-    if (newPassword.length < 6) {
+    // Same rules the API applies
+    const body: ChangePasswordBody = { currentPassword, newPassword }
+    if (changePasswordSchema.parse(body).errors?.newPassword) {
       setMessage('La nueva contraseña debe tener al menos 6 caracteres')
       return
     }
@@ -96,10 +120,7 @@ export default function ProfilePageClient() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          currentPassword,
-          newPassword
-        }),
+        body: JSON.stringify(body),
       })
 
       if (response.ok) {
@@ -342,6 +363,47 @@ export default function ProfilePageClient() {
           )}
         </div>
       </div>
+
+      {/* Chat usage */}
+      {usage && (
+        <div className="mt-8 bg-white/80 backdrop-blur-sm shadow-2xl rounded-3xl border border-white/20 overflow-hidden">
+          <div className="bg-gradient-to-r from-slate-50 to-blue-50 px-8 py-6 border-b border-slate-200/80">
+            <h2 className="text-xl font-semibold text-slate-800">Uso del Chat</h2>
+            <p className="text-slate-600 text-sm mt-1">
+              {usage.plan ? `Plan ${usage.plan.name}` : 'Sin plan asignado'} • Los límites se reinician a medianoche y el primer día de cada mes (hora de Venezuela)
+            </p>
+          </div>
+
+          <div className="p-8 space-y-5">
+            {usage.checks.length === 0 ? (
+              <p className="text-slate-600 text-sm">Tu cuenta no tiene límites de uso.</p>
+            ) : (
+              usage.checks.map(check => {
+                const percent = check.limit > 0 ? Math.min(100, Math.round((check.used / check.limit) * 100)) : 100
+                return (
+                  <div key={`${check.period}_${check.metric}`}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">{QUOTA_CHECK_LABELS[`${check.period}_${check.metric}`]}</span>
+                      <span className="text-slate-600">
+                        {check.remaining.toLocaleString('es-VE')} de {check.limit.toLocaleString('es-VE')} disponibles
+                      </span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                    {check.remaining === 0 && (
+                      <p className="text-xs text-red-600 mt-1">Se reinicia el {formatCaracasDateTime(check.reset_at)}</p>
+                    )}
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
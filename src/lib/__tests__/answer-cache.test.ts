@@ -0,0 +1,188 @@
+import {
+  ANSWER_CACHE_MIN_SIMILARITY,
+  buildCacheContextKey,
+  extractQueryIdentifiers,
+  lookupCachedAnswer,
+  normalizeCacheQuery,
+  storeCachedAnswer,
+} from '../answer-cache'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getLLMProvider } from '../llm-provider'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('../llm-provider', () => ({
+  getLLMProvider: jest.fn(),
+}))
+
+jest.mock('@/lib/openai-responses', () => ({
+  getAppSettings: jest.fn(),
+}))
+
+// Chainable query builder resolving to { data, error }
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'eq', 'in', 'gt', 'upsert']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.maybeSingle = jest.fn().mockResolvedValue(result)
+  query.then = jest.fn((resolve) => resolve(result))
+  return query
+}
+
+const cachedRow = {
+  id: 'cache-1',
+  query_normalized: 'precio de la harina pan',
+  response: 'Harina PAN: 1,20 USD',
+  citations: [],
+  comparison: null,
+  model: 'gpt-4.1-mini',
+  instructions_version: 3,
+}
+
+describe('answer-cache', () => {
+  describe('normalizeCacheQuery', () => {
+    it('should ignore case, accents, punctuation and spacing', () => {
+      expect(normalizeCacheQuery('¿Precio de la  Harina PAN?')).toBe('precio de la harina pan')
+      expect(normalizeCacheQuery('precio del azúcar.')).toBe('precio del azucar')
+    })
+
+    it('should keep decimals and currency symbols', () => {
+      expect(normalizeCacheQuery('Aceite a 3,10 $ o 2.5%')).toBe('aceite a 3,10 $ o 2.5%')
+    })
+  })
+
+  describe('extractQueryIdentifiers', () => {
+    it('should keep the numbers and codes of a question', () => {
+      expect(extractQueryIdentifiers(normalizeCacheQuery('Precio SKU A-1020, cable 12 AWG y x200 (12)'))).toEqual(['1020', '12', 'x200'])
+      expect(extractQueryIdentifiers('precio de la harina pan')).toEqual([])
+    })
+  })
+
+  describe('buildCacheContextKey', () => {
+    const context = {
+      organizationId: 'org-1',
+      priceListIds: ['list-a', 'list-b'],
+      instructionsVersion: 3,
+      model: 'gpt-4.1-mini',
+      mode: 'auto',
+    }
+
+    it('should not depend on the order of the price lists', () => {
+      expect(buildCacheContextKey(context)).toBe(buildCacheContextKey({ ...context, priceListIds: ['list-b', 'list-a'] }))
+    })
+
+    it('should change with the organization, the price lists or the instructions version', () => {
+      const key = buildCacheContextKey(context)
+
+      expect(buildCacheContextKey({ ...context, organizationId: 'org-2' })).not.toBe(key)
+      expect(buildCacheContextKey({ ...context, priceListIds: ['list-a'] })).not.toBe(key)
+      expect(buildCacheContextKey({ ...context, instructionsVersion: 4 })).not.toBe(key)
+    })
+  })
+
+  describe('lookupCachedAnswer', () => {
+    const embed = jest.fn()
+    const rpc = jest.fn()
+    let cacheQuery: Record<string, jest.Mock>
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      embed.mockResolvedValue([0.6, 0.8])
+      rpc.mockResolvedValue({ data: null, error: null })
+      ;(getLLMProvider as jest.Mock).mockReturnValue({ embed })
+      cacheQuery = mockQuery({ data: null, error: null })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => cacheQuery), rpc })
+    })
+
+    it('should return an exact match without embedding the question', async () => {
+      cacheQuery = mockQuery({ data: cachedRow, error: null })
+
+      const { hit } = await lookupCachedAnswer('¿Precio de la harina PAN?', 'ctx-1')
+
+      expect(hit).toEqual(expect.objectContaining({ id: 'cache-1', match: 'exact', similarity: 1 }))
+      expect(cacheQuery.eq).toHaveBeenCalledWith('query_normalized', 'precio de la harina pan')
+      expect(embed).not.toHaveBeenCalled()
+      expect(rpc).toHaveBeenCalledWith('record_answer_cache_hit', { p_id: 'cache-1' })
+    })
+
+    it('should fall back to the most similar embedding', async () => {
+      rpc.mockResolvedValueOnce({ data: [{ ...cachedRow, similarity: 0.97 }], error: null })
+
+      const { hit, embedding } = await lookupCachedAnswer('cuánto cuesta la harina PAN', 'ctx-1')
+
+      expect(rpc).toHaveBeenCalledWith('match_answer_cache', {
+        p_context_key: 'ctx-1',
+        p_embedding: '[0.6,0.8]',
+        p_min_similarity: ANSWER_CACHE_MIN_SIMILARITY,
+      })
+      expect(hit).toEqual(expect.objectContaining({ match: 'semantic', similarity: 0.97 }))
+      expect(embedding).toEqual([0.6, 0.8])
+    })
+
+    it('should not reuse the answer to a question about another size or code', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [
+          { ...cachedRow, id: 'cache-12', query_normalized: 'precio cable 12 awg', similarity: 0.99 },
+          { ...cachedRow, id: 'cache-14', query_normalized: 'cuanto cuesta el cable 14 awg', similarity: 0.96 },
+        ],
+        error: null,
+      })
+
+      const { hit } = await lookupCachedAnswer('precio cable 14 AWG', 'ctx-1')
+
+      expect(hit).toEqual(expect.objectContaining({ id: 'cache-14', match: 'semantic' }))
+
+      rpc.mockResolvedValueOnce({
+        data: [{ ...cachedRow, id: 'cache-12', query_normalized: 'precio cable 12 awg', similarity: 0.99 }],
+        error: null,
+      })
+
+      await expect(lookupCachedAnswer('precio cable 14 AWG', 'ctx-1')).resolves.toEqual({ hit: null, embedding: [0.6, 0.8] })
+    })
+
+    it('should miss but keep the embedding for storing the new answer', async () => {
+      await expect(lookupCachedAnswer('precio del arroz', 'ctx-1')).resolves.toEqual({ hit: null, embedding: [0.6, 0.8] })
+    })
+
+    it('should fail open when the cache is unavailable', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+      cacheQuery = mockQuery({ data: null, error: { message: 'relation "answer_cache" does not exist' } })
+
+      await expect(lookupCachedAnswer('precio del arroz', 'ctx-1')).resolves.toEqual({ hit: null, embedding: null })
+      expect(consoleError).toHaveBeenCalled()
+
+      consoleError.mockRestore()
+    })
+  })
+
+  describe('storeCachedAnswer', () => {
+    it('should upsert the answer with its expiry', async () => {
+      const query = mockQuery({ data: null, error: null })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => query) })
+
+      await storeCachedAnswer({
+        organizationId: 'org-1',
+        contextKey: 'ctx-1',
+        query: '¿Precio de la harina?',
+        embedding: [0.6, 0.8],
+        response: 'Harina PAN: 1,20 USD',
+        citations: [],
+        comparison: null,
+        model: 'gpt-4.1-mini',
+        instructionsVersion: 3,
+      }, new Date('2026-10-19T12:00:00Z'))
+
+      expect(query.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        organization_id: 'org-1',
+        context_key: 'ctx-1',
+        query_normalized: 'precio de la harina',
+        embedding: '[0.6,0.8]',
+        hit_count: 0,
+        expires_at: '2026-10-20T12:00:00.000Z',
+      }), { onConflict: 'context_key,query_normalized' })
+    })
+  })
+})
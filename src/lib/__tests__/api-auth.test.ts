@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getAuthenticatedUser,
+  hasActiveSubscription,
+  requireActiveSubscription,
+  requireAdmin,
+  requireUser,
+  type AuthProfile,
+} from '../api-auth'
+import { createServerClient } from '@supabase/ssr'
+import { createSupabaseAdmin } from '../supabase'
+
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(),
+}))
+
+jest.mock('../supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => ({
+    get: jest.fn(),
+  })),
+}))
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+const profile = (overrides: Partial<AuthProfile> = {}): AuthProfile => ({
+  id: 'user-1',
+  organization_id: 'org-1',
+  email: 'cliente@example.com',
+  full_name: 'Cliente',
+  role: 'USER',
+  is_active: true,
+  subscription_expires_at: '2026-12-31T00:00:00Z',
+  ...overrides,
+})
+
+describe('api-auth', () => {
+  const mockSupabaseClient = {
+    auth: {
+      getUser: jest.fn(),
+      getSession: jest.fn(),
+    },
+  }
+  const mockMaybeSingle = jest.fn()
+  const mockSupabaseAdmin = {
+    from: jest.fn(() => ({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({ maybeSingle: mockMaybeSingle })),
+      })),
+    })),
+  }
+
+  const signIn = (user: { id: string; email?: string } | null) =>
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user }, error: null })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(createServerClient as jest.Mock).mockReturnValue(mockSupabaseClient)
+    ;(createSupabaseAdmin as jest.Mock).mockReturnValue(mockSupabaseAdmin)
+  })
+
+  describe('getAuthenticatedUser', () => {
+    it('should verify the token with getUser, never getSession', async () => {
+      signIn({ id: 'user-1' })
+
+      await expect(getAuthenticatedUser()).resolves.toEqual({ id: 'user-1' })
+      expect(mockSupabaseClient.auth.getUser).toHaveBeenCalled()
+      expect(mockSupabaseClient.auth.getSession).not.toHaveBeenCalled()
+    })
+
+    it('should return null when Supabase rejects the token', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({
+        data: { user: null },
+        error: { message: 'invalid JWT' },
+      })
+
+      await expect(getAuthenticatedUser()).resolves.toBeNull()
+    })
+  })
+
+  describe('requireUser', () => {
+    it('should return 401 when signed out', async () => {
+      signIn(null)
+
+      const { user, response } = await requireUser()
+      expect(user).toBeNull()
+      expect(response?.status).toBe(401)
+      await expect(response?.json()).resolves.toEqual({ error: 'Authentication required' })
+    })
+  })
+
+  describe('requireAdmin', () => {
+    it('should return 401 when signed out without loading a profile', async () => {
+      signIn(null)
+
+      const { response } = await requireAdmin()
+      expect(response?.status).toBe(401)
+      expect(mockSupabaseAdmin.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 403 for a non-admin', async () => {
+      signIn({ id: 'user-1' })
+      mockMaybeSingle.mockResolvedValue({ data: profile(), error: null })
+
+      const { user, response } = await requireAdmin()
+      expect(user).toBeNull()
+      expect(response?.status).toBe(403)
+      await expect(response?.json()).resolves.toEqual({ error: 'Admin access required' })
+    })
+
+    it('should return 403 for a disabled admin or a missing profile', async () => {
+      signIn({ id: 'admin-1' })
+      mockMaybeSingle.mockResolvedValueOnce({ data: profile({ id: 'admin-1', role: 'ADMIN', is_active: false }), error: null })
+      expect((await requireAdmin()).response?.status).toBe(403)
+
+      mockMaybeSingle.mockResolvedValueOnce({ data: null, error: null })
+      expect((await requireAdmin()).response?.status).toBe(403)
+    })
+
+    it('should return the user and profile for an active admin', async () => {
+      signIn({ id: 'admin-1', email: 'admin@example.com' })
+      mockMaybeSingle.mockResolvedValue({ data: profile({ id: 'admin-1', role: 'ADMIN' }), error: null })
+
+      const { user, profile: adminProfile, response } = await requireAdmin()
+      expect(response).toBeNull()
+      expect(user?.id).toBe('admin-1')
+      expect(adminProfile?.role).toBe('ADMIN')
+    })
+  })
+
+  describe('requireActiveSubscription', () => {
+    it('should return 403 when the license has expired', async () => {
+      signIn({ id: 'user-1' })
+      mockMaybeSingle.mockResolvedValue({ data: profile({ subscription_expires_at: '2020-01-01T00:00:00Z' }), error: null })
+
+      const { response } = await requireActiveSubscription()
+      expect(response?.status).toBe(403)
+      await expect(response?.json()).resolves.toEqual({ error: 'Active subscription required' })
+    })
+  })
+
+  describe('hasActiveSubscription', () => {
+    it('should exempt admins from the expiry but not from being disabled', () => {
+      expect(hasActiveSubscription(profile(), NOW)).toBe(true)
+      expect(hasActiveSubscription(profile({ subscription_expires_at: null }), NOW)).toBe(false)
+      expect(hasActiveSubscription(profile({ role: 'ADMIN', subscription_expires_at: null }), NOW)).toBe(true)
+      expect(hasActiveSubscription(profile({ role: 'ADMIN', is_active: false }), NOW)).toBe(false)
+      expect(hasActiveSubscription(null, NOW)).toBe(false)
+    })
+  })
+})
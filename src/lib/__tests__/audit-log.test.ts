@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getClientIp,
+  recordAuditEvent,
+  parseAuditFilters,
+  auditEventsToCsv,
+  listAuditEvents,
+  AUDIT_PAGE_SIZE,
+  type AuditEvent,
+} from '../audit-log'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getAuthenticatedUser } from '@/lib/api-auth'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: jest.fn(),
+}))
+
+const mockInsert = jest.fn()
+;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: () => ({ insert: mockInsert }) })
+
+// 23:30 on Oct 18 in Caracas (UTC-4)
+const NOW = new Date('2026-10-19T03:30:00Z')
+
+const adminRequest = (headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/admin/users', { method: 'PATCH', headers })
+
+describe('audit-log', () => {
+  beforeEach(() => {
+    mockInsert.mockReset().mockResolvedValue({ error: null })
+    ;(getAuthenticatedUser as jest.Mock).mockReset()
+  })
+
+  describe('getClientIp', () => {
+    it('should take the first forwarded hop, then x-real-ip', () => {
+      expect(getClientIp(new Headers({ 'x-forwarded-for': '200.44.32.12, 10.0.0.1' }))).toBe('200.44.32.12')
+      expect(getClientIp(new Headers({ 'x-real-ip': '200.44.32.13' }))).toBe('200.44.32.13')
+      expect(getClientIp(new Headers())).toBeNull()
+    })
+  })
+
+  describe('recordAuditEvent', () => {
+    it('should store the actor, change and request origin', async () => {
+      await recordAuditEvent(adminRequest({ 'x-forwarded-for': '200.44.32.12', 'user-agent': 'Firefox' }), {
+        action: 'user.update',
+        targetType: 'user',
+        targetId: 'user-2',
+        before: { role: 'USER' },
+        after: { role: 'ADMIN' },
+        actor: { id: 'admin-1', email: 'admin@example.com' },
+      })
+
+      expect(getAuthenticatedUser).not.toHaveBeenCalled()
+      expect(mockInsert).toHaveBeenCalledWith({
+        actor_id: 'admin-1',
+        actor_email: 'admin@example.com',
+        action: 'user.update',
+        target_type: 'user',
+        target_id: 'user-2',
+        before: { role: 'USER' },
+        after: { role: 'ADMIN' },
+        ip: '200.44.32.12',
+        user_agent: 'Firefox',
+      })
+    })
+
+    it('should fall back to the signed-in user as actor', async () => {
+      ;(getAuthenticatedUser as jest.Mock).mockResolvedValue({ id: 'admin-2', email: 'ops@example.com' })
+
+      await recordAuditEvent(adminRequest(), { action: 'master_store.sync', targetType: 'vector_store' })
+
+      expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+        actor_id: 'admin-2',
+        actor_email: 'ops@example.com',
+        target_id: null,
+        before: null,
+        after: null,
+      }))
+    })
+
+    it('should store an explicit organization', async () => {
+      await recordAuditEvent(adminRequest(), {
+        action: 'organization.create',
+        targetType: 'organization',
+        targetId: 'org-2',
+        actor: { id: 'admin-1' },
+        organizationId: 'org-2',
+      })
+
+      expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({ organization_id: 'org-2', target_id: 'org-2' }))
+    })
+
+    it('should not throw when the write fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockInsert.mockRejectedValue(new Error('connection refused'))
+
+      await expect(recordAuditEvent(adminRequest(), {
+        action: 'file.delete',
+        targetType: 'price_list',
+        actor: { id: 'admin-1' },
+      })).resolves.toBeUndefined()
+      expect(consoleError).toHaveBeenCalled()
+
+      consoleError.mockRestore()
+    })
+  })
+
+  describe('parseAuditFilters', () => {
+    it('should default to every action over the last 30 days', () => {
+      expect(parseAuditFilters(new URLSearchParams(), NOW)).toEqual({
+        filters: {
+          action: null,
+          targetType: null,
+          actor: null,
+          range: { from: '2026-09-19', to: '2026-10-18' },
+          page: 1,
+          pageSize: AUDIT_PAGE_SIZE,
+        },
+        error: null,
+      })
+    })
+
+    it('should reject unknown actions, bad pages and bad dates', () => {
+      expect(parseAuditFilters(new URLSearchParams('action=user.hack'), NOW).error).toMatch(/Unknown action/)
+      expect(parseAuditFilters(new URLSearchParams('page=0'), NOW).error).toMatch(/page/)
+      expect(parseAuditFilters(new URLSearchParams('from=18/10/2026'), NOW).error).toMatch(/YYYY-MM-DD/)
+    })
+  })
+
+  describe('listAuditEvents', () => {
+    afterEach(() => {
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: () => ({ insert: mockInsert }) })
+    })
+
+    it('should page through the export in chunks until every event is read', async () => {
+      const total = 2500
+      const range = jest.fn()
+      const query: Record<string, jest.Mock> = {}
+      for (const method of ['select', 'eq', 'gte', 'lt', 'order']) {
+        query[method] = jest.fn(() => query)
+      }
+      // Like PostgREST with max_rows = 1000
+      query.range = range.mockImplementation(async (from: number, to: number) => ({
+        data: Array.from({ length: Math.min(to, from + 999, total - 1) - from + 1 }, (_, i) => ({ id: `evt-${from + i}` })),
+        error: null,
+        count: total,
+      }))
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: () => query })
+
+      const filters = parseAuditFilters(new URLSearchParams(), NOW).filters!
+      const { events } = await listAuditEvents('org-1', filters, 10000)
+
+      expect(events).toHaveLength(total)
+      expect(new Set(events.map(event => event.id)).size).toBe(total)
+      expect(range.mock.calls).toEqual([[0, 999], [1000, 1999], [2000, 2999]])
+    })
+  })
+
+  describe('auditEventsToCsv', () => {
+    it('should quote text with commas and serialize changes as JSON', () => {
+      const event: AuditEvent = {
+        id: 'evt-1',
+        organization_id: 'org-1',
+        actor_id: 'admin-1',
+        actor_email: 'admin@example.com',
+        action: 'user.update',
+        target_type: 'user',
+        target_id: 'user-2',
+        before: { role: 'USER' },
+        after: { role: 'ADMIN' },
+        ip: '200.44.32.12',
+        user_agent: 'Mozilla/5.0 (X11, Linux)',
+        created_at: '2026-10-18T15:00:00Z',
+      }
+
+      const [header, row] = auditEventsToCsv([event]).split('\n')
+      expect(header).toBe('created_at,actor_email,actor_id,action,target_type,target_id,before,after,ip,user_agent')
+      expect(row).toBe('2026-10-18T15:00:00Z,admin@example.com,admin-1,user.update,user,user-2,"{""role"":""USER""}","{""role"":""ADMIN""}",200.44.32.12,"Mozilla/5.0 (X11, Linux)"')
+    })
+
+    it('should keep user-controlled cells from being read as formulas', () => {
+      const event = {
+        actor_email: '=HYPERLINK("http://evil.example","x")',
+        target_id: '@SUM(A1)',
+        user_agent: '-1+1',
+      } as AuditEvent
+
+      const [, row] = auditEventsToCsv([event]).split('\n')
+      expect(row).toBe(`,"'=HYPERLINK(""http://evil.example"",""x"")",,,,'@SUM(A1),,,,'-1+1`)
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import type { ResponseOutputItem } from 'openai/resources/responses/responses'
+import { extractFileSources, toSnippet } from '../citations'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const fileSearchCall = (results: Array<{ file_id: string; filename?: string; score?: number; text?: string }>) => ({
+  type: 'file_search_call',
+  id: 'fs_1',
+  queries: ['precio'],
+  status: 'completed',
+  results,
+})
+
+const message = (annotations: Array<{ file_id: string; filename: string }>) => ({
+  type: 'message',
+  id: 'msg_1',
+  role: 'assistant',
+  status: 'completed',
+  content: [
+    {
+      type: 'output_text',
+      text: 'Respuesta',
+      annotations: annotations.map((a, index) => ({ type: 'file_citation', index, ...a })),
+    },
+  ],
+})
+
+describe('citations', () => {
+  describe('toSnippet', () => {
+    it('should collapse whitespace', () => {
+      expect(toSnippet('  Harina   PAN\n\n 1kg  ')).toBe('Harina PAN 1kg')
+    })
+
+    it('should return null for empty text', () => {
+      expect(toSnippet('')).toBeNull()
+      expect(toSnippet('   ')).toBeNull()
+      expect(toSnippet(undefined)).toBeNull()
+    })
+
+    it('should truncate long text with an ellipsis', () => {
+      const snippet = toSnippet('a'.repeat(500))!
+      expect(snippet.length).toBe(280)
+      expect(snippet.endsWith('…')).toBe(true)
+    })
+  })
+
+  describe('extractFileSources', () => {
+    it('should return an empty list for missing output', () => {
+      expect(extractFileSources(undefined)).toEqual([])
+      expect(extractFileSources([])).toEqual([])
+    })
+
+    it('should keep the best scored result per file when there are no annotations', () => {
+      const output = [
+        fileSearchCall([
+          { file_id: 'file-a', filename: 'a.pdf', score: 0.4, text: 'bajo' },
+          { file_id: 'file-b', filename: 'b.pdf', score: 0.9, text: 'alto' },
+          { file_id: 'file-a', filename: 'a.pdf', score: 0.7, text: 'medio' },
+        ]),
+      ]
+
+      expect(extractFileSources(output as unknown as ResponseOutputItem[])).toEqual([
+        { file_id: 'file-b', filename: 'b.pdf', snippet: 'alto', score: 0.9 },
+        { file_id: 'file-a', filename: 'a.pdf', snippet: 'medio', score: 0.7 },
+      ])
+    })
+
+    it('should prefer annotated files, in citation order, with their snippets', () => {
+      const output = [
+        fileSearchCall([
+          { file_id: 'file-a', filename: 'a.pdf', score: 0.9, text: 'texto a' },
+          { file_id: 'file-b', filename: 'b.pdf', score: 0.5, text: 'texto b' },
+        ]),
+        message([
+          { file_id: 'file-b', filename: 'b.pdf' },
+          { file_id: 'file-b', filename: 'b.pdf' },
+          { file_id: 'file-c', filename: 'c.pdf' },
+        ]),
+      ]
+
+      expect(extractFileSources(output as unknown as ResponseOutputItem[])).toEqual([
+        { file_id: 'file-b', filename: 'b.pdf', snippet: 'texto b', score: 0.5 },
+        { file_id: 'file-c', filename: 'c.pdf', snippet: null, score: null },
+      ])
+    })
+
+    it('should cap the number of sources', () => {
+      const results = Array.from({ length: 8 }, (_, i) => ({
+        file_id: `file-${i}`,
+        filename: `${i}.pdf`,
+        score: i / 10,
+        text: `t${i}`,
+      }))
+
+      expect(extractFileSources([fileSearchCall(results)] as unknown as ResponseOutputItem[])).toHaveLength(5)
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import {
+  buildConversationTitle,
+  normalizeConversationTitle,
+  trimHistoryToBudget,
+  getOwnedConversation,
+  loadConversationHistory,
+  DEFAULT_CONVERSATION_TITLE,
+  MAX_CONVERSATION_TITLE_LENGTH,
+  HISTORY_FETCH_LIMIT,
+} from '../conversations'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+// Chainable query builder resolving to { data, error }
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'eq', 'gt', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.maybeSingle = jest.fn().mockResolvedValue(result)
+  query.then = jest.fn((resolve) => resolve(result))
+  return query
+}
+
+describe('conversations', () => {
+  describe('buildConversationTitle', () => {
+    it('should use the question as title and capitalize it', () => {
+      expect(buildConversationTitle('precio de la harina pan')).toBe('Precio de la harina pan')
+    })
+
+    it('should collapse whitespace and newlines', () => {
+      expect(buildConversationTitle('  ¿precio   del\narroz?  ')).toBe('¿precio del arroz?')
+    })
+
+    it('should fall back to the default title for empty input', () => {
+      expect(buildConversationTitle('')).toBe(DEFAULT_CONVERSATION_TITLE)
+      expect(buildConversationTitle('   ')).toBe(DEFAULT_CONVERSATION_TITLE)
+      expect(buildConversationTitle(null)).toBe(DEFAULT_CONVERSATION_TITLE)
+    })
+
+    it('should cut long questions at a word boundary with an ellipsis', () => {
+      const question = 'cuál es el precio más barato del aceite de maíz de un litro entre todos los proveedores activos'
+      const title = buildConversationTitle(question)
+
+      expect(title.length).toBeLessThanOrEqual(MAX_CONVERSATION_TITLE_LENGTH)
+      expect(title.endsWith('…')).toBe(true)
+      expect(question.toLowerCase()).toContain(title.slice(0, -1).toLowerCase())
+    })
+  })
+
+  describe('normalizeConversationTitle', () => {
+    it('should trim and collapse whitespace', () => {
+      expect(normalizeConversationTitle('  Cotización   Polar ')).toBe('Cotización Polar')
+    })
+
+    it('should reject empty or non-string titles', () => {
+      expect(normalizeConversationTitle('   ')).toBeNull()
+      expect(normalizeConversationTitle(42)).toBeNull()
+      expect(normalizeConversationTitle(undefined)).toBeNull()
+    })
+
+    it('should cap very long titles', () => {
+      expect(normalizeConversationTitle('a'.repeat(300))).toHaveLength(120)
+    })
+  })
+
+  describe('trimHistoryToBudget', () => {
+    const turn = (role: 'user' | 'assistant', length: number) => ({ role, content: 'x'.repeat(length) })
+
+    it('should keep the newest messages that fit, oldest first', () => {
+      const history = [turn('user', 400), turn('assistant', 400), turn('user', 40), turn('assistant', 40)]
+
+      // 100 + 100 + 10 + 10 tokens
+      expect(trimHistoryToBudget(history, 130)).toEqual(history.slice(1))
+      expect(trimHistoryToBudget(history, 220)).toEqual(history)
+    })
+
+    it('should stop at the first message that does not fit', () => {
+      const history = [turn('user', 4), turn('assistant', 4000), turn('user', 4)]
+
+      expect(trimHistoryToBudget(history, 100)).toEqual([history[2]])
+      expect(trimHistoryToBudget(history, 0)).toEqual([])
+    })
+  })
+
+  describe('getOwnedConversation', () => {
+    it('should only match conversations of the given user', async () => {
+      const query = mockQuery({ data: null, error: null })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => query) })
+
+      await expect(getOwnedConversation('conv-1', 'user-2')).resolves.toBeNull()
+      expect(query.eq).toHaveBeenCalledWith('id', 'conv-1')
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'user-2')
+    })
+
+    it('should throw when the lookup fails', async () => {
+      const query = mockQuery({ data: null, error: { message: 'invalid input syntax for type uuid' } })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => query) })
+
+      await expect(getOwnedConversation('nope', 'user-1')).rejects.toThrow(/invalid input syntax/)
+    })
+  })
+
+  describe('loadConversationHistory', () => {
+    it('should read the newest saved messages and return them oldest first', async () => {
+      const query = mockQuery({
+        data: [
+          { role: 'assistant', content: 'Harina PAN: 1,20 USD' },
+          { role: 'user', content: 'precio de la harina pan' },
+          { role: 'system', content: 'ignored' },
+        ],
+        error: null,
+      })
+      const from = jest.fn(() => query)
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from })
+
+      const history = await loadConversationHistory('conv-1', 'user-1')
+
+      expect(from).toHaveBeenCalledWith('messages')
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1')
+      expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false })
+      expect(query.limit).toHaveBeenCalledWith(HISTORY_FETCH_LIMIT)
+      expect(query.gt).not.toHaveBeenCalled()
+      expect(history).toEqual([
+        { role: 'user', content: 'precio de la harina pan' },
+        { role: 'assistant', content: 'Harina PAN: 1,20 USD' },
+      ])
+    })
+
+    it('should skip messages already folded into the summary', async () => {
+      const query = mockQuery({ data: [], error: null })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => query) })
+
+      await loadConversationHistory('conv-1', 'user-1', '2026-10-18T15:00:00Z')
+
+      expect(query.gt).toHaveBeenCalledWith('created_at', '2026-10-18T15:00:00Z')
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import {
+  roundAmount,
+  toCaracasDate,
+  findRateForDate,
+  convertPrice,
+  withCurrencyAmounts,
+  formatEquivalent,
+  getExchangeRates,
+  invalidateExchangeRatesCache,
+  type ExchangeRate,
+} from '../currency'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const rate = (effective_date: string, value: number): ExchangeRate => ({
+  id: `rate-${effective_date}`,
+  base_currency: 'USD',
+  quote_currency: 'VES',
+  rate: value,
+  effective_date,
+  source: 'BCV',
+  created_at: `${effective_date}T12:00:00Z`,
+})
+
+const rates = [rate('2025-09-15', 40), rate('2025-08-01', 36.5), rate('2025-09-01', 38)]
+
+describe('currency', () => {
+  describe('roundAmount', () => {
+    it('should round half away from zero', () => {
+      expect(roundAmount(1.005, 2)).toBe(1.01)
+      expect(roundAmount(2.5, 0)).toBe(3)
+      expect(roundAmount(0.27397, 4)).toBe(0.274)
+    })
+  })
+
+  describe('toCaracasDate', () => {
+    it('should use Venezuelan time (UTC-4)', () => {
+      expect(toCaracasDate('2025-09-02T02:00:00Z')).toBe('2025-09-01')
+      expect(toCaracasDate('2025-09-02T05:00:00Z')).toBe('2025-09-02')
+    })
+  })
+
+  describe('findRateForDate', () => {
+    it('should pick the latest rate on or before the date', () => {
+      expect(findRateForDate(rates, '2025-09-10')?.rate).toBe(38)
+      expect(findRateForDate(rates, '2025-09-15')?.rate).toBe(40)
+      expect(findRateForDate(rates, '2025-09-15T02:00:00Z')?.rate).toBe(38)
+    })
+
+    it('should fall back to the earliest rate for older catalogs', () => {
+      expect(findRateForDate(rates, '2025-01-01')?.effective_date).toBe('2025-08-01')
+    })
+
+    it('should return null without rates', () => {
+      expect(findRateForDate([], '2025-09-10')).toBeNull()
+    })
+  })
+
+  describe('convertPrice', () => {
+    it('should convert USD to VES', () => {
+      expect(convertPrice(25, 'USD', rate('2025-09-01', 36.5))).toEqual({
+        price_usd: 25,
+        price_ves: 912.5,
+        exchange_rate: 36.5,
+        rate_date: '2025-09-01',
+      })
+    })
+
+    it('should convert VES to USD', () => {
+      expect(convertPrice(10, 'VES', rate('2025-09-01', 36.5)).price_usd).toBe(0.274)
+    })
+
+    it('should leave amounts unconverted without a rate or for other currencies', () => {
+      expect(convertPrice(10, 'VES', null)).toEqual({ price_usd: null, price_ves: 10, exchange_rate: null, rate_date: null })
+      expect(convertPrice(10, 'EUR', rate('2025-09-01', 36.5)).price_usd).toBeNull()
+    })
+  })
+
+  it('should convert each item at its own catalog date', () => {
+    const items = withCurrencyAmounts([
+      { price: 10, currency: 'USD', uploaded_at: '2025-08-20T15:00:00Z' },
+      { price: 400, currency: 'VES', uploaded_at: '2025-09-20T15:00:00Z' },
+    ], rates)
+
+    expect(items[0]).toMatchObject({ price_ves: 365, rate_date: '2025-08-01' })
+    expect(items[1]).toMatchObject({ price_usd: 10, rate_date: '2025-09-15' })
+  })
+
+  it('should label the equivalent in the other currency', () => {
+    expect(formatEquivalent({ currency: 'USD', ...convertPrice(25, 'USD', rate('2025-09-01', 36.5)) })).toBe('≈ Bs 912,50')
+    expect(formatEquivalent({ currency: 'VES', ...convertPrice(10, 'VES', null) })).toBeNull()
+  })
+
+  describe('getExchangeRates', () => {
+    const order = jest.fn()
+
+    beforeEach(() => {
+      invalidateExchangeRatesCache()
+      order.mockReset()
+      const query = { select: jest.fn(), eq: jest.fn(), order }
+      query.select.mockReturnValue(query)
+      query.eq.mockReturnValue(query)
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn(() => query) })
+    })
+
+    it('should load and cache the rate history', async () => {
+      order.mockResolvedValue({ data: [{ ...rate('2025-09-01', 0), rate: '36.500000' }], error: null })
+
+      expect((await getExchangeRates())[0].rate).toBe(36.5)
+      await getExchangeRates()
+      expect(order).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return no rates when the query fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      order.mockResolvedValue({ data: null, error: { message: 'relation does not exist' } })
+
+      expect(await getExchangeRates()).toEqual([])
+      jest.restoreAllMocks()
+    })
+  })
+})
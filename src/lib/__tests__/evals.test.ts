@@ -0,0 +1,264 @@
+/**
+ * @jest-environment node
+ */
+import {
+  factMatches,
+  isNumericFact,
+  scoreAnswer,
+  toEvalQuestionInput,
+  compareRuns,
+  failStaleEvalRuns,
+  runEvalWorker,
+  type EvalQuestion,
+  type EvalResult,
+} from '../evals'
+import { createEvalQuestionSchema } from '../api-schemas'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { queryPricesFast } from '@/lib/openai-responses'
+import { lookupStructuredPrices } from '@/lib/price-search'
+import { getOrCreateMasterVectorStore } from '@/lib/openai'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('@/lib/openai-responses', () => ({
+  queryPricesFast: jest.fn(),
+}))
+
+jest.mock('@/lib/price-search', () => ({
+  lookupStructuredPrices: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  getOrCreateMasterVectorStore: jest.fn(),
+  buildPriceListFilter: jest.fn((ids: string[]) => ({ type: 'in', key: 'price_list_id', value: ids })),
+}))
+
+const question = (id: string, facts: string[], overrides: Partial<EvalQuestion> = {}): EvalQuestion => ({
+  id,
+  question: `Pregunta ${id}`,
+  expected_facts: facts,
+  price_list_ids: null,
+  is_active: true,
+  created_at: '2026-10-18T15:00:00Z',
+  updated_at: '2026-10-18T15:00:00Z',
+  ...overrides,
+})
+
+const result = (questionId: string | null, passed: boolean, overrides: Partial<EvalResult> = {}): EvalResult => ({
+  id: `r-${questionId}`,
+  run_id: 'run-1',
+  question_id: questionId,
+  question: `Pregunta ${questionId}`,
+  expected_facts: [],
+  answer: null,
+  matched_facts: [],
+  missing_facts: [],
+  score: passed ? 1 : 0,
+  passed,
+  tokens_used: null,
+  response_time_ms: null,
+  error: null,
+  ...overrides,
+})
+
+// Chainable query builder resolving to { data, error }
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'eq', 'lt']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.then = jest.fn((resolve) => resolve(result))
+  return query
+}
+
+// Supabase stub: claim_eval_run returns the given run once, eval_results holds
+// the saved results; records result inserts and run updates
+function mockSupabase({ claimed = [], saved = [], stale = [] }: {
+  claimed?: Record<string, unknown>[]
+  saved?: { score: number; passed: boolean }[]
+  stale?: { id: string }[]
+} = {}) {
+  const inserts: Record<string, unknown>[] = []
+  const updates: Record<string, unknown>[] = []
+  const from = jest.fn((table: string) => ({
+    select: () => mockQuery({ data: table === 'eval_results' ? saved : [], error: null }),
+    insert: (row: Record<string, unknown>) => {
+      inserts.push(row)
+      return Promise.resolve({ error: null })
+    },
+    update: (values: Record<string, unknown>) => {
+      if (table === 'eval_runs') updates.push(values)
+      return mockQuery({ data: values.status === 'failed' ? stale : [], error: null })
+    },
+  }))
+  const rpc = jest.fn()
+    .mockResolvedValueOnce({ data: claimed, error: null })
+    .mockResolvedValue({ data: [], error: null })
+  ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from, rpc })
+  return { inserts, updates, rpc }
+}
+
+const claimedRun = (questions: EvalQuestion[]) => ({
+  id: 'run-1',
+  organization_id: 'org-1',
+  status: 'running',
+  total: questions.length,
+  completed: 0,
+  passed: 0,
+  score: null,
+  model: null,
+  instructions_version: null,
+  questions: questions.map(({ id, question, expected_facts, price_list_ids }) => ({ id, question, expected_facts, price_list_ids })),
+})
+
+describe('evals', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('factMatches', () => {
+    it('should compare amounts as numbers in either notation', () => {
+      expect(isNumericFact('12,50')).toBe(true)
+      expect(isNumericFact('$ 1.250,00')).toBe(true)
+      expect(isNumericFact('45 USD')).toBe(true)
+      expect(factMatches('El cemento gris cuesta $12.50 por saco.', '12,50')).toBe(true)
+      expect(factMatches('Precio: 1,250.00 Bs.', 'Bs. 1.250,00')).toBe(true)
+      expect(factMatches('El cemento cuesta 125,00 USD.', '12,50')).toBe(false)
+    })
+
+    it('should match other facts ignoring case and accents', () => {
+      expect(isNumericFact('Ferretería Central')).toBe(false)
+      expect(factMatches('Proveedor: FERRETERIA  central', 'Ferretería Central')).toBe(true)
+      expect(factMatches('Proveedor: Ferretería Norte', 'Ferretería Central')).toBe(false)
+    })
+  })
+
+  describe('scoreAnswer', () => {
+    it('should score the share of facts found and pass only with all of them', () => {
+      expect(scoreAnswer('Cemento gris: 12,50 USD en Ferretería Central', ['12.50', 'Ferretería Central', 'saco 42,5 kg'])).toEqual({
+        matched_facts: ['12.50', 'Ferretería Central'],
+        missing_facts: ['saco 42,5 kg'],
+        score: 0.6667,
+        passed: false,
+      })
+      expect(scoreAnswer('12,50', ['12,50']).passed).toBe(true)
+    })
+  })
+
+  describe('toEvalQuestionInput', () => {
+    const parse = (input: Record<string, unknown>) => createEvalQuestionSchema.parse(input)
+
+    it('should accept facts one per line and drop blanks and duplicates', () => {
+      const { data } = parse({ question: ' ¿Precio del cemento? ', expected_facts: '12,50\n\n Ferretería Central \n12,50', price_list_ids: [] })
+
+      expect(toEvalQuestionInput(data!)).toEqual({
+        question: '¿Precio del cemento?',
+        expected_facts: ['12,50', 'Ferretería Central'],
+        price_list_ids: null,
+        is_active: true,
+      })
+    })
+
+    it('should require a question and at least one fact, reported by field', () => {
+      expect(parse({ question: '', expected_facts: ['12,50'] }).errors).toEqual({ question: 'is required' })
+      expect(parse({ question: '¿Precio?', expected_facts: ' \n ' }).errors).toEqual({ expected_facts: 'must have at least 1 item(s)' })
+      expect(parse({ question: '¿Precio?', expected_facts: [1] }).errors).toEqual({ 'expected_facts.0': 'must be a string' })
+      expect(parse({ question: '¿Precio?', expected_facts: ['1'], price_list_ids: 'pl-1' }).errors).toEqual({ price_list_ids: 'must be an array' })
+    })
+  })
+
+  describe('compareRuns', () => {
+    it('should flag regressions, fixes and questions added or removed', () => {
+      const base = [result('q1', true), result('q2', false), result('q3', true), result(null, true, { question: 'Borrada' })]
+      const target = [result('q1', false), result('q2', true), result('q3', true), result('q4', false)]
+
+      expect(compareRuns(base, target).map(row => [row.key, row.change])).toEqual([
+        ['q1', 'regressed'],
+        ['q2', 'fixed'],
+        ['q3', 'unchanged'],
+        ['q4', 'added'],
+        ['text:Borrada', 'removed'],
+      ])
+    })
+  })
+
+  describe('runEvalWorker', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      ;(getOrCreateMasterVectorStore as jest.Mock).mockResolvedValue({ id: 'vs_master' })
+      ;(lookupStructuredPrices as jest.Mock).mockImplementation((_organizationId: string, text: string) =>
+        Promise.resolve(text === 'Pregunta q1' ? { context: 'Cemento gris 12,50 USD' } : null)
+      )
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should answer like the chat, save each result and complete the run', async () => {
+      const { inserts, updates, rpc } = mockSupabase({
+        claimed: [claimedRun([question('q1', ['12,50']), question('q2', ['Ferretería Central'], { price_list_ids: ['pl-1'] })])],
+      })
+      ;(queryPricesFast as jest.Mock)
+        .mockResolvedValueOnce({ content: 'Cuesta 12,50 USD', tokens_used: 100, generation: { model: 'gpt-4o-mini' }, instructions_version: 3 })
+        .mockRejectedValueOnce(new Error('Rate limit'))
+
+      const summary = await runEvalWorker({ budgetMs: 60_000 })
+
+      expect(rpc).toHaveBeenCalledWith('claim_eval_run')
+      expect(getOrCreateMasterVectorStore).toHaveBeenCalledWith('org-1')
+      expect(queryPricesFast).toHaveBeenNthCalledWith(1, 'Pregunta q1', [], [], 'eval', {
+        organizationId: 'org-1',
+        priceContext: 'Cemento gris 12,50 USD',
+      })
+      expect(queryPricesFast).toHaveBeenNthCalledWith(2, 'Pregunta q2', ['vs_master'], [], 'eval', {
+        organizationId: 'org-1',
+        filters: { type: 'in', key: 'price_list_id', value: ['pl-1'] },
+      })
+      expect(inserts).toEqual([
+        expect.objectContaining({ run_id: 'run-1', question_id: 'q1', passed: true, score: 1, tokens_used: 100 }),
+        expect.objectContaining({ question_id: 'q2', passed: false, score: 0, missing_facts: ['Ferretería Central'], error: 'Rate limit' }),
+      ])
+      expect(updates[updates.length - 1]).toMatchObject({
+        status: 'completed',
+        completed: 2,
+        passed: 1,
+        score: 0.5,
+        model: 'gpt-4o-mini',
+        instructions_version: 3,
+        locked_at: null,
+      })
+      expect(summary).toEqual({ answered: 2, finished: 1, stale: 0 })
+    })
+
+    it('should stop at the time budget and resume after the saved results', async () => {
+      const questions = [question('q1', ['12,50']), question('q2', ['Ferretería Central']), question('q3', ['Cabilla'])]
+      const { inserts, updates } = mockSupabase({ claimed: [claimedRun(questions)], saved: [{ score: 1, passed: true }] })
+      ;(queryPricesFast as jest.Mock).mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30))
+        return { content: 'Ferretería Central' }
+      })
+
+      const summary = await runEvalWorker({ budgetMs: 10 })
+
+      expect(queryPricesFast).toHaveBeenCalledTimes(1)
+      expect(queryPricesFast).toHaveBeenCalledWith('Pregunta q2', ['vs_master'], [], 'eval', expect.anything())
+      expect(inserts).toEqual([expect.objectContaining({ question_id: 'q2', passed: true })])
+      expect(updates).toContainEqual(expect.objectContaining({ completed: 2, passed: 2 }))
+      expect(updates[updates.length - 1]).toEqual({ locked_at: null })
+      expect(summary).toEqual({ answered: 1, finished: 0, stale: 0 })
+    })
+  })
+
+  describe('failStaleEvalRuns', () => {
+    it('should fail running runs without a recent result', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const { updates } = mockSupabase({ stale: [{ id: 'run-9' }] })
+
+      await expect(failStaleEvalRuns('org-1')).resolves.toBe(1)
+      expect(updates).toEqual([expect.objectContaining({ status: 'failed', error: 'No progress for 10 minutes' })])
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import ExcelJS from 'exceljs'
+import {
+  detectCSVDelimiter,
+  parseCSV,
+  rowsToMarkdown,
+  spreadsheetToMarkdown,
+  prepareFileForUpload,
+} from '../file-conversion'
+import { getFileTypeByName } from '../file-types'
+
+jest.mock('../openai-client', () => ({
+  openaiDirect: {
+    chat: {
+      completions: {
+        create: jest.fn(),
+      },
+    },
+  },
+}))
+
+const mockOpenAI = jest.requireMock('../openai-client').openaiDirect
+
+describe('file-conversion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('parseCSV', () => {
+    it('should detect semicolon delimiters used by Spanish Excel exports', () => {
+      expect(detectCSVDelimiter('codigo;descripcion;precio\n1;Arroz;1,50')).toBe(';')
+      expect(detectCSVDelimiter('a,b,c')).toBe(',')
+      expect(detectCSVDelimiter('a\tb')).toBe('\t')
+    })
+
+    it('should handle quoted cells, escaped quotes and CRLF', () => {
+      const rows = parseCSV('codigo,descripcion\r\n1,"Harina ""PAN"", 1kg"\r\n2,Arroz\r\n')
+      expect(rows).toEqual([
+        ['codigo', 'descripcion'],
+        ['1', 'Harina "PAN", 1kg'],
+        ['2', 'Arroz'],
+      ])
+    })
+
+    it('should strip a UTF-8 BOM', () => {
+      expect(parseCSV('\uFEFFa;b\n1;2')).toEqual([['a', 'b'], ['1', '2']])
+    })
+  })
+
+  describe('rowsToMarkdown', () => {
+    it('should render a header, separator and rows, dropping empty rows and columns', () => {
+      const markdown = rowsToMarkdown('Datos', [
+        ['Código', '', 'Precio'],
+        ['', '', ''],
+        ['A1', '', '1|2'],
+      ])
+
+      expect(markdown).toBe('## Datos\n\n| Código | Precio |\n| --- | --- |\n| A1 | 1\\|2 |\n')
+    })
+
+    it('should repeat the header every 40 rows', () => {
+      const rows = [['Producto', 'Precio'], ...Array.from({ length: 45 }, (_, i) => [`P${i}`, `${i}`])]
+      const markdown = rowsToMarkdown('Datos', rows)
+
+      expect(markdown.match(/\| Producto \| Precio \|/g)).toHaveLength(2)
+    })
+
+    it('should note empty sheets', () => {
+      expect(rowsToMarkdown('Hoja: Vacía', [['', '']])).toContain('sin datos')
+    })
+  })
+
+  describe('spreadsheetToMarkdown', () => {
+    it('should convert every worksheet into a table', async () => {
+      const workbook = new ExcelJS.Workbook()
+      const sheet = workbook.addWorksheet('Víveres')
+      sheet.addRow(['Código', 'Descripción', 'Precio USD'])
+      sheet.addRow(['001', 'Harina PAN 1kg', 1.25])
+      sheet.addRow(['002', 'Arroz Mary 1kg', { formula: '1+0.1', result: 1.1 }])
+      workbook.addWorksheet('Notas').addRow(['Vigente hasta fin de mes'])
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer())
+
+      const markdown = await spreadsheetToMarkdown(buffer, 'polar.xlsx')
+
+      expect(markdown).toContain('# polar.xlsx')
+      expect(markdown).toContain('## Hoja: Víveres')
+      expect(markdown).toContain('| Código | Descripción | Precio USD |')
+      expect(markdown).toContain('| 001 | Harina PAN 1kg | 1.25 |')
+      expect(markdown).toContain('| 002 | Arroz Mary 1kg | 1.1 |')
+      expect(markdown).toContain('## Hoja: Notas')
+    })
+  })
+
+  describe('prepareFileForUpload', () => {
+    it('should pass PDFs through unchanged', async () => {
+      const buffer = Buffer.from('%PDF-1.4')
+      const prepared = await prepareFileForUpload(buffer, 'lista.pdf', getFileTypeByName('lista.pdf')!)
+
+      expect(prepared).toEqual({ buffer, filename: 'lista.pdf', mimeType: 'application/pdf', converted: false })
+    })
+
+    it('should convert CSV to a Markdown file', async () => {
+      const prepared = await prepareFileForUpload(Buffer.from('a;b\n1;2'), 'precios.csv', getFileTypeByName('precios.csv')!)
+
+      expect(prepared.filename).toBe('precios.md')
+      expect(prepared.mimeType).toBe('text/markdown')
+      expect(prepared.converted).toBe(true)
+      expect(prepared.buffer.toString('utf8')).toContain('| 1 | 2 |')
+    })
+
+    it('should transcribe images with the vision model', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: '| Producto | Precio |\n| --- | --- |\n| Café | 3,00 |' } }],
+      })
+
+      const prepared = await prepareFileForUpload(Buffer.from([0xff, 0xd8, 0xff]), 'foto.jpg', getFileTypeByName('foto.jpg')!)
+
+      const request = mockOpenAI.chat.completions.create.mock.calls[0][0]
+      expect(request.messages[0].content[1].image_url.url).toMatch(/^data:image\/jpeg;base64,/)
+      expect(prepared.filename).toBe('foto.md')
+      expect(prepared.buffer.toString('utf8')).toContain('| Café | 3,00 |')
+    })
+
+    it('should fail when the image transcription is empty', async () => {
+      mockOpenAI.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: '' } }] })
+
+      await expect(
+        prepareFileForUpload(Buffer.from([0xff, 0xd8, 0xff]), 'foto.jpg', getFileTypeByName('foto.jpg')!)
+      ).rejects.toThrow('Image transcription returned no content')
+    })
+  })
+})
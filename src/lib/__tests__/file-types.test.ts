@@ -0,0 +1,74 @@
+import {
+  detectFileType,
+  getFileExtension,
+  getFileTypeByName,
+  ACCEPTED_FILE_EXTENSIONS,
+  SUPPORTED_FILE_LABELS,
+} from '../file-types'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const ascii = (text: string) => new Uint8Array(Array.from(text, c => c.charCodeAt(0)))
+const zipWith = (entry: string) => new Uint8Array([0x50, 0x4b, 0x03, 0x04, ...ascii(`....${entry}document.xml`)])
+
+describe('file-types', () => {
+  describe('getFileExtension', () => {
+    it('should return the lowercase extension', () => {
+      expect(getFileExtension('Lista Polar.XLSX')).toBe('xlsx')
+      expect(getFileExtension('archivo.tar.gz')).toBe('gz')
+    })
+
+    it('should return empty string when there is no extension', () => {
+      expect(getFileExtension('README')).toBe('')
+    })
+  })
+
+  describe('getFileTypeByName', () => {
+    it('should find supported types by extension', () => {
+      expect(getFileTypeByName('precios.csv')?.kind).toBe('csv')
+      expect(getFileTypeByName('foto.JPG')?.mimeType).toBe('image/jpeg')
+    })
+
+    it('should return null for unsupported extensions', () => {
+      expect(getFileTypeByName('macro.xlsm')).toBeNull()
+      expect(getFileTypeByName('script.exe')).toBeNull()
+    })
+  })
+
+  describe('detectFileType', () => {
+    it('should accept a PDF with the %PDF- signature', () => {
+      expect(detectFileType(ascii('%PDF-1.7 ...'), 'lista.pdf')?.kind).toBe('pdf')
+    })
+
+    it('should reject a PDF extension with other content', () => {
+      expect(detectFileType(ascii('hello'), 'lista.pdf')).toBeNull()
+    })
+
+    it('should tell DOCX and XLSX zip containers apart', () => {
+      expect(detectFileType(zipWith('word/'), 'catalogo.docx')?.kind).toBe('docx')
+      expect(detectFileType(zipWith('xl/'), 'precios.xlsx')?.kind).toBe('spreadsheet')
+      expect(detectFileType(zipWith('word/'), 'precios.xlsx')).toBeNull()
+    })
+
+    it('should detect images by signature', () => {
+      expect(detectFileType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0), 'a.png')?.kind).toBe('image')
+      expect(detectFileType(bytes(0xff, 0xd8, 0xff, 0xe0), 'a.jpeg')?.kind).toBe('image')
+      expect(detectFileType(new Uint8Array([...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WEBP')]), 'a.webp')?.kind).toBe('image')
+      expect(detectFileType(ascii('%PDF-1.4'), 'a.png')).toBeNull()
+    })
+
+    it('should accept text CSV and reject binary content', () => {
+      expect(detectFileType(ascii('codigo;descripcion;precio\n1;Arroz;1,50'), 'p.csv')?.kind).toBe('csv')
+      expect(detectFileType(bytes(0x50, 0x4b, 0x03, 0x04, 0x00), 'p.csv')).toBeNull()
+      expect(detectFileType(new Uint8Array(), 'p.csv')).toBeNull()
+    })
+
+    it('should reject unsupported extensions regardless of content', () => {
+      expect(detectFileType(ascii('%PDF-1.4'), 'lista.txt')).toBeNull()
+    })
+  })
+
+  it('should expose accept and label lists', () => {
+    expect(ACCEPTED_FILE_EXTENSIONS).toContain('.xlsx')
+    expect(SUPPORTED_FILE_LABELS).toBe('PDF, DOCX, XLSX, CSV, PNG, JPG, WEBP')
+  })
+})
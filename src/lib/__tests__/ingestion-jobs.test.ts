@@ -0,0 +1,333 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getRetryDelay,
+  cancelPendingJobs,
+  enqueueIngestionJob,
+  runIngestionJob,
+  runIngestionWorker,
+  type IngestionJob,
+} from '../ingestion-jobs'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { processPriceListExtraction } from '../price-extraction'
+
+// Locally stubbed OpenAI client: no network, every call is a jest mock
+jest.mock('../openai-client', () => ({
+  openaiDirect: {
+    files: {
+      create: jest.fn(),
+    },
+    vectorStores: {
+      list: jest.fn(),
+      create: jest.fn(),
+      retrieve: jest.fn(),
+      files: {
+        list: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+    },
+  },
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('../price-extraction', () => ({
+  processPriceListExtraction: jest.fn(),
+}))
+
+const mockOpenAI = jest.requireMock('../openai-client').openaiDirect
+
+interface QueryCall {
+  table: string
+  op: 'select' | 'insert' | 'update' | 'upsert'
+  values?: Record<string, unknown>
+  filters: Array<[string, unknown]>
+}
+
+// Minimal chainable Supabase fake: records writes, answers reads per table
+let calls: QueryCall[] = []
+let rows: Record<string, unknown> = {}
+const mockRpc = jest.fn()
+const mockDownload = jest.fn()
+
+function from(table: string) {
+  const call: QueryCall = { table, op: 'select', filters: [] }
+  calls.push(call)
+  const result = async () => ({ data: rows[table] ?? null, error: null })
+  const builder: Record<string, unknown> = {
+    select: () => builder,
+    insert: (values: Record<string, unknown>) => { call.op = 'insert'; call.values = values; return builder },
+    update: (values: Record<string, unknown>) => { call.op = 'update'; call.values = values; return builder },
+    upsert: (values: Record<string, unknown>) => { call.op = 'upsert'; call.values = values; return builder },
+    eq: (column: string, value: unknown) => { call.filters.push([column, value]); return builder },
+    in: (column: string, value: unknown) => { call.filters.push([column, value]); return builder },
+    gt: (column: string, value: unknown) => { call.filters.push([column, value]); return builder },
+    neq: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    single: result,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve({ data: null, error: null }).then(resolve),
+  }
+  return builder
+}
+
+const writes = (table: string, op: 'insert' | 'update' | 'upsert') =>
+  calls.filter(call => call.table === table && call.op === op).map(call => call.values)
+
+const job = (overrides: Partial<IngestionJob> = {}): IngestionJob => ({
+  id: 'job-00000001',
+  price_list_id: 'list-00000001',
+  job_type: 'activate',
+  status: 'running',
+  payload: {},
+  attempts: 0,
+  max_attempts: 5,
+  run_after: '2025-09-01T00:00:00Z',
+  last_error: null,
+  created_by: 'user-1',
+  created_at: '2025-09-01T00:00:00Z',
+  updated_at: '2025-09-01T00:00:00Z',
+  completed_at: null,
+  ...overrides,
+})
+
+const priceList = (overrides: Record<string, unknown> = {}) => ({
+  id: 'list-00000001',
+  organization_id: 'org-1',
+  file_name: 'polar.csv',
+  supplier_name: 'Polar',
+  storage_path: 'list-00000001/polar.csv',
+  openai_file_id: 'file-abc',
+  uploaded_at: '2025-09-01T00:00:00Z',
+  ...overrides,
+})
+
+const vectorStore = (id: string, status: string) => ({
+  id,
+  name: id,
+  status,
+  file_counts: { in_progress: 0, completed: 1, failed: 0, cancelled: 0, total: 1 },
+  expires_at: null,
+})
+
+const storeFile = (status: string) => ({
+  id: 'file-abc',
+  usage_bytes: 10,
+  created_at: 0,
+  vector_store_id: 'vs_master',
+  status,
+  last_error: null,
+})
+
+describe('ingestion-jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    calls = []
+    rows = {}
+    ;(createSupabaseAdmin as jest.Mock).mockReturnValue({
+      from,
+      rpc: mockRpc,
+      storage: { from: () => ({ download: mockDownload }) },
+    })
+    mockOpenAI.vectorStores.list.mockResolvedValue({
+      data: [{ ...vectorStore('vs_master', 'completed'), name: 'NeuraliticaBot-Master-Catalog-org-1' }],
+    })
+    mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [] })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to ten minutes', () => {
+      expect(getRetryDelay(1)).toBe(5_000)
+      expect(getRetryDelay(2)).toBe(10_000)
+      expect(getRetryDelay(4)).toBe(40_000)
+      expect(getRetryDelay(20)).toBe(600_000)
+    })
+  })
+
+  describe('enqueueIngestionJob', () => {
+    it('should cancel pending and running toggles before queueing an activation', async () => {
+      rows.ingestion_jobs = job({ status: 'pending' })
+
+      const queued = await enqueueIngestionJob({ priceListId: 'list-00000001', jobType: 'activate', createdBy: 'user-1' })
+
+      expect(queued.id).toBe('job-00000001')
+      expect(calls.filter(call => call.op === 'update')).toEqual([expect.objectContaining({
+        values: expect.objectContaining({ status: 'cancelled' }),
+        filters: [['price_list_id', 'list-00000001'], ['status', ['pending', 'running']], ['job_type', ['activate', 'deactivate']]],
+      })])
+      expect(writes('ingestion_jobs', 'insert')).toEqual([
+        { price_list_id: 'list-00000001', job_type: 'activate', payload: {}, created_by: 'user-1' },
+      ])
+    })
+  })
+
+  describe('cancelPendingJobs', () => {
+    it('should cancel every job of the price list that has not started', async () => {
+      await cancelPendingJobs('list-00000001')
+
+      expect(calls).toEqual([{
+        table: 'ingestion_jobs',
+        op: 'update',
+        values: expect.objectContaining({ status: 'cancelled' }),
+        filters: [['price_list_id', 'list-00000001'], ['status', 'pending']],
+      }])
+    })
+  })
+
+  describe('runIngestionJob', () => {
+    it('should index the file with its attributes and activate the price list', async () => {
+      rows.price_lists = priceList()
+      mockOpenAI.vectorStores.files.create.mockResolvedValue(storeFile('completed'))
+
+      expect(await runIngestionJob(job())).toBe('completed')
+
+      expect(mockOpenAI.vectorStores.files.create).toHaveBeenCalledWith('vs_master', {
+        file_id: 'file-abc',
+        attributes: { price_list_id: 'list-00000001', supplier: 'Polar', uploaded_at: 1756684800 },
+      })
+      expect(mockOpenAI.vectorStores.create).not.toHaveBeenCalled()
+      expect(writes('price_lists', 'update')).toEqual([{ is_active: true }])
+      expect(writes('vector_stores', 'upsert')).toEqual([
+        expect.objectContaining({ id: 'vs_master', kind: 'master', organization_id: 'org-1' }),
+      ])
+      expect(writes('ingestion_jobs', 'update')).toEqual([
+        expect.objectContaining({ status: 'completed', last_error: null, locked_at: null }),
+      ])
+      // A job cancelled while it ran keeps its status
+      expect(calls.find(call => call.op === 'update' && call.table === 'ingestion_jobs')?.filters).toEqual([
+        ['id', 'job-00000001'],
+        ['status', 'running'],
+      ])
+    })
+
+    it('should not activate a price list deactivated after the activation was queued', async () => {
+      rows.price_lists = priceList()
+      rows.ingestion_jobs = { id: 'job-00000002' }
+
+      expect(await runIngestionJob(job())).toBe('completed')
+
+      expect(mockOpenAI.vectorStores.files.create).not.toHaveBeenCalled()
+      expect(writes('price_lists', 'update')).toEqual([])
+      expect(calls).toContainEqual(expect.objectContaining({
+        table: 'ingestion_jobs',
+        op: 'select',
+        filters: [['price_list_id', 'list-00000001'], ['job_type', 'deactivate'], ['created_at', '2025-09-01T00:00:00Z']],
+      }))
+    })
+
+    it('should detach the file when a deactivation ran while it was being indexed', async () => {
+      rows.price_lists = priceList()
+      mockOpenAI.vectorStores.files.create.mockImplementation(async () => {
+        rows.ingestion_jobs = { id: 'job-00000002' }
+        return storeFile('completed')
+      })
+      mockOpenAI.vectorStores.files.delete.mockResolvedValue({ deleted: true })
+
+      expect(await runIngestionJob(job())).toBe('completed')
+
+      expect(mockOpenAI.vectorStores.files.delete).toHaveBeenCalledWith('file-abc', { vector_store_id: 'vs_master' })
+      expect(writes('price_lists', 'update')).toEqual([])
+    })
+
+    it('should poll again without using an attempt while OpenAI is indexing', async () => {
+      rows.price_lists = priceList()
+      mockOpenAI.vectorStores.files.create.mockResolvedValue(storeFile('in_progress'))
+
+      expect(await runIngestionJob(job())).toBe('waiting')
+
+      expect(writes('price_lists', 'update')).toEqual([])
+      const [update] = writes('ingestion_jobs', 'update')
+      expect(update).toMatchObject({ status: 'pending' })
+      expect(update).not.toHaveProperty('attempts')
+    })
+
+    it('should record the error and retry with backoff', async () => {
+      rows.price_lists = priceList({ openai_file_id: null })
+      const before = Date.now()
+
+      expect(await runIngestionJob(job({ attempts: 1 }))).toBe('retry')
+
+      const [update] = writes('ingestion_jobs', 'update')
+      expect(update).toMatchObject({
+        status: 'pending',
+        attempts: 2,
+        last_error: 'File must be uploaded to OpenAI before activating',
+      })
+      expect(new Date(update!.run_after as string).getTime()).toBeGreaterThanOrEqual(before + 10_000)
+    })
+
+    it('should fail the job once max_attempts is reached', async () => {
+      rows.price_lists = priceList({ openai_file_id: null })
+
+      expect(await runIngestionJob(job({ attempts: 4 }))).toBe('failed')
+
+      expect(writes('ingestion_jobs', 'update')).toEqual([
+        expect.objectContaining({ status: 'failed', attempts: 5 }),
+      ])
+    })
+
+    it('should treat a file missing from the master store as already removed', async () => {
+      rows.price_lists = priceList()
+      mockOpenAI.vectorStores.files.delete.mockRejectedValue(new Error('404 No file found with id file-abc'))
+
+      expect(await runIngestionJob(job({ job_type: 'deactivate' }))).toBe('completed')
+
+      expect(writes('price_lists', 'update')).toEqual([{ is_active: false }])
+    })
+
+    it('should upload the stored original, extract prices and queue activation', async () => {
+      rows.price_lists = priceList({ openai_file_id: null })
+      rows.ingestion_jobs = job({ id: 'job-00000002', status: 'pending' })
+      mockDownload.mockResolvedValue({
+        data: new Blob(['Código,Descripción,Precio\n001,Harina PAN,25.50\n']),
+        error: null,
+      })
+      mockOpenAI.files.create.mockResolvedValue({ id: 'file-new', filename: 'polar.md', bytes: 64, purpose: 'assistants' })
+
+      expect(await runIngestionJob(job({ job_type: 'upload', payload: { auto_activate: true } }))).toBe('completed')
+
+      expect(mockDownload).toHaveBeenCalledWith('list-00000001/polar.csv')
+      expect(writes('price_lists', 'update')).toEqual([{ openai_file_id: 'file-new', mime_type: 'text/csv' }])
+      expect(processPriceListExtraction).toHaveBeenCalledWith(
+        expect.objectContaining({ priceListId: 'list-00000001', openaiFileId: 'file-new' })
+      )
+      expect(writes('ingestion_jobs', 'insert')).toEqual([
+        expect.objectContaining({ job_type: 'activate', price_list_id: 'list-00000001' }),
+      ])
+    })
+  })
+
+  describe('runIngestionWorker', () => {
+    it('should run claimed jobs until the queue is empty', async () => {
+      rows.price_lists = priceList()
+      mockOpenAI.vectorStores.files.delete.mockResolvedValue({ deleted: true })
+      mockRpc
+        .mockResolvedValueOnce({ data: [job({ job_type: 'deactivate' })], error: null })
+        .mockResolvedValueOnce({ data: [], error: null })
+
+      const summary = await runIngestionWorker({ budgetMs: 1000 })
+
+      expect(mockRpc).toHaveBeenCalledWith('claim_ingestion_job')
+      expect(summary).toEqual({ processed: 1, completed: 1, waiting: 0, retried: 0, failed: 0 })
+    })
+
+    it('should stop without throwing when claiming fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'function does not exist' } })
+
+      expect(await runIngestionWorker({ budgetMs: 1000 })).toMatchObject({ processed: 0 })
+    })
+  })
+})
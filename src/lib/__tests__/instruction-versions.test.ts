@@ -0,0 +1,101 @@
+import {
+  rollbackNote,
+  normalizeInstructions,
+  saveInstructionVersion,
+  listInstructionVersions,
+} from '../instruction-versions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const version = (n: number, createdBy: string | null) => ({
+  id: `v-${n}`,
+  version: n,
+  system_instructions: `Instrucciones ${n}`,
+  note: null,
+  created_by: createdBy,
+  created_at: '2026-10-18T15:00:00Z',
+})
+
+// Supabase stub: instruction_versions list, user_profiles lookup and the save rpc
+function mockSupabase(versions: unknown[], profiles: unknown[], rpcResult: { data: unknown; error: unknown } = { data: [], error: null }) {
+  const inFilter = jest.fn()
+  const eqFilter = jest.fn()
+  const rpc = jest.fn().mockResolvedValue(rpcResult)
+  const from = jest.fn((table: string) => {
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        eqFilter(table, column, value)
+        return query
+      },
+      order: () => query,
+      limit: () => Promise.resolve({ data: versions, error: null }),
+      in: (column: string, values: unknown[]) => {
+        inFilter(table, column, values)
+        return Promise.resolve({ data: profiles, error: null })
+      },
+    }
+    return query
+  })
+  ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from, rpc })
+  return { inFilter, eqFilter, rpc }
+}
+
+describe('instruction-versions', () => {
+  describe('rollbackNote', () => {
+    it('should record which version was restored', () => {
+      expect(rollbackNote(3, null)).toBe('Restaurada desde la versión 3')
+      expect(rollbackNote(3, 'Respuestas demasiado largas')).toBe('Restaurada desde la versión 3: Respuestas demasiado largas')
+    })
+  })
+
+  describe('normalizeInstructions', () => {
+    it('should store blank instructions as null (default prompt)', () => {
+      expect(normalizeInstructions('  \n ')).toBeNull()
+      expect(normalizeInstructions(undefined)).toBeNull()
+      expect(normalizeInstructions('Responde breve')).toBe('Responde breve')
+    })
+  })
+
+  describe('saveInstructionVersion', () => {
+    it('should save through the rpc and return the new version', async () => {
+      const { rpc } = mockSupabase([], [], { data: [version(4, 'admin-1')], error: null })
+
+      await expect(saveInstructionVersion('org-1', 'Instrucciones 4', 'Nota', 'admin-1')).resolves.toMatchObject({ version: 4 })
+      expect(rpc).toHaveBeenCalledWith('save_instruction_version', {
+        p_organization_id: 'org-1',
+        p_instructions: 'Instrucciones 4',
+        p_note: 'Nota',
+        p_created_by: 'admin-1',
+      })
+    })
+
+    it('should fail when the version is not saved', async () => {
+      mockSupabase([], [], { data: null, error: { message: 'function save_instruction_version does not exist' } })
+
+      await expect(saveInstructionVersion('org-1', null, null, null)).rejects.toThrow(/save_instruction_version/)
+    })
+  })
+
+  describe('listInstructionVersions', () => {
+    it('should attach author emails and keep versions without an author', async () => {
+      const { inFilter, eqFilter } = mockSupabase(
+        [version(3, 'admin-1'), version(2, 'admin-1'), version(1, null)],
+        [{ id: 'admin-1', email: 'admin@example.com' }]
+      )
+
+      const versions = await listInstructionVersions('org-1')
+
+      expect(eqFilter).toHaveBeenCalledWith('instruction_versions', 'organization_id', 'org-1')
+      expect(inFilter).toHaveBeenCalledWith('user_profiles', 'id', ['admin-1'])
+      expect(versions.map(v => [v.version, v.created_by_email])).toEqual([
+        [3, 'admin@example.com'],
+        [2, 'admin@example.com'],
+        [1, null],
+      ])
+    })
+  })
+})
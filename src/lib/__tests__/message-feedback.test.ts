@@ -0,0 +1,122 @@
+import {
+  toFeedbackInput,
+  parseQueueFilters,
+  getFeedbackQueue,
+  FEEDBACK_PAGE_SIZE,
+} from '../message-feedback'
+import { feedbackResolutionSchema, messageFeedbackSchema } from '../api-schemas'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const mockRpc = jest.fn()
+;(createSupabaseAdmin as jest.Mock).mockReturnValue({ rpc: mockRpc })
+
+const MESSAGE_ID = '3b0f6a52-8c1e-4f7d-9a2b-5e6c7d8f9a01'
+const FEEDBACK_ID = '9d2e4c71-5a3b-4e8f-8c1d-2b3a4f5e6d72'
+
+const queueRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  message_id: `msg-${id}`,
+  conversation_id: 'conv-1',
+  rating: 'down',
+  comment: 'El precio está desactualizado',
+  correct_value: '12,50 USD',
+  status: 'open',
+  resolution_note: null,
+  resolved_at: null,
+  created_at: '2026-10-18T15:00:00Z',
+  user_email: 'ana@example.com',
+  question: '¿Precio del cemento gris?',
+  answer: 'El cemento gris cuesta 10 USD.',
+  citations: [{ price_list_id: 'pl-1', file_name: 'lista.xlsx', supplier_name: 'Ferretería Central', snippet: 'Cemento gris 10' }],
+  model: 'gpt-4o-mini',
+  answered_at: '2026-10-18T14:59:00Z',
+  total_count: '3',
+  ...overrides,
+})
+
+describe('message-feedback', () => {
+  beforeEach(() => {
+    mockRpc.mockReset()
+  })
+
+  describe('toFeedbackInput', () => {
+    const parse = (input: Record<string, unknown>) => messageFeedbackSchema.parse(input)
+
+    it('should trim the comment and correct value of a thumbs down', () => {
+      const { data } = parse({ messageId: MESSAGE_ID, rating: 'down', comment: '  Precio viejo ', correct_value: '   ' })
+
+      expect(toFeedbackInput(data!)).toEqual({ message_id: MESSAGE_ID, rating: 'down', comment: 'Precio viejo', correct_value: null })
+    })
+
+    it('should drop comments from a thumbs up', () => {
+      const { data } = parse({ messageId: MESSAGE_ID, rating: 'up', comment: 'Perfecto' })
+
+      expect(toFeedbackInput(data!)).toMatchObject({ rating: 'up', comment: null })
+    })
+
+    it('should reject a missing message, unknown rating and overlong text by field', () => {
+      expect(parse({ rating: 'up' }).errors).toEqual({ messageId: 'is required' })
+      expect(parse({ messageId: MESSAGE_ID, rating: 'meh' }).errors).toEqual({ rating: 'must be one of: up, down' })
+      expect(parse({ messageId: MESSAGE_ID, rating: 'down', comment: 'x'.repeat(2001) }).errors).toEqual({
+        comment: 'must be at most 2000 characters long',
+      })
+      expect(parse({ messageId: MESSAGE_ID, rating: 'down', correct_value: 12 }).errors).toEqual({ correct_value: 'must be a string' })
+    })
+  })
+
+  describe('parseQueueFilters', () => {
+    it('should default to open negative feedback', () => {
+      expect(parseQueueFilters(new URLSearchParams())).toEqual({
+        filters: { rating: 'down', status: 'open', page: 1, pageSize: FEEDBACK_PAGE_SIZE },
+        error: null,
+      })
+    })
+
+    it('should treat "all" as no filter and validate the rest', () => {
+      expect(parseQueueFilters(new URLSearchParams('rating=all&status=resolved&page=2')).filters).toMatchObject({
+        rating: null,
+        status: 'resolved',
+        page: 2,
+      })
+      expect(parseQueueFilters(new URLSearchParams('status=closed')).error).toMatch(/status/)
+      expect(parseQueueFilters(new URLSearchParams('page=0')).error).toMatch(/page/)
+    })
+  })
+
+  describe('feedbackResolutionSchema', () => {
+    it('should require a known status', () => {
+      expect(feedbackResolutionSchema.parse({ id: FEEDBACK_ID, status: 'resolved', resolution_note: ' Lista actualizada ' }).data).toEqual({
+        id: FEEDBACK_ID,
+        status: 'resolved',
+        resolution_note: 'Lista actualizada',
+      })
+      expect(feedbackResolutionSchema.parse({ id: FEEDBACK_ID, status: 'done' }).errors).toEqual({ status: 'must be one of: open, resolved' })
+    })
+  })
+
+  describe('getFeedbackQueue', () => {
+    it('should page through the queue and read the total from the rows', async () => {
+      mockRpc.mockResolvedValue({ data: [queueRow('f-1'), queueRow('f-2', { citations: null })], error: null })
+
+      const queue = await getFeedbackQueue('org-1', { rating: 'down', status: null, page: 2, pageSize: 2 })
+
+      expect(mockRpc).toHaveBeenCalledWith('get_feedback_queue', { p_organization_id: 'org-1', p_rating: 'down', p_status: null, p_limit: 2, p_offset: 2 })
+      expect(queue.total).toBe(3)
+      expect(queue.items[0]).toMatchObject({ id: 'f-1', question: '¿Precio del cemento gris?', correct_value: '12,50 USD' })
+      expect(queue.items[0]).not.toHaveProperty('total_count')
+      expect(queue.items[1].citations).toEqual([])
+    })
+
+    it('should return an empty queue and fail on database errors', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [], error: null })
+      await expect(getFeedbackQueue('org-1', { rating: 'down', status: 'open', page: 1, pageSize: 25 })).resolves.toEqual({ items: [], total: 0 })
+
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'function get_feedback_queue does not exist' } })
+      await expect(getFeedbackQueue('org-1', { rating: 'down', status: 'open', page: 1, pageSize: 25 })).rejects.toThrow(/get_feedback_queue/)
+    })
+  })
+})
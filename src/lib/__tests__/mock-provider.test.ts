@@ -0,0 +1,154 @@
+import { mockProvider, resetMockProvider, tokenize } from '../mock-provider'
+import { getLLMProvider } from '../llm-provider'
+import { uploadFileToOpenAI, addFileToMasterVectorStore, buildPriceListFilter } from '../openai'
+import { queryPricesFast, streamPricesFast } from '../openai-responses'
+
+// No openai-client mock on purpose: the mock provider must never load it
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(() => ({
+    from: () => ({
+      select: () => ({ eq: () => ({ maybeSingle: () => Promise.resolve({ data: null, error: null }) }) }),
+    }),
+  })),
+}))
+
+jest.mock('../vector-store-registry', () => ({
+  ...jest.requireActual('../vector-store-registry'),
+  registerVectorStore: jest.fn(),
+  findRegisteredVectorStore: jest.fn().mockResolvedValue(null),
+  updateRegisteredVectorStore: jest.fn(),
+  markVectorStoreGone: jest.fn(),
+}))
+
+const POLAR = [
+  '| Código | Descripción | Precio |',
+  '| --- | --- | --- |',
+  '| 100 | Harina PAN 1kg | 1,20 |',
+  '| 101 | Malta Polar 355ml | 0,80 |',
+].join('\n')
+
+const MAVESA = [
+  '| Código | Descripción | Precio |',
+  '| --- | --- | --- |',
+  '| 200 | Harina de trigo 1kg | 1,10 |',
+].join('\n')
+
+const upload = (text: string, filename: string) =>
+  mockProvider.uploadFile(Buffer.from(text, 'utf8'), filename, 'text/markdown')
+
+const generation = { model: 'gpt-4o-mini', temperature: 0.1, max_output_tokens: 400 }
+
+describe('mock-provider', () => {
+  const originalProvider = process.env.LLM_PROVIDER
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+    resetMockProvider()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env.LLM_PROVIDER = originalProvider
+    jest.restoreAllMocks()
+  })
+
+  it('should be selected by LLM_PROVIDER=mock', () => {
+    expect(getLLMProvider().name).toBe('mock')
+    process.env.LLM_PROVIDER = ''
+    expect(getLLMProvider().name).toBe('openai')
+  })
+
+  describe('tokenize', () => {
+    it('should drop accents, punctuation and stopwords', () => {
+      expect(tokenize('¿Cuánto cuesta la Harina PAN?')).toEqual(['harina', 'pan'])
+    })
+  })
+
+  describe('answerFromFiles', () => {
+    it('should answer deterministically from the best keyword matches with sources', async () => {
+      const polar = await upload(POLAR, 'polar.md')
+      const mavesa = await upload(MAVESA, 'mavesa.md')
+      const store = await mockProvider.createVectorStore({ name: 'Test', fileIds: [polar.id, mavesa.id], expiresAfterDays: 1 })
+      const request = {
+        messages: [{ role: 'user' as const, content: '¿Cuánto cuesta la harina PAN?' }],
+        generation,
+        vectorStoreIds: [store.id],
+      }
+
+      const first = await mockProvider.answerFromFiles(request)
+      const second = await mockProvider.answerFromFiles(request)
+
+      expect(first.content).toBe(second.content)
+      expect(first.content).toBe('**mavesa**\n• | 200 | Harina de trigo 1kg | 1,10 |\n\n**polar**\n• | 100 | Harina PAN 1kg | 1,20 |')
+      expect(first.sources).toEqual([
+        { file_id: mavesa.id, filename: 'mavesa.md', snippet: '| 200 | Harina de trigo 1kg | 1,10 |', score: 0.5 },
+        { file_id: polar.id, filename: 'polar.md', snippet: '| 100 | Harina PAN 1kg | 1,20 |', score: 1 },
+      ])
+      expect((await mockProvider.retrieveVectorStore(store.id)).last_active_at).not.toBeNull()
+    })
+
+    it('should only search files whose attributes match the filter', async () => {
+      const polar = await upload(POLAR, 'polar.md')
+      const mavesa = await upload(MAVESA, 'mavesa.md')
+      const store = await mockProvider.createVectorStore({ name: 'Test', expiresAfterDays: 1 })
+      await mockProvider.addVectorStoreFile(store.id, polar.id, { price_list_id: 'list-polar' })
+      await mockProvider.addVectorStoreFile(store.id, mavesa.id, { price_list_id: 'list-mavesa' })
+
+      const result = await mockProvider.answerFromFiles({
+        messages: [{ role: 'user', content: 'harina' }],
+        generation,
+        vectorStoreIds: [store.id],
+        filters: buildPriceListFilter(['list-mavesa']),
+      })
+
+      expect(result.sources?.map(source => source.file_id)).toEqual([mavesa.id])
+    })
+
+    it('should say when nothing matches', async () => {
+      const store = await mockProvider.createVectorStore({ name: 'Empty', expiresAfterDays: 1 })
+
+      const result = await mockProvider.answerFromFiles({
+        messages: [{ role: 'user', content: 'aceite' }],
+        generation,
+        vectorStoreIds: [store.id],
+      })
+
+      expect(result.content).toBe('No encontré información sobre "aceite" en los archivos proporcionados.')
+      expect(result.sources).toEqual([])
+    })
+  })
+
+  it('should embed texts with shared terms closer than unrelated ones', async () => {
+    const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0)
+    const [harina, harinaPan, aceite] = await Promise.all(
+      ['precio de la harina', 'harina PAN precio', 'aceite vegetal'].map(input =>
+        mockProvider.embed({ model: 'text-embedding-3-small', input })
+      )
+    )
+
+    expect(harina).toHaveLength(1536)
+    expect(cosine(harina, harinaPan)).toBeGreaterThan(cosine(harina, aceite))
+  })
+
+  it('should report unknown ids as 404 like the OpenAI API', async () => {
+    await expect(mockProvider.retrieveVectorStore('vs-missing')).rejects.toThrow(/\b404\b/)
+    await expect(mockProvider.deleteFile('file-missing')).rejects.toThrow(/\b404\b/)
+  })
+
+  it('should run upload, activation and chat end to end without network', async () => {
+    const uploaded = await uploadFileToOpenAI(Buffer.from(POLAR, 'utf8'), 'polar.md', 'text/markdown')
+    const indexed = await addFileToMasterVectorStore('org-1', uploaded.file_id, { price_list_id: 'list-polar' })
+    expect(indexed.status).toBe('completed')
+
+    const options = { filters: buildPriceListFilter(['list-polar']) }
+    const answer = await queryPricesFast('malta polar', [indexed.vector_store_id], [], null, options)
+    expect(answer.content).toContain('Malta Polar 355ml')
+    expect(answer.sources?.[0].filename).toBe('polar.md')
+
+    const deltas: string[] = []
+    const streamed = await streamPricesFast('malta polar', [indexed.vector_store_id], [], null, delta => deltas.push(delta), options)
+    expect(deltas.join('')).toBe(streamed.content)
+    expect(streamed.content).toBe(answer.content)
+  })
+})
@@ -0,0 +1,18 @@
+import { resolveGenerationSettings } from '../model-settings'
+
+describe('model-settings', () => {
+  describe('resolveGenerationSettings', () => {
+    it('should use the defaults of each path when nothing is configured', () => {
+      expect(resolveGenerationSettings(null, 'retrieval')).toEqual({ model: 'gpt-4o-mini', temperature: 0.1, max_output_tokens: 400 })
+      expect(resolveGenerationSettings(null, 'fallback')).toEqual({ model: 'gpt-4o-mini', temperature: 0.3, max_output_tokens: 400 })
+    })
+
+    it('should apply configured values to both paths', () => {
+      const settings = { model: 'gpt-4.1-mini', temperature: 0, max_output_tokens: 1200 }
+
+      expect(resolveGenerationSettings(settings, 'retrieval')).toEqual(settings)
+      expect(resolveGenerationSettings(settings, 'fallback')).toEqual(settings)
+    })
+  })
+
+})
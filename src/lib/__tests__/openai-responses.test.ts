@@ -223,14 +223,14 @@ describe('openai-responses', () => {
 
   describe('cache management', () => {
     it('should set system instructions cache', () => {
-      setSystemInstructionsCache('Test instructions')
+      setSystemInstructionsCache('org-1', 'Test instructions')
       // Cache is internal, so we test by checking it doesn't throw
-      expect(() => setSystemInstructionsCache('Test')).not.toThrow()
+      expect(() => setSystemInstructionsCache('org-1', 'Test')).not.toThrow()
     })
 
     it('should invalidate system instructions cache', () => {
-      setSystemInstructionsCache('Test instructions')
-      invalidateSystemInstructionsCache()
+      setSystemInstructionsCache('org-1', 'Test instructions')
+      invalidateSystemInstructionsCache('org-1')
       // Cache is internal, so we test by checking it doesn't throw
       expect(() => invalidateSystemInstructionsCache()).not.toThrow()
     })
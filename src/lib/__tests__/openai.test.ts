@@ -1,5 +1,6 @@
 import {
   uploadPDFToOpenAI,
+  uploadFileToOpenAI,
   generateFileIdsHash,
   findExistingTempVectorStore,
   createVectorStore,
@@ -14,7 +15,19 @@ import {
   addFileToMasterVectorStore,
   removeFileFromMasterVectorStore,
   syncMasterVectorStore,
+  reconcileVectorStores,
+  buildMasterFileAttributes,
+  buildPriceListFilter,
 } from '../openai'
+import {
+  registerVectorStore,
+  findRegisteredVectorStore,
+  listRegisteredVectorStores,
+  updateRegisteredVectorStore,
+  markVectorStoreGone,
+  findPriceListForStore,
+} from '../vector-store-registry'
+import { getOrganization, getDefaultOrganization } from '../organizations'
 
 // Mock openai-client
 jest.mock('../openai-client', () => ({
@@ -32,17 +45,50 @@ jest.mock('../openai-client', () => ({
       files: {
         list: jest.fn(),
         create: jest.fn(),
+        update: jest.fn(),
         delete: jest.fn(),
       },
     },
   },
 }))
 
+jest.mock('../vector-store-registry', () => ({
+  ...jest.requireActual('../vector-store-registry'),
+  registerVectorStore: jest.fn(),
+  findRegisteredVectorStore: jest.fn(),
+  listRegisteredVectorStores: jest.fn(),
+  updateRegisteredVectorStore: jest.fn(),
+  markVectorStoreGone: jest.fn(),
+  findPriceListForStore: jest.fn().mockResolvedValue(null),
+}))
+
+jest.mock('../organizations', () => ({
+  getOrganization: jest.fn().mockResolvedValue(null),
+  getDefaultOrganization: jest.fn().mockRejectedValue(new Error('Default organization not found')),
+}))
+
 const mockOpenAI = require('../openai-client').openaiDirect
 
+const registered = (overrides: Record<string, unknown> = {}) => ({
+  id: 'vs-123',
+  organization_id: null,
+  kind: 'temp',
+  name: 'Temp-abc',
+  file_ids: ['file-1'],
+  file_ids_hash: generateFileIdsHash(['file-1']),
+  price_list_id: null,
+  status: 'completed',
+  expires_at: null,
+  last_synced_at: null,
+  created_at: '2025-09-01T00:00:00Z',
+  updated_at: '2025-09-01T00:00:00Z',
+  ...overrides,
+})
+
 describe('openai', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(null)
   })
 
   describe('generateFileIdsHash', () => {
@@ -102,6 +148,32 @@ describe('openai', () => {
     })
   })
 
+  describe('uploadFileToOpenAI', () => {
+    it('should upload with the given MIME type', async () => {
+      mockOpenAI.files.create.mockResolvedValue({
+        id: 'file-456',
+        filename: 'lista.md',
+        bytes: 42,
+        purpose: 'assistants',
+      })
+
+      const result = await uploadFileToOpenAI(Buffer.from('# Lista'), 'lista.md', 'text/markdown')
+
+      const uploaded = mockOpenAI.files.create.mock.calls[0][0].file as File
+      expect(uploaded.name).toBe('lista.md')
+      expect(uploaded.type).toBe('text/markdown')
+      expect(result.file_id).toBe('file-456')
+    })
+
+    it('should throw a generic error for non-PDF uploads', async () => {
+      mockOpenAI.files.create.mockRejectedValue(new Error('Upload failed'))
+
+      await expect(uploadFileToOpenAI(Buffer.from('x'), 'a.md', 'text/markdown')).rejects.toThrow(
+        'Failed to upload file to OpenAI'
+      )
+    })
+  })
+
   describe('createVectorStore', () => {
     it('should create vector store successfully', async () => {
       const mockResponse = {
@@ -120,8 +192,14 @@ describe('openai', () => {
 
       mockOpenAI.vectorStores.create.mockResolvedValue(mockResponse)
 
-      const result = await createVectorStore('Test Store', ['file-1'])
+      const result = await createVectorStore('Test Store', ['file-1'], { priceListId: 'list-1' })
       expect(result.id).toBe('vs-123')
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-123',
+        kind: 'individual',
+        fileIds: ['file-1'],
+        priceListId: 'list-1',
+      }))
       expect(mockOpenAI.vectorStores.create).toHaveBeenCalledWith({
         name: 'Test Store',
         file_ids: ['file-1'],
@@ -141,6 +219,15 @@ describe('openai', () => {
         createVectorStore('Test Store', ['file-1'])
       ).rejects.toThrow('Failed to create vector store')
     })
+
+    it('should return the store even if registering it fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockOpenAI.vectorStores.create.mockResolvedValue({ id: 'vs-123', name: 'Test Store', status: 'in_progress' })
+      ;(registerVectorStore as jest.Mock).mockRejectedValueOnce(new Error('relation "vector_stores" does not exist'))
+
+      const result = await createVectorStore('Test Store', ['file-1'])
+      expect(result.id).toBe('vs-123')
+    })
   })
 
   describe('getVectorStoreStatus', () => {
@@ -173,74 +260,105 @@ describe('openai', () => {
   })
 
   describe('findExistingTempVectorStore', () => {
-    it('should find existing vector store with matching files', async () => {
+    it('should resolve the store registered for the file IDs hash', async () => {
       const fileIds = ['file-1', 'file-2']
-      const hash = generateFileIdsHash(fileIds)
-      const expectedName = `Temp-${hash}`
-
-      const mockStore = {
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(registered())
+      mockOpenAI.vectorStores.retrieve.mockResolvedValue({
         id: 'vs-123',
-        name: expectedName,
+        name: 'Temp-abc',
         file_counts: { total: 2, completed: 2, in_progress: 0, failed: 0, cancelled: 0 },
         status: 'completed',
-      }
-
-      mockOpenAI.vectorStores.list.mockResolvedValue({
-        data: [mockStore],
-      })
-
-      mockOpenAI.vectorStores.files.list.mockResolvedValue({
-        data: [
-          { id: 'file-1', status: 'completed' },
-          { id: 'file-2', status: 'completed' },
-        ],
       })
 
       const result = await findExistingTempVectorStore(fileIds)
-      expect(result).not.toBeNull()
       expect(result?.id).toBe('vs-123')
+      expect(findRegisteredVectorStore).toHaveBeenCalledWith('temp', { fileIdsHash: generateFileIdsHash(fileIds) })
+      expect(mockOpenAI.vectorStores.list).not.toHaveBeenCalled()
     })
 
-    it('should return null when no matching store found', async () => {
-      mockOpenAI.vectorStores.list.mockResolvedValue({ data: [] })
-
+    it('should return null when no store is registered', async () => {
       const result = await findExistingTempVectorStore(['file-1'])
       expect(result).toBeNull()
+      expect(mockOpenAI.vectorStores.retrieve).not.toHaveBeenCalled()
     })
 
-    it('should return null when files do not match exactly', async () => {
-      const fileIds = ['file-1']
-      const hash = generateFileIdsHash(fileIds)
+    it('should mark a registered store that no longer exists as deleted', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(registered())
+      mockOpenAI.vectorStores.retrieve.mockRejectedValue(new Error('404 No vector store found'))
 
-      mockOpenAI.vectorStores.list.mockResolvedValue({
-        data: [{ id: 'vs-123', name: `Temp-${hash}` }],
-      })
-
-      mockOpenAI.vectorStores.files.list.mockResolvedValue({
-        data: [{ id: 'file-2', status: 'completed' }],
-      })
-
-      const result = await findExistingTempVectorStore(fileIds)
+      const result = await findExistingTempVectorStore(['file-1'])
       expect(result).toBeNull()
+      expect(markVectorStoreGone).toHaveBeenCalledWith('vs-123', 'deleted')
     })
   })
 
   describe('getOrCreateMasterVectorStore', () => {
-    it('should return existing master vector store', async () => {
-      const mockStore = {
-        id: 'vs-master',
-        name: 'NeuraliticaBot-Master-Catalog',
-        file_counts: { total: 5, completed: 5, in_progress: 0, failed: 0, cancelled: 0 },
-        status: 'completed',
-        expires_at: null,
-      }
+    const masterStore = {
+      id: 'vs-master',
+      name: 'NeuraliticaBot-Master-Catalog-org-1',
+      file_counts: { total: 5, completed: 5, in_progress: 0, failed: 0, cancelled: 0 },
+      status: 'completed',
+      expires_at: null,
+    }
+
+    it('should return the registered master vector store', async () => {
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(registered({ id: 'vs-master', kind: 'master' }))
+      mockOpenAI.vectorStores.retrieve.mockResolvedValue(masterStore)
+
+      const result = await getOrCreateMasterVectorStore('org-1')
+      expect(result.id).toBe('vs-master')
+      expect(findRegisteredVectorStore).toHaveBeenCalledWith('master', { organizationId: 'org-1' })
+      expect(mockOpenAI.vectorStores.list).not.toHaveBeenCalled()
+    })
 
+    it('should adopt an unregistered master found on a later page', async () => {
       mockOpenAI.vectorStores.list.mockResolvedValue({
-        data: [mockStore],
+        data: [{ id: 'vs-other', name: 'Temp-xyz', status: 'completed' }],
+        hasNextPage: () => true,
+        getNextPage: async () => ({ data: [masterStore], hasNextPage: () => false }),
       })
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [{ id: 'file-1' }] })
 
-      const result = await getOrCreateMasterVectorStore()
+      const result = await getOrCreateMasterVectorStore('org-1')
       expect(result.id).toBe('vs-master')
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-master',
+        kind: 'master',
+        fileIds: ['file-1'],
+        organizationId: 'org-1',
+      }))
+    })
+
+    it("should not adopt another organization's master", async () => {
+      mockOpenAI.vectorStores.list.mockResolvedValue({ data: [masterStore] })
+      mockOpenAI.vectorStores.create.mockResolvedValue({ ...masterStore, id: 'vs-master-2', name: 'NeuraliticaBot-Master-Catalog-org-2' })
+
+      const result = await getOrCreateMasterVectorStore('org-2')
+      expect(result.id).toBe('vs-master-2')
+      expect(mockOpenAI.vectorStores.create).toHaveBeenCalledWith(expect.objectContaining({ name: 'NeuraliticaBot-Master-Catalog-org-2' }))
+    })
+
+    it('should adopt the master from before organizations for the default organization', async () => {
+      ;(getDefaultOrganization as jest.Mock).mockResolvedValueOnce({ id: 'org-1', slug: 'principal' })
+      mockOpenAI.vectorStores.list.mockResolvedValue({
+        data: [{ ...masterStore, id: 'vs-legacy-master', name: 'NeuraliticaBot-Master-Catalog' }],
+      })
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [{ id: 'file-1' }] })
+
+      const result = await getOrCreateMasterVectorStore('org-1')
+      expect(result.id).toBe('vs-legacy-master')
+      expect(mockOpenAI.vectorStores.create).not.toHaveBeenCalled()
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-legacy-master',
+        kind: 'master',
+        organizationId: 'org-1',
+      }))
+
+      // Any other organization starts its own master
+      ;(getDefaultOrganization as jest.Mock).mockResolvedValueOnce({ id: 'org-1', slug: 'principal' })
+      mockOpenAI.vectorStores.create.mockResolvedValue({ ...masterStore, id: 'vs-master-2', name: 'NeuraliticaBot-Master-Catalog-org-2' })
+      expect((await getOrCreateMasterVectorStore('org-2')).id).toBe('vs-master-2')
     })
 
     it('should create new master vector store if not exists', async () => {
@@ -248,7 +366,7 @@ describe('openai', () => {
 
       const mockNewStore = {
         id: 'vs-master-new',
-        name: 'NeuraliticaBot-Master-Catalog',
+        name: 'NeuraliticaBot-Master-Catalog-org-1',
         file_counts: { total: 0, completed: 0, in_progress: 0, failed: 0, cancelled: 0 },
         status: 'in_progress',
         expires_at: null,
@@ -256,8 +374,13 @@ describe('openai', () => {
 
       mockOpenAI.vectorStores.create.mockResolvedValue(mockNewStore)
 
-      const result = await getOrCreateMasterVectorStore()
+      const result = await getOrCreateMasterVectorStore('org-1')
       expect(result.id).toBe('vs-master-new')
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-master-new',
+        kind: 'master',
+        organizationId: 'org-1',
+      }))
     })
   })
 
@@ -301,6 +424,7 @@ describe('openai', () => {
 
       const result = await deleteVectorStore('vs-123')
       expect(result).toEqual({ deleted: true })
+      expect(markVectorStoreGone).toHaveBeenCalledWith('vs-123', 'deleted')
     })
   })
 
@@ -315,16 +439,18 @@ describe('openai', () => {
 
   describe('syncMasterVectorStore', () => {
     it('should sync master vector store with active files', async () => {
-      const activeFileIds = ['file-1', 'file-2']
+      const attributes = (id: string) => ({ price_list_id: id, uploaded_at: 1756684800 })
+      const activeFiles = [
+        { fileId: 'file-1', attributes: attributes('list-1') },
+        { fileId: 'file-2', attributes: attributes('list-2') },
+      ]
 
       // Mock master store
-      const mockMasterStore = {
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(registered({ id: 'vs-master', kind: 'master' }))
+      mockOpenAI.vectorStores.retrieve.mockResolvedValue({
         id: 'vs-master',
         name: 'NeuraliticaBot-Master-Catalog',
-      }
-
-      mockOpenAI.vectorStores.list.mockResolvedValue({
-        data: [mockMasterStore],
+        status: 'completed',
       })
 
       // Mock existing files in store
@@ -332,14 +458,165 @@ describe('openai', () => {
         data: [{ id: 'file-1' }, { id: 'file-3' }],
       })
 
-      // Mock add and remove operations
+      // Mock add, remove and tag operations
       mockOpenAI.vectorStores.files.create.mockResolvedValue({ id: 'vsf-2' })
       mockOpenAI.vectorStores.files.delete.mockResolvedValue({ deleted: true })
+      mockOpenAI.vectorStores.files.update.mockResolvedValue({ id: 'file-1' })
 
-      const result = await syncMasterVectorStore(activeFileIds)
+      const result = await syncMasterVectorStore('org-1', activeFiles)
       expect(result.added).toBe(1) // file-2 added
       expect(result.removed).toBe(1) // file-3 removed
+      expect(result.attributesUpdated).toBe(1) // file-1 had no attributes
+      expect(mockOpenAI.vectorStores.files.create).toHaveBeenCalledWith('vs-master', {
+        file_id: 'file-2',
+        attributes: attributes('list-2'),
+      })
+      expect(mockOpenAI.vectorStores.files.update).toHaveBeenCalledWith('file-1', {
+        vector_store_id: 'vs-master',
+        attributes: attributes('list-1'),
+      })
       expect(result.masterStoreId).toBe('vs-master')
+      expect(updateRegisteredVectorStore).toHaveBeenCalledWith('vs-master', expect.objectContaining({
+        file_ids: ['file-1', 'file-2'],
+      }))
+    })
+  })
+
+  describe('addFileToMasterVectorStore', () => {
+    beforeEach(() => {
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(registered({ id: 'vs-master', kind: 'master' }))
+      mockOpenAI.vectorStores.retrieve.mockResolvedValue({ id: 'vs-master', name: 'NeuraliticaBot-Master-Catalog', status: 'completed' })
+    })
+
+    it('should tag a new file with its attributes', async () => {
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [] })
+      mockOpenAI.vectorStores.files.create.mockResolvedValue({ id: 'file-1', status: 'in_progress' })
+
+      await addFileToMasterVectorStore('org-1', 'file-1', { price_list_id: 'list-1' })
+
+      expect(mockOpenAI.vectorStores.files.create).toHaveBeenCalledWith('vs-master', {
+        file_id: 'file-1',
+        attributes: { price_list_id: 'list-1' },
+      })
+    })
+
+    it('should only update attributes of a file already in the store when they changed', async () => {
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({
+        data: [{ id: 'file-1', status: 'completed', attributes: { price_list_id: 'list-1' } }],
+      })
+
+      await addFileToMasterVectorStore('org-1', 'file-1', { price_list_id: 'list-1' })
+      expect(mockOpenAI.vectorStores.files.update).not.toHaveBeenCalled()
+
+      await addFileToMasterVectorStore('org-1', 'file-1', { price_list_id: 'list-1', supplier: 'Polar' })
+      expect(mockOpenAI.vectorStores.files.update).toHaveBeenCalledWith('file-1', {
+        vector_store_id: 'vs-master',
+        attributes: { price_list_id: 'list-1', supplier: 'Polar' },
+      })
+      expect(mockOpenAI.vectorStores.files.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('buildMasterFileAttributes', () => {
+    it('should tag price list, supplier and upload date in unix seconds', () => {
+      expect(buildMasterFileAttributes({
+        id: 'list-1',
+        supplier_name: 'Polar',
+        uploaded_at: '2025-09-01T00:00:00Z',
+      })).toEqual({ price_list_id: 'list-1', supplier: 'Polar', uploaded_at: 1756684800 })
+    })
+
+    it('should omit a missing supplier', () => {
+      expect(buildMasterFileAttributes({ id: 'list-1', supplier_name: null, uploaded_at: '2025-09-01T00:00:00Z' }))
+        .not.toHaveProperty('supplier')
+    })
+  })
+
+  describe('buildPriceListFilter', () => {
+    it('should use a single comparison for one price list', () => {
+      expect(buildPriceListFilter(['list-1'])).toEqual({ type: 'eq', key: 'price_list_id', value: 'list-1' })
+    })
+
+    it('should combine several price lists with or', () => {
+      expect(buildPriceListFilter(['list-1', 'list-2'])).toEqual({
+        type: 'or',
+        filters: [
+          { type: 'eq', key: 'price_list_id', value: 'list-1' },
+          { type: 'eq', key: 'price_list_id', value: 'list-2' },
+        ],
+      })
+    })
+  })
+
+  describe('reconcileVectorStores', () => {
+    it('should report and repair drift between the registry and OpenAI', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      ;(listRegisteredVectorStores as jest.Mock).mockResolvedValue([
+        registered({ id: 'vs-gone' }),
+        registered({ id: 'vs-live', status: 'in_progress' }),
+      ])
+      mockOpenAI.vectorStores.list.mockResolvedValue({
+        data: [
+          { id: 'vs-live', name: 'Temp-abc', status: 'completed', expires_at: null },
+          { id: 'vs-legacy', name: 'NeuraliticaBot-polar.pdf', status: 'completed', expires_at: null },
+          { id: 'vs-other-deployment', name: 'NeuraliticaBot-staging.pdf', status: 'completed', expires_at: null },
+          { id: 'vs-temp', name: 'Temp-def', status: 'completed', expires_at: null },
+          { id: 'vs-foreign', name: 'Other project', status: 'completed', expires_at: null },
+        ],
+      })
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [{ id: 'file-1' }, { id: 'file-2' }] })
+      ;(findPriceListForStore as jest.Mock).mockImplementation(async (id: string) =>
+        id === 'vs-legacy' ? { id: 'list-1', organization_id: 'org-1' } : null
+      )
+
+      const drift = await reconcileVectorStores()
+
+      expect(drift).toEqual({
+        checked: 2,
+        missing: ['vs-gone'],
+        status_changed: ['vs-live'],
+        file_mismatches: ['vs-live'],
+        untracked: ['vs-legacy', 'vs-other-deployment', 'vs-temp', 'vs-foreign'],
+        adopted: ['vs-legacy'],
+      })
+      expect(markVectorStoreGone).toHaveBeenCalledWith('vs-gone', 'deleted')
+      expect(updateRegisteredVectorStore).toHaveBeenCalledWith('vs-live', expect.objectContaining({
+        status: 'completed',
+        file_ids: ['file-1', 'file-2'],
+      }))
+      // Only stores a price list of this deployment points to are adopted
+      expect(registerVectorStore).toHaveBeenCalledTimes(1)
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-legacy',
+        kind: 'individual',
+        priceListId: 'list-1',
+        organizationId: 'org-1',
+      }))
+    })
+
+    it('should adopt the master from before organizations for the default organization', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      ;(listRegisteredVectorStores as jest.Mock).mockResolvedValue([])
+      ;(getDefaultOrganization as jest.Mock).mockResolvedValueOnce({ id: 'org-1', slug: 'principal' })
+      ;(getOrganization as jest.Mock).mockImplementation(async (id: string) =>
+        id === 'org-1' ? { id: 'org-1', slug: 'principal' } : null
+      )
+      mockOpenAI.vectorStores.list.mockResolvedValue({
+        data: [
+          { id: 'vs-legacy-master', name: 'NeuraliticaBot-Master-Catalog', status: 'completed', expires_at: null },
+          { id: 'vs-other-master', name: 'NeuraliticaBot-Master-Catalog-org-9', status: 'completed', expires_at: null },
+        ],
+      })
+      mockOpenAI.vectorStores.files.list.mockResolvedValue({ data: [{ id: 'file-1' }] })
+
+      const drift = await reconcileVectorStores()
+
+      expect(drift.adopted).toEqual(['vs-legacy-master'])
+      expect(registerVectorStore).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'vs-legacy-master',
+        kind: 'master',
+        organizationId: 'org-1',
+      }))
     })
   })
 })
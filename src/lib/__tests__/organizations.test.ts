@@ -0,0 +1,63 @@
+import { createOrganization, slugifyOrganizationName } from '../organizations'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+// Chainable query builder resolving to { data, error }
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'eq', 'insert', 'order']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn().mockResolvedValue(result)
+  query.then = jest.fn((resolve) => resolve(result))
+  return query
+}
+
+const organization = { id: 'org-2', name: 'Distribuidora El Ávila', slug: 'distribuidora-el-avila', created_at: '2026-10-19T12:00:00Z' }
+
+describe('organizations', () => {
+  describe('slugifyOrganizationName', () => {
+    it('should drop accents, punctuation and spacing', () => {
+      expect(slugifyOrganizationName('Distribuidora El Ávila, C.A.')).toBe('distribuidora-el-avila-c-a')
+      expect(slugifyOrganizationName('  --Ñandú 2026--  ')).toBe('nandu-2026')
+      expect(slugifyOrganizationName('¿?')).toBe('')
+    })
+  })
+
+  describe('createOrganization', () => {
+    let tables: Record<string, Record<string, jest.Mock>>
+
+    const useTables = (organizationResult: { data: unknown; error: unknown }) => {
+      tables = {
+        organizations: mockQuery(organizationResult),
+        app_settings: mockQuery({ data: null, error: null }),
+      }
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from: jest.fn((table: string) => tables[table]) })
+    }
+
+    it('should derive the slug and create the settings row', async () => {
+      useTables({ data: organization, error: null })
+
+      await expect(createOrganization({ name: 'Distribuidora El Ávila' })).resolves.toEqual(organization)
+
+      expect(tables.organizations.insert).toHaveBeenCalledWith({ name: 'Distribuidora El Ávila', slug: 'distribuidora-el-avila' })
+      expect(tables.app_settings.insert).toHaveBeenCalledWith({ organization_id: 'org-2', system_instructions: null })
+    })
+
+    it('should return null when the slug is taken', async () => {
+      useTables({ data: null, error: { code: '23505', message: 'duplicate key value' } })
+
+      await expect(createOrganization({ name: 'Otra', slug: 'principal' })).resolves.toBeNull()
+      expect(tables.app_settings.insert).not.toHaveBeenCalled()
+    })
+
+    it('should reject names without letters or digits', async () => {
+      useTables({ data: organization, error: null })
+
+      await expect(createOrganization({ name: '¿?' })).rejects.toThrow('letters or digits')
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  isComparisonQuery,
+  buildPriceComparison,
+  formatComparisonContext,
+  comparePrices,
+} from '../price-comparison'
+import type { PriceItemMatch } from '../price-search'
+import { convertPrice, type ExchangeRate } from '../currency'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('@/lib/currency', () => ({
+  ...jest.requireActual('@/lib/currency'),
+  getExchangeRates: jest.fn().mockResolvedValue([]),
+}))
+
+const mockRpc = jest.fn()
+;(createSupabaseAdmin as jest.Mock).mockReturnValue({ rpc: mockRpc })
+
+const rate = (value: number): ExchangeRate => ({
+  id: 'rate-1',
+  base_currency: 'USD',
+  quote_currency: 'VES',
+  rate: value,
+  effective_date: '2025-09-01',
+  source: 'BCV',
+  created_at: '2025-09-01T12:00:00Z',
+})
+
+// Amounts default to "no exchange rate recorded": only USD prices have a USD value
+const match = (overrides: Partial<PriceItemMatch> = {}, exchangeRate: ExchangeRate | null = null): PriceItemMatch => {
+  const item = { ...baseMatch, ...overrides }
+  return { ...item, ...convertPrice(item.price, item.currency, exchangeRate) }
+}
+
+const baseMatch = {
+  id: 'item-1',
+  price_list_id: 'list-1',
+  sku: 'C12',
+  description: 'Cable THW 12 AWG',
+  unit: 'Rollo 100m',
+  price: 50,
+  currency: 'USD',
+  supplier_name: 'Eléctricos Unidos',
+  file_name: 'unidos.pdf',
+  uploaded_at: '2025-09-01T00:00:00Z',
+  match_type: 'fulltext' as const,
+  score: 0.7,
+}
+
+describe('price-comparison', () => {
+  beforeEach(() => {
+    mockRpc.mockReset()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('isComparisonQuery', () => {
+    it('should detect comparison questions', () => {
+      expect(isComparisonQuery('¿Quién vende más barato el cable 12 AWG?')).toBe(true)
+      expect(isComparisonQuery('Compara el precio de la harina PAN')).toBe(true)
+      expect(isComparisonQuery('mejor precio de tubo PVC')).toBe(true)
+    })
+
+    it('should ignore plain price questions', () => {
+      expect(isComparisonQuery('¿Cuánto cuesta el cable 12 AWG?')).toBe(false)
+    })
+  })
+
+  describe('buildPriceComparison', () => {
+    it('should keep the best match per price list and rank by price', () => {
+      const comparison = buildPriceComparison('cable 12 awg', [
+        match({ id: 'a', price_list_id: 'list-1', price: 50 }),
+        match({ id: 'b', price_list_id: 'list-1', price: 45, match_type: 'fuzzy', score: 0.5 }),
+        match({ id: 'c', price_list_id: 'list-2', price: 42, supplier_name: 'Ferretería Caracas' }),
+        match({ id: 'd', price_list_id: 'list-3', price: 61, supplier_name: 'Distribuidora Sur' }),
+      ])
+
+      expect(comparison.rows.map(row => [row.rank, row.supplier_name, row.price])).toEqual([
+        [1, 'Ferretería Caracas', 42],
+        [2, 'Eléctricos Unidos', 50],
+        [3, 'Distribuidora Sur', 61],
+      ])
+      expect(comparison.rows[0].catalog_date).toBe('2025-09-01T00:00:00Z')
+    })
+
+    it('should rank each currency separately, most common currency first', () => {
+      const comparison = buildPriceComparison('cable', [
+        match({ price_list_id: 'list-1', price: 1800, currency: 'VES' }),
+        match({ price_list_id: 'list-2', price: 48 }),
+        match({ price_list_id: 'list-3', price: 44 }),
+      ])
+
+      expect(comparison.rows.map(row => [row.rank, row.currency, row.price])).toEqual([
+        [1, 'USD', 44],
+        [2, 'USD', 48],
+        [1, 'VES', 1800],
+      ])
+    })
+
+    it('should rank converted bolívar prices together with dollar prices', () => {
+      const comparison = buildPriceComparison('cable', [
+        match({ price_list_id: 'list-1', price: 1600, currency: 'VES' }, rate(40)),
+        match({ price_list_id: 'list-2', price: 48 }, rate(40)),
+        match({ price_list_id: 'list-3', price: 39 }, rate(40)),
+      ])
+
+      expect(comparison.rows.map(row => [row.rank, row.currency, row.price_usd])).toEqual([
+        [1, 'USD', 39],
+        [2, 'VES', 40],
+        [3, 'USD', 48],
+      ])
+      expect(formatComparisonContext(comparison)).toContain('1.600,00 VES (≈ $ 40,00)')
+    })
+
+    it('should not compare unconverted prices of a list against its dollar prices', () => {
+      const comparison = buildPriceComparison('cable', [
+        match({ id: 'usd', price_list_id: 'list-1', price: 50 }),
+        match({ id: 'ves', price_list_id: 'list-1', price: 30, currency: 'VES' }),
+        match({ id: 'eur-high', price_list_id: 'list-2', price: 47, currency: 'EUR' }),
+        match({ id: 'eur-low', price_list_id: 'list-2', price: 45, currency: 'EUR' }),
+      ])
+
+      expect(comparison.rows.map(row => [row.price_list_id, row.currency, row.price])).toEqual([
+        ['list-1', 'USD', 50],
+        ['list-2', 'EUR', 45],
+      ])
+    })
+  })
+
+  it('should describe the ranking for the model without asking it to repeat the table', () => {
+    const context = formatComparisonContext(buildPriceComparison('cable', [match()]))
+
+    expect(context).toContain('NO la repitas')
+    expect(context).toContain('1. Eléctricos Unidos — Cable THW 12 AWG (Rollo 100m): 50,00 USD [unidos.pdf, 2025-09-01]')
+  })
+
+  describe('comparePrices', () => {
+    it('should search only the product terms and attach the comparison', async () => {
+      mockRpc.mockResolvedValue({ data: [match(), match({ price_list_id: 'list-2', price: 40 })], error: null })
+
+      const lookup = await comparePrices('org-1', '¿Quién vende más barato el cable 12 AWG?')
+
+      expect(mockRpc.mock.calls[0][1]).toMatchObject({ p_organization_id: 'org-1', p_query: 'cable 12 awg', p_price_list_ids: null })
+      expect(lookup?.comparison?.rows).toHaveLength(2)
+      expect(lookup?.citations).toHaveLength(2)
+    })
+
+    it('should return null when nothing matches', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null })
+
+      expect(await comparePrices('org-1', '¿Quién vende más barato el cable 12 AWG?')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+import {
+  detectCurrency,
+  parsePrice,
+  findHeaderColumns,
+  extractItemsFromRows,
+  extractItemsFromMarkdown,
+  parseMarkdownTables,
+  extractItemsWithModel,
+  extractPriceItems,
+} from '../price-extraction'
+import { getFileTypeByName } from '../file-types'
+
+jest.mock('../openai-client', () => ({
+  openaiDirect: {
+    responses: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const mockOpenAI = jest.requireMock('../openai-client').openaiDirect
+
+describe('price-extraction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('parsePrice', () => {
+    it('should parse Venezuelan and US notation', () => {
+      expect(parsePrice('1.234,56')).toBe(1234.56)
+      expect(parsePrice('1,234.56')).toBe(1234.56)
+      expect(parsePrice('12,50')).toBe(12.5)
+      expect(parsePrice('3.75')).toBe(3.75)
+    })
+
+    it('should treat a single separator followed by three digits as thousands', () => {
+      expect(parsePrice('1.250')).toBe(1250)
+      expect(parsePrice('2,500,000')).toBe(2500000)
+      expect(parsePrice('0,125')).toBe(0.125)
+    })
+
+    it('should strip currency symbols', () => {
+      expect(parsePrice('Bs. 1.234,50')).toBe(1234.5)
+      expect(parsePrice('$ 4.99')).toBe(4.99)
+      expect(parsePrice('US$12')).toBe(12)
+    })
+
+    it('should reject non-prices', () => {
+      expect(parsePrice('Agotado')).toBeNull()
+      expect(parsePrice('')).toBeNull()
+      expect(parsePrice('0,00')).toBeNull()
+      expect(parsePrice(null)).toBeNull()
+    })
+
+    it('should accept numeric cells', () => {
+      expect(parsePrice(1.25)).toBe(1.25)
+      expect(parsePrice(0)).toBeNull()
+    })
+  })
+
+  describe('detectCurrency', () => {
+    it('should recognize bolívares, dollars and euros', () => {
+      expect(detectCurrency('Precio Bs.')).toBe('VES')
+      expect(detectCurrency('Bs.S 20')).toBe('VES')
+      expect(detectCurrency('Precio USD')).toBe('USD')
+      expect(detectCurrency('$ 4.99')).toBe('USD')
+      expect(detectCurrency('10 €')).toBe('EUR')
+      expect(detectCurrency('Precio')).toBeNull()
+    })
+  })
+
+  describe('findHeaderColumns', () => {
+    it('should map Spanish header names', () => {
+      expect(findHeaderColumns(['Código', 'Descripción', 'Unidad', 'Precio Bs.'])).toEqual({
+        sku: 0,
+        description: 1,
+        unit: 2,
+        price: 3,
+        priceCurrency: 'VES',
+      })
+    })
+
+    it('should prefer the USD column when there is one per currency', () => {
+      const columns = findHeaderColumns(['Producto', 'Precio Bs', 'Precio USD'])
+      expect(columns?.price).toBe(2)
+      expect(columns?.priceCurrency).toBe('USD')
+    })
+
+    it('should require description and price columns', () => {
+      expect(findHeaderColumns(['Código', 'Precio'])).toBeNull()
+      expect(findHeaderColumns(['001', 'Harina PAN 1kg', '1,25'])).toBeNull()
+    })
+  })
+
+  describe('extractItemsFromRows', () => {
+    it('should extract rows below the header and skip rows without a price', () => {
+      const items = extractItemsFromRows([
+        ['Lista de precios Polar - Octubre'],
+        ['Cód.', 'Descripción', 'Presentación', 'P.V.P.'],
+        ['001', 'Harina PAN 1kg', 'Bulto 20 und', '$ 25,00'],
+        ['', 'VÍVERES', '', ''],
+        ['002', 'Arroz Mary 1kg', '', 'Agotado'],
+        ['003', 'Aceite Mazeite 1L', 'Caja 12 und', 'Bs. 1.234,50'],
+      ])
+
+      expect(items).toEqual([
+        { sku: '001', description: 'Harina PAN 1kg', unit: 'Bulto 20 und', price: 25, currency: 'USD' },
+        { sku: '003', description: 'Aceite Mazeite 1L', unit: 'Caja 12 und', price: 1234.5, currency: 'VES' },
+      ])
+    })
+
+    it('should use the default currency when none is given', () => {
+      const items = extractItemsFromRows([['Producto', 'Precio'], ['Café 250g', '3,50']], 'VES')
+      expect(items).toEqual([{ sku: null, description: 'Café 250g', unit: null, price: 3.5, currency: 'VES' }])
+    })
+  })
+
+  describe('Markdown tables', () => {
+    const markdown = [
+      '# lista.md',
+      '',
+      '| Código | Producto | Precio USD |',
+      '| --- | --- | --- |',
+      '| A-1 | Tornillo 1\\|2" | 0,35 |',
+      '',
+      'Texto intermedio',
+      '',
+      '| Producto | Precio |',
+      '| :--- | ---: |',
+      '| Clavo 2" | 1.10 |',
+    ].join('\n')
+
+    it('should split tables and unescape pipes', () => {
+      const tables = parseMarkdownTables(markdown)
+      expect(tables).toHaveLength(2)
+      expect(tables[0][1]).toEqual(['A-1', 'Tornillo 1|2"', '0,35'])
+    })
+
+    it('should extract items from every table', () => {
+      expect(extractItemsFromMarkdown(markdown).map(item => [item.description, item.price])).toEqual([
+        ['Tornillo 1|2"', 0.35],
+        ['Clavo 2"', 1.1],
+      ])
+    })
+  })
+
+  describe('extractItemsWithModel', () => {
+    it('should send the file with a strict JSON schema and parse the items', async () => {
+      mockOpenAI.responses.create.mockResolvedValue({
+        status: 'completed',
+        output_text: JSON.stringify({
+          items: [
+            { sku: 'X1', description: '  Harina  PAN ', unit: null, price: 1.25, currency: 'USD' },
+            { sku: null, description: 'Sin precio', unit: null, price: 0, currency: 'USD' },
+          ],
+        }),
+      })
+
+      const items = await extractItemsWithModel('file-123')
+
+      const request = mockOpenAI.responses.create.mock.calls[0][0]
+      expect(request.input[0].content[0]).toEqual({ type: 'input_file', file_id: 'file-123' })
+      expect(request.text.format).toMatchObject({ type: 'json_schema', name: 'price_items', strict: true })
+      expect(items).toEqual([{ sku: 'X1', description: 'Harina PAN', unit: null, price: 1.25, currency: 'USD' }])
+    })
+
+    it('should fail when the response is incomplete', async () => {
+      mockOpenAI.responses.create.mockResolvedValue({ status: 'incomplete', output_text: '{"items": [' })
+
+      await expect(extractItemsWithModel('file-123')).rejects.toThrow('status: incomplete')
+    })
+  })
+
+  describe('extractPriceItems', () => {
+    const prepared = { buffer: Buffer.from(''), filename: 'x.md', mimeType: 'text/markdown', converted: true }
+
+    it('should parse CSV uploads without calling the model', async () => {
+      const result = await extractPriceItems({
+        buffer: Buffer.from('codigo;descripcion;precio\n1;Arroz;1,50'),
+        fileType: getFileTypeByName('lista.csv')!,
+        prepared,
+        openaiFileId: 'file-1',
+      })
+
+      expect(result.method).toBe('table')
+      expect(result.items).toEqual([{ sku: '1', description: 'Arroz', unit: null, price: 1.5, currency: 'USD' }])
+      expect(mockOpenAI.responses.create).not.toHaveBeenCalled()
+    })
+
+    it('should extract DOCX uploads with the model like PDFs', async () => {
+      mockOpenAI.responses.create.mockResolvedValue({
+        status: 'completed',
+        output_text: JSON.stringify({ items: [{ sku: 'A7', description: 'Aceite Vatel 1L', unit: 'Caja 12', price: 3.1, currency: 'USD' }] }),
+      })
+
+      const result = await extractPriceItems({
+        buffer: Buffer.from(''),
+        fileType: getFileTypeByName('catalogo.docx')!,
+        prepared,
+        openaiFileId: 'file-docx',
+      })
+
+      expect(result).toEqual({
+        items: [{ sku: 'A7', description: 'Aceite Vatel 1L', unit: 'Caja 12', price: 3.1, currency: 'USD' }],
+        method: 'model',
+      })
+      expect(mockOpenAI.responses.create.mock.calls[0][0].input[0].content[0]).toEqual({ type: 'input_file', file_id: 'file-docx' })
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import {
+  extractSearchTerms,
+  searchPriceItems,
+  selectConfidentMatches,
+  formatPriceItemsContext,
+  priceMatchesToCitations,
+  lookupStructuredPrices,
+  type PriceItemMatch,
+} from '../price-search'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getExchangeRates } from '@/lib/currency'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('@/lib/currency', () => ({
+  ...jest.requireActual('@/lib/currency'),
+  getExchangeRates: jest.fn(),
+}))
+
+const mockRpc = jest.fn()
+;(createSupabaseAdmin as jest.Mock).mockReturnValue({ rpc: mockRpc })
+
+const match = (overrides: Partial<PriceItemMatch> = {}): PriceItemMatch => ({
+  id: 'item-1',
+  price_list_id: 'list-1',
+  sku: '001',
+  description: 'Harina PAN 1kg',
+  unit: 'Bulto',
+  price: 25,
+  currency: 'USD',
+  supplier_name: 'Polar',
+  file_name: 'polar.xlsx',
+  uploaded_at: '2025-09-01T00:00:00Z',
+  match_type: 'fulltext',
+  score: 0.6,
+  price_usd: 25,
+  price_ves: null,
+  exchange_rate: null,
+  rate_date: null,
+  ...overrides,
+})
+
+describe('price-search', () => {
+  beforeEach(() => {
+    mockRpc.mockReset()
+    ;(getExchangeRates as jest.Mock).mockResolvedValue([])
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('extractSearchTerms', () => {
+    it('should drop question words and punctuation', () => {
+      expect(extractSearchTerms('¿Cuánto cuesta la harina PAN de 1kg?')).toBe('harina pan 1kg')
+      expect(extractSearchTerms('Precio del código A-102.')).toBe('a-102')
+    })
+
+    it('should return an empty string when nothing is left', () => {
+      expect(extractSearchTerms('¿Cuál es el precio?')).toBe('')
+    })
+  })
+
+  describe('searchPriceItems', () => {
+    it('should call the search_price_items RPC and coerce numeric columns', async () => {
+      mockRpc.mockResolvedValue({ data: [{ ...match(), price: '25.5000', score: '0.8' }], error: null })
+
+      const items = await searchPriceItems('org-1', 'harina', { limit: 5, priceListIds: ['list-1'], exactOnly: true })
+
+      expect(mockRpc).toHaveBeenCalledWith('search_price_items', {
+        p_organization_id: 'org-1',
+        p_query: 'harina',
+        p_limit: 5,
+        p_price_list_ids: ['list-1'],
+        p_exact_only: true,
+      })
+      expect(items[0].price).toBe(25.5)
+      expect(items[0].score).toBe(0.8)
+    })
+
+    it('should convert prices with the rate of the catalog date', async () => {
+      ;(getExchangeRates as jest.Mock).mockResolvedValue([
+        { id: 'r1', base_currency: 'USD', quote_currency: 'VES', rate: 36.5, effective_date: '2025-08-01', source: null, created_at: '' },
+        { id: 'r2', base_currency: 'USD', quote_currency: 'VES', rate: 40, effective_date: '2025-09-15', source: null, created_at: '' },
+      ])
+      mockRpc.mockResolvedValue({ data: [match({ price: 10, uploaded_at: '2025-09-01T15:00:00Z' })], error: null })
+
+      const [item] = await searchPriceItems('org-1', 'harina')
+
+      expect(item).toMatchObject({ price_usd: 10, price_ves: 365, exchange_rate: 36.5, rate_date: '2025-08-01' })
+    })
+
+    it('should search every list when no ids are given', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null })
+
+      await searchPriceItems('org-1', 'harina', { priceListIds: [] })
+
+      expect(mockRpc.mock.calls[0][1]).toMatchObject({ p_price_list_ids: null, p_limit: 20, p_exact_only: false })
+    })
+
+    it('should throw on RPC errors', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'boom' } })
+
+      await expect(searchPriceItems('org-1', 'harina')).rejects.toThrow('Price search failed: boom')
+    })
+  })
+
+  describe('selectConfidentMatches', () => {
+    it('should keep exact and full-text matches and only strong fuzzy matches', () => {
+      const matches = [
+        match({ id: 'a', match_type: 'exact_sku', score: 1 }),
+        match({ id: 'b', match_type: 'fulltext', score: 0.1 }),
+        match({ id: 'c', match_type: 'fuzzy', score: 0.5 }),
+        match({ id: 'd', match_type: 'fuzzy', score: 0.3 }),
+      ]
+
+      expect(selectConfidentMatches(matches).map(m => m.id)).toEqual(['a', 'b', 'c'])
+    })
+  })
+
+  describe('formatPriceItemsContext', () => {
+    it('should render a Markdown table with supplier and catalog', () => {
+      const context = formatPriceItemsContext([match({ price: 1234.5, currency: 'VES', sku: null })])
+
+      expect(context).toContain('| Proveedor | Código | Descripción | Unidad | Precio | Moneda | Equivalente | Catálogo |')
+      expect(context).toContain('| Polar | - | Harina PAN 1kg | Bulto | 1.234,50 | VES | - | polar.xlsx |')
+    })
+
+    it('should include the precomputed equivalent and the rate used', () => {
+      const context = formatPriceItemsContext([
+        match({ price_ves: 912.5, exchange_rate: 36.5, rate_date: '2025-09-01' }),
+      ])
+
+      expect(context).toContain('| 25,00 | USD | ≈ Bs 912,50 (tasa 36,50 del 2025-09-01) |')
+    })
+  })
+
+  describe('priceMatchesToCitations', () => {
+    it('should group matches by price list', () => {
+      const citations = priceMatchesToCitations([
+        match(),
+        match({ id: 'item-2', sku: null, description: 'Harina PAN 500g', price: 13 }),
+        match({ id: 'item-3', price_list_id: 'list-2', supplier_name: 'Mary', file_name: 'mary.pdf' }),
+      ])
+
+      expect(citations).toEqual([
+        {
+          price_list_id: 'list-1',
+          file_name: 'polar.xlsx',
+          supplier_name: 'Polar',
+          snippet: '001 · Harina PAN 1kg: 25,00 USD; Harina PAN 500g: 13,00 USD',
+        },
+        {
+          price_list_id: 'list-2',
+          file_name: 'mary.pdf',
+          supplier_name: 'Mary',
+          snippet: '001 · Harina PAN 1kg: 25,00 USD',
+        },
+      ])
+    })
+  })
+
+  describe('lookupStructuredPrices', () => {
+    it('should return context and citations for confident matches', async () => {
+      mockRpc.mockResolvedValue({ data: [match()], error: null })
+
+      const lookup = await lookupStructuredPrices('org-1', '¿Cuánto cuesta la harina PAN?', ['list-1'])
+
+      expect(mockRpc.mock.calls[0][1]).toMatchObject({ p_query: 'harina pan', p_price_list_ids: ['list-1'] })
+      expect(lookup?.matches).toHaveLength(1)
+      expect(lookup?.context).toContain('Harina PAN 1kg')
+      expect(lookup?.citations[0].price_list_id).toBe('list-1')
+    })
+
+    it('should return null when only weak fuzzy matches are found', async () => {
+      mockRpc.mockResolvedValue({ data: [match({ match_type: 'fuzzy', score: 0.3 })], error: null })
+
+      expect(await lookupStructuredPrices('org-1', 'harina')).toBeNull()
+    })
+
+    it('should return null instead of throwing when the search fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'relation does not exist' } })
+
+      expect(await lookupStructuredPrices('org-1', 'harina')).toBeNull()
+    })
+
+    it('should not search when the question has no product terms', async () => {
+      expect(await lookupStructuredPrices('org-1', '¿Cuál es el precio?')).toBeNull()
+      expect(mockRpc).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import {
+  planSummary,
+  buildSummaryMessages,
+  summarizeConversationIfNeeded,
+  type StoredMessage,
+} from '../rolling-summary'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getOwnedConversation } from '@/lib/conversations'
+import { getLLMProvider } from '../llm-provider'
+import { getAppSettings } from '@/lib/openai-responses'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('@/lib/conversations', () => ({
+  ...jest.requireActual('@/lib/conversations'),
+  getOwnedConversation: jest.fn(),
+}))
+
+jest.mock('../llm-provider', () => ({
+  getLLMProvider: jest.fn(),
+}))
+
+jest.mock('@/lib/openai-responses', () => ({
+  getAppSettings: jest.fn(),
+}))
+
+// Chainable query builder resolving to { data, error }
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'insert', 'update', 'eq', 'in', 'is', 'gt', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.then = jest.fn((resolve) => resolve(result))
+  return query
+}
+
+// 100 tokens per message
+const message = (index: number): StoredMessage => ({
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: `${index}`.padEnd(400, '.'),
+  created_at: `2026-10-18T15:${String(index).padStart(2, '0')}:00Z`,
+})
+
+describe('rolling-summary', () => {
+  describe('planSummary', () => {
+    it('should wait until the history crosses the threshold', () => {
+      const messages = [0, 1, 2, 3, 4, 5].map(message)
+
+      expect(planSummary(messages, 600, 4)).toBeNull()
+      expect(planSummary(messages, 599, 4)).toEqual({ fold: messages.slice(0, 2), keep: messages.slice(2) })
+    })
+
+    it('should never fold the most recent messages', () => {
+      const messages = [0, 1, 2].map(message)
+
+      expect(planSummary(messages, 10, 4)).toBeNull()
+    })
+  })
+
+  describe('buildSummaryMessages', () => {
+    it('should merge the previous summary with the new turns', () => {
+      const [system, user] = buildSummaryMessages('- Harina PAN a 1,20 USD', [
+        { role: 'user', content: 'y el aceite?', created_at: '2026-10-18T15:00:00Z' },
+        { role: 'assistant', content: 'Aceite Vatel: 3,10 USD', created_at: '2026-10-18T15:00:01Z' },
+      ])
+
+      expect(system.role).toBe('system')
+      expect(user.content).toBe('Resumen anterior:\n- Harina PAN a 1,20 USD\n\nNuevos mensajes:\nCliente: y el aceite?\n\nAsistente: Aceite Vatel: 3,10 USD')
+    })
+  })
+
+  describe('summarizeConversationIfNeeded', () => {
+    const chat = jest.fn()
+    let messagesQuery: Record<string, jest.Mock>
+    let updateQuery: Record<string, jest.Mock>
+    let usageQuery: Record<string, jest.Mock>
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      chat.mockResolvedValue({ content: '- Resumen nuevo', tokens_used: 80 })
+      ;(getLLMProvider as jest.Mock).mockReturnValue({ chat })
+      ;(getAppSettings as jest.Mock).mockResolvedValue({ model: 'gpt-4.1-mini', temperature: 0.7, max_output_tokens: 1200 })
+      // 2000 tokens, over the default threshold
+      messagesQuery = mockQuery({ data: Array.from({ length: 20 }, (_, index) => message(index)), error: null })
+      updateQuery = mockQuery({ data: null, error: null })
+      usageQuery = mockQuery({ data: null, error: null })
+      ;(createSupabaseAdmin as jest.Mock).mockReturnValue({
+        from: jest.fn((table: string) => {
+          if (table === 'messages') return messagesQuery
+          return table === 'usage_events' ? usageQuery : updateQuery
+        }),
+      })
+    })
+
+    it('should fold older turns and advance summarized_through from the state it read', async () => {
+      ;(getOwnedConversation as jest.Mock).mockResolvedValue({
+        id: 'conv-1',
+        summary: '- Resumen anterior',
+        summarized_through: '2026-10-18T14:00:00Z',
+      })
+
+      await expect(summarizeConversationIfNeeded('conv-1', 'user-1', 'org-1')).resolves.toBe(true)
+
+      expect(messagesQuery.gt).toHaveBeenCalledWith('created_at', '2026-10-18T14:00:00Z')
+      expect(chat.mock.calls[0][0].messages[1].content).toContain('Resumen anterior:\n- Resumen anterior')
+      expect(updateQuery.update).toHaveBeenCalledWith({
+        summary: '- Resumen nuevo',
+        summarized_through: message(15).created_at,
+      })
+      expect(updateQuery.eq).toHaveBeenCalledWith('summarized_through', '2026-10-18T14:00:00Z')
+    })
+
+    it('should use the organization model and record the summary tokens', async () => {
+      ;(getOwnedConversation as jest.Mock).mockResolvedValue({ id: 'conv-1', summary: null, summarized_through: null })
+
+      await expect(summarizeConversationIfNeeded('conv-1', 'user-1', 'org-1')).resolves.toBe(true)
+
+      expect(getAppSettings).toHaveBeenCalledWith('org-1')
+      expect(chat.mock.calls[0][0].generation).toEqual({ model: 'gpt-4.1-mini', temperature: 0.2, max_output_tokens: 500 })
+      expect(usageQuery.insert).toHaveBeenCalledWith({
+        organization_id: 'org-1',
+        user_id: 'user-1',
+        conversation_id: 'conv-1',
+        kind: 'summary',
+        model: 'gpt-4.1-mini',
+        tokens_used: 80,
+      })
+    })
+
+    it('should do nothing while the history is short', async () => {
+      ;(getOwnedConversation as jest.Mock).mockResolvedValue({ id: 'conv-1', summary: null, summarized_through: null })
+      messagesQuery = mockQuery({ data: [0, 1].map(message), error: null })
+
+      await expect(summarizeConversationIfNeeded('conv-1', 'user-1', 'org-1')).resolves.toBe(false)
+      expect(chat).not.toHaveBeenCalled()
+    })
+
+    it('should not throw when the model fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+      ;(getOwnedConversation as jest.Mock).mockResolvedValue({ id: 'conv-1', summary: null, summarized_through: null })
+      chat.mockRejectedValue(new Error('rate limited'))
+
+      await expect(summarizeConversationIfNeeded('conv-1', 'user-1', 'org-1')).resolves.toBe(false)
+      expect(updateQuery.update).not.toHaveBeenCalled()
+      expect(usageQuery.insert).not.toHaveBeenCalled()
+      expect(consoleError).toHaveBeenCalled()
+
+      consoleError.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { formatSSE, parseSSE } from '../sse'
+
+describe('sse', () => {
+  describe('formatSSE', () => {
+    it('should serialize an event name and JSON payload', () => {
+      expect(formatSSE('delta', { text: 'Hola' })).toBe('event: delta\ndata: {"text":"Hola"}\n\n')
+    })
+
+    it('should keep newlines inside the JSON payload escaped', () => {
+      const frame = formatSSE('delta', { text: 'a\nb' })
+      expect(frame.split('\n\n')).toHaveLength(2)
+    })
+  })
+
+  describe('parseSSE', () => {
+    it('should round-trip formatted events', () => {
+      const buffer = formatSSE('delta', { text: 'Hola' }) + formatSSE('done', { ok: true })
+      const { events, rest } = parseSSE(buffer)
+
+      expect(events).toEqual([
+        { event: 'delta', data: '{"text":"Hola"}' },
+        { event: 'done', data: '{"ok":true}' },
+      ])
+      expect(rest).toBe('')
+    })
+
+    it('should keep an incomplete trailing frame in rest', () => {
+      const full = formatSSE('delta', { text: 'uno' })
+      const partial = 'event: delta\ndata: {"te'
+      const { events, rest } = parseSSE(full + partial)
+
+      expect(events).toHaveLength(1)
+      expect(rest).toBe(partial)
+    })
+
+    it('should default the event name to message and join multi-line data', () => {
+      const { events } = parseSSE('data: a\ndata: b\n\n')
+      expect(events).toEqual([{ event: 'message', data: 'a\nb' }])
+    })
+
+    it('should handle CRLF line endings', () => {
+      const { events } = parseSSE('event: done\r\ndata: {}\r\n\r\n')
+      expect(events).toEqual([{ event: 'done', data: '{}' }])
+    })
+  })
+})
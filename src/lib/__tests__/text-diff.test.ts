@@ -0,0 +1,33 @@
+import { diffLines, diffStats } from '../text-diff'
+
+describe('text-diff', () => {
+  describe('diffLines', () => {
+    it('should mark changed lines as removed and added around unchanged ones', () => {
+      const before = 'Responde en español.\nUsa viñetas.\nNo inventes datos.'
+      const after = 'Responde en español.\nUsa tablas para comparar precios.\nNo inventes datos.\nMenciona la fuente.'
+
+      expect(diffLines(before, after)).toEqual([
+        { type: 'equal', text: 'Responde en español.' },
+        { type: 'removed', text: 'Usa viñetas.' },
+        { type: 'added', text: 'Usa tablas para comparar precios.' },
+        { type: 'equal', text: 'No inventes datos.' },
+        { type: 'added', text: 'Menciona la fuente.' },
+      ])
+    })
+
+    it('should treat null as empty text and ignore Windows line endings', () => {
+      expect(diffLines(null, 'Hola\r\nMundo')).toEqual([
+        { type: 'added', text: 'Hola' },
+        { type: 'added', text: 'Mundo' },
+      ])
+      expect(diffLines('Hola\r\nMundo', 'Hola\nMundo').every(line => line.type === 'equal')).toBe(true)
+      expect(diffLines('', null)).toEqual([])
+    })
+  })
+
+  describe('diffStats', () => {
+    it('should count added and removed lines', () => {
+      expect(diffStats(diffLines('a\nb\nc', 'a\nx\ny'))).toEqual({ added: 2, removed: 2 })
+    })
+  })
+})
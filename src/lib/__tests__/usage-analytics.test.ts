@@ -0,0 +1,128 @@
+import {
+  parseAnalyticsRange,
+  rangeBounds,
+  normalizeAnalyticsRow,
+  getUsageAnalytics,
+} from '../usage-analytics'
+import { modelPriceSchema } from '../api-schemas'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+const mockRpc = jest.fn()
+;(createSupabaseAdmin as jest.Mock).mockReturnValue({ rpc: mockRpc })
+
+// PostgREST returns bigint/numeric columns as strings
+const row = (group_key: string, overrides: Record<string, unknown> = {}) => ({
+  group_key,
+  label: group_key,
+  answers: '10',
+  tokens: '5000',
+  cost_usd: '0.0030',
+  unpriced_tokens: '0',
+  avg_response_ms: '1200',
+  p50_response_ms: 1100,
+  p95_response_ms: 2400.5,
+  ...overrides,
+})
+
+describe('usage-analytics', () => {
+  beforeEach(() => {
+    mockRpc.mockReset()
+  })
+
+  describe('parseAnalyticsRange', () => {
+    it('should default to the last 30 Venezuelan days', () => {
+      // 23:30 on Oct 18 in Caracas
+      const { range } = parseAnalyticsRange(null, null, new Date('2026-10-19T03:30:00Z'))
+      expect(range).toEqual({ from: '2026-09-19', to: '2026-10-18' })
+    })
+
+    it('should reject malformed, inverted and too long ranges', () => {
+      expect(parseAnalyticsRange('19/10/2026', null).error).toMatch(/YYYY-MM-DD/)
+      expect(parseAnalyticsRange('2026-10-10', '2026-10-01').error).toMatch(/on or before/)
+      expect(parseAnalyticsRange('2025-01-01', '2026-10-01').error).toMatch(/366 days/)
+    })
+  })
+
+  describe('rangeBounds', () => {
+    it('should cover whole days in Venezuelan time', () => {
+      expect(rangeBounds({ from: '2026-10-01', to: '2026-10-31' })).toEqual({
+        start: '2026-10-01T04:00:00.000Z',
+        end: '2026-11-01T04:00:00.000Z',
+      })
+    })
+  })
+
+  describe('normalizeAnalyticsRow', () => {
+    it('should turn numeric strings into numbers and keep missing latencies null', () => {
+      expect(normalizeAnalyticsRow(row('gpt-4o-mini', { p95_response_ms: null }))).toEqual({
+        group_key: 'gpt-4o-mini',
+        label: 'gpt-4o-mini',
+        answers: 10,
+        tokens: 5000,
+        cost_usd: 0.003,
+        unpriced_tokens: 0,
+        avg_response_ms: 1200,
+        p50_response_ms: 1100,
+        p95_response_ms: null,
+      })
+    })
+  })
+
+  describe('getUsageAnalytics', () => {
+    it('should aggregate every breakdown in SQL and sort users and models by tokens', async () => {
+      mockRpc.mockImplementation((_fn: string, { p_group }: { p_group: string }) => {
+        const data: Record<string, unknown[]> = {
+          total: [row('total', { tokens: '9000' })],
+          day: [row('2026-10-01'), row('2026-10-02', { tokens: '4000' })],
+          user: [row('user-a', { label: 'a@example.com', tokens: '1000' }), row('user-b', { label: 'b@example.com', tokens: '8000' })],
+          model: [row('gpt-4o', { tokens: '2000' }), row('gpt-4o-mini', { tokens: '7000', unpriced_tokens: '7000' })],
+        }
+        return Promise.resolve({ data: data[p_group], error: null })
+      })
+
+      const analytics = await getUsageAnalytics('org-1', { from: '2026-10-01', to: '2026-10-02' })
+
+      expect(mockRpc).toHaveBeenCalledTimes(4)
+      expect(mockRpc).toHaveBeenCalledWith('get_usage_analytics', {
+        p_organization_id: 'org-1',
+        p_group: 'day',
+        p_from: '2026-10-01T04:00:00.000Z',
+        p_to: '2026-10-03T04:00:00.000Z',
+      })
+      expect(analytics.totals.tokens).toBe(9000)
+      expect(analytics.by_day.map(day => day.group_key)).toEqual(['2026-10-01', '2026-10-02'])
+      expect(analytics.by_user.map(user => user.label)).toEqual(['b@example.com', 'a@example.com'])
+      expect(analytics.by_model[0]).toMatchObject({ group_key: 'gpt-4o-mini', unpriced_tokens: 7000 })
+    })
+
+    it('should return zero totals for a period without answers', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null })
+
+      const analytics = await getUsageAnalytics('org-1', { from: '2026-10-01', to: '2026-10-02' })
+
+      expect(analytics.totals).toMatchObject({ answers: 0, tokens: 0, cost_usd: 0, p95_response_ms: null })
+    })
+
+    it('should fail when an aggregation fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'function get_usage_analytics does not exist' } })
+
+      await expect(getUsageAnalytics('org-1', { from: '2026-10-01', to: '2026-10-02' })).rejects.toThrow(/get_usage_analytics/)
+    })
+  })
+
+  describe('modelPriceSchema', () => {
+    it('should validate the model and price', () => {
+      expect(modelPriceSchema.parse({ model: ' gpt-4o-mini ', usd_per_1m_tokens: '0.6' })).toEqual({
+        data: { model: 'gpt-4o-mini', usd_per_1m_tokens: 0.6 },
+        errors: null,
+      })
+      expect(modelPriceSchema.parse({ model: '', usd_per_1m_tokens: 1 }).errors).toEqual({ model: 'is required' })
+      expect(modelPriceSchema.parse({ model: 'gpt-4o', usd_per_1m_tokens: -1 }).errors).toEqual({ usd_per_1m_tokens: 'must be at least 0' })
+      expect(modelPriceSchema.parse({ model: 'gpt-4o', usd_per_1m_tokens: '' }).errors).toEqual({ usd_per_1m_tokens: 'is required' })
+    })
+  })
+})
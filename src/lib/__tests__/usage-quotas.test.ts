@@ -0,0 +1,180 @@
+import {
+  getQuotaWindows,
+  resolveQuotaLimits,
+  evaluateQuota,
+  quotaExceededMessage,
+  getUserQuotaStatus,
+  checkChatQuota,
+  type QuotaLimits,
+} from '../usage-quotas'
+import { userQuotaSchema } from '../api-schemas'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+// 23:30 on Oct 18 in Caracas (UTC-4)
+const NOW = new Date('2026-10-19T03:30:00Z')
+
+const UNLIMITED: QuotaLimits = {
+  daily_token_limit: null,
+  monthly_token_limit: null,
+  daily_request_limit: null,
+  monthly_request_limit: null,
+}
+
+const usage = (overrides = {}) => ({ day_tokens: 0, day_requests: 0, month_tokens: 0, month_requests: 0, ...overrides })
+
+// Supabase stub: one maybeSingle() result per table, plus the get_chat_usage rpc
+function mockSupabase(tables: Record<string, unknown>, usageRow: unknown, errors: Record<string, unknown> = {}) {
+  const eq = jest.fn()
+  const rpc = jest.fn().mockResolvedValue({ data: [usageRow], error: errors.rpc ?? null })
+  const from = jest.fn((table: string) => {
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        eq(table, column, value)
+        return query
+      },
+      maybeSingle: () => Promise.resolve({ data: tables[table] ?? null, error: errors[table] ?? null }),
+    }
+    return query
+  })
+  ;(createSupabaseAdmin as jest.Mock).mockReturnValue({ from, rpc })
+  return { eq, rpc }
+}
+
+describe('usage-quotas', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('getQuotaWindows', () => {
+    it('should follow the Venezuelan calendar', () => {
+      const windows = getQuotaWindows(NOW)
+
+      expect(windows.dayStart.toISOString()).toBe('2026-10-18T04:00:00.000Z')
+      expect(windows.dayEnd.toISOString()).toBe('2026-10-19T04:00:00.000Z')
+      expect(windows.monthStart.toISOString()).toBe('2026-10-01T04:00:00.000Z')
+      expect(windows.monthEnd.toISOString()).toBe('2026-11-01T04:00:00.000Z')
+    })
+  })
+
+  describe('resolveQuotaLimits', () => {
+    it('should let per-user overrides win over the plan', () => {
+      const plan = { ...UNLIMITED, daily_token_limit: 10000, monthly_request_limit: 300 }
+      const override = { ...UNLIMITED, daily_token_limit: 50000, daily_request_limit: 0 }
+
+      expect(resolveQuotaLimits(override, plan)).toEqual({
+        daily_token_limit: 50000,
+        monthly_token_limit: null,
+        daily_request_limit: 0,
+        monthly_request_limit: 300,
+      })
+      expect(resolveQuotaLimits(null, null)).toEqual(UNLIMITED)
+    })
+  })
+
+  describe('evaluateQuota', () => {
+    it('should only check the limits that are set', () => {
+      const { checks, exceeded } = evaluateQuota({ ...UNLIMITED, daily_request_limit: 20 }, usage({ day_requests: 5 }), NOW)
+
+      expect(checks).toEqual([
+        { metric: 'requests', period: 'day', limit: 20, used: 5, remaining: 15, reset_at: '2026-10-19T04:00:00.000Z' },
+      ])
+      expect(exceeded).toBeNull()
+    })
+
+    it('should block once a limit is reached and report the latest reset', () => {
+      const limits = { ...UNLIMITED, daily_token_limit: 1000, monthly_token_limit: 5000 }
+
+      expect(evaluateQuota(limits, usage({ day_tokens: 1000, month_tokens: 1000 }), NOW).exceeded).toMatchObject({
+        period: 'day',
+        remaining: 0,
+        reset_at: '2026-10-19T04:00:00.000Z',
+      })
+      expect(evaluateQuota(limits, usage({ day_tokens: 1200, month_tokens: 5200 }), NOW).exceeded).toMatchObject({
+        period: 'month',
+        reset_at: '2026-11-01T04:00:00.000Z',
+      })
+    })
+  })
+
+  describe('quotaExceededMessage', () => {
+    it('should explain the limit and when it resets in Venezuelan time', () => {
+      const check = { metric: 'tokens' as const, period: 'day' as const, limit: 50000, used: 50120, remaining: 0, reset_at: '2026-10-19T04:00:00.000Z' }
+
+      expect(quotaExceededMessage(check)).toBe(
+        'Has alcanzado tu límite diario de 50.000 tokens. Podrás volver a consultar a partir del 19/10/2026 00:00 (hora de Venezuela).'
+      )
+    })
+  })
+
+  describe('getUserQuotaStatus', () => {
+    it('should use the default plan when the user has none assigned', async () => {
+      const { eq, rpc } = mockSupabase(
+        { usage_plans: { ...UNLIMITED, id: 'plan-basic', name: 'Básico', daily_request_limit: 20 } },
+        { day_tokens: '900', day_requests: '20', month_tokens: '4000', month_requests: '85' }
+      )
+
+      const status = await getUserQuotaStatus('org-1', 'user-1', NOW)
+
+      expect(eq).toHaveBeenCalledWith('usage_plans', 'organization_id', 'org-1')
+      expect(eq).toHaveBeenCalledWith('usage_plans', 'is_default', true)
+      expect(rpc).toHaveBeenCalledWith('get_chat_usage', {
+        p_user_id: 'user-1',
+        p_day_start: '2026-10-18T04:00:00.000Z',
+        p_month_start: '2026-10-01T04:00:00.000Z',
+      })
+      expect(status.plan).toEqual({ id: 'plan-basic', name: 'Básico' })
+      expect(status.usage).toEqual({ day_tokens: 900, day_requests: 20, month_tokens: 4000, month_requests: 85 })
+      expect(status.exceeded).toMatchObject({ metric: 'requests', period: 'day' })
+    })
+
+    it('should load the assigned plan and apply the user overrides', async () => {
+      const { eq } = mockSupabase(
+        {
+          user_quotas: { ...UNLIMITED, user_id: 'user-1', plan_id: 'plan-pro', daily_request_limit: 100 },
+          usage_plans: { ...UNLIMITED, id: 'plan-pro', name: 'Pro', daily_request_limit: 20, monthly_token_limit: 1000000 },
+        },
+        usage({ day_requests: 20 })
+      )
+
+      const status = await getUserQuotaStatus('org-1', 'user-1', NOW)
+
+      expect(eq).toHaveBeenCalledWith('usage_plans', 'id', 'plan-pro')
+      expect(status.limits).toMatchObject({ daily_request_limit: 100, monthly_token_limit: 1000000 })
+      expect(status.exceeded).toBeNull()
+    })
+  })
+
+  describe('checkChatQuota', () => {
+    it('should fail open when quotas cannot be read', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockSupabase({}, usage(), { rpc: { message: 'function get_chat_usage does not exist' } })
+
+      await expect(checkChatQuota('org-1', 'user-1')).resolves.toBeNull()
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Quota check failed'), expect.stringContaining('get_chat_usage'))
+    })
+  })
+
+  describe('userQuotaSchema', () => {
+    it('should accept non-negative integers and turn blanks into null', () => {
+      expect(userQuotaSchema.parse({ plan_id: '', daily_token_limit: '50000', monthly_request_limit: 0, daily_request_limit: '' }).data).toEqual({
+        plan_id: null,
+        ...UNLIMITED,
+        daily_token_limit: 50000,
+        monthly_request_limit: 0,
+      })
+    })
+
+    it('should reject negative and fractional limits by field', () => {
+      expect(userQuotaSchema.parse({ daily_token_limit: '-1', monthly_request_limit: '2.5', monthly_token_limit: 'mucho' }).errors).toEqual({
+        daily_token_limit: 'must be at least 0',
+        monthly_request_limit: 'must be an integer',
+        monthly_token_limit: 'must be a number',
+      })
+    })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+import { array, blankAsNull, boolean, nullable, number, object, oneOf, optional, preprocess, string, variants } from '../validation'
+import { appSettingsSchema, chatRequestSchema, manageFileSchema, rollbackInstructionsSchema, updateUserSchema } from '../api-schemas'
+import { parseRequestBody } from '../api-validation'
+
+const jsonRequest = (body: string) =>
+  new Request('http://localhost/api/test', { method: 'POST', body })
+
+const USER_ID = '5c8e2a14-7b3d-4f6a-9e1c-8d2b4a6f0e33'
+const PRICE_LIST_ID = 'a4f1c3e2-6b5d-4c7a-8e9f-1d2c3b4a5e60'
+
+describe('validation', () => {
+  describe('schemas', () => {
+    const schema = object({
+      name: string({ max: 10 }),
+      age: optional(number({ integer: true, min: 0 })),
+      tags: optional(array(string()), []),
+      active: optional(boolean(), true),
+      expires_at: optional(nullable(string())),
+    })
+
+    it('should trim strings, apply fallbacks and drop unknown fields', () => {
+      expect(schema.parse({ name: '  Ana ', extra: 1 })).toEqual({
+        data: { name: 'Ana', tags: [], active: true },
+        errors: null,
+      })
+    })
+
+    it('should pass unknown fields through to a domain parser when asked to', () => {
+      const withId = object({ id: string() }, { unknownKeys: 'keep' })
+
+      expect(withId.parse({ id: ' fb-1 ', status: 'resolved' }).data).toEqual({ id: 'fb-1', status: 'resolved' })
+      expect(withId.parse({ status: 'resolved' }).errors).toEqual({ id: 'is required' })
+    })
+
+    it('should keep an explicit null only where it is allowed', () => {
+      expect(schema.parse({ name: 'Ana', age: null, expires_at: null }).data).toEqual({
+        name: 'Ana',
+        tags: [],
+        active: true,
+        expires_at: null,
+      })
+    })
+
+    it('should report every invalid field by its path', () => {
+      expect(schema.parse({ name: '   ', age: 1.5, tags: ['ok', 3], active: 'yes' }).errors).toEqual({
+        name: 'is required',
+        age: 'must be an integer',
+        'tags.1': 'must be a string',
+        active: 'must be true or false',
+      })
+      expect(schema.parse([]).errors).toEqual({ body: 'must be an object' })
+    })
+
+    it('should only coerce numeric strings when asked to', () => {
+      expect(number().parse('12').errors).toEqual({ body: 'must be a number' })
+      expect(number({ coerce: true, positive: true }).parse('36.5').data).toBe(36.5)
+      expect(number({ coerce: true, positive: true }).parse('0').errors).toEqual({ body: 'must be a positive number' })
+    })
+
+    it('should read blank form fields as null and reshape input before checking it', () => {
+      const limit = blankAsNull(number({ coerce: true }))
+      const lines = preprocess((value) => (typeof value === 'string' ? value.split('\n') : value), array(string()))
+
+      expect(limit.parse('').data).toBeNull()
+      expect(limit.parse('12').data).toBe(12)
+      expect(limit.parse('doce').errors).toEqual({ body: 'must be a number' })
+      expect(lines.parse('a\nb').data).toEqual(['a', 'b'])
+      expect(lines.parse(3).errors).toEqual({ body: 'must be an array' })
+    })
+
+    it('should pick the variant named by the discriminator', () => {
+      const action = variants('action', {
+        rename: object({ title: string() }),
+        archive: object({}),
+      })
+
+      expect(action.parse({ action: 'rename', title: 'Nuevo' }).data).toEqual({ action: 'rename', title: 'Nuevo' })
+      expect(action.parse({ action: 'rename' }).errors).toEqual({ title: 'is required' })
+      expect(action.parse({ action: 'delete' }).errors).toEqual({ action: 'must be one of: rename, archive' })
+      expect(oneOf(['a', 'b']).parse('c').errors).toEqual({ body: 'must be one of: a, b' })
+    })
+  })
+
+  describe('api-schemas', () => {
+    it('should fill the chat defaults', () => {
+      expect(chatRequestSchema.parse({ message: 'precio de la harina', conversationId: null }).data).toEqual({
+        message: 'precio de la harina',
+        fileIds: [],
+        stream: false,
+        mode: 'auto',
+      })
+    })
+
+    it('should only allow the admin-editable profile columns', () => {
+      expect(updateUserSchema.parse({
+        userId: USER_ID,
+        updates: { subscription_expires_at: null, is_active: true },
+      }).data).toEqual({ userId: USER_ID, updates: { subscription_expires_at: null, is_active: true } })
+
+      expect(updateUserSchema.parse({ userId: USER_ID, updates: { id: 'user-3', created_at: 'now' } }).errors).toEqual({
+        'updates.id': 'is not an allowed field',
+        'updates.created_at': 'is not an allowed field',
+      })
+    })
+
+    it('should check the model settings and turn blanks into defaults', () => {
+      expect(appSettingsSchema.parse({
+        system_instructions: null,
+        model: 'gpt-4o',
+        temperature: '0.5',
+        max_output_tokens: '1500',
+      }).data).toEqual({ system_instructions: null, model: 'gpt-4o', temperature: 0.5, max_output_tokens: 1500 })
+      expect(appSettingsSchema.parse({ system_instructions: null, model: '', temperature: '', max_output_tokens: null }).data).toEqual({
+        system_instructions: null,
+        model: null,
+        temperature: null,
+        max_output_tokens: null,
+      })
+
+      expect(appSettingsSchema.parse({
+        system_instructions: null,
+        model: 'o3',
+        temperature: '2.5',
+        max_output_tokens: '400.5',
+      }).errors).toEqual({
+        model: 'must be one of: gpt-4o-mini, gpt-4o, gpt-4.1-mini, gpt-4.1, gpt-4.1-nano',
+        temperature: 'must be at most 2',
+        max_output_tokens: 'must be an integer',
+      })
+      expect(appSettingsSchema.parse({ system_instructions: null, temperature: 'abc', max_output_tokens: '50' }).errors).toEqual({
+        temperature: 'must be a number',
+        max_output_tokens: 'must be at least 100',
+      })
+    })
+
+    it('should trim version notes and reject long or non-text notes', () => {
+      expect(rollbackInstructionsSchema.parse({ version: 2, note: '  Regla de moneda ' }).data).toEqual({ version: 2, note: 'Regla de moneda' })
+      expect(rollbackInstructionsSchema.parse({ version: 2, note: '   ' }).data).toEqual({ version: 2, note: '' })
+      expect(rollbackInstructionsSchema.parse({ version: 2, note: 'x'.repeat(501) }).errors).toEqual({ note: 'must be at most 500 characters long' })
+      expect(appSettingsSchema.parse({ system_instructions: null, note: 42 }).errors).toEqual({ note: 'must be a string' })
+    })
+
+    it('should require the fields of each file action', () => {
+      expect(manageFileSchema.parse({ action: 'upload_and_process', priceListId: PRICE_LIST_ID, fileName: 'polar.csv' }).errors).toEqual({
+        fileBuffer: 'is required',
+      })
+      expect(manageFileSchema.parse({ action: 'toggle_active', priceListId: PRICE_LIST_ID }).data).toEqual({
+        action: 'toggle_active',
+        priceListId: PRICE_LIST_ID,
+      })
+    })
+
+    it('should only accept UUIDs for row IDs', () => {
+      expect(manageFileSchema.parse({ action: 'toggle_active', priceListId: 'list-1' }).errors).toEqual({ priceListId: 'must be a UUID' })
+      expect(chatRequestSchema.parse({ message: 'hola', fileIds: [PRICE_LIST_ID, '1; drop'] }).errors).toEqual({ 'fileIds.1': 'must be a UUID' })
+      // OpenAI IDs are not UUIDs
+      expect(manageFileSchema.parse({ action: 'add_to_master_store', fileId: 'file-abc123' }).errors).toBeNull()
+    })
+  })
+
+  describe('parseRequestBody', () => {
+    it('should return the typed body', async () => {
+      const { body, response } = await parseRequestBody(jsonRequest('{"message":"hola"}'), chatRequestSchema)
+
+      expect(response).toBeNull()
+      expect(body?.mode).toBe('auto')
+    })
+
+    it('should answer 400 with field errors for invalid or malformed bodies', async () => {
+      const invalid = await parseRequestBody(jsonRequest('{"message":"hola","mode":"debug"}'), chatRequestSchema)
+      expect(invalid.response?.status).toBe(400)
+      await expect(invalid.response?.json()).resolves.toEqual({
+        error: 'Invalid request body: mode must be one of: auto, comparison, chat',
+        fields: { mode: 'must be one of: auto, comparison, chat' },
+      })
+
+      const malformed = await parseRequestBody(jsonRequest('{message'), chatRequestSchema)
+      await expect(malformed.response?.json()).resolves.toEqual({
+        error: 'Invalid request body: body must be valid JSON',
+        fields: { body: 'must be valid JSON' },
+      })
+    })
+
+    it('should accept an empty body when the whole body is optional', async () => {
+      const schema = object({ retention_days: optional(number()) })
+
+      expect((await parseRequestBody(jsonRequest(''), schema, { optional: true })).body).toEqual({})
+      expect((await parseRequestBody(jsonRequest(''), schema)).response?.status).toBe(400)
+    })
+  })
+})
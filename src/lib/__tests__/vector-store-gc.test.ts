@@ -0,0 +1,219 @@
+import { findOrphanedResources, collectVectorStoreGarbage } from '../vector-store-gc'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { findRegisteredVectorStore, listRecordedFileIds, listRegisteredVectorStores } from '../vector-store-registry'
+import { getDefaultOrganization } from '../organizations'
+
+// Locally stubbed OpenAI client: no network, every call is a jest mock
+jest.mock('../openai-client', () => ({
+  openaiDirect: {
+    files: {
+      list: jest.fn(),
+      delete: jest.fn(),
+    },
+    vectorStores: {
+      list: jest.fn(),
+      delete: jest.fn(),
+      files: {
+        list: jest.fn(),
+      },
+    },
+  },
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: jest.fn(),
+}))
+
+jest.mock('../vector-store-registry', () => ({
+  ...jest.requireActual('../vector-store-registry'),
+  listRegisteredVectorStores: jest.fn(),
+  listRecordedFileIds: jest.fn(),
+  findRegisteredVectorStore: jest.fn(),
+  markVectorStoreGone: jest.fn(),
+}))
+
+jest.mock('../organizations', () => ({
+  getOrganization: jest.fn(),
+  getDefaultOrganization: jest.fn(),
+}))
+
+const mockOpenAI = jest.requireMock('../openai-client').openaiDirect
+
+const DAY = 24 * 60 * 60
+const now = Math.floor(Date.now() / 1000)
+
+const store = (id: string, name: string, lastActiveDaysAgo: number) => ({
+  id,
+  name,
+  usage_bytes: 2048,
+  created_at: now - 60 * DAY,
+  last_active_at: now - lastActiveDaysAgo * DAY,
+})
+
+const file = (id: string, createdDaysAgo: number) => ({
+  id,
+  filename: `${id}.pdf`,
+  bytes: 1024,
+  created_at: now - createdDaysAgo * DAY,
+})
+
+describe('vector-store-gc', () => {
+  const mockInsert = jest.fn()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(createSupabaseAdmin as jest.Mock).mockReturnValue({
+      from: (table: string) => table === 'price_lists'
+        ? {
+            select: () => Promise.resolve({
+              data: [{ openai_file_id: 'file-active', openai_vector_file_id: 'vs-individual' }],
+              error: null,
+            }),
+          }
+        : {
+            insert: (values: unknown) => {
+              mockInsert(values)
+              return { select: () => ({ single: () => Promise.resolve({ data: { id: 'run-1' }, error: null }) }) }
+            },
+          },
+    })
+    ;(listRegisteredVectorStores as jest.Mock).mockResolvedValue([
+      { id: 'vs-master', kind: 'master' },
+      { id: 'vs-individual', kind: 'individual' },
+      { id: 'vs-stale', kind: 'temp' },
+      { id: 'vs-recent', kind: 'temp' },
+      { id: 'vs-registered', kind: 'temp' },
+      { id: 'vs-legacy', kind: 'individual' },
+    ])
+    ;(getDefaultOrganization as jest.Mock).mockResolvedValue({ id: 'org-1', slug: 'principal' })
+    ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue({ id: 'vs-master', kind: 'master' })
+    ;(listRecordedFileIds as jest.Mock).mockResolvedValue(new Set(['file-active', 'file-orphan', 'file-new']))
+    mockOpenAI.vectorStores.list.mockResolvedValue({
+      data: [
+        store('vs-master', 'NeuraliticaBot-Master-Catalog', 90),
+        store('vs-individual', 'NeuraliticaBot-polar.pdf', 90),
+        store('vs-stale', 'Temp-aaaa', 30),
+        store('vs-recent', 'Temp-bbbb', 1),
+        store('vs-registered', 'renamed', 30),
+        store('vs-legacy', 'NeuraliticaBot-old.pdf', 30),
+        store('vs-foreign', 'Another app', 90),
+        store('vs-untracked', 'NeuraliticaBot-staging.pdf', 90),
+        store('vs-old-temp', 'Temp-cccc', 30),
+        store('vs-old-recent', 'Temp-dddd', 1),
+        store('vs-old-master', 'NeuraliticaBot-Master-Catalog', 90),
+        store('vs-org-master', 'NeuraliticaBot-Master-Catalog-org-9', 90),
+      ],
+    })
+    mockOpenAI.vectorStores.files.list.mockImplementation((vectorStoreId: string) => Promise.resolve({
+      data: {
+        'vs-untracked': [{ id: 'file-legacy' }, { id: 'file-active' }],
+        'vs-old-temp': [{ id: 'file-legacy' }, { id: 'file-orphan' }],
+      }[vectorStoreId] ?? [],
+    }))
+    mockOpenAI.files.list.mockResolvedValue({
+      data: [
+        file('file-active', 90),
+        file('file-orphan', 30),
+        file('file-new', 0),
+        file('file-foreign', 90),
+        file('file-legacy', 30),
+      ],
+    })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('findOrphanedResources', () => {
+    it('should report unreferenced registered stores and recorded files unused within the retention window', async () => {
+      const report = await findOrphanedResources(7)
+
+      expect(report.stores.map(s => [s.id, s.kind])).toEqual([
+        ['vs-stale', 'temp'],
+        ['vs-registered', 'temp'],
+        ['vs-legacy', 'individual'],
+      ])
+      expect(report.files.map(f => f.id)).toEqual(['file-orphan'])
+      expect(report.total_bytes).toBe(3 * 2048 + 1024)
+      expect(mockOpenAI.vectorStores.delete).not.toHaveBeenCalled()
+      expect(mockOpenAI.files.delete).not.toHaveBeenCalled()
+    })
+
+    it('should list untracked stores named like ours and their unreferenced files as legacy', async () => {
+      const report = await findOrphanedResources(7)
+
+      expect(report.legacy_stores.map(s => [s.id, s.kind])).toEqual([
+        ['vs-untracked', 'individual'],
+        ['vs-old-temp', 'temp'],
+        ['vs-old-master', 'master'],
+      ])
+      expect(report.legacy_files.map(f => f.id)).toEqual(['file-legacy'])
+      expect(report.legacy_bytes).toBe(3 * 2048 + 1024)
+    })
+
+    it('should keep the unsuffixed master while the default organization has not adopted a master', async () => {
+      ;(findRegisteredVectorStore as jest.Mock).mockResolvedValue(null)
+
+      const report = await findOrphanedResources(7)
+
+      expect(report.legacy_stores.map(s => s.id)).not.toContain('vs-old-master')
+    })
+  })
+
+  describe('collectVectorStoreGarbage', () => {
+    it('should delete the orphans and record what was removed', async () => {
+      mockOpenAI.vectorStores.delete
+        .mockResolvedValueOnce({ deleted: true })
+        .mockRejectedValueOnce(new Error('404 No vector store found'))
+        .mockRejectedValueOnce(new Error('500 Internal error'))
+      mockOpenAI.files.delete.mockResolvedValue({ deleted: true })
+
+      const result = await collectVectorStoreGarbage({ trigger: 'admin', triggeredBy: 'user-1', retentionDays: 7 })
+
+      expect(result.run_id).toBe('run-1')
+      expect(result.deleted_stores).toEqual(['vs-stale', 'vs-registered'])
+      expect(result.deleted_files).toEqual(['file-orphan'])
+      expect(result.errors).toEqual([{ id: 'vs-legacy', error: expect.stringContaining('500') }])
+      expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+        trigger: 'admin',
+        triggered_by: 'user-1',
+        retention_days: 7,
+        deleted_stores: [
+          expect.objectContaining({ id: 'vs-stale', kind: 'temp' }),
+          expect.objectContaining({ id: 'vs-registered', kind: 'temp' }),
+        ],
+        deleted_files: [{ id: 'file-orphan', filename: 'file-orphan.pdf', bytes: 1024 }],
+      }))
+    })
+
+    it('should leave legacy resources alone unless they are included', async () => {
+      mockOpenAI.vectorStores.delete.mockResolvedValue({ deleted: true })
+      mockOpenAI.files.delete.mockResolvedValue({ deleted: true })
+
+      const cron = await collectVectorStoreGarbage({ trigger: 'cron' })
+      expect(cron.deleted_stores).toEqual(['vs-stale', 'vs-registered', 'vs-legacy'])
+      expect(cron.deleted_files).toEqual(['file-orphan'])
+
+      const admin = await collectVectorStoreGarbage({ trigger: 'admin', triggeredBy: 'user-1', includeLegacy: true })
+      expect(admin.deleted_stores).toEqual([
+        'vs-stale', 'vs-registered', 'vs-legacy', 'vs-untracked', 'vs-old-temp', 'vs-old-master',
+      ])
+      expect(admin.deleted_files).toEqual(['file-orphan', 'file-legacy'])
+      expect(mockOpenAI.vectorStores.delete).not.toHaveBeenCalledWith('vs-foreign')
+      expect(mockOpenAI.vectorStores.delete).not.toHaveBeenCalledWith('vs-org-master')
+    })
+
+    it('should not record a run when nothing was orphaned', async () => {
+      mockOpenAI.vectorStores.list.mockResolvedValue({ data: [] })
+      mockOpenAI.files.list.mockResolvedValue({ data: [] })
+
+      const result = await collectVectorStoreGarbage({ trigger: 'cron' })
+
+      expect(result.run_id).toBeNull()
+      expect(mockInsert).not.toHaveBeenCalled()
+    })
+  })
+})
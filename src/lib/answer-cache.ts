@@ -0,0 +1,238 @@
+import { createHash } from 'crypto'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getLLMProvider } from './llm-provider'
+import { getAppSettings } from '@/lib/openai-responses'
+import { DEFAULT_MODEL } from '@/lib/model-settings'
+import type { Citation } from '@/lib/citations'
+import type { PriceComparison } from '@/lib/price-comparison'
+
+/**
+ * Cache of answers to repeated questions ("precio de X"). Entries are keyed by
+ * the normalized question plus a context key (organization, price lists searched,
+ * instructions version, model and chat mode) and matched exactly or by
+ * embedding similarity (with the same numbers and codes) until they expire. Triggers empty the cache whenever a
+ * price list is uploaded, toggled, re-extracted or deleted, or an exchange rate
+ * changes.
+ * Lookups and writes fail open: a cache outage only costs a model call.
+ */
+
+export const EMBEDDING_MODEL = 'text-embedding-3-small'
+export const ANSWER_CACHE_TTL_HOURS = Number(process.env.ANSWER_CACHE_TTL_HOURS) || 24
+// Cosine similarity a different wording needs to reuse an answer
+export const ANSWER_CACHE_MIN_SIMILARITY = Number(process.env.ANSWER_CACHE_MIN_SIMILARITY) || 0.95
+
+export type CacheMatch = 'exact' | 'semantic'
+
+export interface CachedAnswer {
+  id: string
+  response: string
+  citations: Citation[]
+  comparison: PriceComparison | null
+  model: string | null
+  instructions_version: number | null
+  match: CacheMatch
+  similarity: number
+}
+
+export interface CacheLookup {
+  hit: CachedAnswer | null
+  // Embedding of the question, reused when the new answer is stored
+  embedding: number[] | null
+}
+
+export interface CacheEntryInput {
+  organizationId: string
+  contextKey: string
+  query: string
+  embedding: number[] | null
+  response: string
+  citations: Citation[]
+  comparison: PriceComparison | null
+  model: string | null
+  instructionsVersion: number | null
+}
+
+const CACHE_COLUMNS = 'id, response, citations, comparison, model, instructions_version'
+
+export function isAnswerCacheEnabled(): boolean {
+  return process.env.ANSWER_CACHE_ENABLED !== 'false'
+}
+
+/**
+ * Lowercase, accent- and punctuation-free question with collapsed spaces, so
+ * "¿Precio de la Harina PAN?" and "precio de la harina pan" share an entry
+ */
+export function normalizeCacheQuery(query: string): string {
+  return query
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9.,%$\s]/g, ' ')
+    .replace(/[.,]+(\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Numbers and codes in a normalized question ("12", "1020", "3,10", "x200"),
+ * sorted and without repeats. "precio cable 12 awg" and "precio cable 14 awg"
+ * embed almost identically but ask about different products
+ */
+export function extractQueryIdentifiers(normalized: string): string[] {
+  return [...new Set(normalized.split(' ').filter(token => /\d/.test(token)))].sort()
+}
+
+const sameIdentifiers = (a: string, b: string) =>
+  extractQueryIdentifiers(a).join(' ') === extractQueryIdentifiers(b).join(' ')
+
+/**
+ * Hash of everything besides the question that shapes the answer
+ */
+export function buildCacheContextKey(context: {
+  organizationId: string
+  priceListIds: string[]
+  instructionsVersion: number | null
+  model: string
+  mode: string
+}): string {
+  const payload = JSON.stringify({
+    organization: context.organizationId,
+    lists: [...context.priceListIds].sort(),
+    instructions: context.instructionsVersion,
+    model: context.model,
+    mode: context.mode,
+  })
+  return createHash('sha256').update(payload).digest('hex')
+}
+
+/**
+ * Context key for a chat request: the selected price lists (or every active
+ * one of the organization) with its current instructions version and model
+ */
+export async function resolveCacheContextKey(organizationId: string, fileIds: string[], mode: string): Promise<string> {
+  let query = createSupabaseAdmin()
+    .from('price_lists')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  if (fileIds.length > 0) query = query.in('id', fileIds)
+
+  const [{ data, error }, settings] = await Promise.all([query, getAppSettings(organizationId)])
+  if (error) throw new Error(`Failed to load active price lists: ${error.message}`)
+
+  return buildCacheContextKey({
+    organizationId,
+    priceListIds: (data || []).map(list => list.id),
+    instructionsVersion: settings.instructions_version,
+    model: settings.model || DEFAULT_MODEL,
+    mode,
+  })
+}
+
+const toCachedAnswer = (row: Record<string, unknown>, match: CacheMatch, similarity: number): CachedAnswer => ({
+  id: row.id as string,
+  response: row.response as string,
+  citations: (row.citations as Citation[]) || [],
+  comparison: (row.comparison as PriceComparison | null) ?? null,
+  model: (row.model as string | null) ?? null,
+  instructions_version: (row.instructions_version as number | null) ?? null,
+  match,
+  similarity,
+})
+
+async function embedQuery(normalized: string): Promise<number[] | null> {
+  try {
+    return await getLLMProvider().embed({ model: EMBEDDING_MODEL, input: normalized })
+  } catch (error) {
+    console.error('❌ Failed to embed question for the answer cache:', error)
+    return null
+  }
+}
+
+/**
+ * Unexpired answer for the same context: exact question first, then the most
+ * similar embedding above ANSWER_CACHE_MIN_SIMILARITY whose question has the
+ * same numbers and codes
+ */
+export async function lookupCachedAnswer(query: string, contextKey: string): Promise<CacheLookup> {
+  const normalized = normalizeCacheQuery(query)
+  if (!normalized) return { hit: null, embedding: null }
+
+  const supabaseAdmin = createSupabaseAdmin()
+  let embedding: number[] | null = null
+
+  try {
+    const { data: exact, error } = await supabaseAdmin
+      .from('answer_cache')
+      .select(CACHE_COLUMNS)
+      .eq('context_key', contextKey)
+      .eq('query_normalized', normalized)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (error) throw new Error(error.message)
+
+    let hit = exact ? toCachedAnswer(exact, 'exact', 1) : null
+
+    if (!hit) {
+      embedding = await embedQuery(normalized)
+      if (embedding) {
+        const { data: similar, error: matchError } = await supabaseAdmin.rpc('match_answer_cache', {
+          p_context_key: contextKey,
+          p_embedding: JSON.stringify(embedding),
+          p_min_similarity: ANSWER_CACHE_MIN_SIMILARITY,
+        })
+        if (matchError) throw new Error(matchError.message)
+
+        const best = (Array.isArray(similar) ? similar : [])
+          .find(row => sameIdentifiers(normalized, String(row.query_normalized ?? '')))
+        if (best) hit = toCachedAnswer(best, 'semantic', Number(best.similarity))
+      }
+    }
+
+    if (hit) {
+      const { error: hitError } = await supabaseAdmin.rpc('record_answer_cache_hit', { p_id: hit.id })
+      if (hitError) console.error('❌ Failed to count answer cache hit:', hitError)
+    }
+
+    return { hit, embedding }
+  } catch (error) {
+    console.error('❌ Answer cache lookup failed:', error)
+    return { hit: null, embedding }
+  }
+}
+
+/**
+ * Store (or refresh) the answer to a question for ANSWER_CACHE_TTL_HOURS. Never throws
+ */
+export async function storeCachedAnswer(entry: CacheEntryInput, now: Date = new Date()): Promise<void> {
+  const normalized = normalizeCacheQuery(entry.query)
+  if (!normalized) return
+
+  try {
+    const { error } = await createSupabaseAdmin()
+      .from('answer_cache')
+      .upsert({
+        organization_id: entry.organizationId,
+        context_key: entry.contextKey,
+        query_normalized: normalized,
+        embedding: entry.embedding ? JSON.stringify(entry.embedding) : null,
+        response: entry.response,
+        citations: entry.citations,
+        comparison: entry.comparison,
+        model: entry.model,
+        instructions_version: entry.instructionsVersion,
+        hit_count: 0,
+        last_hit_at: null,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ANSWER_CACHE_TTL_HOURS * 3_600_000).toISOString(),
+      }, { onConflict: 'context_key,query_normalized' })
+
+    if (error) {
+      console.error('❌ Failed to store cached answer:', error)
+    }
+  } catch (error) {
+    console.error('❌ Failed to store cached answer:', error)
+  }
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import type { User } from '@supabase/supabase-js'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { cookies } from 'next/headers'
+
+/**
+ * Authorization guards for API routes. The user always comes from
+ * supabase.auth.getUser(), which validates the JWT with Supabase Auth;
+ * getSession() only decodes the cookie and can be forged by the client.
+ *
+ *   const { user, response } = await requireAdmin()
+ *   if (response) return response
+ */
+
+export interface AuthProfile {
+  id: string
+  organization_id: string
+  email: string
+  full_name: string | null
+  role: string
+  is_active: boolean
+  subscription_expires_at: string | null
+}
+
+type Denied = { user: null; profile: null; response: NextResponse }
+
+// Guards that load the profile return it non-null, so routes can scope their
+// queries with profile.organization_id
+export type AuthResult<P extends AuthProfile | null = AuthProfile | null> =
+  | { user: User; profile: P; response: null }
+  | Denied
+
+const PROFILE_COLUMNS = 'id, organization_id, email, full_name, role, is_active, subscription_expires_at'
+
+const deny = (error: string, status: 401 | 403): Denied => ({
+  user: null,
+  profile: null,
+  response: NextResponse.json({ error }, { status }),
+})
+
+/**
+ * Supabase client bound to the request cookies, for auth calls made as the user
+ * (sign out, password change)
+ */
+export async function createRouteClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        }
+      }
+    }
+  )
+}
+
+/**
+ * The verified user of the request, or null
+ */
+export async function getAuthenticatedUser(): Promise<User | null> {
+  const supabase = await createRouteClient()
+  const { data, error } = await supabase.auth.getUser()
+  if (error || !data?.user) return null
+  return data.user
+}
+
+async function getProfile(userId: string): Promise<AuthProfile | null> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('user_profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to load profile for authorization:', error)
+    return null
+  }
+  return data
+}
+
+export function isAdmin(profile: AuthProfile | null): profile is AuthProfile {
+  return !!profile && profile.is_active && profile.role === 'ADMIN'
+}
+
+/**
+ * Platform operators are listed in public.admins (added by hand); they manage
+ * organizations and the data every organization shares
+ */
+export async function isPlatformAdmin(userId: string): Promise<boolean> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('admins')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to check platform admin:', error)
+    return false
+  }
+  return !!data
+}
+
+/**
+ * Admins never expire; users need an enabled account and a license that has not ended
+ */
+export function hasActiveSubscription(profile: AuthProfile | null, now: Date = new Date()): profile is AuthProfile {
+  if (!profile || !profile.is_active) return false
+  if (profile.role === 'ADMIN') return true
+  return !!profile.subscription_expires_at && new Date(profile.subscription_expires_at) > now
+}
+
+/**
+ * Any signed-in user (401 otherwise). The profile is not loaded
+ */
+export async function requireUser(): Promise<AuthResult<null>> {
+  const user = await getAuthenticatedUser()
+  if (!user) return deny('Authentication required', 401)
+  return { user, profile: null, response: null }
+}
+
+/**
+ * Any signed-in user with a profile, for routes scoped to the user's organization
+ */
+export async function requireProfile(): Promise<AuthResult<AuthProfile>> {
+  const user = await getAuthenticatedUser()
+  if (!user) return deny('Authentication required', 401)
+
+  const profile = await getProfile(user.id)
+  if (!profile) return deny('Profile not found', 403)
+
+  return { user, profile, response: null }
+}
+
+/**
+ * An enabled ADMIN of their organization (401 when signed out, 403 otherwise)
+ */
+export async function requireAdmin(): Promise<AuthResult<AuthProfile>> {
+  const user = await getAuthenticatedUser()
+  if (!user) return deny('Authentication required', 401)
+
+  const profile = await getProfile(user.id)
+  if (!isAdmin(profile)) return deny('Admin access required', 403)
+
+  return { user, profile, response: null }
+}
+
+/**
+ * A user allowed to use the chat: enabled and with a current license, or an admin
+ */
+export async function requireActiveSubscription(): Promise<AuthResult<AuthProfile>> {
+  const user = await getAuthenticatedUser()
+  if (!user) return deny('Authentication required', 401)
+
+  const profile = await getProfile(user.id)
+  if (!hasActiveSubscription(profile)) return deny('Active subscription required', 403)
+
+  return { user, profile, response: null }
+}
+
+/**
+ * An enabled ADMIN who is also a platform admin
+ */
+export async function requirePlatformAdmin(): Promise<AuthResult<AuthProfile>> {
+  const result = await requireAdmin()
+  if (result.response) return result
+
+  if (!(await isPlatformAdmin(result.user.id))) return deny('Platform admin access required', 403)
+  return result
+}
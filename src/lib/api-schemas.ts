@@ -0,0 +1,278 @@
+import {
+  array,
+  blankAsNull,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  preprocess,
+  string,
+  union,
+  variants,
+  type Infer,
+} from '@/lib/validation'
+import { ALLOWED_MODELS, MAX_OUTPUT_TOKENS_RANGE, TEMPERATURE_RANGE } from '@/lib/model-settings'
+
+/**
+ * Request body schemas shared by the API routes (parseRequestBody in
+ * api-validation.ts) and the client components that call them
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+// ISO date or date-time as produced by Date.toISOString()
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const timestamp = () => string({ pattern: TIMESTAMP_PATTERN, patternMessage: 'must be an ISO date' })
+// Row IDs; OpenAI file and vector store IDs (file-..., vs_...) stay plain strings
+const uuid = () => string({ pattern: UUID_PATTERN, patternMessage: 'must be a UUID' })
+
+// Chat
+
+export const CHAT_MODES = ['auto', 'comparison', 'chat'] as const
+
+export const chatRequestSchema = object({
+  message: string(),
+  conversationId: optional(uuid()),
+  // price_list IDs to search; empty searches every active list
+  fileIds: optional(array(uuid()), []),
+  // Send output_text deltas as Server-Sent Events
+  stream: optional(boolean(), false),
+  // 'comparison' forces a cross-supplier comparison, 'auto' detects it, 'chat' disables it
+  mode: optional(oneOf(CHAT_MODES), 'auto'),
+})
+export type ChatRequestBody = Infer<typeof chatRequestSchema>
+
+export const renameConversationSchema = object({
+  title: string(),
+})
+export type RenameConversationBody = Infer<typeof renameConversationSchema>
+
+export const FEEDBACK_RATINGS = ['up', 'down'] as const
+export const FEEDBACK_STATUSES = ['open', 'resolved'] as const
+export const MAX_FEEDBACK_TEXT_LENGTH = 2000
+
+const feedbackText = () => optional(nullable(string({ min: 0, max: MAX_FEEDBACK_TEXT_LENGTH })))
+
+export const messageFeedbackSchema = object({
+  messageId: uuid(),
+  rating: oneOf(FEEDBACK_RATINGS),
+  comment: feedbackText(),
+  correct_value: feedbackText(),
+})
+export type MessageFeedbackBody = Infer<typeof messageFeedbackSchema>
+
+// Profile
+
+export const updateProfileSchema = object({
+  name: string({ max: 120 }),
+})
+export type UpdateProfileBody = Infer<typeof updateProfileSchema>
+
+export const changePasswordSchema = object({
+  currentPassword: string({ trim: false }),
+  newPassword: string({ trim: false, min: 6 }),
+})
+export type ChangePasswordBody = Infer<typeof changePasswordSchema>
+
+export const createProfileSchema = object({
+  userId: uuid(),
+  email: string({ pattern: /^[^\s@]+@[^\s@]+$/, patternMessage: 'must be an email address' }),
+  fullName: optional(nullable(string({ min: 0, max: 120 }))),
+})
+export type CreateProfileBody = Infer<typeof createProfileSchema>
+
+// Admin
+
+export const USER_ROLES = ['USER', 'ADMIN'] as const
+
+// Only these user_profiles columns can be changed from the admin panel
+export const userUpdatesSchema = object({
+  full_name: optional(nullable(string({ min: 0, max: 120 }))),
+  role: optional(oneOf(USER_ROLES)),
+  is_active: optional(boolean()),
+  subscription_expires_at: optional(nullable(timestamp())),
+  // Platform admins only (checked by the route)
+  organization_id: optional(uuid()),
+}, { unknownKeys: 'reject' })
+
+export const updateUserSchema = object({
+  userId: uuid(),
+  updates: userUpdatesSchema,
+})
+export type UpdateUserBody = Infer<typeof updateUserSchema>
+
+export const exportMessagesSchema = object({
+  startDate: timestamp(),
+  endDate: timestamp(),
+})
+export type ExportMessagesBody = Infer<typeof exportMessagesSchema>
+
+export const exchangeRateSchema = object({
+  rate: number({ positive: true, coerce: true }),
+  effective_date: string({ pattern: DATE_PATTERN, patternMessage: 'must be a YYYY-MM-DD date' }),
+  source: optional(nullable(string({ min: 0, max: 200 }))),
+})
+export type ExchangeRateBody = Infer<typeof exchangeRateSchema>
+
+export const MAX_VERSION_NOTE_LENGTH = 500
+
+// Optional note of an instructions save or rollback; blank means no note
+const versionNote = () => optional(nullable(string({ min: 0, max: MAX_VERSION_NOTE_LENGTH })))
+
+export const rollbackInstructionsSchema = object({
+  version: number({ integer: true, min: 1, coerce: true }),
+  note: versionNote(),
+})
+export type RollbackInstructionsBody = Infer<typeof rollbackInstructionsSchema>
+
+export const vectorStoreGcSchema = object({
+  retention_days: optional(number({ integer: true, min: 1, coerce: true })),
+  // Also delete untracked stores and files from versions older than the registry
+  include_legacy: optional(boolean(), false),
+})
+export type VectorStoreGcBody = Infer<typeof vectorStoreGcSchema>
+
+export const modelPriceSchema = object({
+  model: string(),
+  usd_per_1m_tokens: number({ min: 0, coerce: true }),
+})
+export type ModelPriceBody = Infer<typeof modelPriceSchema>
+
+export const feedbackResolutionSchema = object({
+  id: uuid(),
+  status: oneOf(FEEDBACK_STATUSES),
+  // Kept only when resolving
+  resolution_note: feedbackText(),
+})
+export type FeedbackResolutionBody = Infer<typeof feedbackResolutionSchema>
+
+export const MAX_EXPECTED_FACTS = 20
+export const MAX_EVAL_TEXT_LENGTH = 2000
+
+// The form sends one fact per line; blank and repeated facts are dropped
+function toFactList(value: unknown): unknown {
+  const facts = typeof value === 'string' ? value.split('\n') : value
+  if (!Array.isArray(facts)) return facts
+
+  const seen = new Set<string>()
+  return facts.filter(fact => {
+    if (typeof fact !== 'string') return true
+    const text = fact.trim()
+    if (!text || seen.has(text)) return false
+    seen.add(text)
+    return true
+  })
+}
+
+const evalQuestionFields = {
+  question: string({ max: MAX_EVAL_TEXT_LENGTH }),
+  expected_facts: preprocess(toFactList, array(string({ max: MAX_EVAL_TEXT_LENGTH }), { min: 1, max: MAX_EXPECTED_FACTS })),
+  // Missing or empty searches every active price list
+  price_list_ids: optional(nullable(array(uuid()))),
+  is_active: optional(boolean(), true),
+}
+
+export const createEvalQuestionSchema = object(evalQuestionFields)
+export type CreateEvalQuestionBody = Infer<typeof createEvalQuestionSchema>
+
+export const updateEvalQuestionSchema = object({ id: uuid(), ...evalQuestionFields })
+export type UpdateEvalQuestionBody = Infer<typeof updateEvalQuestionSchema>
+
+export const appSettingsSchema = object({
+  // null resets the instructions to the default prompt
+  system_instructions: nullable(string({ min: 0, trim: false })),
+  note: versionNote(),
+  // Blank model settings reset to the code defaults
+  model: blankAsNull(oneOf(ALLOWED_MODELS)),
+  temperature: blankAsNull(number({ ...TEMPERATURE_RANGE, coerce: true })),
+  max_output_tokens: blankAsNull(number({ ...MAX_OUTPUT_TOKENS_RANGE, integer: true, coerce: true })),
+})
+export type AppSettingsBody = Infer<typeof appSettingsSchema>
+
+export const QUOTA_LIMIT_KEYS = [
+  'daily_token_limit',
+  'monthly_token_limit',
+  'daily_request_limit',
+  'monthly_request_limit',
+] as const
+
+// A blank limit is unlimited (for per-user overrides: the plan's value)
+const quotaLimit = () => blankAsNull(number({ integer: true, min: 0, coerce: true }))
+
+const quotaLimitFields = {
+  daily_token_limit: quotaLimit(),
+  monthly_token_limit: quotaLimit(),
+  daily_request_limit: quotaLimit(),
+  monthly_request_limit: quotaLimit(),
+} satisfies Record<typeof QUOTA_LIMIT_KEYS[number], unknown>
+
+export const createUsagePlanSchema = object({
+  name: string({ max: 120 }),
+  is_default: optional(boolean(), false),
+  ...quotaLimitFields,
+})
+export type CreateUsagePlanBody = Infer<typeof createUsagePlanSchema>
+
+export const updateUsagePlanSchema = object({
+  id: uuid(),
+  name: string({ max: 120 }),
+  is_default: optional(boolean(), false),
+  ...quotaLimitFields,
+})
+export type UpdateUsagePlanBody = Infer<typeof updateUsagePlanSchema>
+
+export const userQuotaSchema = object({
+  // Blank means no plan (the organization's default plan applies)
+  plan_id: blankAsNull(uuid()),
+  ...quotaLimitFields,
+})
+export type UserQuotaBody = Infer<typeof userQuotaSchema>
+
+export const ORGANIZATION_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+export const createOrganizationSchema = object({
+  name: string({ max: 120 }),
+  // Derived from the name when missing
+  slug: optional(string({
+    max: 60, // MAX_ORGANIZATION_SLUG_LENGTH (organizations.ts)
+    pattern: ORGANIZATION_SLUG_PATTERN,
+    patternMessage: 'must contain only lowercase letters, digits and single hyphens',
+  })),
+})
+export type CreateOrganizationBody = Infer<typeof createOrganizationSchema>
+
+// Vector stores and files
+
+export const masterVectorStoreSchema = variants('action', {
+  sync: object({}),
+  add_file: object({ fileId: string() }),
+  remove_file: object({ fileId: string() }),
+})
+export type MasterVectorStoreBody = Infer<typeof masterVectorStoreSchema>
+
+export const vectorStoresSchema = variants('action', {
+  create: object({ priceListId: uuid(), vectorStoreName: optional(string()) }),
+  add_file: object({ vectorStoreId: string(), fileId: string() }),
+})
+export type VectorStoresBody = Infer<typeof vectorStoresSchema>
+
+export const manageFileSchema = variants('action', {
+  toggle_active: object({ priceListId: uuid() }),
+  upload_and_process: object({
+    priceListId: uuid(),
+    fileName: string({ max: 255 }),
+    // Base64 string or raw bytes
+    fileBuffer: union(string({ trim: false }), array(number({ integer: true, min: 0, max: 255 }), { min: 1 })),
+    autoActivate: optional(boolean(), false),
+  }),
+  delete_complete: object({ priceListId: uuid() }),
+  sync_master_store: object({}),
+  get_master_store_status: object({}),
+  add_to_master_store: object({ fileId: string() }),
+  remove_from_master_store: object({ fileId: string() }),
+})
+export type ManageFileBody = Infer<typeof manageFileSchema>
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { formatFieldErrors, type FieldErrors, type Schema } from '@/lib/validation'
+
+/**
+ * 400 response shared by every route: a readable summary in `error` plus the
+ * message of each invalid field in `fields`
+ */
+export function validationErrorResponse(fields: FieldErrors) {
+  return NextResponse.json(
+    { error: `Invalid request body: ${formatFieldErrors(fields)}`, fields },
+    { status: 400 }
+  )
+}
+
+/**
+ * Read and validate a JSON body. Returns either the typed body or the 400
+ * response to send, like the guards in api-auth.ts:
+ * `const { body, response } = await parseRequestBody(request, schema); if (response) return response`
+ */
+export async function parseRequestBody<T>(
+  request: Request,
+  schema: Schema<T>,
+  options: { optional?: boolean } = {}
+): Promise<{ body: T; response: null } | { body: null; response: NextResponse }> {
+  let json: unknown
+  try {
+    const text = await request.text()
+    // Bodiless requests are validated as {} when the whole body is optional
+    json = text.trim() ? JSON.parse(text) : options.optional ? {} : undefined
+  } catch {
+    return { body: null, response: validationErrorResponse({ body: 'must be valid JSON' }) }
+  }
+
+  const result = schema.parse(json)
+  if (result.errors) {
+    return { body: null, response: validationErrorResponse(result.errors) }
+  }
+  return { body: result.data, response: null }
+}
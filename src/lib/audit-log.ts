@@ -0,0 +1,248 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getAuthenticatedUser } from '@/lib/api-auth'
+import { parseAnalyticsRange, rangeBounds, type AnalyticsRange } from '@/lib/usage-analytics'
+
+/**
+ * Append-only log of administrative actions. audit_events rejects updates and
+ * deletes at the database level; writes fail open so an audit outage never
+ * blocks the action being audited.
+ */
+
+export const AUDIT_ACTIONS = [
+  'user.update',
+  'user.delete',
+  'user.quota_update',
+  'usage_plan.create',
+  'usage_plan.update',
+  'usage_plan.delete',
+  'file.upload',
+  'file.activate',
+  'file.deactivate',
+  'file.delete',
+  'master_store.sync',
+  'master_store.add_file',
+  'master_store.remove_file',
+  'vector_store.create',
+  'vector_store.delete',
+  'vector_store.add_file',
+  'vector_store.remove_file',
+  'vector_store.reconcile',
+  'vector_store.gc',
+  'settings.update',
+  'instructions.rollback',
+  'exchange_rate.create',
+  'exchange_rate.delete',
+  'model_price.update',
+  'model_price.delete',
+  'feedback.update',
+  'eval_question.create',
+  'eval_question.update',
+  'eval_question.delete',
+  'eval_run.start',
+  'messages.export',
+  'organization.create',
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+// A session user or profile
+export interface AuditActor {
+  id: string
+  email?: string | null
+}
+
+export interface AuditEventInput {
+  action: AuditAction
+  targetType: string
+  targetId?: string | null
+  before?: unknown
+  after?: unknown
+  // Defaults to the signed-in user of the request
+  actor?: AuditActor | null
+  // Defaults to the actor's organization (set_organization_from_user)
+  organizationId?: string | null
+}
+
+export interface AuditEvent {
+  id: string
+  organization_id: string | null
+  actor_id: string | null
+  actor_email: string | null
+  action: AuditAction
+  target_type: string
+  target_id: string | null
+  before: unknown
+  after: unknown
+  ip: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export interface AuditFilters {
+  action: AuditAction | null
+  targetType: string | null
+  // Substring of the actor's email
+  actor: string | null
+  range: AnalyticsRange
+  page: number
+  pageSize: number
+}
+
+export const AUDIT_PAGE_SIZE = 50
+export const AUDIT_EXPORT_LIMIT = 10000
+// PostgREST returns at most max_rows (1000 by default) per request
+const AUDIT_EXPORT_CHUNK_SIZE = 1000
+
+const AUDIT_COLUMNS = 'id, organization_id, actor_id, actor_email, action, target_type, target_id, before, after, ip, user_agent, created_at'
+
+const isAction = (value: unknown): value is AuditAction => AUDIT_ACTIONS.includes(value as AuditAction)
+
+/**
+ * Client address as seen by the proxy: first hop of x-forwarded-for, then x-real-ip
+ */
+export function getClientIp(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || headers.get('x-real-ip')?.trim() || null
+}
+
+/**
+ * Record one administrative action. Never throws: a failed write is logged and
+ * the caller carries on
+ */
+export async function recordAuditEvent(request: Request, event: AuditEventInput): Promise<void> {
+  try {
+    const actor = event.actor ?? await getAuthenticatedUser()
+
+    const { error } = await createSupabaseAdmin()
+      .from('audit_events')
+      .insert({
+        actor_id: actor?.id ?? null,
+        actor_email: actor?.email ?? null,
+        action: event.action,
+        target_type: event.targetType,
+        target_id: event.targetId ?? null,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        ip: getClientIp(request.headers),
+        user_agent: request.headers.get('user-agent'),
+        ...(event.organizationId ? { organization_id: event.organizationId } : {}),
+      })
+
+    if (error) {
+      console.error(`❌ Failed to record audit event ${event.action}:`, error)
+    }
+  } catch (error) {
+    console.error(`❌ Failed to record audit event ${event.action}:`, error)
+  }
+}
+
+/**
+ * Validate ?action=&target_type=&actor=&from=&to=&page= for the audit page;
+ * "all" or an empty value disables a filter
+ */
+export function parseAuditFilters(params: URLSearchParams, now: Date = new Date()): { filters: AuditFilters; error: null } | { filters: null; error: string } {
+  const action = params.get('action') || 'all'
+  const targetType = params.get('target_type')?.trim() || null
+  const actor = params.get('actor')?.trim() || null
+  const page = Number(params.get('page') || 1)
+
+  if (action !== 'all' && !isAction(action)) {
+    return { filters: null, error: `Unknown action: ${action}` }
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return { filters: null, error: 'page must be a positive integer' }
+  }
+
+  const { range, error } = parseAnalyticsRange(params.get('from'), params.get('to'), now)
+  if (!range) return { filters: null, error }
+
+  return {
+    filters: {
+      action: action === 'all' ? null : action,
+      targetType,
+      actor,
+      range,
+      page,
+      pageSize: AUDIT_PAGE_SIZE,
+    },
+    error: null,
+  }
+}
+
+// Rows from..to (inclusive) of the matching events, newest first; id breaks
+// ties so consecutive ranges neither repeat nor skip events
+async function fetchAuditEvents(organizationId: string, filters: AuditFilters, from: number, to: number) {
+  const { start, end } = rangeBounds(filters.range)
+  let query = createSupabaseAdmin()
+    .from('audit_events')
+    .select(AUDIT_COLUMNS, { count: 'exact' })
+    .eq('organization_id', organizationId)
+    .gte('created_at', start)
+    .lt('created_at', end)
+
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.targetType) query = query.eq('target_type', filters.targetType)
+  if (filters.actor) query = query.ilike('actor_email', `%${filters.actor.replace(/[%_]/g, '\\$&')}%`)
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, to)
+
+  if (error) throw new Error(`Failed to load audit events: ${error.message}`)
+  return { events: (data || []) as AuditEvent[], total: count ?? 0 }
+}
+
+/**
+ * Matching events of one organization, newest first. Pass a limit to read past
+ * the page (CSV export); those are fetched in chunks, since a single response
+ * is capped by PostgREST's max_rows
+ */
+export async function listAuditEvents(organizationId: string, filters: AuditFilters, limit?: number): Promise<{ events: AuditEvent[]; total: number }> {
+  if (!limit) {
+    const offset = (filters.page - 1) * filters.pageSize
+    return fetchAuditEvents(organizationId, filters, offset, offset + filters.pageSize - 1)
+  }
+
+  const events: AuditEvent[] = []
+  let total = 0
+  while (events.length < limit) {
+    const size = Math.min(AUDIT_EXPORT_CHUNK_SIZE, limit - events.length)
+    const chunk = await fetchAuditEvents(organizationId, filters, events.length, events.length + size - 1)
+    total = chunk.total
+    events.push(...chunk.events)
+    if (chunk.events.length === 0 || events.length >= total) break
+  }
+
+  return { events, total }
+}
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  const raw = typeof value === 'string' ? value : JSON.stringify(value)
+  // Emails, user agents and targets are user-controlled: keep spreadsheets from
+  // evaluating them as formulas
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV with one row per event; before/after are serialized as JSON
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const headers = ['created_at', 'actor_email', 'actor_id', 'action', 'target_type', 'target_id', 'before', 'after', 'ip', 'user_agent']
+  const rows = events.map(event => [
+    event.created_at,
+    event.actor_email,
+    event.actor_id,
+    event.action,
+    event.target_type,
+    event.target_id,
+    event.before,
+    event.after,
+    event.ip,
+    event.user_agent,
+  ].map(csvCell).join(','))
+
+  return [headers.join(','), ...rows].join('\n')
+}
@@ -0,0 +1,134 @@
+import type { ResponseOutputItem } from 'openai/resources/responses/responses'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+/**
+ * File-level source extracted from a Responses API output (OpenAI ids only)
+ */
+export interface FileSource {
+  file_id: string
+  filename: string | null
+  snippet: string | null
+  score: number | null
+}
+
+/**
+ * Citation returned to the client and stored with the assistant message
+ */
+export interface Citation {
+  price_list_id: string | null
+  file_name: string
+  supplier_name: string | null
+  snippet: string | null
+}
+
+const MAX_CITATIONS = 5
+const MAX_SNIPPET_LENGTH = 280
+
+/**
+ * Collapse whitespace and cap a retrieved chunk to a short quotable snippet
+ */
+export function toSnippet(text: string | null | undefined): string | null {
+  if (!text) return null
+  const compact = text.replace(/\s+/g, ' ').trim()
+  if (!compact) return null
+  return compact.length > MAX_SNIPPET_LENGTH
+    ? `${compact.slice(0, MAX_SNIPPET_LENGTH - 1).trimEnd()}…`
+    : compact
+}
+
+/**
+ * Extract cited files from file_search_call results and output_text annotations.
+ * Files explicitly annotated by the model win; otherwise the best-scored results are used.
+ */
+export function extractFileSources(output: ResponseOutputItem[] | null | undefined): FileSource[] {
+  if (!Array.isArray(output)) return []
+
+  // Best-scoring retrieved chunk per file
+  const bestResults = new Map<string, FileSource>()
+  const annotated: { file_id: string; filename: string | null }[] = []
+
+  for (const item of output) {
+    if (item.type === 'file_search_call') {
+      for (const result of item.results || []) {
+        if (!result.file_id) continue
+        const score = result.score ?? null
+        const current = bestResults.get(result.file_id)
+        if (!current || (score ?? 0) > (current.score ?? 0)) {
+          bestResults.set(result.file_id, {
+            file_id: result.file_id,
+            filename: result.filename || null,
+            snippet: toSnippet(result.text),
+            score
+          })
+        }
+      }
+    } else if (item.type === 'message') {
+      for (const part of item.content || []) {
+        if (part.type !== 'output_text') continue
+        for (const annotation of part.annotations || []) {
+          if (annotation.type !== 'file_citation') continue
+          if (annotated.some(a => a.file_id === annotation.file_id)) continue
+          annotated.push({ file_id: annotation.file_id, filename: annotation.filename || null })
+        }
+      }
+    }
+  }
+
+  if (annotated.length > 0) {
+    return annotated.slice(0, MAX_CITATIONS).map(a => {
+      const result = bestResults.get(a.file_id)
+      return {
+        file_id: a.file_id,
+        filename: a.filename || result?.filename || null,
+        snippet: result?.snippet ?? null,
+        score: result?.score ?? null
+      }
+    })
+  }
+
+  return Array.from(bestResults.values())
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, MAX_CITATIONS)
+}
+
+/**
+ * Map OpenAI file sources to price_lists rows (id, file name, supplier)
+ */
+export async function resolveCitations(sources: FileSource[]): Promise<Citation[]> {
+  if (sources.length === 0) return []
+
+  const fallback = (source: FileSource): Citation => ({
+    price_list_id: null,
+    file_name: source.filename || source.file_id,
+    supplier_name: null,
+    snippet: source.snippet
+  })
+
+  try {
+    const supabaseAdmin = createSupabaseAdmin()
+    const { data, error } = await supabaseAdmin
+      .from('price_lists')
+      .select('id, file_name, supplier_name, openai_file_id')
+      .in('openai_file_id', sources.map(s => s.file_id))
+
+    if (error) {
+      console.warn('⚠️ Could not resolve citations to price lists:', error)
+      return sources.map(fallback)
+    }
+
+    const byFileId = new Map((data || []).map(row => [row.openai_file_id, row]))
+    return sources.map(source => {
+      const priceList = byFileId.get(source.file_id)
+      if (!priceList) return fallback(source)
+      return {
+        price_list_id: priceList.id,
+        file_name: priceList.file_name,
+        supplier_name: priceList.supplier_name,
+        snippet: source.snippet
+      }
+    })
+  } catch (error) {
+    console.warn('⚠️ Error resolving citations:', error)
+    return sources.map(fallback)
+  }
+}
@@ -0,0 +1,130 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import type { ChatMessage } from '@/lib/openai-responses'
+
+/**
+ * Conversation helpers shared by the chat and conversations APIs
+ */
+
+export interface ConversationSummary {
+  id: string
+  title: string | null
+  created_at: string
+  updated_at: string | null
+  snippet?: string | null
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'Nueva conversación'
+export const MAX_CONVERSATION_TITLE_LENGTH = 60
+
+/**
+ * Build a conversation title from the first question of the chat
+ * @param question - First user message
+ * @returns Single-line title capped at a word boundary
+ */
+export function buildConversationTitle(question: string | null | undefined): string {
+  const compact = (question || '').replace(/\s+/g, ' ').trim()
+  if (!compact) return DEFAULT_CONVERSATION_TITLE
+
+  const title = compact.charAt(0).toUpperCase() + compact.slice(1)
+  if (title.length <= MAX_CONVERSATION_TITLE_LENGTH) return title
+
+  const cut = title.slice(0, MAX_CONVERSATION_TITLE_LENGTH - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  const base = lastSpace > MAX_CONVERSATION_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut
+  return `${base.replace(/[\s,.;:¿?¡!-]+$/, '')}…`
+}
+
+/**
+ * Normalize a user-provided title for rename requests
+ * @returns Trimmed title, or null when it is empty
+ */
+export function normalizeConversationTitle(title: unknown): string | null {
+  if (typeof title !== 'string') return null
+  const compact = title.replace(/\s+/g, ' ').trim()
+  if (!compact) return null
+  return compact.slice(0, 120)
+}
+
+// Approximate tokens of prior turns sent with each question
+export const DEFAULT_HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 2000
+// Newest messages read from the database before the budget is applied
+export const HISTORY_FETCH_LIMIT = 50
+
+/**
+ * Rough token count (about 4 characters per token), enough to size the history
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Keep the most recent messages that fit in the budget, in chronological order
+ * @param messages - Conversation turns, oldest first
+ */
+export function trimHistoryToBudget(messages: ChatMessage[], budget: number = DEFAULT_HISTORY_TOKEN_BUDGET): ChatMessage[] {
+  const kept: ChatMessage[] = []
+  let used = 0
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content)
+    if (used + tokens > budget) break
+    used += tokens
+    kept.unshift(messages[i])
+  }
+
+  return kept
+}
+
+export interface OwnedConversation {
+  id: string
+  summary: string | null
+  // created_at of the last message folded into the summary
+  summarized_through: string | null
+}
+
+/**
+ * The conversation with its rolling summary, or null unless it belongs to the user
+ */
+export async function getOwnedConversation(conversationId: string, userId: string): Promise<OwnedConversation | null> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('conversations')
+    .select('id, summary, summarized_through')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to verify conversation: ${error.message}`)
+  return data
+}
+
+/**
+ * Prior turns of a conversation as stored in messages, trimmed to the token budget.
+ * The model only ever sees history the server saved, never what the client sends
+ * @param since - Skip messages already folded into the summary (summarized_through)
+ */
+export async function loadConversationHistory(
+  conversationId: string,
+  userId: string,
+  since: string | null = null,
+  budget: number = DEFAULT_HISTORY_TOKEN_BUDGET
+): Promise<ChatMessage[]> {
+  let query = createSupabaseAdmin()
+    .from('messages')
+    .select('role, content')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+
+  if (since) query = query.gt('created_at', since)
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_FETCH_LIMIT)
+
+  if (error) throw new Error(`Failed to load conversation history: ${error.message}`)
+
+  const messages = (data || [])
+    .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content)
+    .reverse() as ChatMessage[]
+
+  return trimHistoryToBudget(messages, budget)
+}
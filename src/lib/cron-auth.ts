@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Check "Authorization: Bearer <CRON_SECRET>" on a scheduled-task request
+ * Returns the error response to send, or null when the request may proceed
+ */
+export function verifyCronRequest(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET is not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
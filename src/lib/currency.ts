@@ -0,0 +1,156 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+/**
+ * USD/VES normalization. Conversions are computed here, never by the model, using
+ * the admin-managed rate that was in effect on the catalog's upload date.
+ */
+
+export interface ExchangeRate {
+  id: string
+  base_currency: string
+  quote_currency: string
+  // Bolívares per US dollar
+  rate: number
+  effective_date: string
+  source: string | null
+  created_at: string
+}
+
+/**
+ * A price expressed in both currencies, with the rate used for the conversion
+ */
+export interface CurrencyAmounts {
+  price_usd: number | null
+  price_ves: number | null
+  exchange_rate: number | null
+  rate_date: string | null
+}
+
+export const BASE_CURRENCY = 'USD'
+export const QUOTE_CURRENCY = 'VES'
+const RATES_CACHE_TTL_MS = 60_000
+
+let cachedRates: { rates: ExchangeRate[]; fetchedAt: number } | null = null
+
+export function invalidateExchangeRatesCache() {
+  cachedRates = null
+}
+
+/**
+ * Round half away from zero to a fixed number of decimals
+ */
+export function roundAmount(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.sign(value) * Math.round(Math.abs(value) * factor * (1 + Number.EPSILON)) / factor
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in Venezuelan time
+ */
+export function toCaracasDate(date: string | Date): string {
+  const value = typeof date === 'string' ? new Date(date) : date
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Caracas' }).format(value)
+}
+
+/**
+ * Rate in effect on a date: the latest one on or before it. Catalogs older than the
+ * first recorded rate use the earliest rate available.
+ */
+export function findRateForDate(rates: ExchangeRate[], date: string | Date): ExchangeRate | null {
+  if (rates.length === 0) return null
+
+  const day = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toCaracasDate(date)
+  const sorted = [...rates].sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+
+  let found: ExchangeRate | null = null
+  for (const rate of sorted) {
+    if (rate.effective_date > day) break
+    found = rate
+  }
+  return found ?? sorted[0]
+}
+
+/**
+ * Express a price in USD and VES; amounts in other currencies are left unconverted
+ */
+export function convertPrice(price: number, currency: string, rate: ExchangeRate | null): CurrencyAmounts {
+  const exchange_rate = rate ? Number(rate.rate) : null
+  const rate_date = rate?.effective_date ?? null
+
+  if (currency === BASE_CURRENCY) {
+    return {
+      price_usd: price,
+      price_ves: exchange_rate ? roundAmount(price * exchange_rate, 2) : null,
+      exchange_rate,
+      rate_date,
+    }
+  }
+
+  if (currency === QUOTE_CURRENCY) {
+    return {
+      price_usd: exchange_rate ? roundAmount(price / exchange_rate, 4) : null,
+      price_ves: price,
+      exchange_rate,
+      rate_date,
+    }
+  }
+
+  return { price_usd: null, price_ves: null, exchange_rate: null, rate_date: null }
+}
+
+/**
+ * Attach USD/VES amounts to priced items using the rate of each item's catalog date
+ */
+export function withCurrencyAmounts<T extends { price: number; currency: string; uploaded_at: string }>(
+  items: T[],
+  rates: ExchangeRate[]
+): (T & CurrencyAmounts)[] {
+  return items.map(item => ({
+    ...item,
+    ...convertPrice(item.price, item.currency, findRateForDate(rates, item.uploaded_at)),
+  }))
+}
+
+/**
+ * Short "≈ Bs 912,50" / "≈ $ 0,27" label for the other currency of a converted price
+ */
+export function formatEquivalent(item: { currency: string } & CurrencyAmounts): string | null {
+  const format = (value: number) =>
+    value.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+
+  if (item.currency === BASE_CURRENCY && typeof item.price_ves === 'number') return `≈ Bs ${format(item.price_ves)}`
+  if (item.currency === QUOTE_CURRENCY && typeof item.price_usd === 'number') return `≈ $ ${format(item.price_usd)}`
+  return null
+}
+
+/**
+ * USD/VES rate history, oldest first (cached for a minute; empty on error)
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const now = Date.now()
+  if (cachedRates && now - cachedRates.fetchedAt < RATES_CACHE_TTL_MS) {
+    return cachedRates.rates
+  }
+
+  try {
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('id, base_currency, quote_currency, rate, effective_date, source, created_at')
+      .eq('base_currency', BASE_CURRENCY)
+      .eq('quote_currency', QUOTE_CURRENCY)
+      .order('effective_date', { ascending: true })
+
+    if (error) {
+      console.warn('Failed to fetch exchange rates, prices will not be converted:', error)
+      return []
+    }
+
+    const rates = (data || []).map(row => ({ ...row, rate: Number(row.rate) }))
+    cachedRates = { rates, fetchedAt: now }
+    return rates
+  } catch (e) {
+    console.warn('Error reading exchange rates, prices will not be converted:', e)
+    return []
+  }
+}
@@ -0,0 +1,530 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { queryPricesFast, type OpenAIResponse } from '@/lib/openai-responses'
+import { lookupStructuredPrices } from '@/lib/price-search'
+import { getOrCreateMasterVectorStore, buildPriceListFilter } from '@/lib/openai'
+import { parsePrice } from '@/lib/price-extraction'
+import { MAX_EVAL_TEXT_LENGTH, MAX_EXPECTED_FACTS, type CreateEvalQuestionBody } from '@/lib/api-schemas'
+
+/**
+ * Golden-question evaluation harness. A run answers every active question of an
+ * organization through the chat path (structured prices, then queryPricesFast on
+ * its master store) and scores each answer by the expected facts it contains.
+ * Questions are copied into the run when it starts and answered in batches that
+ * fit the serverless time budget; runEvalWorker resumes them after each request
+ * and from the cron endpoint (/api/jobs/evals).
+ */
+
+export interface EvalQuestion {
+  id: string
+  question: string
+  expected_facts: string[]
+  price_list_ids: string[] | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type EvalQuestionInput = Pick<EvalQuestion, 'question' | 'expected_facts' | 'price_list_ids' | 'is_active'>
+
+// What a run keeps of each question, so later edits don't change it
+export type EvalRunQuestion = Pick<EvalQuestion, 'id' | 'question' | 'expected_facts' | 'price_list_ids'>
+
+export type EvalRunStatus = 'running' | 'completed' | 'failed'
+
+export interface EvalRun {
+  id: string
+  status: EvalRunStatus
+  total: number
+  completed: number
+  passed: number
+  score: number | null
+  model: string | null
+  instructions_version: number | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface EvalResult {
+  id: string
+  run_id: string
+  question_id: string | null
+  question: string
+  expected_facts: string[]
+  answer: string | null
+  matched_facts: string[]
+  missing_facts: string[]
+  score: number
+  passed: boolean
+  tokens_used: number | null
+  response_time_ms: number | null
+  error: string | null
+}
+
+// A run as claimed by a worker: every column, the question snapshot included
+interface ClaimedEvalRun extends EvalRun {
+  organization_id: string
+  questions: EvalRunQuestion[]
+}
+
+export interface EvalWorkerSummary {
+  answered: number
+  finished: number
+  // Runs marked failed for making no progress
+  stale: number
+}
+
+export interface AnswerScore {
+  matched_facts: string[]
+  missing_facts: string[]
+  // Share of expected facts found, 0..1
+  score: number
+  passed: boolean
+}
+
+export type EvalChange = 'fixed' | 'regressed' | 'unchanged' | 'added' | 'removed'
+
+export interface EvalComparisonRow {
+  key: string
+  question: string
+  base: Pick<EvalResult, 'score' | 'passed'> | null
+  target: Pick<EvalResult, 'score' | 'passed'> | null
+  change: EvalChange
+}
+
+// Defined with the request schemas so client code can share them
+export { MAX_EVAL_TEXT_LENGTH, MAX_EXPECTED_FACTS }
+export const EVAL_RUNS_LIMIT = 50
+export const MAX_EVAL_RUN_QUESTIONS = 100
+// A running run without a new result for this long is marked failed
+export const EVAL_RUN_STALE_MINUTES = Number(process.env.EVAL_RUN_STALE_MINUTES) || 10
+// Keep under the serverless function timeout; the next worker picks up the rest
+const DEFAULT_EVAL_WORKER_BUDGET_MS = Number(process.env.EVAL_WORKER_BUDGET_MS) || 8_000
+
+const RUN_COLUMNS = 'id, status, total, completed, passed, score, model, instructions_version, error, started_at, finished_at'
+const RESULT_COLUMNS = 'id, run_id, question_id, question, expected_facts, answer, matched_facts, missing_facts, score, passed, tokens_used, response_time_ms, error'
+const CURRENCY_TOKENS = /\b(usd|ves|bsf|bss|bs|dolares|bolivares)\b\.?|[$€]/g
+const PRICE_PRECISION = 0.005
+
+/**
+ * Lowercase, without accents and with single spaces
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * A fact that is just an amount ("12,50", "$ 1.250,00", "45 USD") is compared as a number
+ */
+export function isNumericFact(fact: string): boolean {
+  const stripped = normalizeForMatch(fact).replace(CURRENCY_TOKENS, '').replace(/\s/g, '')
+  return /^\d[\d.,]*$/.test(stripped) && parsePrice(stripped) !== null
+}
+
+/**
+ * Every amount written in a text, in Venezuelan or US notation
+ */
+export function extractNumbers(text: string): number[] {
+  return (text.match(/\d[\d.,]*\d|\d/g) || [])
+    .map(token => parsePrice(token))
+    .filter((value): value is number => value !== null)
+}
+
+/**
+ * Whether an answer states a fact: amounts match numerically, anything else as
+ * accent- and case-insensitive text
+ */
+export function factMatches(answer: string, fact: string): boolean {
+  if (isNumericFact(fact)) {
+    const expected = parsePrice(normalizeForMatch(fact).replace(CURRENCY_TOKENS, '').replace(/\s/g, ''))
+    return expected !== null && extractNumbers(answer).some(value => Math.abs(value - expected) < PRICE_PRECISION)
+  }
+  return normalizeForMatch(answer).includes(normalizeForMatch(fact))
+}
+
+/**
+ * Score an answer by the expected facts it contains; it passes with all of them
+ */
+export function scoreAnswer(answer: string, expectedFacts: string[]): AnswerScore {
+  const matched = expectedFacts.filter(fact => factMatches(answer, fact))
+  const missing = expectedFacts.filter(fact => !matched.includes(fact))
+  const score = expectedFacts.length > 0 ? matched.length / expectedFacts.length : 0
+
+  return {
+    matched_facts: matched,
+    missing_facts: missing,
+    score: Math.round(score * 10000) / 10000,
+    passed: expectedFacts.length > 0 && missing.length === 0,
+  }
+}
+
+/**
+ * The row to store for a question body (createEvalQuestionSchema); an empty
+ * price list selection means every active list
+ */
+export function toEvalQuestionInput(body: CreateEvalQuestionBody): EvalQuestionInput {
+  return {
+    question: body.question,
+    expected_facts: body.expected_facts,
+    price_list_ids: body.price_list_ids?.length ? body.price_list_ids : null,
+    is_active: body.is_active,
+  }
+}
+
+/**
+ * Per-question changes between two runs; questions are matched by id, or by text
+ * when the question was deleted
+ */
+export function compareRuns(base: EvalResult[], target: EvalResult[]): EvalComparisonRow[] {
+  const keyOf = (result: EvalResult) => result.question_id ?? `text:${result.question}`
+  const baseByKey = new Map(base.map(result => [keyOf(result), result]))
+  const targetByKey = new Map(target.map(result => [keyOf(result), result]))
+  const keys = [...new Set([...targetByKey.keys(), ...baseByKey.keys()])]
+
+  return keys.map(key => {
+    const before = baseByKey.get(key) ?? null
+    const after = targetByKey.get(key) ?? null
+    const change: EvalChange = !before ? 'added'
+      : !after ? 'removed'
+      : before.passed === after.passed ? 'unchanged'
+      : after.passed ? 'fixed' : 'regressed'
+
+    return {
+      key,
+      question: (after ?? before)!.question,
+      base: before && { score: before.score, passed: before.passed },
+      target: after && { score: after.score, passed: after.passed },
+      change,
+    }
+  })
+}
+
+// numeric columns arrive as strings from PostgREST
+const toRun = (row: Record<string, unknown>): EvalRun => ({
+  ...(row as unknown as EvalRun),
+  score: row.score === null || row.score === undefined ? null : Number(row.score),
+})
+
+const toResult = (row: Record<string, unknown>): EvalResult => ({
+  ...(row as unknown as EvalResult),
+  score: Number(row.score ?? 0),
+})
+
+export async function listEvalQuestions(
+  organizationId: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<EvalQuestion[]> {
+  let query = createSupabaseAdmin()
+    .from('eval_questions')
+    .select('id, question, expected_facts, price_list_ids, is_active, created_at, updated_at')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true })
+
+  if (options.activeOnly) query = query.eq('is_active', true)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load eval questions: ${error.message}`)
+  return data || []
+}
+
+export async function listEvalRuns(organizationId: string, limit = EVAL_RUNS_LIMIT): Promise<EvalRun[]> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('eval_runs')
+    .select(RUN_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load eval runs: ${error.message}`)
+  return (data || []).map(toRun)
+}
+
+/**
+ * A run with its per-question results, or null when it does not exist in the organization
+ */
+export async function getEvalRun(
+  organizationId: string,
+  runId: string
+): Promise<{ run: EvalRun; results: EvalResult[] } | null> {
+  const supabase = createSupabaseAdmin()
+  const { data: run, error } = await supabase
+    .from('eval_runs')
+    .select(RUN_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('id', runId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load eval run: ${error.message}`)
+  if (!run) return null
+
+  const { data: results, error: resultsError } = await supabase
+    .from('eval_results')
+    .select(RESULT_COLUMNS)
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true })
+
+  if (resultsError) throw new Error(`Failed to load eval results: ${resultsError.message}`)
+  return { run: toRun(run), results: (results || []).map(toResult) }
+}
+
+/**
+ * Start a run over a snapshot of the questions. Returns null when the
+ * organization already has a run in progress (one at a time)
+ */
+export async function createEvalRun(
+  organizationId: string,
+  questions: EvalQuestion[],
+  userId: string | null
+): Promise<EvalRun | null> {
+  const snapshot: EvalRunQuestion[] = questions.map(({ id, question, expected_facts, price_list_ids }) => ({
+    id,
+    question,
+    expected_facts,
+    price_list_ids,
+  }))
+
+  const { data, error } = await createSupabaseAdmin()
+    .from('eval_runs')
+    .insert({ organization_id: organizationId, total: questions.length, questions: snapshot, started_by: userId })
+    .select(RUN_COLUMNS)
+    .single()
+
+  if (error?.code === '23505') return null
+  if (error || !data) throw new Error(`Failed to create eval run: ${error?.message ?? 'no row returned'}`)
+  return toRun(data)
+}
+
+/**
+ * Mark running runs without a new result for EVAL_RUN_STALE_MINUTES as failed
+ * (worker killed, cron not scheduled), optionally only one organization's.
+ * Returns how many were marked
+ */
+export async function failStaleEvalRuns(organizationId?: string): Promise<number> {
+  const cutoff = new Date(Date.now() - EVAL_RUN_STALE_MINUTES * 60_000).toISOString()
+  let query = createSupabaseAdmin()
+    .from('eval_runs')
+    .update({
+      status: 'failed',
+      error: `No progress for ${EVAL_RUN_STALE_MINUTES} minutes`,
+      locked_at: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('status', 'running')
+    .lt('progress_at', cutoff)
+
+  if (organizationId) query = query.eq('organization_id', organizationId)
+
+  const { data, error } = await query.select('id')
+  if (error) throw new Error(`Failed to mark stale eval runs: ${error.message}`)
+
+  for (const run of data || []) {
+    console.warn(`⏱️ Eval run ${run.id.slice(-8)} made no progress for ${EVAL_RUN_STALE_MINUTES} minutes, marked failed`)
+  }
+  return data?.length ?? 0
+}
+
+/**
+ * Atomically claim the next running run (see claim_eval_run in schema.sql)
+ */
+async function claimEvalRun(): Promise<ClaimedEvalRun | null> {
+  const { data, error } = await createSupabaseAdmin().rpc('claim_eval_run')
+  if (error) throw new Error(`Failed to claim eval run: ${error.message}`)
+
+  const row = (data as Record<string, unknown>[] | null)?.[0]
+  if (!row) return null
+
+  return {
+    ...toRun(row),
+    organization_id: row.organization_id as string,
+    questions: (row.questions as EvalRunQuestion[] | null) ?? [],
+  }
+}
+
+/**
+ * Answer a question the way the chat does: structured price rows first, then
+ * file_search on the master store (filtered to the question's price lists)
+ */
+async function answerEvalQuestion(
+  organizationId: string,
+  question: EvalRunQuestion,
+  getMasterStoreId: () => Promise<string>
+): Promise<OpenAIResponse> {
+  const priceListIds = question.price_list_ids ?? undefined
+  const priceLookup = await lookupStructuredPrices(organizationId, question.question, priceListIds)
+
+  if (priceLookup) {
+    return queryPricesFast(question.question, [], [], 'eval', { organizationId, priceContext: priceLookup.context })
+  }
+
+  return queryPricesFast(question.question, [await getMasterStoreId()], [], 'eval', {
+    organizationId,
+    filters: priceListIds ? buildPriceListFilter(priceListIds) : undefined,
+  })
+}
+
+/**
+ * Answer and score one question; a failed answer scores 0 but doesn't stop the run
+ */
+async function scoreEvalQuestion(
+  organizationId: string,
+  question: EvalRunQuestion,
+  getMasterStoreId: () => Promise<string>
+): Promise<{ result: Omit<EvalResult, 'id' | 'run_id'>; response: OpenAIResponse | null }> {
+  try {
+    const response = await answerEvalQuestion(organizationId, question, getMasterStoreId)
+    return {
+      response,
+      result: {
+        question_id: question.id,
+        question: question.question,
+        expected_facts: question.expected_facts,
+        answer: response.content,
+        ...scoreAnswer(response.content, question.expected_facts),
+        tokens_used: response.tokens_used ?? null,
+        response_time_ms: response.response_time_ms ?? null,
+        error: null,
+      },
+    }
+  } catch (error) {
+    return {
+      response: null,
+      result: {
+        question_id: question.id,
+        question: question.question,
+        expected_facts: question.expected_facts,
+        answer: null,
+        matched_facts: [],
+        missing_facts: question.expected_facts,
+        score: 0,
+        passed: false,
+        tokens_used: null,
+        response_time_ms: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    }
+  }
+}
+
+/**
+ * Answer the run's next questions until the deadline, in snapshot order,
+ * saving each result as it finishes so progress is visible while the run is
+ * going. Saved results are the source of truth, so a batch killed mid-way
+ * resumes where it stopped. Completes the run after its last question and
+ * releases it otherwise
+ */
+async function advanceEvalRun(run: ClaimedEvalRun, deadline: number): Promise<{ answered: number; finished: boolean }> {
+  const supabase = createSupabaseAdmin()
+  const organizationId = run.organization_id
+  let masterStoreId: string | null = null
+  const getMasterStoreId = async () => (masterStoreId ??= (await getOrCreateMasterVectorStore(organizationId)).id)
+  let answered = 0
+
+  try {
+    const { data: saved, error } = await supabase
+      .from('eval_results')
+      .select('score, passed')
+      .eq('run_id', run.id)
+
+    if (error) throw new Error(`Failed to load eval results: ${error.message}`)
+
+    const scores = (saved || []).map(row => ({ score: Number(row.score ?? 0), passed: !!row.passed }))
+    let model = run.model
+    let instructionsVersion = run.instructions_version
+
+    for (const question of run.questions.slice(scores.length)) {
+      if (Date.now() >= deadline) break
+
+      const { result, response } = await scoreEvalQuestion(organizationId, question, getMasterStoreId)
+      model ??= response?.generation?.model ?? null
+      instructionsVersion ??= response?.instructions_version ?? null
+
+      const { error: insertError } = await supabase.from('eval_results').insert({ run_id: run.id, ...result })
+      if (insertError) throw new Error(`Failed to save eval result: ${insertError.message}`)
+
+      answered += 1
+      scores.push({ score: result.score, passed: result.passed })
+      await supabase
+        .from('eval_runs')
+        .update({
+          completed: scores.length,
+          passed: scores.filter(entry => entry.passed).length,
+          model,
+          instructions_version: instructionsVersion,
+          progress_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+    }
+
+    if (scores.length < run.questions.length) {
+      await supabase.from('eval_runs').update({ locked_at: null }).eq('id', run.id)
+      return { answered, finished: false }
+    }
+
+    const passed = scores.filter(entry => entry.passed).length
+    const scoreSum = scores.reduce((sum, entry) => sum + entry.score, 0)
+    await supabase
+      .from('eval_runs')
+      .update({
+        status: 'completed',
+        completed: scores.length,
+        passed,
+        score: scores.length > 0 ? Math.round((scoreSum / scores.length) * 10000) / 10000 : null,
+        model,
+        instructions_version: instructionsVersion,
+        locked_at: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+
+    console.log(`🧪 Eval run ${run.id.slice(-8)}: ${passed}/${scores.length} passed`)
+    return { answered, finished: true }
+  } catch (error) {
+    console.error(`❌ Eval run ${run.id.slice(-8)} failed:`, error)
+    await supabase
+      .from('eval_runs')
+      .update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        locked_at: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+    return { answered, finished: true }
+  }
+}
+
+/**
+ * Worker loop: mark stale runs failed, then claim running runs and answer
+ * their questions until the time budget is spent. Several workers can run at
+ * once since claiming uses FOR UPDATE SKIP LOCKED. Never throws
+ */
+export async function runEvalWorker(options: { budgetMs?: number } = {}): Promise<EvalWorkerSummary> {
+  const deadline = Date.now() + (options.budgetMs ?? DEFAULT_EVAL_WORKER_BUDGET_MS)
+  const summary: EvalWorkerSummary = { answered: 0, finished: 0, stale: 0 }
+
+  try {
+    summary.stale = await failStaleEvalRuns()
+
+    while (Date.now() < deadline) {
+      const run = await claimEvalRun()
+      if (!run) break
+
+      const progress = await advanceEvalRun(run, deadline)
+      summary.answered += progress.answered
+      if (progress.finished) summary.finished += 1
+    }
+  } catch (error) {
+    console.error('❌ Eval worker stopped:', error)
+  }
+
+  if (summary.answered > 0 || summary.stale > 0) {
+    console.log(`🧪 Eval worker: ${summary.answered} answered, ${summary.finished} runs finished, ${summary.stale} stale`)
+  }
+
+  return summary
+}
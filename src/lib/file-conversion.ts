@@ -0,0 +1,232 @@
+import ExcelJS from 'exceljs'
+import { getLLMProvider } from './llm-provider'
+import type { SupportedFileType } from './file-types'
+
+/**
+ * Convert uploaded price lists into a form the Files API / file_search can index well.
+ * PDF and DOCX are sent as-is; spreadsheets, CSV and images become Markdown.
+ */
+
+export interface PreparedUpload {
+  buffer: Buffer
+  filename: string
+  mimeType: string
+  converted: boolean
+}
+
+// Repeat the table header every N rows so retrieval chunks keep the column names
+const HEADER_REPEAT_ROWS = 40
+const IMAGE_TRANSCRIPTION_MODEL = 'gpt-4o-mini'
+
+const escapeCell = (value: string) => value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim()
+
+/**
+ * Detect the delimiter of a CSV from its first line (comma, semicolon or tab)
+ */
+export function detectCSVDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates = [',', ';', '\t']
+  let best = ','
+  let bestCount = 0
+  for (const candidate of candidates) {
+    let count = 0
+    let inQuotes = false
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes
+      else if (char === candidate && !inQuotes) count++
+    }
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into rows of cells
+ */
+export function parseCSV(text: string, delimiter = detectCSVDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Render rows as Markdown tables; the first non-empty row is used as header
+ * @param title - Section title (sheet name or file name)
+ */
+export function rowsToMarkdown(title: string, rows: string[][]): string {
+  const cleaned = rows
+    .map(row => row.map(cell => escapeCell(cell ?? '')))
+    .filter(row => row.some(cell => cell !== ''))
+
+  if (cleaned.length === 0) return `## ${title}\n\n_(sin datos)_\n`
+
+  // Drop columns that are empty in every row
+  const width = Math.max(...cleaned.map(row => row.length))
+  const keep = Array.from({ length: width }, (_, col) => cleaned.some(row => (row[col] ?? '') !== ''))
+  const normalized = cleaned.map(row => keep.flatMap((k, col) => (k ? [row[col] ?? ''] : [])))
+
+  const [header, ...body] = normalized
+  const headerCells = header.map((cell, i) => cell || `Columna ${i + 1}`)
+  const headerLines = [`| ${headerCells.join(' | ')} |`, `| ${headerCells.map(() => '---').join(' | ')} |`]
+
+  const lines: string[] = [`## ${title}`, '']
+  if (body.length === 0) {
+    lines.push(...headerLines)
+  }
+  body.forEach((row, index) => {
+    if (index % HEADER_REPEAT_ROWS === 0) {
+      if (index > 0) lines.push('')
+      lines.push(...headerLines)
+    }
+    lines.push(`| ${row.join(' | ')} |`)
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+// Plain-text value of an ExcelJS cell (formulas use their cached result)
+function cellToText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('')
+    if ('result' in value) return cellToText(value.result as ExcelJS.CellValue)
+    if ('text' in value) return String(value.text)
+    if ('error' in value) return ''
+    return ''
+  }
+  return String(value)
+}
+
+/**
+ * Read every worksheet of an XLSX workbook as rows of plain-text cells
+ */
+export async function spreadsheetToRows(buffer: Buffer): Promise<{ name: string; rows: string[][] }[]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer)
+
+  const sheets: { name: string; rows: string[][] }[] = []
+  workbook.eachSheet(sheet => {
+    const rows: string[][] = []
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = []
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push(cellToText(row.getCell(col).value))
+      }
+      rows.push(cells)
+    })
+    sheets.push({ name: sheet.name, rows })
+  })
+
+  return sheets
+}
+
+/**
+ * Convert every worksheet of an XLSX workbook into Markdown tables
+ */
+export async function spreadsheetToMarkdown(buffer: Buffer, filename: string): Promise<string> {
+  const sheets = await spreadsheetToRows(buffer)
+  const sections: string[] = [`# ${filename}`, '']
+  for (const sheet of sheets) {
+    sections.push(rowsToMarkdown(`Hoja: ${sheet.name}`, sheet.rows))
+  }
+  return sections.join('\n')
+}
+
+/**
+ * Convert a CSV file into a Markdown table
+ */
+export function csvToMarkdown(buffer: Buffer, filename: string): string {
+  const rows = parseCSV(buffer.toString('utf8'))
+  return [`# ${filename}`, '', rowsToMarkdown('Datos', rows)].join('\n')
+}
+
+/**
+ * Transcribe an image of a price list into Markdown with a vision model
+ */
+export async function imageToMarkdown(buffer: Buffer, mimeType: string, filename: string): Promise<string> {
+  const startTime = Date.now()
+
+  const transcription = await getLLMProvider().transcribeImage({
+    model: IMAGE_TRANSCRIPTION_MODEL,
+    maxTokens: 4000,
+    image: buffer,
+    mimeType,
+    instructions: 'Transcribe fielmente el contenido de esta imagen (lista de precios o catálogo). ' +
+      'Usa tablas Markdown para los datos tabulares conservando códigos, descripciones, presentaciones, monedas y precios exactamente como aparecen. ' +
+      'No inventes ni completes valores ilegibles; márcalos como [ilegible]. Responde solo con el Markdown.'
+  })
+  if (!transcription) {
+    throw new Error('Image transcription returned no content')
+  }
+
+  console.log(`🖼️ Image transcribed in ${Date.now() - startTime}ms: ${filename}`)
+  return `# ${filename}\n\n${transcription}\n`
+}
+
+const toMarkdownUpload = (markdown: string, filename: string): PreparedUpload => ({
+  buffer: Buffer.from(markdown, 'utf8'),
+  filename: `${filename.replace(/\.[^.]+$/, '')}.md`,
+  mimeType: 'text/markdown',
+  converted: true
+})
+
+/**
+ * Turn a validated upload into what gets sent to the Files API
+ */
+export async function prepareFileForUpload(
+  buffer: Buffer,
+  filename: string,
+  type: SupportedFileType
+): Promise<PreparedUpload> {
+  switch (type.kind) {
+    case 'spreadsheet':
+      return toMarkdownUpload(await spreadsheetToMarkdown(buffer, filename), filename)
+    case 'csv':
+      return toMarkdownUpload(csvToMarkdown(buffer, filename), filename)
+    case 'image':
+      return toMarkdownUpload(await imageToMarkdown(buffer, type.mimeType, filename), filename)
+    default:
+      return { buffer, filename, mimeType: type.mimeType, converted: false }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Supported upload formats for price lists, detected by extension and magic bytes.
+ * Safe to import from client components (no Node-only APIs).
+ */
+
+export type FileKind = 'pdf' | 'docx' | 'spreadsheet' | 'csv' | 'image'
+
+export interface SupportedFileType {
+  kind: FileKind
+  extension: string
+  mimeType: string
+  label: string
+}
+
+export const SUPPORTED_FILE_TYPES: SupportedFileType[] = [
+  { kind: 'pdf', extension: 'pdf', mimeType: 'application/pdf', label: 'PDF' },
+  { kind: 'docx', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'DOCX' },
+  { kind: 'spreadsheet', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', label: 'XLSX' },
+  { kind: 'csv', extension: 'csv', mimeType: 'text/csv', label: 'CSV' },
+  { kind: 'image', extension: 'png', mimeType: 'image/png', label: 'PNG' },
+  { kind: 'image', extension: 'jpg', mimeType: 'image/jpeg', label: 'JPG' },
+  { kind: 'image', extension: 'jpeg', mimeType: 'image/jpeg', label: 'JPG' },
+  { kind: 'image', extension: 'webp', mimeType: 'image/webp', label: 'WEBP' },
+]
+
+// Value for <input accept="...">
+export const ACCEPTED_FILE_EXTENSIONS = SUPPORTED_FILE_TYPES.map(t => `.${t.extension}`).join(',')
+
+// Human-readable list for messages, e.g. "PDF, DOCX, XLSX, CSV, PNG, JPG, WEBP"
+export const SUPPORTED_FILE_LABELS = Array.from(new Set(SUPPORTED_FILE_TYPES.map(t => t.label))).join(', ')
+
+/**
+ * Get the lowercase extension of a file name (without the dot)
+ */
+export function getFileExtension(filename: string): string {
+  const match = /\.([^./\\]+)$/.exec(filename)
+  return match ? match[1].toLowerCase() : ''
+}
+
+/**
+ * Look up a supported type by file name extension only (used for client-side filtering)
+ */
+export function getFileTypeByName(filename: string): SupportedFileType | null {
+  const extension = getFileExtension(filename)
+  return SUPPORTED_FILE_TYPES.find(t => t.extension === extension) || null
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b)
+
+const asciiIncludes = (bytes: Uint8Array, text: string) => {
+  const needle = Array.from(text, c => c.charCodeAt(0))
+  outer: for (let i = 0; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) continue outer
+    }
+    return true
+  }
+  return false
+}
+
+/**
+ * Check that the file content matches what its extension claims
+ */
+export function matchesMagicBytes(bytes: Uint8Array, type: SupportedFileType): boolean {
+  switch (type.extension) {
+    case 'pdf':
+      return startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d]) // %PDF-
+    case 'docx':
+      // ZIP container with a Word document part
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) && asciiIncludes(bytes, 'word/')
+    case 'xlsx':
+      // ZIP container with a workbook part
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) && asciiIncludes(bytes, 'xl/')
+    case 'png':
+      return startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    case 'jpg':
+    case 'jpeg':
+      return startsWith(bytes, [0xff, 0xd8, 0xff])
+    case 'webp':
+      return startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8) // RIFF....WEBP
+    case 'csv': {
+      // Plain text: reject binary content (NUL bytes) in the first 8KB
+      const sample = bytes.subarray(0, 8192)
+      return sample.length > 0 && !sample.includes(0)
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Detect a supported file type from its name and content
+ * @returns The matching type, or null if unsupported or the content does not match the extension
+ */
+export function detectFileType(bytes: Uint8Array, filename: string): SupportedFileType | null {
+  const type = getFileTypeByName(filename)
+  if (!type) return null
+  return matchesMagicBytes(bytes, type) ? type : null
+}
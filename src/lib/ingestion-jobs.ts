@@ -0,0 +1,409 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import {
+  uploadFileToOpenAI,
+  addFileToMasterVectorStore,
+  removeFileFromMasterVectorStore,
+  buildMasterFileAttributes,
+} from './openai'
+import { detectFileType } from './file-types'
+import { prepareFileForUpload } from './file-conversion'
+import { processPriceListExtraction } from './price-extraction'
+
+/**
+ * Persistent queue for slow file work (OpenAI upload, vector store indexing
+ * and removal) stored in public.ingestion_jobs. API routes enqueue a job and
+ * return right away; the worker runs after the response and from the cron
+ * endpoint (/api/jobs/ingestion), retrying failures with exponential backoff.
+ */
+
+export type IngestionJobType = 'upload' | 'activate' | 'deactivate'
+export type IngestionJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface IngestionJob {
+  id: string
+  price_list_id: string
+  job_type: IngestionJobType
+  status: IngestionJobStatus
+  payload: Record<string, unknown>
+  attempts: number
+  max_attempts: number
+  run_after: string
+  last_error: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export type JobRunResult = 'completed' | 'waiting' | 'retry' | 'failed'
+
+export interface WorkerSummary {
+  processed: number
+  completed: number
+  waiting: number
+  retried: number
+  failed: number
+}
+
+// A handler either finishes or asks to be polled again (OpenAI still indexing)
+type JobOutcome = { done: true } | { done: false; pollInMs: number }
+
+// Supabase Storage bucket holding the original uploads
+export const PRICE_LISTS_BUCKET = 'price-lists'
+
+const BASE_RETRY_DELAY_MS = 5_000
+const MAX_RETRY_DELAY_MS = 10 * 60_000
+const INDEXING_POLL_MS = 3_000
+// Keep under the serverless function timeout; the cron endpoint picks up the rest
+const DEFAULT_WORKER_BUDGET_MS = Number(process.env.INGESTION_WORKER_BUDGET_MS) || 8_000
+
+const JOB_COLUMNS = 'id, price_list_id, job_type, status, payload, attempts, max_attempts, run_after, last_error, created_by, created_at, updated_at, completed_at'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error'
+
+/**
+ * Delay before the next attempt: 5s, 10s, 20s... capped at 10 minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Cancel a price list's jobs that have not started, optionally only some types.
+ * With includeRunning, jobs a worker is handling are cancelled too: the worker
+ * finishes its call but its outcome is not recorded (see runIngestionJob)
+ */
+export async function cancelPendingJobs(
+  priceListId: string,
+  jobTypes?: IngestionJobType[],
+  options: { includeRunning?: boolean } = {}
+): Promise<void> {
+  let query = createSupabaseAdmin()
+    .from('ingestion_jobs')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('price_list_id', priceListId)
+  query = options.includeRunning ? query.in('status', ['pending', 'running']) : query.eq('status', 'pending')
+  if (jobTypes) query = query.in('job_type', jobTypes)
+
+  const { error } = await query
+  if (error) {
+    throw new Error(`Failed to cancel pending jobs: ${error.message}`)
+  }
+}
+
+/**
+ * Queue a job for a price list. Activation and deactivation supersede any
+ * pending or running toggle for the same file, so the latest request wins.
+ */
+export async function enqueueIngestionJob(params: {
+  priceListId: string
+  jobType: IngestionJobType
+  payload?: Record<string, unknown>
+  createdBy?: string | null
+}): Promise<IngestionJob> {
+  if (params.jobType !== 'upload') {
+    await cancelPendingJobs(params.priceListId, ['activate', 'deactivate'], { includeRunning: true })
+  }
+
+  const { data, error } = await createSupabaseAdmin()
+    .from('ingestion_jobs')
+    .insert({
+      price_list_id: params.priceListId,
+      job_type: params.jobType,
+      payload: params.payload ?? {},
+      created_by: params.createdBy ?? null,
+    })
+    .select(JOB_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${params.jobType} job: ${error?.message ?? 'no row returned'}`)
+  }
+
+  console.log(`📥 Queued ${params.jobType} job ${data.id.slice(-8)} for price list ${params.priceListId.slice(-8)}`)
+  return data as IngestionJob
+}
+
+/**
+ * Atomically claim the next runnable job (see claim_ingestion_job in schema.sql)
+ */
+export async function claimNextJob(): Promise<IngestionJob | null> {
+  const { data, error } = await createSupabaseAdmin().rpc('claim_ingestion_job')
+
+  if (error) {
+    throw new Error(`Failed to claim ingestion job: ${error.message}`)
+  }
+
+  return (data as IngestionJob[] | null)?.[0] ?? null
+}
+
+async function getPriceList(priceListId: string) {
+  const { data, error } = await createSupabaseAdmin()
+    .from('price_lists')
+    .select('id, organization_id, file_name, supplier_name, storage_path, openai_file_id, uploaded_at')
+    .eq('id', priceListId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Price list not found: ${error?.message ?? priceListId}`)
+  }
+
+  return data
+}
+
+async function updatePriceList(priceListId: string, changes: Record<string, unknown>) {
+  const { error } = await createSupabaseAdmin()
+    .from('price_lists')
+    .update(changes)
+    .eq('id', priceListId)
+
+  if (error) {
+    throw new Error(`Failed to update price list: ${error.message}`)
+  }
+}
+
+// Download the stored original, upload it to OpenAI and extract its price rows
+async function runUploadJob(job: IngestionJob): Promise<JobOutcome> {
+  const priceList = await getPriceList(job.price_list_id)
+
+  const { data: blob, error: downloadError } = await createSupabaseAdmin()
+    .storage
+    .from(PRICE_LISTS_BUCKET)
+    .download(priceList.storage_path)
+
+  if (downloadError || !blob) {
+    throw new Error(`Failed to download ${priceList.storage_path}: ${downloadError?.message ?? 'empty file'}`)
+  }
+
+  const buffer = Buffer.from(await blob.arrayBuffer())
+  const fileType = detectFileType(buffer, priceList.file_name)
+  if (!fileType) {
+    throw new Error(`Unsupported file type: ${priceList.file_name}`)
+  }
+
+  const prepared = await prepareFileForUpload(buffer, priceList.file_name, fileType)
+
+  // A previous attempt may have uploaded the file before failing later on
+  let openaiFileId = priceList.openai_file_id
+  if (!openaiFileId) {
+    const uploadResult = await uploadFileToOpenAI(prepared.buffer, prepared.filename, prepared.mimeType)
+    openaiFileId = uploadResult.file_id
+    await updatePriceList(job.price_list_id, { openai_file_id: openaiFileId, mime_type: fileType.mimeType })
+  }
+
+  await processPriceListExtraction({
+    priceListId: job.price_list_id,
+    buffer,
+    fileType,
+    prepared,
+    openaiFileId
+  })
+
+  if (job.payload.auto_activate === true) {
+    await enqueueIngestionJob({ priceListId: job.price_list_id, jobType: 'activate', createdBy: job.created_by })
+  }
+
+  return { done: true }
+}
+
+// A deactivation queued after this activation wins, even once this one started
+async function hasNewerDeactivation(job: IngestionJob): Promise<boolean> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('ingestion_jobs')
+    .select('id')
+    .eq('price_list_id', job.price_list_id)
+    .eq('job_type', 'deactivate')
+    .gt('created_at', job.created_at)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up newer deactivations: ${error.message}`)
+  }
+
+  return !!data
+}
+
+async function detachFromMasterStore(priceList: { organization_id: string; openai_file_id: string | null }) {
+  if (!priceList.openai_file_id) return
+
+  try {
+    await removeFileFromMasterVectorStore(priceList.organization_id, priceList.openai_file_id)
+  } catch (error) {
+    // Not in the store (never indexed or already removed) is the desired end state
+    if (!/\b404\b/.test(errorMessage(error))) throw error
+  }
+}
+
+// Index the file in its organization's master store, tagged with its price list attributes so
+// chat can filter to it; the price list only becomes active once OpenAI has
+// finished indexing, and never after a newer deactivation
+async function runActivateJob(job: IngestionJob): Promise<JobOutcome> {
+  const priceList = await getPriceList(job.price_list_id)
+
+  if (!priceList.openai_file_id) {
+    throw new Error('File must be uploaded to OpenAI before activating')
+  }
+
+  if (await hasNewerDeactivation(job)) {
+    console.log(`⏭️ Activation job ${job.id.slice(-8)} superseded by a newer deactivation`)
+    return { done: true }
+  }
+
+  const masterFile = await addFileToMasterVectorStore(priceList.organization_id, priceList.openai_file_id, buildMasterFileAttributes(priceList))
+  if (masterFile.status === 'failed' || masterFile.status === 'cancelled') {
+    // Detach so the next attempt indexes the file again
+    await removeFileFromMasterVectorStore(priceList.organization_id, priceList.openai_file_id)
+    throw new Error(`Master vector store indexing ${masterFile.status}: ${masterFile.last_error?.message ?? 'no details'}`)
+  }
+
+  if (masterFile.status === 'in_progress') {
+    return { done: false, pollInMs: INDEXING_POLL_MS }
+  }
+
+  // The deactivation may have run while the file was being added; undo the add
+  if (await hasNewerDeactivation(job)) {
+    await detachFromMasterStore(priceList)
+    console.log(`⏭️ Activation job ${job.id.slice(-8)} superseded by a newer deactivation`)
+    return { done: true }
+  }
+
+  await updatePriceList(job.price_list_id, { is_active: true })
+  return { done: true }
+}
+
+// Remove the file from the master store; the route already marked it inactive
+async function runDeactivateJob(job: IngestionJob): Promise<JobOutcome> {
+  const priceList = await getPriceList(job.price_list_id)
+
+  await detachFromMasterStore(priceList)
+
+  // Re-assert in case an activation finished while this job was queued
+  await updatePriceList(job.price_list_id, { is_active: false })
+  return { done: true }
+}
+
+const JOB_HANDLERS: Record<IngestionJobType, (job: IngestionJob) => Promise<JobOutcome>> = {
+  upload: runUploadJob,
+  activate: runActivateJob,
+  deactivate: runDeactivateJob,
+}
+
+// Only while the job is still running: a job cancelled meanwhile stays cancelled
+async function updateJob(jobId: string, changes: Record<string, unknown>) {
+  const { error } = await createSupabaseAdmin()
+    .from('ingestion_jobs')
+    .update({ ...changes, locked_at: null, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running')
+
+  if (error) {
+    console.error(`❌ Failed to update ingestion job ${jobId.slice(-8)}:`, error)
+  }
+}
+
+/**
+ * Run a claimed job and record the outcome: completed, waiting on OpenAI
+ * (re-queued without using an attempt), retried with backoff, or failed
+ * once max_attempts is reached. A job cancelled while it ran stays cancelled.
+ * Never throws.
+ */
+export async function runIngestionJob(job: IngestionJob): Promise<JobRunResult> {
+  const startTime = Date.now()
+  console.log(`⚙️ Running ${job.job_type} job ${job.id.slice(-8)} (attempt ${job.attempts + 1}/${job.max_attempts})`)
+
+  try {
+    const outcome = await JOB_HANDLERS[job.job_type](job)
+
+    if (!outcome.done) {
+      await updateJob(job.id, {
+        status: 'pending',
+        run_after: new Date(Date.now() + outcome.pollInMs).toISOString()
+      })
+      return 'waiting'
+    }
+
+    await updateJob(job.id, {
+      status: 'completed',
+      last_error: null,
+      completed_at: new Date().toISOString()
+    })
+    console.log(`✅ ${job.job_type} job ${job.id.slice(-8)} completed in ${Date.now() - startTime}ms`)
+    return 'completed'
+  } catch (error) {
+    const attempts = job.attempts + 1
+    const lastError = errorMessage(error)
+
+    if (attempts >= job.max_attempts) {
+      console.error(`❌ ${job.job_type} job ${job.id.slice(-8)} failed after ${attempts} attempts:`, lastError)
+      await updateJob(job.id, { status: 'failed', attempts, last_error: lastError })
+      return 'failed'
+    }
+
+    const delay = getRetryDelay(attempts)
+    console.warn(`🔁 ${job.job_type} job ${job.id.slice(-8)} failed (attempt ${attempts}/${job.max_attempts}), retrying in ${delay}ms:`, lastError)
+    await updateJob(job.id, {
+      status: 'pending',
+      attempts,
+      last_error: lastError,
+      run_after: new Date(Date.now() + delay).toISOString()
+    })
+    return 'retry'
+  }
+}
+
+async function getNextRunAt(): Promise<number | null> {
+  const { data } = await createSupabaseAdmin()
+    .from('ingestion_jobs')
+    .select('run_after')
+    .eq('status', 'pending')
+    .order('run_after', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  return data ? new Date(data.run_after).getTime() : null
+}
+
+/**
+ * Worker loop: claim and run jobs until the queue is empty or the time budget
+ * is spent. Jobs due within the budget (indexing polls, short backoffs) are
+ * waited for; later ones are left for the next run. Several workers can run
+ * at once since claiming uses FOR UPDATE SKIP LOCKED.
+ */
+export async function runIngestionWorker(options: { budgetMs?: number } = {}): Promise<WorkerSummary> {
+  const deadline = Date.now() + (options.budgetMs ?? DEFAULT_WORKER_BUDGET_MS)
+  const summary: WorkerSummary = { processed: 0, completed: 0, waiting: 0, retried: 0, failed: 0 }
+  const tally: Record<JobRunResult, keyof WorkerSummary> = {
+    completed: 'completed',
+    waiting: 'waiting',
+    retry: 'retried',
+    failed: 'failed',
+  }
+
+  try {
+    while (Date.now() < deadline) {
+      const job = await claimNextJob()
+
+      if (!job) {
+        const nextRunAt = await getNextRunAt()
+        if (nextRunAt === null || nextRunAt >= deadline) break
+        await sleep(Math.max(0, nextRunAt - Date.now()))
+        continue
+      }
+
+      const result = await runIngestionJob(job)
+      summary.processed += 1
+      summary[tally[result]] += 1
+    }
+  } catch (error) {
+    console.error('❌ Ingestion worker stopped:', error)
+  }
+
+  if (summary.processed > 0) {
+    console.log(`📦 Ingestion worker: ${summary.completed} completed, ${summary.waiting} waiting, ${summary.retried} retried, ${summary.failed} failed`)
+  }
+
+  return summary
+}
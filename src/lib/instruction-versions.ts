@@ -0,0 +1,106 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+/**
+ * Version history of each organization's system instructions. Every save
+ * appends a version (save_instruction_version) and a rollback re-saves an old
+ * text as a new one, so the history is never rewritten.
+ */
+
+export interface InstructionVersion {
+  id: string
+  version: number
+  // null = built-in default prompt
+  system_instructions: string | null
+  note: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface InstructionVersionWithAuthor extends InstructionVersion {
+  created_by_email: string | null
+}
+
+export const INSTRUCTION_VERSIONS_LIMIT = 50
+
+const VERSION_COLUMNS = 'id, version, system_instructions, note, created_by, created_at'
+
+export function rollbackNote(version: number, note: string | null) {
+  return note ? `Restaurada desde la versión ${version}: ${note}` : `Restaurada desde la versión ${version}`
+}
+
+/**
+ * Blank instructions mean "use the default prompt", stored as null
+ */
+export function normalizeInstructions(text: string | null | undefined): string | null {
+  return text && text.trim() ? text : null
+}
+
+/**
+ * Save instructions as the organization's next version and make them the current ones
+ */
+export async function saveInstructionVersion(
+  organizationId: string,
+  instructions: string | null,
+  note: string | null,
+  userId: string | null
+): Promise<InstructionVersion> {
+  const { data, error } = await createSupabaseAdmin().rpc('save_instruction_version', {
+    p_organization_id: organizationId,
+    p_instructions: instructions,
+    p_note: note,
+    p_created_by: userId,
+  })
+
+  const version = (data as InstructionVersion[] | null)?.[0]
+  if (error || !version) {
+    throw new Error(`Failed to save instructions version: ${error?.message ?? 'no version returned'}`)
+  }
+  return version
+}
+
+export async function getInstructionVersion(organizationId: string, version: number): Promise<InstructionVersion | null> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('instruction_versions')
+    .select(VERSION_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load instructions version ${version}: ${error.message}`)
+  return data
+}
+
+/**
+ * Latest versions first, with the author's email
+ */
+export async function listInstructionVersions(
+  organizationId: string,
+  limit = INSTRUCTION_VERSIONS_LIMIT
+): Promise<InstructionVersionWithAuthor[]> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('instruction_versions')
+    .select(VERSION_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('version', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load instructions versions: ${error.message}`)
+
+  const versions = (data || []) as InstructionVersion[]
+  const authorIds = [...new Set(versions.map(v => v.created_by).filter((id): id is string => !!id))]
+  const emails = new Map<string, string>()
+
+  if (authorIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('user_profiles')
+      .select('id, email')
+      .in('id', authorIds)
+
+    // Authors are informative only; list the versions without them
+    if (profilesError) console.error('Failed to load instruction authors:', profilesError)
+    for (const profile of profiles || []) emails.set(profile.id, profile.email)
+  }
+
+  return versions.map(v => ({ ...v, created_by_email: v.created_by ? emails.get(v.created_by) ?? null : null }))
+}
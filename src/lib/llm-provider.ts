@@ -0,0 +1,149 @@
+import type { ComparisonFilter, CompoundFilter } from 'openai/resources/shared'
+import type { FileSource } from '@/lib/citations'
+import type { GenerationSettings } from '@/lib/model-settings'
+import { openaiProvider } from './openai-provider'
+import { mockProvider } from './mock-provider'
+
+/**
+ * Everything the app asks of an LLM vendor: chat, embeddings, file upload,
+ * indexing (vector stores) and retrieval. openai.ts, openai-responses.ts and the
+ * extraction/conversion helpers only talk to this interface.
+ *
+ * LLM_PROVIDER=openai (default) uses the OpenAI APIs; LLM_PROVIDER=mock uses a
+ * deterministic in-memory provider so the app runs with no network.
+ */
+
+export type LLMProviderName = 'openai' | 'mock'
+
+export type FileSearchFilter = ComparisonFilter | CompoundFilter
+
+export interface ProviderFile {
+  id: string
+  filename: string
+  bytes: number
+  created_at: number // unix seconds
+  purpose: string
+  status?: string // 'processed' once usable in vector stores
+}
+
+export interface ProviderVectorStore {
+  id: string
+  name: string | null
+  status: 'in_progress' | 'completed' | 'expired'
+  file_counts: {
+    in_progress: number
+    completed: number
+    failed: number
+    cancelled: number
+    total: number
+  }
+  usage_bytes: number
+  created_at: number
+  last_active_at: number | null
+  expires_at?: number | null
+}
+
+export interface ProviderVectorStoreFile {
+  id: string
+  vector_store_id: string
+  status: 'in_progress' | 'completed' | 'failed' | 'cancelled'
+  usage_bytes: number
+  created_at: number
+  last_error?: { code: string; message: string } | null
+  attributes?: Record<string, string | number | boolean> | null
+}
+
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  messages: ProviderMessage[]
+  generation: GenerationSettings
+  // Forwarded to analytics (Helicone) when the provider supports it
+  userIdentifier?: string | null
+  // When set the answer is streamed: text deltas are passed here as they arrive
+  onDelta?: (delta: string) => void
+}
+
+export interface RetrievalRequest extends ChatRequest {
+  vectorStoreIds: string[]
+  filters?: FileSearchFilter
+}
+
+export interface ChatResult {
+  content: string
+  tokens_used?: number
+  sources?: FileSource[]
+}
+
+export interface FileExtractionRequest {
+  model: string
+  fileId: string
+  instructions: string
+  // JSON schema the answer must follow (strict structured output)
+  schema: { name: string; schema: Record<string, unknown> }
+  maxOutputTokens: number
+}
+
+export interface EmbeddingRequest {
+  model: string
+  input: string
+}
+
+export interface ImageTranscriptionRequest {
+  model: string
+  instructions: string
+  image: Buffer
+  mimeType: string
+  maxTokens: number
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+
+  // Chat
+  chat(request: ChatRequest): Promise<ChatResult>
+  extractFromFile(request: FileExtractionRequest): Promise<unknown>
+  transcribeImage(request: ImageTranscriptionRequest): Promise<string>
+  embed(request: EmbeddingRequest): Promise<number[]>
+
+  // Files
+  uploadFile(file: Buffer, filename: string, mimeType: string): Promise<ProviderFile>
+  retrieveFile(fileId: string): Promise<ProviderFile>
+  deleteFile(fileId: string): Promise<{ deleted: boolean }>
+  listFiles(): Promise<ProviderFile[]>
+
+  // Indexing
+  createVectorStore(params: { name: string; fileIds?: string[]; expiresAfterDays: number }): Promise<ProviderVectorStore>
+  retrieveVectorStore(vectorStoreId: string): Promise<ProviderVectorStore>
+  deleteVectorStore(vectorStoreId: string): Promise<{ deleted: boolean }>
+  listVectorStores(): Promise<ProviderVectorStore[]>
+  addVectorStoreFile(
+    vectorStoreId: string,
+    fileId: string,
+    attributes?: Record<string, string | number | boolean>
+  ): Promise<ProviderVectorStoreFile>
+  updateVectorStoreFile(
+    vectorStoreId: string,
+    fileId: string,
+    attributes: Record<string, string | number | boolean>
+  ): Promise<ProviderVectorStoreFile>
+  removeVectorStoreFile(vectorStoreId: string, fileId: string): Promise<{ deleted: boolean }>
+  listVectorStoreFiles(vectorStoreId: string): Promise<ProviderVectorStoreFile[]>
+
+  // Retrieval: answer from the files of some vector stores
+  answerFromFiles(request: RetrievalRequest): Promise<ChatResult>
+}
+
+export function getLLMProviderName(): LLMProviderName {
+  return process.env.LLM_PROVIDER?.trim().toLowerCase() === 'mock' ? 'mock' : 'openai'
+}
+
+/**
+ * Provider selected by LLM_PROVIDER (read on every call so tests can switch it)
+ */
+export function getLLMProvider(): LLMProvider {
+  return getLLMProviderName() === 'mock' ? mockProvider : openaiProvider
+}
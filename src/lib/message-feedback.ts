@@ -0,0 +1,159 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import type { Citation } from '@/lib/citations'
+import {
+  FEEDBACK_RATINGS,
+  FEEDBACK_STATUSES,
+  MAX_FEEDBACK_TEXT_LENGTH,
+  type MessageFeedbackBody,
+} from '@/lib/api-schemas'
+
+/**
+ * Thumbs up/down ratings on assistant answers. Users rate from the chat; admins
+ * work through the negative ones in the review queue (get_feedback_queue).
+ */
+
+// Defined with the request schemas so client code can share them
+export { FEEDBACK_RATINGS, FEEDBACK_STATUSES, MAX_FEEDBACK_TEXT_LENGTH }
+
+export type FeedbackRating = typeof FEEDBACK_RATINGS[number]
+export type FeedbackStatus = typeof FEEDBACK_STATUSES[number]
+
+export interface FeedbackInput {
+  message_id: string
+  rating: FeedbackRating
+  comment: string | null
+  correct_value: string | null
+}
+
+// What the chat shows back to the user for one of their answers
+export interface MessageFeedback {
+  rating: FeedbackRating
+  comment: string | null
+  correct_value: string | null
+  status: FeedbackStatus
+}
+
+export interface FeedbackQueueItem {
+  id: string
+  message_id: string
+  conversation_id: string
+  rating: FeedbackRating
+  comment: string | null
+  correct_value: string | null
+  status: FeedbackStatus
+  resolution_note: string | null
+  resolved_at: string | null
+  created_at: string
+  user_email: string | null
+  question: string | null
+  answer: string
+  citations: Citation[]
+  model: string | null
+  answered_at: string
+}
+
+export interface FeedbackQueueFilters {
+  // null matches every rating/status
+  rating: FeedbackRating | null
+  status: FeedbackStatus | null
+  page: number
+  pageSize: number
+}
+
+export const FEEDBACK_PAGE_SIZE = 25
+
+const isRating = (value: unknown): value is FeedbackRating => FEEDBACK_RATINGS.includes(value as FeedbackRating)
+const isStatus = (value: unknown): value is FeedbackStatus => FEEDBACK_STATUSES.includes(value as FeedbackStatus)
+
+/**
+ * The row to store for a rating from the chat (messageFeedbackSchema). Blank
+ * text becomes null, and a thumbs up drops any comment or correction
+ */
+export function toFeedbackInput(body: MessageFeedbackBody): FeedbackInput {
+  const negative = body.rating === 'down'
+  return {
+    message_id: body.messageId,
+    rating: body.rating,
+    comment: negative ? body.comment || null : null,
+    correct_value: negative ? body.correct_value || null : null,
+  }
+}
+
+/**
+ * Validate ?rating=&status=&page= for the review queue. Defaults to open negative
+ * feedback; "all" disables a filter
+ */
+export function parseQueueFilters(params: URLSearchParams): { filters: FeedbackQueueFilters; error: null } | { filters: null; error: string } {
+  const rating = params.get('rating') || 'down'
+  const status = params.get('status') || 'open'
+  const page = Number(params.get('page') || 1)
+
+  if (rating !== 'all' && !isRating(rating)) {
+    return { filters: null, error: `rating must be one of: all, ${FEEDBACK_RATINGS.join(', ')}` }
+  }
+  if (status !== 'all' && !isStatus(status)) {
+    return { filters: null, error: `status must be one of: all, ${FEEDBACK_STATUSES.join(', ')}` }
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return { filters: null, error: 'page must be a positive integer' }
+  }
+
+  return {
+    filters: {
+      rating: rating === 'all' ? null : rating,
+      status: status === 'all' ? null : status,
+      page,
+      pageSize: FEEDBACK_PAGE_SIZE,
+    },
+    error: null,
+  }
+}
+
+/**
+ * One page of an organization's review queue, newest first, with the question,
+ * answer and cited files
+ */
+export async function getFeedbackQueue(
+  organizationId: string,
+  filters: FeedbackQueueFilters
+): Promise<{ items: FeedbackQueueItem[]; total: number }> {
+  const { data, error } = await createSupabaseAdmin().rpc('get_feedback_queue', {
+    p_organization_id: organizationId,
+    p_rating: filters.rating,
+    p_status: filters.status,
+    p_limit: filters.pageSize,
+    p_offset: (filters.page - 1) * filters.pageSize,
+  })
+
+  if (error) throw new Error(`Failed to load feedback queue: ${error.message}`)
+
+  const rows = (data || []) as QueueRow[]
+  return {
+    // total_count is a bigint (string over PostgREST) repeated on every row
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    items: rows.map(toQueueItem),
+  }
+}
+
+type QueueRow = Omit<FeedbackQueueItem, 'citations'> & { citations: Citation[] | null; total_count: number | string }
+
+function toQueueItem(row: QueueRow): FeedbackQueueItem {
+  return {
+    id: row.id,
+    message_id: row.message_id,
+    conversation_id: row.conversation_id,
+    rating: row.rating,
+    comment: row.comment,
+    correct_value: row.correct_value,
+    status: row.status,
+    resolution_note: row.resolution_note,
+    resolved_at: row.resolved_at,
+    created_at: row.created_at,
+    user_email: row.user_email,
+    question: row.question,
+    answer: row.answer,
+    citations: row.citations || [],
+    model: row.model,
+    answered_at: row.answered_at,
+  }
+}
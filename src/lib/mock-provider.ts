@@ -0,0 +1,420 @@
+import { toSnippet, type FileSource } from '@/lib/citations'
+import type {
+  LLMProvider,
+  ChatRequest,
+  RetrievalRequest,
+  FileSearchFilter,
+  ProviderFile,
+  ProviderMessage,
+  ProviderVectorStore,
+  ProviderVectorStoreFile,
+} from './llm-provider'
+
+/**
+ * Deterministic offline LLMProvider (LLM_PROVIDER=mock) for demos and
+ * end-to-end tests. Files and vector stores live in memory, indexing finishes
+ * immediately and answers are built from the best keyword matches, so the
+ * same question over the same files always gets the same answer.
+ */
+
+type Attributes = Record<string, string | number | boolean>
+
+interface MockFile extends ProviderFile {
+  text: string
+}
+
+interface MockStoreFile {
+  fileId: string
+  attributes: Attributes | null
+  created_at: number
+  // Keyword index: normalized term -> positions in chunks
+  chunks: string[]
+  index: Map<string, number[]>
+}
+
+interface MockStore {
+  id: string
+  name: string
+  created_at: number
+  last_active_at: number | null
+  files: Map<string, MockStoreFile>
+}
+
+interface MockState {
+  sequence: number
+  files: Map<string, MockFile>
+  stores: Map<string, MockStore>
+}
+
+const MAX_RESULTS = 8
+// Same size as text-embedding-3-small, so mock vectors fit answer_cache.embedding
+const EMBEDDING_DIMENSIONS = 1536
+
+// Text formats the mock can read; anything else (PDF, DOCX) is indexed by name only
+const TEXT_MIME_TYPES = ['text/', 'application/json']
+
+// Spanish stopwords plus the verbs of a typical price question ("¿cuánto cuesta...?")
+const STOPWORDS = new Set([
+  'al', 'como', 'con', 'cual', 'cuales', 'cuanto', 'cuanta', 'cuesta', 'cuestan', 'de', 'del', 'el', 'en', 'es',
+  'hay', 'la', 'las', 'lo', 'los', 'me', 'mi', 'o', 'para', 'por', 'que', 'se', 'su', 'un', 'una', 'unos', 'unas',
+  'vale', 'valen', 'y',
+])
+
+// Kept on globalThis so every route bundle of the same server process sees the same files
+const globalForMock = globalThis as typeof globalThis & { mockLLMProviderState?: MockState }
+
+function getState(): MockState {
+  globalForMock.mockLLMProviderState ??= { sequence: 0, files: new Map(), stores: new Map() }
+  return globalForMock.mockLLMProviderState
+}
+
+/**
+ * Forget every mock file and vector store (tests)
+ */
+export function resetMockProvider() {
+  globalForMock.mockLLMProviderState = undefined
+}
+
+const nextId = (prefix: string) => `${prefix}-mock-${++getState().sequence}`
+
+const nowSeconds = () => Math.floor(Date.now() / 1000)
+
+const notFound = (what: string, id: string) => new Error(`404 No ${what} found with id '${id}'.`)
+
+// Rough token count for usage reporting (~4 characters per token)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+/**
+ * Lowercase, accent-free terms of a text, without Spanish stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+}
+
+/**
+ * Split a document into line chunks (one Markdown table row per chunk) and
+ * index every term; table separators and blank lines are skipped
+ */
+function buildIndex(file: MockFile): Pick<MockStoreFile, 'chunks' | 'index'> {
+  const chunks = [file.filename, ...file.text.split('\n')]
+    .map(line => line.trim())
+    .filter(line => line && !/^\|?[\s:|-]+\|?$/.test(line))
+
+  const index = new Map<string, number[]>()
+  chunks.forEach((chunk, position) => {
+    for (const term of new Set(tokenize(chunk))) {
+      index.set(term, [...(index.get(term) || []), position])
+    }
+  })
+
+  return { chunks, index }
+}
+
+function matchesFilter(attributes: Attributes | null, filter: FileSearchFilter): boolean {
+  if ('filters' in filter) {
+    const inner = filter.filters as FileSearchFilter[]
+    return filter.type === 'and'
+      ? inner.every(nested => matchesFilter(attributes, nested))
+      : inner.some(nested => matchesFilter(attributes, nested))
+  }
+
+  const value = attributes?.[filter.key]
+  if (value === undefined) return false
+
+  switch (filter.type) {
+    case 'eq': return value === filter.value
+    case 'ne': return value !== filter.value
+    case 'gt': return value > filter.value
+    case 'gte': return value >= filter.value
+    case 'lt': return value < filter.value
+    case 'lte': return value <= filter.value
+    default: return false
+  }
+}
+
+function countFiles(store: MockStore): ProviderVectorStore['file_counts'] {
+  return { in_progress: 0, completed: store.files.size, failed: 0, cancelled: 0, total: store.files.size }
+}
+
+function toVectorStore(store: MockStore): ProviderVectorStore {
+  return {
+    id: store.id,
+    name: store.name,
+    status: 'completed',
+    file_counts: countFiles(store),
+    usage_bytes: [...store.files.keys()].reduce((sum, fileId) => sum + (getState().files.get(fileId)?.bytes ?? 0), 0),
+    created_at: store.created_at,
+    last_active_at: store.last_active_at,
+    expires_at: null,
+  }
+}
+
+function toVectorStoreFile(store: MockStore, storeFile: MockStoreFile): ProviderVectorStoreFile {
+  return {
+    id: storeFile.fileId,
+    vector_store_id: store.id,
+    status: 'completed',
+    usage_bytes: getState().files.get(storeFile.fileId)?.bytes ?? 0,
+    created_at: storeFile.created_at,
+    last_error: null,
+    attributes: storeFile.attributes,
+  }
+}
+
+function getStore(vectorStoreId: string): MockStore {
+  const store = getState().stores.get(vectorStoreId)
+  if (!store) throw notFound('vector store', vectorStoreId)
+  return store
+}
+
+function indexFile(store: MockStore, fileId: string, attributes: Attributes | null): MockStoreFile {
+  const file = getState().files.get(fileId)
+  if (!file) throw notFound('file', fileId)
+
+  const storeFile: MockStoreFile = { fileId, attributes, created_at: nowSeconds(), ...buildIndex(file) }
+  store.files.set(fileId, storeFile)
+  return storeFile
+}
+
+const toProviderFile = (file: MockFile): ProviderFile => ({
+  id: file.id,
+  filename: file.filename,
+  bytes: file.bytes,
+  created_at: file.created_at,
+  purpose: file.purpose,
+  status: file.status,
+})
+
+const lastUserMessage = (messages: ProviderMessage[]) =>
+  [...messages].reverse().find(message => message.role === 'user')?.content ?? ''
+
+/**
+ * Send the answer word by word when streaming, then report usage
+ */
+function respond(request: ChatRequest, content: string, sources?: FileSource[]) {
+  if (request.onDelta) {
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      request.onDelta(piece)
+    }
+  }
+
+  const input = request.messages.map(message => message.content).join('\n')
+  return {
+    content,
+    tokens_used: estimateTokens(input) + estimateTokens(content),
+    ...(sources ? { sources } : {}),
+  }
+}
+
+/**
+ * Best keyword matches across the stores' files, grouped by file in alphabetical order
+ */
+function answerFromIndex(request: RetrievalRequest) {
+  const query = lastUserMessage(request.messages)
+  const terms = [...new Set(tokenize(query))]
+  const state = getState()
+
+  const matches: { file: MockFile; chunk: string; score: number }[] = []
+  for (const storeId of request.vectorStoreIds) {
+    const store = getStore(storeId)
+    store.last_active_at = nowSeconds()
+
+    for (const storeFile of store.files.values()) {
+      if (request.filters && !matchesFilter(storeFile.attributes, request.filters)) continue
+      const file = state.files.get(storeFile.fileId)
+      if (!file) continue
+
+      const hits = new Map<number, number>()
+      for (const term of terms) {
+        for (const position of storeFile.index.get(term) || []) {
+          hits.set(position, (hits.get(position) || 0) + 1)
+        }
+      }
+      for (const [position, count] of hits) {
+        matches.push({ file, chunk: storeFile.chunks[position], score: count / terms.length })
+      }
+    }
+  }
+
+  const best = matches
+    .sort((a, b) => b.score - a.score || a.file.filename.localeCompare(b.file.filename) || a.chunk.localeCompare(b.chunk))
+    .slice(0, MAX_RESULTS)
+
+  if (best.length === 0) {
+    return respond(request, `No encontré información sobre "${query}" en los archivos proporcionados.`, [])
+  }
+
+  const byFile = new Map<string, { file: MockFile; chunks: string[]; score: number }>()
+  for (const match of best) {
+    const entry = byFile.get(match.file.id) ?? { file: match.file, chunks: [], score: match.score }
+    entry.chunks.push(match.chunk)
+    byFile.set(match.file.id, entry)
+  }
+
+  const groups = [...byFile.values()].sort((a, b) => a.file.filename.localeCompare(b.file.filename))
+  const content = groups
+    .map(group => [`**${group.file.filename.replace(/\.[^.]+$/, '')}**`, ...group.chunks.map(chunk => `• ${chunk}`)].join('\n'))
+    .join('\n\n')
+
+  const sources: FileSource[] = groups.map(group => ({
+    file_id: group.file.id,
+    filename: group.file.filename,
+    snippet: toSnippet(group.chunks[0]),
+    score: group.score,
+  }))
+
+  return respond(request, content, sources)
+}
+
+/**
+ * Bag-of-words vector: each term is hashed into one of EMBEDDING_DIMENSIONS
+ * slots and the result is unit length, so texts sharing terms are similar
+ */
+function embedTerms(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+  for (const term of tokenize(text)) {
+    let hash = 0
+    for (const char of term) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+    vector[hash % EMBEDDING_DIMENSIONS] += 1
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+/**
+ * Smallest value that satisfies a JSON schema (empty arrays, zero numbers)
+ */
+function emptyValueForSchema(schema: Record<string, unknown>): unknown {
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>
+      return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, emptyValueForSchema(value)]))
+    }
+    case 'array': return []
+    case 'number':
+    case 'integer': return 0
+    case 'boolean': return false
+    case 'null': return null
+    default: return ''
+  }
+}
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+
+  async chat(request) {
+    // Structured price rows arrive as a second system message; answer with them verbatim
+    const context = request.messages.filter(message => message.role === 'system').slice(1).map(message => message.content)
+    const content = context.length > 0
+      ? `Según los datos disponibles:\n\n${context.join('\n\n')}`
+      : `Respuesta simulada (LLM_PROVIDER=mock) para: "${lastUserMessage(request.messages)}". No hay archivos activos para buscar.`
+    return respond(request, content)
+  },
+
+  async answerFromFiles(request) {
+    return answerFromIndex(request)
+  },
+
+  async extractFromFile({ fileId, schema }) {
+    if (!getState().files.has(fileId)) throw notFound('file', fileId)
+    return emptyValueForSchema(schema.schema)
+  },
+
+  async transcribeImage() {
+    return '[Transcripción no disponible con LLM_PROVIDER=mock]'
+  },
+
+  async embed({ input }) {
+    return embedTerms(input)
+  },
+
+  async uploadFile(file, filename, mimeType) {
+    const readable = TEXT_MIME_TYPES.some(prefix => mimeType.startsWith(prefix))
+    if (!readable) {
+      console.warn(`⚠️ Mock provider cannot read ${mimeType}; only the name of ${filename} is searchable`)
+    }
+
+    const uploaded: MockFile = {
+      id: nextId('file'),
+      filename,
+      bytes: file.byteLength,
+      created_at: nowSeconds(),
+      purpose: 'assistants',
+      status: 'processed',
+      text: readable ? file.toString('utf8') : '',
+    }
+    getState().files.set(uploaded.id, uploaded)
+    return toProviderFile(uploaded)
+  },
+
+  async retrieveFile(fileId) {
+    const file = getState().files.get(fileId)
+    if (!file) throw notFound('file', fileId)
+    return toProviderFile(file)
+  },
+
+  async deleteFile(fileId) {
+    const state = getState()
+    if (!state.files.delete(fileId)) throw notFound('file', fileId)
+    for (const store of state.stores.values()) {
+      store.files.delete(fileId)
+    }
+    return { deleted: true }
+  },
+
+  async listFiles() {
+    return [...getState().files.values()].map(toProviderFile)
+  },
+
+  async createVectorStore({ name, fileIds = [] }) {
+    const store: MockStore = { id: nextId('vs'), name, created_at: nowSeconds(), last_active_at: null, files: new Map() }
+    for (const fileId of fileIds) {
+      indexFile(store, fileId, null)
+    }
+    getState().stores.set(store.id, store)
+    return toVectorStore(store)
+  },
+
+  async retrieveVectorStore(vectorStoreId) {
+    return toVectorStore(getStore(vectorStoreId))
+  },
+
+  async deleteVectorStore(vectorStoreId) {
+    if (!getState().stores.delete(vectorStoreId)) throw notFound('vector store', vectorStoreId)
+    return { deleted: true }
+  },
+
+  async listVectorStores() {
+    return [...getState().stores.values()].map(toVectorStore)
+  },
+
+  async addVectorStoreFile(vectorStoreId, fileId, attributes) {
+    const store = getStore(vectorStoreId)
+    return toVectorStoreFile(store, indexFile(store, fileId, attributes ?? null))
+  },
+
+  async updateVectorStoreFile(vectorStoreId, fileId, attributes) {
+    const store = getStore(vectorStoreId)
+    const storeFile = store.files.get(fileId)
+    if (!storeFile) throw notFound('vector store file', fileId)
+    storeFile.attributes = attributes
+    return toVectorStoreFile(store, storeFile)
+  },
+
+  async removeVectorStoreFile(vectorStoreId, fileId) {
+    if (!getStore(vectorStoreId).files.delete(fileId)) throw notFound('vector store file', fileId)
+    return { deleted: true }
+  },
+
+  async listVectorStoreFiles(vectorStoreId) {
+    const store = getStore(vectorStoreId)
+    return [...store.files.values()].map(storeFile => toVectorStoreFile(store, storeFile))
+  },
+}
@@ -0,0 +1,45 @@
+/**
+ * Model settings editable from the admin settings page (public.app_settings).
+ * A null column means "use the code default", like system_instructions.
+ * Shared by the settings API, the settings form and openai-responses.ts.
+ */
+
+export const DEFAULT_MODEL = 'gpt-4o-mini'
+export const DEFAULT_MAX_OUTPUT_TOKENS = 400
+
+// Retrieval answers stay close to the files; the plain chat fallback is a bit freer
+export const DEFAULT_TEMPERATURE = { retrieval: 0.1, fallback: 0.3 } as const
+
+// Models that support both file_search and temperature
+export const ALLOWED_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1', 'gpt-4.1-nano'] as const
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 } as const
+export const MAX_OUTPUT_TOKENS_RANGE = { min: 100, max: 8000 } as const
+
+export interface ModelSettings {
+  model: string | null
+  temperature: number | null
+  max_output_tokens: number | null
+}
+
+/**
+ * Values actually sent to OpenAI for one answer (stored on the assistant message)
+ */
+export interface GenerationSettings {
+  model: string
+  temperature: number
+  max_output_tokens: number
+}
+
+export type GenerationPath = keyof typeof DEFAULT_TEMPERATURE
+
+/**
+ * Fill unset settings with the defaults for a code path
+ */
+export function resolveGenerationSettings(settings: ModelSettings | null, path: GenerationPath): GenerationSettings {
+  return {
+    model: settings?.model || DEFAULT_MODEL,
+    temperature: settings?.temperature ?? DEFAULT_TEMPERATURE[path],
+    max_output_tokens: settings?.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+  }
+}
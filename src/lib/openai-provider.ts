@@ -0,0 +1,349 @@
+import { extractFileSources, type FileSource } from '@/lib/citations'
+import type {
+  LLMProvider,
+  ChatRequest,
+  RetrievalRequest,
+  ProviderFile,
+  ProviderVectorStore,
+  ProviderVectorStoreFile,
+} from './llm-provider'
+
+/**
+ * LLMProvider backed by the OpenAI APIs (Responses, Chat Completions, Files
+ * and Vector Stores)
+ */
+
+// openai-client builds its clients at import time and throws without
+// OPENAI_API_KEY, so it is only loaded once this provider is actually used
+const loadClients = () => import('./openai-client')
+
+async function directClient() {
+  return (await loadClients()).openaiDirect
+}
+
+// Per-request chat client so the user identity reaches Helicone analytics
+async function chatClient(userIdentifier?: string | null) {
+  const { createOpenAIClient } = await loadClients()
+  const userHeader = userIdentifier ? { 'Helicone-User-Id': userIdentifier } : undefined
+  return createOpenAIClient({ additionalHeaders: userHeader })
+}
+
+async function chat({ messages, generation, userIdentifier, onDelta }: ChatRequest) {
+  const openai = await chatClient(userIdentifier)
+
+  if (!onDelta) {
+    const response = await openai.chat.completions.create({
+      model: generation.model,
+      messages,
+      temperature: generation.temperature,
+      max_tokens: generation.max_output_tokens
+    })
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      tokens_used: response.usage?.total_tokens,
+    }
+  }
+
+  const stream = await openai.chat.completions.create({
+    model: generation.model,
+    messages,
+    temperature: generation.temperature,
+    max_tokens: generation.max_output_tokens,
+    stream: true,
+    stream_options: { include_usage: true }
+  })
+
+  let content = ''
+  let tokensUsed: number | undefined
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content
+    if (delta) {
+      content += delta
+      onDelta(delta)
+    }
+    if (chunk.usage) tokensUsed = chunk.usage.total_tokens
+  }
+
+  return { content, tokens_used: tokensUsed }
+}
+
+/**
+ * File search over the given vector stores with the Responses API
+ */
+async function answerFromFiles({ messages, generation, userIdentifier, onDelta, vectorStoreIds, filters }: RetrievalRequest) {
+  const openai = await chatClient(userIdentifier)
+  const tools = [
+    {
+      type: 'file_search' as const,
+      vector_store_ids: vectorStoreIds, // <-- required by the TS type
+      ...(filters ? { filters } : {}),
+      // optional:
+      // max_num_results: 12,
+    }
+  ]
+
+  if (onDelta) {
+    const stream = await openai.responses.create({
+      model: generation.model,
+      input: messages,
+      tools,
+      tool_choice: 'auto',
+      include: ['file_search_call.results'],
+      temperature: generation.temperature,
+      max_output_tokens: generation.max_output_tokens,
+      stream: true
+    })
+
+    let content = ''
+    let tokensUsed: number | undefined
+    let sources: FileSource[] = []
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta') {
+        content += event.delta
+        onDelta(event.delta)
+      } else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+        tokensUsed = event.response.usage?.total_tokens
+        sources = extractFileSources(event.response.output)
+        if (event.type === 'response.incomplete') {
+          console.warn(`⚠️ Stream ended incomplete: ${event.response.incomplete_details?.reason ?? 'unknown'}`)
+        }
+      } else if (event.type === 'response.failed') {
+        throw new Error(`La consulta no pudo completarse. Estado: ${event.response.status}`)
+      } else if (event.type === 'error') {
+        throw new Error(event.message)
+      }
+    }
+
+    return { content, tokens_used: tokensUsed, sources }
+  }
+
+  const response = await openai.responses.create({
+    model: generation.model,
+    input: messages,
+    tools,
+    tool_choice: 'auto',     // let it decide when to retrieve
+    include: ['file_search_call.results'], // needed for citation snippets
+    temperature: generation.temperature,
+    max_output_tokens: generation.max_output_tokens,
+    stream: false
+  })
+
+  console.log(`📥 OpenAI Response (initial):`)
+  console.log(`  Status: ${response.status}`)
+  console.log(`  ID: ${response.id}`)
+
+  // Poll if needed (Responses can be async)
+  let finalResponse = response
+  if (response.status === 'in_progress') {
+    console.log(`⏳ Response is in_progress, polling...`)
+    let attempts = 0
+    const maxAttempts = 30 // up to ~15s
+    while (finalResponse.status === 'in_progress' && attempts < maxAttempts) {
+      await new Promise(r => setTimeout(r, 500))
+      finalResponse = await openai.responses.retrieve(response.id)
+      attempts++
+      if (attempts % 5 === 0) {
+        console.log(`  Polling attempt ${attempts}/${maxAttempts}, status: ${finalResponse.status}`)
+      }
+    }
+  }
+
+  if (finalResponse.status !== 'completed') {
+    console.error(`❌ Optimal search failed with status: ${finalResponse.status}`)
+    console.error(`❌ Full response:`, JSON.stringify(finalResponse, null, 2))
+    throw new Error(`La consulta no pudo completarse. Estado: ${finalResponse.status}`)
+  }
+
+  // Log detailed output structure
+  console.log(`📥 OpenAI Response (final):`)
+  console.log(`  Status: ${finalResponse.status}`)
+  console.log(`  Output items: ${finalResponse.output?.length || 0}`)
+
+  // Log file_search calls and results
+  if (Array.isArray(finalResponse.output)) {
+    finalResponse.output.forEach((item, idx) => {
+      if (item.type === 'file_search_call') {
+        console.log(`  [${idx}] File Search Call:`)
+        console.log(`    Status: ${item.status}`)
+        console.log(`    Queries: ${JSON.stringify(item.queries || [])}`)
+        console.log(`    Results: ${item.results ? `${item.results.length} results` : 'null'}`)
+        if (item.results && Array.isArray(item.results)) {
+          console.log(`    Result details: ${item.results.map((r: any) => r.file_id || r.id || 'unknown').join(', ')}`)
+        }
+      } else if (item.type === 'message') {
+        console.log(`  [${idx}] Message:`)
+        console.log(`    Status: ${item.status}`)
+        console.log(`    Content items: ${item.content?.length || 0}`)
+      }
+    })
+  }
+
+  // Extract text safely
+  let content = ''
+  if (Array.isArray(finalResponse.output) && finalResponse.output.length > 0) {
+    const last = finalResponse.output[finalResponse.output.length - 1]
+    if (last?.type === 'message') {
+      const textPart = last.content?.find?.(c => c.type === 'output_text') as any
+      if (textPart?.text) content = textPart.text
+    }
+  }
+
+  return {
+    content,
+    tokens_used: finalResponse.usage?.total_tokens,
+    sources: extractFileSources(finalResponse.output),
+  }
+}
+
+interface CursorPage<T> {
+  data: T[]
+  hasNextPage?: () => boolean
+  getNextPage: () => Promise<CursorPage<T>>
+}
+
+/**
+ * Follow the SDK's cursor pagination to the end
+ */
+async function collectPages<T>(first: Promise<CursorPage<T>>): Promise<T[]> {
+  let page = await first
+  const items = [...page.data]
+
+  while (page.hasNextPage?.()) {
+    page = await page.getNextPage()
+    items.push(...page.data)
+  }
+
+  return items
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+
+  chat,
+  answerFromFiles,
+
+  async extractFromFile({ model, fileId, instructions, schema, maxOutputTokens }) {
+    const openai = await directClient()
+    const response = await openai.responses.create({
+      model,
+      temperature: 0,
+      max_output_tokens: maxOutputTokens,
+      input: [
+        {
+          role: 'user',
+          content: [
+            { type: 'input_file', file_id: fileId },
+            { type: 'input_text', text: instructions },
+          ],
+        },
+      ],
+      text: {
+        format: { type: 'json_schema', name: schema.name, schema: schema.schema, strict: true },
+      },
+    })
+
+    if (response.status !== 'completed') {
+      throw new Error(`Structured output did not complete (status: ${response.status})`)
+    }
+
+    return JSON.parse(response.output_text)
+  },
+
+  async transcribeImage({ model, instructions, image, mimeType, maxTokens }) {
+    const openai = await directClient()
+    const response = await openai.chat.completions.create({
+      model,
+      temperature: 0,
+      max_tokens: maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: instructions },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${image.toString('base64')}` } }
+          ]
+        }
+      ]
+    })
+
+    return response.choices[0]?.message?.content?.trim() || ''
+  },
+
+  async embed({ model, input }) {
+    const openai = await directClient()
+    const response = await openai.embeddings.create({ model, input })
+    return response.data[0].embedding
+  },
+
+  async uploadFile(file, filename, mimeType) {
+    const openai = await directClient()
+    // Convert Buffer to ArrayBuffer for compatibility with Blob constructor
+    const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
+    const blob = new Blob([arrayBuffer], { type: mimeType })
+    const fileData = new File([blob], filename, { type: mimeType })
+
+    return openai.files.create({
+      file: fileData,
+      purpose: 'assistants', // Required for vector stores
+    })
+  },
+
+  async retrieveFile(fileId) {
+    return (await directClient()).files.retrieve(fileId)
+  },
+
+  async deleteFile(fileId) {
+    return (await directClient()).files.delete(fileId)
+  },
+
+  async listFiles(): Promise<ProviderFile[]> {
+    const openai = await directClient()
+    return collectPages(openai.files.list({ purpose: 'assistants', limit: 100 }))
+  },
+
+  async createVectorStore({ name, fileIds, expiresAfterDays }) {
+    const openai = await directClient()
+    return openai.vectorStores.create({
+      name,
+      ...(fileIds ? { file_ids: fileIds } : {}),
+      expires_after: {
+        anchor: 'last_active_at',
+        days: expiresAfterDays
+      }
+    })
+  },
+
+  async retrieveVectorStore(vectorStoreId) {
+    return (await directClient()).vectorStores.retrieve(vectorStoreId)
+  },
+
+  async deleteVectorStore(vectorStoreId) {
+    return (await directClient()).vectorStores.delete(vectorStoreId)
+  },
+
+  async listVectorStores(): Promise<ProviderVectorStore[]> {
+    const openai = await directClient()
+    return collectPages(openai.vectorStores.list({ limit: 100 }))
+  },
+
+  async addVectorStoreFile(vectorStoreId, fileId, attributes) {
+    const openai = await directClient()
+    return openai.vectorStores.files.create(vectorStoreId, { file_id: fileId, ...(attributes ? { attributes } : {}) })
+  },
+
+  async updateVectorStoreFile(vectorStoreId, fileId, attributes) {
+    const openai = await directClient()
+    return openai.vectorStores.files.update(fileId, { vector_store_id: vectorStoreId, attributes })
+  },
+
+  async removeVectorStoreFile(vectorStoreId, fileId) {
+    const openai = await directClient()
+    return openai.vectorStores.files.delete(fileId, { vector_store_id: vectorStoreId })
+  },
+
+  async listVectorStoreFiles(vectorStoreId): Promise<ProviderVectorStoreFile[]> {
+    const openai = await directClient()
+    return collectPages(openai.vectorStores.files.list(vectorStoreId, { limit: 100 }))
+  },
+}
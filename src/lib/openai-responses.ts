@@ -1,44 +1,66 @@
-import { createOpenAIClient } from './openai-client'
+import { getLLMProvider, type FileSearchFilter } from './llm-provider'
 import { createSupabaseAdmin } from '@/lib/supabase'
+import type { FileSource } from '@/lib/citations'
+import { resolveGenerationSettings, type GenerationSettings, type ModelSettings } from '@/lib/model-settings'
 
-let cachedSystemInstructions: { text: string | null; fetchedAt: number } | null = null
+export interface AppSettings extends ModelSettings {
+  system_instructions: string | null
+  instructions_version: number | null
+}
+
+const EMPTY_SETTINGS: AppSettings = { system_instructions: null, instructions_version: null, model: null, temperature: null, max_output_tokens: null }
+
+// Settings of each organization, by organization id
+const cachedSettings = new Map<string, { settings: AppSettings; fetchedAt: number }>()
 const INSTRUCTIONS_CACHE_TTL_MS = 60_000
 
 // Expose helpers to allow other modules (e.g., admin settings API) to refresh cache immediately
-export function setSystemInstructionsCache(text: string | null) {
-  cachedSystemInstructions = { text, fetchedAt: Date.now() }
+export function setAppSettingsCache(organizationId: string, settings: Partial<AppSettings>) {
+  cachedSettings.set(organizationId, { settings: { ...EMPTY_SETTINGS, ...settings }, fetchedAt: Date.now() })
 }
 
-export function invalidateSystemInstructionsCache() {
-  cachedSystemInstructions = null
+export function setSystemInstructionsCache(organizationId: string, text: string | null) {
+  setAppSettingsCache(organizationId, { ...cachedSettings.get(organizationId)?.settings, system_instructions: text })
 }
 
-async function getSystemInstructions(): Promise<string | null> {
+// Without an organization every cached entry is dropped
+export function invalidateSystemInstructionsCache(organizationId?: string) {
+  if (organizationId) cachedSettings.delete(organizationId)
+  else cachedSettings.clear()
+}
+
+// Admin settings of an organization (instructions and model), cached so edits apply on the next request
+export async function getAppSettings(organizationId: string): Promise<AppSettings> {
   const now = Date.now()
-  if (cachedSystemInstructions && now - cachedSystemInstructions.fetchedAt < INSTRUCTIONS_CACHE_TTL_MS) {
-    console.log('cachedSystemInstructions', cachedSystemInstructions.text);
-    return cachedSystemInstructions.text
+  const cached = cachedSettings.get(organizationId)
+  if (cached && now - cached.fetchedAt < INSTRUCTIONS_CACHE_TTL_MS) {
+    return cached.settings
   }
   try {
     const supabase = createSupabaseAdmin()
     const { data, error } = await supabase
       .from('app_settings')
-      .select('system_instructions')
-      .eq('id', 1)
+      .select('system_instructions, instructions_version, model, temperature, max_output_tokens')
+      .eq('organization_id', organizationId)
       .maybeSingle()
     if (error) {
-      console.warn('Failed to fetch system instructions, using default:', error)
-      cachedSystemInstructions = { text: null, fetchedAt: now }
-      return null
+      console.warn('Failed to fetch app settings, using defaults:', error)
+      cachedSettings.set(organizationId, { settings: EMPTY_SETTINGS, fetchedAt: now })
+      return EMPTY_SETTINGS
+    }
+    const settings: AppSettings = {
+      system_instructions: data?.system_instructions || null,
+      instructions_version: data?.instructions_version ?? null,
+      model: data?.model || null,
+      temperature: data?.temperature == null ? null : Number(data.temperature),
+      max_output_tokens: data?.max_output_tokens ?? null,
     }
-    const text = data?.system_instructions || null
-    cachedSystemInstructions = { text, fetchedAt: now }
-    console.log('text', text);
-    return text
+    cachedSettings.set(organizationId, { settings, fetchedAt: now })
+    return settings
   } catch (e) {
-    console.warn('Error reading system instructions, using default:', e)
-    cachedSystemInstructions = { text: null, fetchedAt: now }
-    return null
+    console.warn('Error reading app settings, using defaults:', e)
+    cachedSettings.set(organizationId, { settings: EMPTY_SETTINGS, fetchedAt: now })
+    return EMPTY_SETTINGS
   }
 }
 
@@ -51,28 +73,27 @@ export interface OpenAIResponse {
   content: string
   tokens_used?: number
   response_time_ms?: number
+  sources?: FileSource[]
+  // Model, temperature and output limit this answer was generated with
+  generation?: GenerationSettings
+  // Version of the admin instructions in the prompt (null before versioning)
+  instructions_version?: number | null
 }
 
-/**
- * OPTIMAL price query using Vector Store + File Search (no attachments)
- * Targets Venezuelan B2B price lookups across multiple catalogs
- */
-export async function queryPricesFast(
-  query: string,
-  vectorStoreIds: string[],
-  conversationHistory: ChatMessage[] = [],
-  userIdentifier?: string | null
-): Promise<OpenAIResponse> {
-  const startTime = Date.now()
-
-  try {
-    // Build a per-request OpenAI client to attach user identity for Helicone analytics
-    const userHeader = userIdentifier ? { 'Helicone-User-Id': userIdentifier } : undefined
-    const openai = createOpenAIClient({ additionalHeaders: userHeader })
+export type { FileSearchFilter }
+
+export interface QueryOptions {
+  // Organization whose instructions and model settings apply; built-in defaults without one
+  organizationId?: string
+  // Rows found in price_items; when present the answer is grounded on them instead of file_search
+  priceContext?: string
+  // Attribute filter for file_search (e.g. restrict the master store to some price lists)
+  filters?: FileSearchFilter
+  // Rolling summary of the turns no longer sent verbatim (conversations.summary)
+  conversationSummary?: string | null
+}
 
-    if (vectorStoreIds.length === 0) {
-      // Fallback: plain chat (no retrieval). Used when no vector stores are available.
-      const systemPrompt = `Eres un asistente que responde preguntas basándote principalmente en los documentos y archivos proporcionados (PDF, DOCX, CSV, imágenes, etc.).
+const FALLBACK_SYSTEM_PROMPT = `Eres un asistente que responde preguntas basándote principalmente en los documentos y archivos proporcionados (PDF, DOCX, CSV, imágenes, etc.).
 Instrucciones:
 - Prioriza la información que puedas recuperar de los archivos disponibles.
 - Si no hay evidencia suficiente en los archivos, dilo explícitamente y sugiere cargar/activar los documentos necesarios.
@@ -80,37 +101,7 @@ Instrucciones:
 - No inventes datos ni hagas suposiciones.
 - Cuando sea posible, menciona el archivo (o fuente) del que extraes la información.`
 
-      const dynamicInstructions = await getSystemInstructions()
-      const messages = [
-        { role: 'system' as const, content: dynamicInstructions || systemPrompt },
-        ...conversationHistory.map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })),
-        { role: 'user' as const, content: query }
-      ]
-
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages,
-        temperature: 0.3,
-        max_tokens: 400
-      })
-
-      const processingTime = Date.now() - startTime
-      console.log(`💨 Fallback query completed in ${processingTime}ms`)
-
-      return {
-        content: response.choices[0]?.message?.content || 'No se pudo procesar la consulta.',
-        tokens_used: response.usage?.total_tokens,
-        response_time_ms: processingTime,
-      }
-    }
-
-    // OPTIMAL: Vector Stores + File Search via tool_resources. Used when vector stores are available.
-    console.log(`🚀 OPTIMAL SEARCH: Using ${vectorStoreIds.length} vector stores with intelligent retrieval`)
-
-    const systemInstructions = `Instrucciones del asistente con recuperación desde archivos
+const RETRIEVAL_SYSTEM_PROMPT = `Instrucciones del asistente con recuperación desde archivos
 
 Eres un asistente que responde preguntas utilizando EXCLUSIVAMENTE la información disponible en los archivos conectados (PDF, DOCX, CSV, imágenes con OCR, etc.). Si la evidencia no existe en los archivos, dilo claramente y sugiere qué documento cargar o activar.
 
@@ -145,119 +136,179 @@ Políticas
   • No expongas información sensible que no esté explícitamente en los archivos.
   • SIEMPRE busca en los archivos usando la herramienta antes de decir que no hay información.`
 
+// Build model input preserving roles; admin instructions override the default prompt.
+// The conversation summary extends the prompt so price context stays the only extra system message
+function buildInputMessages(
+  settings: AppSettings,
+  defaultPrompt: string,
+  conversationHistory: ChatMessage[],
+  query: string,
+  options: QueryOptions = {}
+) {
+  const instructions = settings.system_instructions || defaultPrompt
+  const context = options.priceContext
+
+  return [
+    {
+      role: 'system' as const,
+      content: options.conversationSummary
+        ? `${instructions}\n\nResumen de la conversación hasta ahora:\n${options.conversationSummary}`
+        : instructions
+    },
+    ...(context ? [{ role: 'system' as const, content: context }] : []),
+    ...conversationHistory.map(msg => ({
+      role: msg.role as 'user' | 'assistant',
+      content: msg.content
+    })),
+    { role: 'user' as const, content: query }
+  ]
+}
+
+/**
+ * OPTIMAL price query using Vector Store + File Search (no attachments)
+ * Targets Venezuelan B2B price lookups across multiple catalogs
+ */
+export async function queryPricesFast(
+  query: string,
+  vectorStoreIds: string[],
+  conversationHistory: ChatMessage[] = [],
+  userIdentifier?: string | null,
+  options: QueryOptions = {}
+): Promise<OpenAIResponse> {
+  const startTime = Date.now()
+
+  try {
+    const provider = getLLMProvider()
+    const settings = options.organizationId ? await getAppSettings(options.organizationId) : EMPTY_SETTINGS
+
+    if (vectorStoreIds.length === 0 || options.priceContext) {
+      // Plain chat (no retrieval). Used when no vector stores are available or
+      // when structured price rows already answer the question.
+      const generation = resolveGenerationSettings(settings, 'fallback')
+      const messages = buildInputMessages(settings, FALLBACK_SYSTEM_PROMPT, conversationHistory, query, options)
+
+      const response = await provider.chat({ messages, generation, userIdentifier })
+
+      const processingTime = Date.now() - startTime
+      console.log(`💨 ${options.priceContext ? 'Structured price' : 'Fallback'} query completed in ${processingTime}ms`)
+
+      return {
+        content: response.content || 'No se pudo procesar la consulta.',
+        tokens_used: response.tokens_used,
+        response_time_ms: processingTime,
+        generation,
+        instructions_version: settings.instructions_version,
+      }
+    }
+
+    // OPTIMAL: Vector Stores + File Search. Used when vector stores are available.
+    console.log(`🚀 OPTIMAL SEARCH: Using ${vectorStoreIds.length} vector stores with intelligent retrieval`)
+
     // Build messages preserving roles
-    const dynamicInstructions = await getSystemInstructions()
-    const inputMessages = [
-      { role: 'system' as const, content: dynamicInstructions || systemInstructions },
-      ...conversationHistory.map(msg => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content
-      })),
-      { role: 'user' as const, content: query }
-    ]
-
-    console.log('📨 OpenAI Request:')
-    console.log(`  Model: gpt-4o-mini`)
+    const generation = resolveGenerationSettings(settings, 'retrieval')
+    const inputMessages = buildInputMessages(settings, RETRIEVAL_SYSTEM_PROMPT, conversationHistory, query, options)
+
+    console.log(`📨 ${provider.name} request:`)
+    console.log(`  Model: ${generation.model}`)
     console.log(`  Vector Stores: ${vectorStoreIds.join(', ')}`)
     console.log(`  Messages: ${inputMessages.length} messages`)
     console.log(`  Query: "${query}"`)
     console.log(`  Tool: file_search with ${vectorStoreIds.length} vector store(s)`)
 
-    const response = await openai.responses.create({
-      model: 'gpt-4o-mini',
-      input: inputMessages,
-      tools: [
-        {
-          type: 'file_search',
-          vector_store_ids: vectorStoreIds, // <-- required by the TS type
-          // optional:
-          // max_num_results: 12,
-        }
-      ],
-      tool_choice: 'auto',     // let it decide when to retrieve
-      temperature: 0.1,
-      max_output_tokens: 400,
-      stream: false
+    const response = await provider.answerFromFiles({
+      messages: inputMessages,
+      generation,
+      userIdentifier,
+      vectorStoreIds,
+      filters: options.filters,
     })
-    
-    console.log(`📥 OpenAI Response (initial):`)
-    console.log(`  Status: ${response.status}`)
-    console.log(`  ID: ${response.id}`)
-
-    // Poll if needed (Responses can be async)
-    let finalResponse = response
-    if (response.status === 'in_progress') {
-      console.log(`⏳ Response is in_progress, polling...`)
-      let attempts = 0
-      const maxAttempts = 30 // up to ~15s
-      while (finalResponse.status === 'in_progress' && attempts < maxAttempts) {
-        await new Promise(r => setTimeout(r, 500))
-        finalResponse = await openai.responses.retrieve(response.id)
-        attempts++
-        if (attempts % 5 === 0) {
-          console.log(`  Polling attempt ${attempts}/${maxAttempts}, status: ${finalResponse.status}`)
-        }
-      }
+
+    const processingTime = Date.now() - startTime
+    const performanceStatus =
+      processingTime <= 60 ? 'EXCELLENT 🚀' : processingTime <= 120 ? 'GOOD ⚡' : 'ACCEPTABLE ⏰'
+    const content = response.content || 'No se pudo procesar la consulta.'
+
+    console.log(`🎉 OPTIMAL SEARCH completed in ${processingTime}ms - ${performanceStatus}`)
+    console.log(`📊 Processed ${vectorStoreIds.length} vector stores | tokens=${response.tokens_used ?? 0}`)
+    console.log(`📝 Response content length: ${content.length} characters`)
+
+    return {
+      content,
+      tokens_used: response.tokens_used,
+      response_time_ms: processingTime,
+      sources: response.sources,
+      generation,
+      instructions_version: settings.instructions_version,
     }
+  } catch (error) {
+    const processingTime = Date.now() - startTime
+    console.error(`❌ Optimal search failed after ${processingTime}ms:`, error)
+    throw new Error(`Error en consulta de archivos: ${error instanceof Error ? error.message : 'Error desconocido'}`)
+  }
+}
+/**
+ * Streaming variant of queryPricesFast: forwards output_text deltas to onDelta
+ * as they arrive and resolves with the final content, tokens and timing
+ */
+export async function streamPricesFast(
+  query: string,
+  vectorStoreIds: string[],
+  conversationHistory: ChatMessage[] = [],
+  userIdentifier: string | null | undefined,
+  onDelta: (delta: string) => void,
+  options: QueryOptions = {}
+): Promise<OpenAIResponse> {
+  const startTime = Date.now()
 
-    if (finalResponse.status === 'completed') {
-      const processingTime = Date.now() - startTime
-      const performanceStatus =
-        processingTime <= 60 ? 'EXCELLENT 🚀' : processingTime <= 120 ? 'GOOD ⚡' : 'ACCEPTABLE ⏰'
-
-      // Log detailed output structure
-      console.log(`📥 OpenAI Response (final):`)
-      console.log(`  Status: ${finalResponse.status}`)
-      console.log(`  Output items: ${finalResponse.output?.length || 0}`)
-      
-      // Log file_search calls and results
-      if (Array.isArray(finalResponse.output)) {
-        finalResponse.output.forEach((item, idx) => {
-          if (item.type === 'file_search_call') {
-            console.log(`  [${idx}] File Search Call:`)
-            console.log(`    Status: ${item.status}`)
-            console.log(`    Queries: ${JSON.stringify(item.queries || [])}`)
-            console.log(`    Results: ${item.results ? `${item.results.length} results` : 'null'}`)
-            if (item.results && Array.isArray(item.results)) {
-              console.log(`    Result details: ${item.results.map((r: any) => r.file_id || r.id || 'unknown').join(', ')}`)
-            }
-          } else if (item.type === 'message') {
-            console.log(`  [${idx}] Message:`)
-            console.log(`    Status: ${item.status}`)
-            console.log(`    Content items: ${item.content?.length || 0}`)
-          }
-        })
-      }
+  try {
+    const provider = getLLMProvider()
+    const settings = options.organizationId ? await getAppSettings(options.organizationId) : EMPTY_SETTINGS
 
-      // Extract text safely
-      let content = 'No se pudo procesar la consulta.'
-      if (Array.isArray(finalResponse.output) && finalResponse.output.length > 0) {
-        const last = finalResponse.output[finalResponse.output.length - 1]
-        if (last?.type === 'message') {
-          const textPart = last.content?.find?.(c => c.type === 'output_text') as any
-          if (textPart?.text) content = textPart.text
-        }
-      }
+    if (vectorStoreIds.length === 0 || options.priceContext) {
+      const generation = resolveGenerationSettings(settings, 'fallback')
+      const messages = buildInputMessages(settings, FALLBACK_SYSTEM_PROMPT, conversationHistory, query, options)
+
+      const response = await provider.chat({ messages, generation, userIdentifier, onDelta })
 
-      console.log(`🎉 OPTIMAL SEARCH completed in ${processingTime}ms - ${performanceStatus}`)
-      console.log(`📊 Processed ${vectorStoreIds.length} vector stores | tokens=${finalResponse.usage?.total_tokens ?? 0}`)
-      console.log(`📝 Response content length: ${content.length} characters`)
+      const processingTime = Date.now() - startTime
+      console.log(`💨 ${options.priceContext ? 'Structured price' : 'Fallback'} stream completed in ${processingTime}ms`)
 
       return {
-        content,
-        tokens_used: finalResponse.usage?.total_tokens,
+        content: response.content || 'No se pudo procesar la consulta.',
+        tokens_used: response.tokens_used,
         response_time_ms: processingTime,
+        generation,
+        instructions_version: settings.instructions_version,
       }
-    } else {
-      const processingTime = Date.now() - startTime
-      console.error(`❌ Optimal search failed with status: ${finalResponse.status}`)
-      console.error(`❌ Full response:`, JSON.stringify(finalResponse, null, 2))
-      throw new Error(`La consulta no pudo completarse. Estado: ${finalResponse.status}`)
     }
 
+    console.log(`🚀 STREAMING SEARCH: Using ${vectorStoreIds.length} vector stores`)
+    const generation = resolveGenerationSettings(settings, 'retrieval')
+    const inputMessages = buildInputMessages(settings, RETRIEVAL_SYSTEM_PROMPT, conversationHistory, query, options)
+
+    const response = await provider.answerFromFiles({
+      messages: inputMessages,
+      generation,
+      userIdentifier,
+      onDelta,
+      vectorStoreIds,
+      filters: options.filters,
+    })
+
+    const processingTime = Date.now() - startTime
+    console.log(`🎉 STREAMING SEARCH completed in ${processingTime}ms | tokens=${response.tokens_used ?? 0}`)
+
+    return {
+      content: response.content || 'No se pudo procesar la consulta.',
+      tokens_used: response.tokens_used,
+      response_time_ms: processingTime,
+      sources: response.sources ?? [],
+      generation,
+      instructions_version: settings.instructions_version,
+    }
   } catch (error) {
     const processingTime = Date.now() - startTime
-    console.error(`❌ Optimal search failed after ${processingTime}ms:`, error)
+    console.error(`❌ Streaming search failed after ${processingTime}ms:`, error)
     throw new Error(`Error en consulta de archivos: ${error instanceof Error ? error.message : 'Error desconocido'}`)
   }
-}
\ No newline at end of file
+}
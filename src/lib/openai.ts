@@ -1,6 +1,19 @@
-import { openaiDirect as openai } from './openai-client'
 import { createHash } from 'crypto'
-export { openai }
+import type { ComparisonFilter } from 'openai/resources/shared'
+import { getLLMProvider, type FileSearchFilter } from './llm-provider'
+import {
+  registerVectorStore,
+  findRegisteredVectorStore,
+  listRegisteredVectorStores,
+  updateRegisteredVectorStore,
+  markVectorStoreGone,
+  findPriceListForStore,
+  toExpiresAt,
+  type VectorStoreKind,
+  type RegisteredVectorStore,
+} from './vector-store-registry'
+import { getOrganization, getDefaultOrganization } from './organizations'
+export type { VectorStoreKind }
 
 export interface ChatMessage {
   role: 'user' | 'assistant'
@@ -45,6 +58,25 @@ export interface VectorStoreResult {
   expires_at: number | null | undefined
 }
 
+export interface VectorStoreDrift {
+  checked: number
+  missing: string[] // registered but no longer in OpenAI
+  status_changed: string[]
+  file_mismatches: string[] // registered member files differ from OpenAI
+  untracked: string[] // in OpenAI but not registered
+  adopted: string[] // untracked stores recognized by name and registered
+}
+
+/**
+ * Attributes stored on each master store file, used by file_search filters
+ */
+export type MasterFileAttributes = Record<string, string | number | boolean>
+
+export interface MasterStoreFile {
+  fileId: string
+  attributes: MasterFileAttributes
+}
+
 export interface VectorStoreFileResult {
   id: string
   usage_bytes: number
@@ -58,29 +90,21 @@ export interface VectorStoreFileResult {
 }
 
 /**
- * Upload PDF to OpenAI Files API for ultra-fast processing
- * Optimized for Venezuelan price catalogs
+ * Upload a file (PDF, DOCX or converted Markdown) to the provider's Files API for vector stores
  */
-export async function uploadPDFToOpenAI(
+export async function uploadFileToOpenAI(
   file: Buffer,
-  filename: string
+  filename: string,
+  mimeType: string
 ): Promise<FileUploadResult> {
   const startTime = Date.now()
+  const label = mimeType === 'application/pdf' ? 'PDF' : 'file'
   
   try {
-    // Create a proper File object from Buffer for OpenAI API
-    // Convert Buffer to ArrayBuffer for compatibility with Blob constructor
-    const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
-    const blob = new Blob([arrayBuffer], { type: 'application/pdf' })
-    const fileData = new File([blob], filename, { type: 'application/pdf' })
-    
-    const response = await openai.files.create({
-      file: fileData,
-      purpose: 'assistants', // Required for vector stores
-    })
+    const response = await getLLMProvider().uploadFile(file, filename, mimeType)
 
     const processingTime = Date.now() - startTime
-    console.log(`PDF upload completed in ${processingTime}ms for file: ${filename}`)
+    console.log(`${label} upload completed in ${processingTime}ms for file: ${filename}`)
 
     return {
       file_id: response.id,
@@ -90,10 +114,21 @@ export async function uploadPDFToOpenAI(
     }
   } catch (error) {
     console.error('OpenAI file upload error:', error)
-    throw new Error(`Failed to upload PDF to OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw new Error(`Failed to upload ${label} to OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
+/**
+ * Upload PDF to OpenAI Files API for ultra-fast processing
+ * Optimized for Venezuelan price catalogs
+ */
+export async function uploadPDFToOpenAI(
+  file: Buffer,
+  filename: string
+): Promise<FileUploadResult> {
+  return uploadFileToOpenAI(file, filename, 'application/pdf')
+}
+
 /**
  * Generate a hash from file IDs for consistent vector store naming
  * This allows us to reuse existing vector stores instead of creating duplicates
@@ -110,59 +145,121 @@ export function generateFileIdsHash(fileIds: string[]): string {
 }
 
 /**
- * Find an existing temporary vector store by file IDs hash
- * Returns the vector store if found and ready, null otherwise
+ * Every file in a vector store (the provider follows pagination)
+ */
+export function listAllVectorStoreFiles(vectorStoreId: string) {
+  return getLLMProvider().listVectorStoreFiles(vectorStoreId)
+}
+
+/**
+ * Every vector store in the OpenAI project (the provider follows pagination)
+ */
+export function listAllVectorStores() {
+  return getLLMProvider().listVectorStores()
+}
+
+/**
+ * Every file uploaded for file search (the provider follows pagination)
+ */
+export function listAllOpenAIFiles() {
+  return getLLMProvider().listFiles()
+}
+
+/**
+ * Kind of a store created by this app, recognized by its name; null for
+ * stores that belong to something else in the same OpenAI project
+ */
+export function inferVectorStoreKind(name: string | null | undefined): VectorStoreKind | null {
+  if (name === MASTER_VECTOR_STORE_NAME || name?.startsWith(`${MASTER_VECTOR_STORE_NAME}-`)) return 'master'
+  if (name?.startsWith('Temp-')) return 'temp'
+  if (name?.startsWith('NeuraliticaBot-')) return 'individual'
+  return null
+}
+
+/**
+ * Kind of an untracked store created by a version of this app older than the
+ * registry: temp and per-catalog stores and the single master from before
+ * organizations. Per-organization masters came with the registry, so an
+ * untracked one belongs to another deployment
+ */
+export function inferLegacyVectorStoreKind(name: string | null | undefined): VectorStoreKind | null {
+  const kind = inferVectorStoreKind(name)
+  return kind === 'master' && masterStoreOrganizationId(name) ? null : kind
+}
+
+const isNotFound = (error: unknown) => error instanceof Error && /\b404\b/.test(error.message)
+
+/**
+ * Record a store the app created; a registry failure is logged, not thrown,
+ * since the store itself was created (reconciliation adopts it later)
+ */
+async function trackVectorStore(
+  store: VectorStoreResult,
+  kind: VectorStoreKind,
+  fileIds: string[],
+  owner: { priceListId?: string | null; organizationId?: string | null } = {}
+): Promise<void> {
+  try {
+    await registerVectorStore({
+      id: store.id,
+      kind,
+      name: store.name,
+      fileIds,
+      fileIdsHash: generateFileIdsHash(fileIds),
+      status: store.status,
+      expiresAt: store.expires_at,
+      ...owner,
+    })
+  } catch (error) {
+    console.error(`❌ Could not register ${kind} vector store ${store.id}:`, error)
+  }
+}
+
+/**
+ * Fetch a registered store from OpenAI; returns null (and updates the
+ * registry) when it has expired or was deleted outside the app
+ */
+async function retrieveRegisteredStore(entry: RegisteredVectorStore): Promise<VectorStoreResult | null> {
+  try {
+    const store = await getVectorStoreStatus(entry.id)
+
+    if (store.status === 'expired') {
+      await markVectorStoreGone(entry.id, 'expired')
+      return null
+    }
+
+    if (store.status !== entry.status) {
+      await updateRegisteredVectorStore(entry.id, { status: store.status, expires_at: toExpiresAt(store.expires_at) })
+    }
+
+    return store
+  } catch (error) {
+    if (isNotFound(error)) {
+      await markVectorStoreGone(entry.id, 'deleted')
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Find an existing temporary vector store for exactly these file IDs
+ * Resolved through the registry by file IDs hash; null when none is usable
  */
 export async function findExistingTempVectorStore(fileIds: string[]): Promise<VectorStoreResult | null> {
   try {
     const hash = generateFileIdsHash(fileIds)
-    const expectedName = `Temp-${hash}`
-    
-    // List all vector stores and find one matching our hash
-    const vectorStores = await openai.vectorStores.list()
-    const matchingStore = vectorStores.data.find(store => 
-      store.name === expectedName || store.name?.startsWith(`Temp-${hash}`)
-    )
-    
-    if (!matchingStore) {
+    const entry = await findRegisteredVectorStore('temp', { fileIdsHash: hash })
+
+    if (!entry) {
       return null
     }
-    
-    // Verify the store has the same files (exact match required)
-    try {
-      const filesInStore = await openai.vectorStores.files.list(matchingStore.id)
-      const fileIdsInStore = new Set(filesInStore.data.map(f => f.id))
-      const requestedFileIds = new Set(fileIds)
-      
-      // Check if all requested files are in the store
-      const allFilesPresent = fileIds.every(id => fileIdsInStore.has(id))
-      const sameFileCount = fileIds.length === fileIdsInStore.size
-      
-      // Also check that store doesn't have extra files (exact match)
-      const noExtraFiles = Array.from(fileIdsInStore).every(id => requestedFileIds.has(id))
-      
-      if (!allFilesPresent || !sameFileCount || !noExtraFiles) {
-        console.log(`⚠️ Found vector store ${matchingStore.id} but files don't match exactly:`)
-        console.log(`   Requested: ${fileIds.length} files [${fileIds.join(', ')}]`)
-        console.log(`   In store: ${fileIdsInStore.size} files [${Array.from(fileIdsInStore).join(', ')}]`)
-        console.log(`   All present: ${allFilesPresent}, Same count: ${sameFileCount}, No extras: ${noExtraFiles}`)
-        return null
-      }
-      
-      console.log(`✅ Found matching vector store ${matchingStore.id} with exact file match: ${fileIds.length} file(s)`)
-      
-      // Return the store info
-      return {
-        id: matchingStore.id,
-        name: matchingStore.name || expectedName,
-        file_counts: matchingStore.file_counts,
-        status: matchingStore.status,
-        expires_at: matchingStore.expires_at,
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error verifying files in vector store ${matchingStore.id}:`, error)
-      return null
+
+    const store = await retrieveRegisteredStore(entry)
+    if (store) {
+      console.log(`✅ Found registered temp vector store ${store.id} for ${fileIds.length} file(s)`)
     }
+    return store
   } catch (error) {
     console.warn('Error finding existing temp vector store:', error)
     return null
@@ -175,30 +272,34 @@ export async function findExistingTempVectorStore(fileIds: string[]): Promise<Ve
  */
 export async function createVectorStore(
   name: string,
-  fileIds: string[]
+  fileIds: string[],
+  options: { kind?: VectorStoreKind; priceListId?: string | null; organizationId?: string | null } = {}
 ): Promise<VectorStoreResult> {
   const startTime = Date.now()
   
   try {
-    const vectorStore = await openai.vectorStores.create({
+    const vectorStore = await getLLMProvider().createVectorStore({
       name: name,
-      file_ids: fileIds,
-      expires_after: {
-        anchor: 'last_active_at',
-        days: 30 // Vector stores expire after 30 days of inactivity
-      }
+      fileIds,
+      expiresAfterDays: 30 // Vector stores expire after 30 days of inactivity
     })
 
     const processingTime = Date.now() - startTime
     console.log(`Vector store created in ${processingTime}ms: ${vectorStore.id}`)
 
-    return {
+    const result: VectorStoreResult = {
       id: vectorStore.id,
       name: vectorStore.name || name,
       file_counts: vectorStore.file_counts,
       status: vectorStore.status,
       expires_at: vectorStore.expires_at,
     }
+
+    await trackVectorStore(result, options.kind ?? 'individual', fileIds, {
+      priceListId: options.priceListId,
+      organizationId: options.organizationId,
+    })
+    return result
   } catch (error) {
     console.error('Vector store creation error:', error)
     throw new Error(`Failed to create vector store: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -223,12 +324,9 @@ export async function getOrCreateTempVectorStore(fileIds: string[]): Promise<Vec
         console.log(`♻️ Reusing existing temp vector store ${existingStore.id} (found in ${processingTime}ms)`)
         return existingStore
       } else if (existingStore.status === 'in_progress') {
-        // Store exists but still processing - wait for it
-        console.log(`⏳ Found existing temp vector store ${existingStore.id} but still processing, waiting...`)
-        const readyStore = await waitForVectorStoreReady(existingStore.id, 60000, 2000)
-        const processingTime = Date.now() - startTime
-        console.log(`✅ Existing temp vector store ready after ${processingTime}ms`)
-        return readyStore
+        // Store exists but still processing - return it as is; callers check readiness
+        console.log(`⏳ Found existing temp vector store ${existingStore.id} but still processing`)
+        return existingStore
       } else {
         // Store exists but failed/expired - create new one
         console.log(`⚠️ Existing temp vector store ${existingStore.id} is ${existingStore.status}, creating new one`)
@@ -240,7 +338,7 @@ export async function getOrCreateTempVectorStore(fileIds: string[]): Promise<Vec
     const tempName = `Temp-${hash}`
     
     console.log(`🆕 Creating new temp vector store with hash ${hash} for ${fileIds.length} file(s)`)
-    const newStore = await createVectorStore(tempName, fileIds)
+    const newStore = await createVectorStore(tempName, fileIds, { kind: 'temp' })
     
     const processingTime = Date.now() - startTime
     console.log(`✅ Created new temp vector store ${newStore.id} in ${processingTime}ms`)
@@ -260,10 +358,7 @@ export async function addFileToVectorStore(
   fileId: string
 ): Promise<VectorStoreFileResult> {
   try {
-    const vectorStoreFile = await openai.vectorStores.files.create(
-      vectorStoreId,
-      { file_id: fileId }
-    )
+    const vectorStoreFile = await getLLMProvider().addVectorStoreFile(vectorStoreId, fileId)
 
     return {
       id: vectorStoreFile.id,
@@ -287,7 +382,7 @@ export async function removeFileFromVectorStore(
   fileId: string
 ): Promise<{ deleted: boolean }> {
   try {
-    const result = await openai.vectorStores.files.delete(fileId, { vector_store_id: vectorStoreId })
+    const result = await getLLMProvider().removeVectorStoreFile(vectorStoreId, fileId)
     return { deleted: result.deleted }
   } catch (error) {
     console.error('Remove file from vector store error:', error)
@@ -300,7 +395,14 @@ export async function removeFileFromVectorStore(
  */
 export async function deleteVectorStore(vectorStoreId: string): Promise<{ deleted: boolean }> {
   try {
-    const result = await openai.vectorStores.delete(vectorStoreId)
+    const result = await getLLMProvider().deleteVectorStore(vectorStoreId)
+    if (result.deleted) {
+      try {
+        await markVectorStoreGone(vectorStoreId, 'deleted')
+      } catch (registryError) {
+        console.error(`❌ Could not mark vector store ${vectorStoreId} as deleted:`, registryError)
+      }
+    }
     return { deleted: result.deleted }
   } catch (error) {
     console.error('Delete vector store error:', error)
@@ -313,7 +415,7 @@ export async function deleteVectorStore(vectorStoreId: string): Promise<{ delete
  */
 export async function deleteOpenAIFile(fileId: string): Promise<{ deleted: boolean }> {
   try {
-    const result = await openai.files.delete(fileId)
+    const result = await getLLMProvider().deleteFile(fileId)
     return { deleted: result.deleted }
   } catch (error) {
     console.error('Delete OpenAI file error:', error)
@@ -360,8 +462,7 @@ export async function waitForVectorStoreReady(
       
       // Verify individual file statuses for more accuracy
       try {
-        const filesResponse = await openai.vectorStores.files.list(vectorStoreId)
-        const files = filesResponse.data || []
+        const files = await listAllVectorStoreFiles(vectorStoreId)
         
         if (files.length === 0) {
           console.log(`⏳ Vector store ${vectorStoreId} completed but files list is empty, waiting...`)
@@ -432,7 +533,7 @@ export async function waitForVectorStoreReady(
 
 export async function getVectorStoreStatus(vectorStoreId: string): Promise<VectorStoreResult> {
   try {
-    const vectorStore = await openai.vectorStores.retrieve(vectorStoreId)
+    const vectorStore = await getLLMProvider().retrieveVectorStore(vectorStoreId)
     
     return {
       id: vectorStore.id,
@@ -448,76 +549,170 @@ export async function getVectorStoreStatus(vectorStoreId: string): Promise<Vecto
 }
 
 // MASTER VECTOR STORE MANAGEMENT
-// Best practice: One vector store containing all active PDFs
+// Best practice: One vector store per organization containing all its active PDFs
 
 const MASTER_VECTOR_STORE_NAME = 'NeuraliticaBot-Master-Catalog'
 
 /**
- * Get or create the master vector store for all PDFs
- * This is the optimal approach - one store for all catalogs
+ * Name of an organization's master store; the organization can be read back
+ * from it when an untracked store is adopted
+ */
+export const masterVectorStoreName = (organizationId: string) => `${MASTER_VECTOR_STORE_NAME}-${organizationId}`
+
+/**
+ * Organization of a master store named by masterVectorStoreName; null for the
+ * single master created before organizations existed
  */
-export async function getOrCreateMasterVectorStore(): Promise<VectorStoreResult> {
+export function masterStoreOrganizationId(name: string | null | undefined): string | null {
+  const prefix = `${MASTER_VECTOR_STORE_NAME}-`
+  return name?.startsWith(prefix) ? name.slice(prefix.length) : null
+}
+
+/**
+ * Organization that inherits the single master created before organizations
+ * existed: the default one, until it has a registered master of its own.
+ * Null when the legacy master has an owner already
+ */
+export async function findLegacyMasterOwner(): Promise<string | null> {
+  const organization = await getDefaultOrganization().catch(() => null)
+  if (!organization) return null
+
+  const entry = await findRegisteredVectorStore('master', { organizationId: organization.id })
+  return entry ? null : organization.id
+}
+
+/**
+ * Get or create the master vector store of an organization
+ * This is the optimal approach - one store for all of its catalogs
+ * Resolved through the registry; stores are only listed once, to adopt a
+ * master created before the registry existed (the default organization
+ * adopts the unsuffixed one from before organizations)
+ */
+export async function getOrCreateMasterVectorStore(organizationId: string): Promise<VectorStoreResult> {
   const startTime = Date.now()
+  const name = masterVectorStoreName(organizationId)
   
   try {
-    // First, try to find existing master vector store
-    const vectorStores = await openai.vectorStores.list()
-    const existingMaster = vectorStores.data.find(store => 
-      store.name === MASTER_VECTOR_STORE_NAME
-    )
+    const entry = await findRegisteredVectorStore('master', { organizationId })
+    if (entry) {
+      const registeredMaster = await retrieveRegisteredStore(entry)
+      if (registeredMaster) {
+        return registeredMaster
+      }
+      console.warn(`⚠️ Registered master vector store ${entry.id} is gone, creating a new one`)
+    } else {
+      const remoteStores = (await listAllVectorStores()).filter(store => store.status !== 'expired')
+      let existingMaster = remoteStores.find(store => store.name === name)
+      if (!existingMaster && (await findLegacyMasterOwner()) === organizationId) {
+        existingMaster = remoteStores.find(store => store.name === MASTER_VECTOR_STORE_NAME)
+      }
 
-    if (existingMaster) {
-      console.log(`✅ Found existing master vector store: ${existingMaster.id}`)
-      return {
-        id: existingMaster.id,
-        name: existingMaster.name || MASTER_VECTOR_STORE_NAME,
-        file_counts: existingMaster.file_counts,
-        status: existingMaster.status,
-        expires_at: existingMaster.expires_at,
+      if (existingMaster) {
+        console.log(`✅ Adopting existing master vector store into registry: ${existingMaster.id}`)
+        const adopted: VectorStoreResult = {
+          id: existingMaster.id,
+          name: existingMaster.name || name,
+          file_counts: existingMaster.file_counts,
+          status: existingMaster.status,
+          expires_at: existingMaster.expires_at,
+        }
+        const fileIds = (await listAllVectorStoreFiles(existingMaster.id)).map(file => file.id)
+        await trackVectorStore(adopted, 'master', fileIds, { organizationId })
+        return adopted
       }
     }
 
     // Create new master vector store
-    const vectorStore = await openai.vectorStores.create({
-      name: MASTER_VECTOR_STORE_NAME,
-      expires_after: {
-        anchor: 'last_active_at',
-        days: 365 // Master store lives longer
-      }
+    const vectorStore = await getLLMProvider().createVectorStore({
+      name,
+      expiresAfterDays: 365 // Master store lives longer
     })
 
     const processingTime = Date.now() - startTime
-    console.log(`🚀 Created master vector store in ${processingTime}ms: ${vectorStore.id}`)
+    console.log(`🚀 Created master vector store of organization ${organizationId} in ${processingTime}ms: ${vectorStore.id}`)
 
-    return {
+    const result: VectorStoreResult = {
       id: vectorStore.id,
-      name: vectorStore.name || MASTER_VECTOR_STORE_NAME,
+      name: vectorStore.name || name,
       file_counts: vectorStore.file_counts,
       status: vectorStore.status,
       expires_at: vectorStore.expires_at,
     }
+
+    await trackVectorStore(result, 'master', [], { organizationId })
+    return result
   } catch (error) {
     console.error('Master vector store error:', error)
     throw new Error(`Failed to get/create master vector store: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
+/**
+ * Apply a membership change to a registered store's file list (best effort)
+ */
+async function updateRegisteredFiles(vectorStoreId: string, fileIds: string[]): Promise<void> {
+  try {
+    await updateRegisteredVectorStore(vectorStoreId, {
+      file_ids: fileIds,
+      file_ids_hash: generateFileIdsHash(fileIds),
+    })
+  } catch (error) {
+    console.error(`❌ Could not update files of vector store ${vectorStoreId} in registry:`, error)
+  }
+}
+
+/**
+ * Attributes for a price list's file in the master store: price_list_id,
+ * supplier and upload date (unix seconds, so ranges can be filtered)
+ */
+export function buildMasterFileAttributes(priceList: {
+  id: string
+  supplier_name: string | null
+  uploaded_at: string
+}): MasterFileAttributes {
+  return {
+    price_list_id: priceList.id,
+    ...(priceList.supplier_name ? { supplier: priceList.supplier_name } : {}),
+    uploaded_at: Math.floor(new Date(priceList.uploaded_at).getTime() / 1000),
+  }
+}
+
+/**
+ * file_search filter restricting the master store to some price lists
+ */
+export function buildPriceListFilter(priceListIds: string[]): FileSearchFilter {
+  const filters: ComparisonFilter[] = priceListIds.map(id => ({ type: 'eq', key: 'price_list_id', value: id }))
+  return filters.length === 1 ? filters[0] : { type: 'or', filters }
+}
+
+const sameAttributes = (current: MasterFileAttributes | null | undefined, wanted: MasterFileAttributes) =>
+  Object.keys(wanted).length === Object.keys(current ?? {}).length &&
+  Object.entries(wanted).every(([key, value]) => current?.[key] === value)
+
 /**
  * Add file to master vector store
- * Use this when a new PDF catalog is uploaded
+ * Use this when a new PDF catalog is uploaded; a file already in the store
+ * gets its attributes refreshed
  */
-export async function addFileToMasterVectorStore(fileId: string): Promise<VectorStoreFileResult> {
+export async function addFileToMasterVectorStore(
+  organizationId: string,
+  fileId: string,
+  attributes?: MasterFileAttributes
+): Promise<VectorStoreFileResult> {
   try {
-    const masterStore = await getOrCreateMasterVectorStore()
+    const masterStore = await getOrCreateMasterVectorStore(organizationId)
     
     // Check if file is already in the store
-    const existingFiles = await openai.vectorStores.files.list(masterStore.id)
-    const fileExists = existingFiles.data.some(file => file.id === fileId)
+    const existingFiles = await listAllVectorStoreFiles(masterStore.id)
+    const existingFile = existingFiles.find(file => file.id === fileId)
     
-    if (fileExists) {
+    if (existingFile) {
       console.log(`ℹ️ File ${fileId} already exists in master vector store`)
+      if (attributes && !sameAttributes(existingFile.attributes, attributes)) {
+        await getLLMProvider().updateVectorStoreFile(masterStore.id, fileId, attributes)
+        console.log(`🏷️ Updated attributes of ${fileId} in master vector store`)
+      }
       // Return existing file info
-      const existingFile = existingFiles.data.find(file => file.id === fileId)!
       return {
         id: existingFile.id,
         usage_bytes: existingFile.usage_bytes,
@@ -529,12 +724,10 @@ export async function addFileToMasterVectorStore(fileId: string): Promise<Vector
     }
 
     // Add file to master store
-    const vectorStoreFile = await openai.vectorStores.files.create(
-      masterStore.id,
-      { file_id: fileId }
-    )
+    const vectorStoreFile = await getLLMProvider().addVectorStoreFile(masterStore.id, fileId, attributes)
 
     console.log(`✅ Added file ${fileId} to master vector store`)
+    await updateRegisteredFiles(masterStore.id, [...existingFiles.map(file => file.id), fileId])
 
     return {
       id: vectorStoreFile.id,
@@ -554,12 +747,14 @@ export async function addFileToMasterVectorStore(fileId: string): Promise<Vector
  * Remove file from master vector store
  * Use this when a catalog becomes inactive
  */
-export async function removeFileFromMasterVectorStore(fileId: string): Promise<{ deleted: boolean }> {
+export async function removeFileFromMasterVectorStore(organizationId: string, fileId: string): Promise<{ deleted: boolean }> {
   try {
-    const masterStore = await getOrCreateMasterVectorStore()
-    const result = await openai.vectorStores.files.delete(fileId, { vector_store_id: masterStore.id })
+    const masterStore = await getOrCreateMasterVectorStore(organizationId)
+    const result = await getLLMProvider().removeVectorStoreFile(masterStore.id, fileId)
     
     console.log(`🗑️ Removed file ${fileId} from master vector store`)
+    const remainingFiles = await listAllVectorStoreFiles(masterStore.id)
+    await updateRegisteredFiles(masterStore.id, remainingFiles.map(file => file.id).filter(id => id !== fileId))
     return { deleted: result.deleted }
   } catch (error) {
     console.error('Remove file from master vector store error:', error)
@@ -568,20 +763,25 @@ export async function removeFileFromMasterVectorStore(fileId: string): Promise<{
 }
 
 /**
- * Sync all active files to master vector store
- * Call this to ensure master store contains only active catalogs
+ * Sync all active files of an organization to its master vector store
+ * Call this to ensure master store contains only active catalogs, each
+ * tagged with its current attributes (backfills files added without them)
  */
-export async function syncMasterVectorStore(activeFileIds: string[]): Promise<{
+export async function syncMasterVectorStore(organizationId: string, activeFiles: MasterStoreFile[]): Promise<{
   added: number,
   removed: number,
+  attributesUpdated: number,
   masterStoreId: string
 }> {
   try {
-    const masterStore = await getOrCreateMasterVectorStore()
+    const provider = getLLMProvider()
+    const masterStore = await getOrCreateMasterVectorStore(organizationId)
+    const activeFileIds = activeFiles.map(file => file.fileId)
+    const attributesByFileId = new Map(activeFiles.map(file => [file.fileId, file.attributes]))
     
     // Get current files in master store
-    const currentFiles = await openai.vectorStores.files.list(masterStore.id)
-    const currentFileIds = currentFiles.data.map(file => file.id)
+    const currentFiles = await listAllVectorStoreFiles(masterStore.id)
+    const currentFileIds = currentFiles.map(file => file.id)
     
     // Find files to add (in activeFileIds but not in master store)
     const filesToAdd = activeFileIds.filter(fileId => !currentFileIds.includes(fileId))
@@ -589,11 +789,16 @@ export async function syncMasterVectorStore(activeFileIds: string[]): Promise<{
     // Find files to remove (in master store but not in activeFileIds)
     const filesToRemove = currentFileIds.filter(fileId => !activeFileIds.includes(fileId))
     
-    console.log(`📊 Master sync: ${filesToAdd.length} to add, ${filesToRemove.length} to remove`)
+    // Files already indexed whose attributes are missing or stale
+    const filesToTag = currentFiles.filter(file =>
+      attributesByFileId.has(file.id) && !sameAttributes(file.attributes, attributesByFileId.get(file.id)!)
+    )
+    
+    console.log(`📊 Master sync: ${filesToAdd.length} to add, ${filesToRemove.length} to remove, ${filesToTag.length} to tag`)
     
     // Add missing files
     const addPromises = filesToAdd.map(fileId => 
-      openai.vectorStores.files.create(masterStore.id, { file_id: fileId })
+      provider.addVectorStoreFile(masterStore.id, fileId, attributesByFileId.get(fileId))
         .catch(error => {
           console.error(`Failed to add file ${fileId}:`, error)
           return null
@@ -602,30 +807,145 @@ export async function syncMasterVectorStore(activeFileIds: string[]): Promise<{
     
     // Remove inactive files
     const removePromises = filesToRemove.map(fileId => 
-      openai.vectorStores.files.delete(fileId, { vector_store_id: masterStore.id })
+      provider.removeVectorStoreFile(masterStore.id, fileId)
         .catch(error => {
           console.error(`Failed to remove file ${fileId}:`, error)
           return null
         })
     )
     
-    const [addResults, removeResults] = await Promise.all([
+    // Tag existing files
+    const tagPromises = filesToTag.map(file => 
+      provider.updateVectorStoreFile(masterStore.id, file.id, attributesByFileId.get(file.id)!)
+        .catch(error => {
+          console.error(`Failed to update attributes of file ${file.id}:`, error)
+          return null
+        })
+    )
+    
+    const [addResults, removeResults, tagResults] = await Promise.all([
       Promise.all(addPromises),
-      Promise.all(removePromises)
+      Promise.all(removePromises),
+      Promise.all(tagPromises)
     ])
     
     const successfulAdds = addResults.filter(result => result !== null).length
     const successfulRemoves = removeResults.filter(result => result !== null).length
+    const successfulTags = tagResults.filter(result => result !== null).length
     
-    console.log(`✅ Master sync complete: ${successfulAdds} added, ${successfulRemoves} removed`)
+    console.log(`✅ Master sync complete: ${successfulAdds} added, ${successfulRemoves} removed, ${successfulTags} tagged`)
+
+    const addedIds = filesToAdd.filter((_, index) => addResults[index] !== null)
+    const removedIds = filesToRemove.filter((_, index) => removeResults[index] !== null)
+    await updateRegisteredFiles(
+      masterStore.id,
+      [...currentFileIds.filter(id => !removedIds.includes(id)), ...addedIds]
+    )
     
     return {
       added: successfulAdds,
       removed: successfulRemoves,
+      attributesUpdated: successfulTags,
       masterStoreId: masterStore.id
     }
   } catch (error) {
     console.error('Sync master vector store error:', error)
     throw new Error(`Failed to sync master vector store: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Compare the registry with the stores that actually exist in OpenAI
+ * Missing stores are marked deleted, status and member files are refreshed,
+ * and untracked stores with a recognizable name are adopted
+ */
+export async function reconcileVectorStores(): Promise<VectorStoreDrift> {
+  const drift: VectorStoreDrift = {
+    checked: 0,
+    missing: [],
+    status_changed: [],
+    file_mismatches: [],
+    untracked: [],
+    adopted: [],
+  }
+
+  const [registered, remoteStores] = await Promise.all([
+    listRegisteredVectorStores(),
+    listAllVectorStores(),
+  ])
+  const remoteById = new Map(remoteStores.map(store => [store.id, store]))
+  const registeredIds = new Set(registered.map(entry => entry.id))
+
+  for (const entry of registered) {
+    drift.checked++
+    const remote = remoteById.get(entry.id)
+
+    if (!remote) {
+      if (entry.status !== 'expired') {
+        drift.missing.push(entry.id)
+        await markVectorStoreGone(entry.id, 'deleted')
+      }
+      continue
+    }
+
+    const fileIds = (await listAllVectorStoreFiles(entry.id)).map(file => file.id)
+    const fileIdsHash = generateFileIdsHash(fileIds)
+
+    if (remote.status !== entry.status) {
+      drift.status_changed.push(entry.id)
+    }
+    if (fileIdsHash !== entry.file_ids_hash) {
+      drift.file_mismatches.push(entry.id)
+    }
+
+    await updateRegisteredVectorStore(entry.id, {
+      status: remote.status,
+      expires_at: toExpiresAt(remote.expires_at),
+      file_ids: fileIds,
+      file_ids_hash: fileIdsHash,
+      last_synced_at: new Date().toISOString(),
+    })
+  }
+
+  for (const remote of remoteStores) {
+    if (registeredIds.has(remote.id)) continue
+    drift.untracked.push(remote.id)
+
+    const kind = inferVectorStoreKind(remote.name)
+
+    if (!kind || remote.status === 'expired') continue
+
+    // A matching name is not proof the store is ours: another deployment may
+    // share the OpenAI project. Only adopt what this database points to
+    const priceList = kind === 'individual' ? await findPriceListForStore(remote.id) : null
+    // The unsuffixed master predates organizations and goes to the default one
+    const masterOrganizationId = kind === 'master'
+      ? masterStoreOrganizationId(remote.name) ?? await findLegacyMasterOwner()
+      : null
+    const owned = kind === 'individual'
+      ? !!priceList
+      : kind === 'master' && !!masterOrganizationId && !!(await getOrganization(masterOrganizationId))
+    if (!owned) continue
+
+    const fileIds = (await listAllVectorStoreFiles(remote.id)).map(file => file.id)
+    await registerVectorStore({
+      id: remote.id,
+      kind,
+      name: remote.name,
+      fileIds,
+      fileIdsHash: generateFileIdsHash(fileIds),
+      status: remote.status,
+      expiresAt: remote.expires_at,
+      priceListId: priceList?.id ?? null,
+      organizationId: masterOrganizationId ?? priceList?.organization_id ?? null,
+    })
+    drift.adopted.push(remote.id)
+  }
+
+  console.log(
+    `🔎 Vector store reconciliation: ${drift.checked} checked, ${drift.missing.length} missing, ` +
+    `${drift.file_mismatches.length} file mismatches, ${drift.adopted.length}/${drift.untracked.length} untracked adopted`
+  )
+
+  return drift
+}
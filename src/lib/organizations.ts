@@ -0,0 +1,108 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+/**
+ * Tenants. Every price list, master store, instruction set, plan and user
+ * belongs to one organization; only platform admins (public.admins) create
+ * them or move users between them.
+ */
+
+export interface Organization {
+  id: string
+  name: string
+  slug: string
+  created_at: string
+}
+
+// Organization that existing data was moved into (schema.sql)
+export const DEFAULT_ORGANIZATION_SLUG = 'principal'
+
+export const MAX_ORGANIZATION_SLUG_LENGTH = 60
+
+const ORGANIZATION_COLUMNS = 'id, name, slug, created_at'
+
+/**
+ * "Distribuidora El Ávila, C.A." -> "distribuidora-el-avila-c-a"
+ */
+export function slugifyOrganizationName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_ORGANIZATION_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '')
+}
+
+export async function listOrganizations(): Promise<Organization[]> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('organizations')
+    .select(ORGANIZATION_COLUMNS)
+    .order('name')
+
+  if (error) throw new Error(`Failed to load organizations: ${error.message}`)
+  return (data || []) as Organization[]
+}
+
+export async function getOrganization(id: string): Promise<Organization | null> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('organizations')
+    .select(ORGANIZATION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load organization: ${error.message}`)
+  return data as Organization | null
+}
+
+/**
+ * The organization that sign-ups without an explicit one join
+ */
+export async function getDefaultOrganization(): Promise<Organization> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('organizations')
+    .select(ORGANIZATION_COLUMNS)
+    .eq('slug', DEFAULT_ORGANIZATION_SLUG)
+    .single()
+
+  if (error || !data) throw new Error(`Default organization not found: ${error?.message ?? DEFAULT_ORGANIZATION_SLUG}`)
+  return data as Organization
+}
+
+/**
+ * Organization a new profile joins: the one an admin set in the auth user's
+ * app_metadata when inviting them (as handle_new_user does), otherwise the default
+ */
+export async function resolveNewUserOrganizationId(appMetadata: Record<string, unknown> | undefined): Promise<string> {
+  const invited = appMetadata?.organization_id
+  if (typeof invited === 'string' && invited) return invited
+  return (await getDefaultOrganization()).id
+}
+
+/**
+ * Create an organization with its settings row (default instructions, no
+ * model override). Returns null when the slug is taken
+ */
+export async function createOrganization(input: { name: string; slug?: string }): Promise<Organization | null> {
+  const slug = input.slug || slugifyOrganizationName(input.name)
+  if (!slug) throw new Error('Organization name must contain letters or digits')
+
+  const supabaseAdmin = createSupabaseAdmin()
+  const { data, error } = await supabaseAdmin
+    .from('organizations')
+    .insert({ name: input.name, slug })
+    .select(ORGANIZATION_COLUMNS)
+    .single()
+
+  if (error?.code === '23505') return null
+  if (error || !data) throw new Error(`Failed to create organization: ${error?.message ?? 'no row returned'}`)
+
+  const { error: settingsError } = await supabaseAdmin
+    .from('app_settings')
+    .insert({ organization_id: data.id, system_instructions: null })
+
+  if (settingsError) {
+    console.error(`❌ Failed to create settings of organization ${data.id}:`, settingsError)
+  }
+
+  return data as Organization
+}
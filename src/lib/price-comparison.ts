@@ -0,0 +1,176 @@
+import {
+  extractSearchTerms,
+  searchPriceItems,
+  selectConfidentMatches,
+  formatPrice,
+  priceMatchesToCitations,
+  type PriceItemMatch,
+  type StructuredPriceLookup,
+} from '@/lib/price-search'
+import { formatEquivalent, type CurrencyAmounts } from '@/lib/currency'
+
+/**
+ * Cross-supplier comparison over price_items: the best matching product of each
+ * active price list, ranked from cheapest to most expensive
+ */
+
+export interface PriceComparisonRow extends CurrencyAmounts {
+  rank: number
+  price_list_id: string
+  supplier_name: string
+  file_name: string
+  sku: string | null
+  description: string
+  unit: string | null
+  price: number
+  currency: string
+  catalog_date: string
+}
+
+export interface PriceComparison {
+  query: string
+  rows: PriceComparisonRow[]
+}
+
+const MAX_CANDIDATES = 60
+const MATCH_PRIORITY: Record<PriceItemMatch['match_type'], number> = {
+  exact_sku: 0,
+  exact: 1,
+  fulltext: 2,
+  fuzzy: 3,
+}
+
+// Comparison wording that extractSearchTerms keeps but is not part of the product name
+const COMPARISON_WORDS = new Set([
+  'barato', 'barata', 'baratos', 'baratas', 'economico', 'economica', 'quien', 'quienes', 'vende', 'venden',
+  'compara', 'comparar', 'comparame', 'comparacion', 'comparativa', 'mejor', 'menor', 'proveedor', 'proveedores',
+])
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+const COMPARISON_PATTERN = /\b(mas barat[oa]s?|barat[oa]s?|economic[oa]s?|compar(a|ar|ame|acion|ativa|e)|quien(es)? vende(n)?|mejor precio|menor precio|cheapest|cheaper)\b/
+
+/**
+ * Whether a question asks to compare suppliers ("¿quién vende más barato el cable 12 AWG?")
+ */
+export function isComparisonQuery(question: string): boolean {
+  return COMPARISON_PATTERN.test(normalize(question))
+}
+
+/**
+ * Whether a match is cheaper than another of the same list. Prices are only compared in USD
+ * or within one currency; otherwise the match with a USD value wins, since it can be ranked
+ */
+function isCheaper(match: PriceItemMatch, current: PriceItemMatch): boolean {
+  if (match.price_usd !== null && current.price_usd !== null) return match.price_usd < current.price_usd
+  if (match.currency === current.currency) return match.price < current.price
+  return match.price_usd !== null
+}
+
+/**
+ * Keep the best match of each price list (most relevant, then cheapest) and rank the lists by price.
+ * Rows with a USD value (USD prices or VES converted at the catalog-date rate) are ranked together;
+ * prices that cannot be converted follow, ranked within their own currency.
+ */
+export function buildPriceComparison(query: string, matches: PriceItemMatch[]): PriceComparison {
+  const bestByList = new Map<string, PriceItemMatch>()
+  for (const match of matches) {
+    const current = bestByList.get(match.price_list_id)
+    const better = !current
+      || MATCH_PRIORITY[match.match_type] < MATCH_PRIORITY[current.match_type]
+      || (MATCH_PRIORITY[match.match_type] === MATCH_PRIORITY[current.match_type] && isCheaper(match, current))
+    if (better) bestByList.set(match.price_list_id, match)
+  }
+
+  const best = Array.from(bestByList.values())
+  const converted = best
+    .filter(match => match.price_usd !== null)
+    .sort((a, b) => a.price_usd! - b.price_usd!)
+  const unconverted = best
+    .filter(match => match.price_usd === null)
+    .sort((a, b) => a.currency.localeCompare(b.currency) || a.price - b.price)
+
+  const rankInCurrency = new Map<string, number>()
+  const rows = [...converted, ...unconverted].map((match, index) => {
+    let rank = index + 1
+    if (match.price_usd === null) {
+      rank = (rankInCurrency.get(match.currency) || 0) + 1
+      rankInCurrency.set(match.currency, rank)
+    }
+    return {
+      rank,
+      price_list_id: match.price_list_id,
+      supplier_name: match.supplier_name,
+      file_name: match.file_name,
+      sku: match.sku,
+      description: match.description,
+      unit: match.unit,
+      price: match.price,
+      currency: match.currency,
+      price_usd: match.price_usd,
+      price_ves: match.price_ves,
+      exchange_rate: match.exchange_rate,
+      rate_date: match.rate_date,
+      catalog_date: match.uploaded_at,
+    }
+  })
+
+  return { query, rows }
+}
+
+/**
+ * Context for the model: the table is rendered by the client, so only a short summary is wanted
+ */
+export function formatComparisonContext(comparison: PriceComparison): string {
+  const lines = comparison.rows.map(row => {
+    const equivalent = formatEquivalent(row)
+    return `${row.rank}. ${row.supplier_name} — ${row.description}${row.unit ? ` (${row.unit})` : ''}: ` +
+      `${formatPrice(row.price)} ${row.currency}${equivalent ? ` (${equivalent})` : ''} ` +
+      `[${row.file_name}, ${row.catalog_date.slice(0, 10)}]`
+  })
+
+  return [
+    `Comparación de precios entre proveedores para "${comparison.query}" (ordenada de menor a mayor precio en USD, convirtiendo los bolívares con la tasa vigente en la fecha de cada catálogo).`,
+    'El usuario ya ve esta comparación como tabla: NO la repitas. Resume en 2 o 3 frases quién ofrece el mejor precio,',
+    'la diferencia con el siguiente proveedor y cualquier advertencia (productos no equivalentes, precios sin conversión o catálogos antiguos).',
+    'Usa exclusivamente estos valores y equivalentes; no hagas conversiones propias.',
+    '',
+    ...lines,
+  ].join('\n')
+}
+
+/**
+ * Build a comparison for a chat question across every active (or selected) price list
+ * @returns null when no supplier has a confident match (or the search failed)
+ */
+export async function comparePrices(
+  organizationId: string,
+  question: string,
+  priceListIds?: string[]
+): Promise<StructuredPriceLookup | null> {
+  const terms = extractSearchTerms(question)
+    .split(' ')
+    .filter(word => word && !COMPARISON_WORDS.has(normalize(word)))
+    .join(' ')
+  if (!terms) return null
+
+  try {
+    const matches = selectConfidentMatches(
+      await searchPriceItems(organizationId, terms, { limit: MAX_CANDIDATES, priceListIds })
+    )
+    if (matches.length === 0) return null
+
+    const comparison = buildPriceComparison(terms, matches)
+    console.log(`⚖️ Price comparison: ${comparison.rows.length} supplier(s) for "${terms}"`)
+
+    return {
+      matches,
+      context: formatComparisonContext(comparison),
+      citations: priceMatchesToCitations(matches),
+      comparison,
+    }
+  } catch (error) {
+    console.warn('⚠️ Price comparison failed, falling back to regular lookup:', error)
+    return null
+  }
+}
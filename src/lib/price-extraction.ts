@@ -0,0 +1,364 @@
+import { getLLMProvider } from './llm-provider'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { parseCSV, spreadsheetToRows, type PreparedUpload } from './file-conversion'
+import type { SupportedFileType } from './file-types'
+
+/**
+ * Structured price extraction from uploaded catalogs into public.price_items.
+ * Tabular sources (XLSX, CSV, transcribed images) are parsed deterministically;
+ * PDF and DOCX files are extracted by the model with a strict JSON schema.
+ */
+
+export interface ExtractedPriceItem {
+  sku: string | null
+  description: string
+  unit: string | null
+  price: number
+  currency: string
+}
+
+export type ExtractionMethod = 'table' | 'model' | 'skipped'
+
+interface ColumnMap {
+  sku: number | null
+  description: number
+  unit: number | null
+  price: number
+  priceCurrency: string | null
+}
+
+const EXTRACTION_MODEL = 'gpt-4o-mini'
+const INSERT_BATCH_SIZE = 500
+
+const HEADER_KEYWORDS: Record<'sku' | 'description' | 'unit' | 'price', string[]> = {
+  sku: ['codigo', 'cod', 'sku', 'ref', 'referencia', 'item', 'art', 'clave'],
+  description: ['descripcion', 'producto', 'productos', 'articulo', 'nombre', 'detalle', 'concepto'],
+  unit: ['unidad', 'und', 'unid', 'um', 'u/m', 'presentacion', 'empaque', 'medida'],
+  price: ['precio', 'pvp', 'costo', 'valor', 'monto', 'price', 'tarifa'],
+}
+
+const normalizeHeader = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\./g, '')
+    .trim()
+
+const cleanCell = (value: string | undefined) => (value ?? '').replace(/\s+/g, ' ').trim()
+
+/**
+ * Detect the currency mentioned in a price cell or column header
+ * @returns ISO code (USD, VES, EUR) or null when none is mentioned
+ */
+export function detectCurrency(text: string | null | undefined): string | null {
+  if (!text) return null
+  if (/\b(bs\.?\s?[sdf]?\b|bsf|bss|bsd|ves|bol[ií]var(es)?)/i.test(text)) return 'VES'
+  if (/(us\$|\busd\b|\$|d[oó]lar(es)?)/i.test(text)) return 'USD'
+  if (/(€|\beur\b|euros?)/i.test(text)) return 'EUR'
+  return null
+}
+
+/**
+ * Parse a price written in Venezuelan (1.234,56) or US (1,234.56) notation
+ * @returns Positive number, or null when the cell is not a price
+ */
+export function parsePrice(raw: string | number | null | undefined): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) && raw > 0 ? raw : null
+  if (!raw) return null
+
+  let text = raw.replace(/[^0-9.,]/g, '').replace(/^[.,]+|[.,]+$/g, '')
+  if (!/\d/.test(text)) return null
+
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+
+  if (lastComma > -1 && lastDot > -1) {
+    // The separator that appears last is the decimal one
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '')
+  } else if (lastComma > -1 || lastDot > -1) {
+    const separator = lastComma > -1 ? ',' : '.'
+    const parts = text.split(separator)
+    // "1.250" / "1,250" with exactly three trailing digits is a thousands separator
+    const isThousands = parts.length > 2 || (parts[1].length === 3 && parts[0] !== '0')
+    text = isThousands ? parts.join('') : `${parts[0]}.${parts[1]}`
+  }
+
+  const value = Number(text)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Recognize a table header row and map its columns (description and price are required)
+ */
+export function findHeaderColumns(row: string[]): ColumnMap | null {
+  const found: Partial<Record<keyof typeof HEADER_KEYWORDS, number>> = {}
+  const priceColumns: { index: number; currency: string | null }[] = []
+
+  row.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell || '')
+    if (!normalized) return
+    const words = normalized.split(/[^a-z0-9/$]+/).filter(Boolean)
+
+    for (const field of Object.keys(HEADER_KEYWORDS) as (keyof typeof HEADER_KEYWORDS)[]) {
+      if (!HEADER_KEYWORDS[field].some(keyword => words.includes(keyword))) continue
+      if (field === 'price') {
+        priceColumns.push({ index, currency: detectCurrency(cell) })
+      } else if (found[field] === undefined) {
+        found[field] = index
+      }
+      break
+    }
+  })
+
+  if (found.description === undefined || priceColumns.length === 0) return null
+
+  // Prefer a USD price column when the list has one per currency
+  const price = priceColumns.find(c => c.currency === 'USD') || priceColumns[0]
+
+  return {
+    sku: found.sku ?? null,
+    description: found.description,
+    unit: found.unit ?? null,
+    price: price.index,
+    priceCurrency: price.currency,
+  }
+}
+
+/**
+ * Extract price items from table rows; header rows may repeat and reset the column map
+ */
+export function extractItemsFromRows(rows: string[][], defaultCurrency = 'USD'): ExtractedPriceItem[] {
+  const items: ExtractedPriceItem[] = []
+  let columns: ColumnMap | null = null
+
+  for (const row of rows) {
+    const header = findHeaderColumns(row)
+    if (header) {
+      columns = header
+      continue
+    }
+    if (!columns) continue
+
+    const description = cleanCell(row[columns.description])
+    const rawPrice = cleanCell(row[columns.price])
+    const price = parsePrice(rawPrice)
+    if (!description || price === null) continue
+
+    items.push({
+      sku: columns.sku !== null ? cleanCell(row[columns.sku]) || null : null,
+      description,
+      unit: columns.unit !== null ? cleanCell(row[columns.unit]) || null : null,
+      price,
+      currency: columns.priceCurrency || detectCurrency(rawPrice) || defaultCurrency,
+    })
+  }
+
+  return items
+}
+
+/**
+ * Split Markdown text into its tables (rows of cells), skipping separator rows
+ */
+export function parseMarkdownTables(markdown: string): string[][][] {
+  const tables: string[][][] = []
+  let current: string[][] | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('|')) {
+      current = null
+      continue
+    }
+    if (/^\|(\s*:?-{3,}:?\s*\|)+$/.test(trimmed)) continue
+
+    const cells = trimmed
+      .replace(/^\||\|$/g, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.replace(/\\\|/g, '|').trim())
+
+    if (!current) {
+      current = []
+      tables.push(current)
+    }
+    current.push(cells)
+  }
+
+  return tables
+}
+
+/**
+ * Extract price items from every Markdown table in a document
+ */
+export function extractItemsFromMarkdown(markdown: string, defaultCurrency = 'USD'): ExtractedPriceItem[] {
+  return parseMarkdownTables(markdown).flatMap(table => extractItemsFromRows(table, defaultCurrency))
+}
+
+const PRICE_ITEMS_SCHEMA = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sku: { type: ['string', 'null'] },
+          description: { type: 'string' },
+          unit: { type: ['string', 'null'] },
+          price: { type: 'number' },
+          currency: { type: 'string', enum: ['USD', 'VES', 'EUR'] },
+        },
+        required: ['sku', 'description', 'unit', 'price', 'currency'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['items'],
+  additionalProperties: false,
+}
+
+/**
+ * Ask the model to read a PDF or DOCX already uploaded to the Files API and return its price rows
+ */
+export async function extractItemsWithModel(openaiFileId: string): Promise<ExtractedPriceItem[]> {
+  const parsed = await getLLMProvider().extractFromFile({
+    model: EXTRACTION_MODEL,
+    fileId: openaiFileId,
+    maxOutputTokens: 16000,
+    instructions: 'Extrae TODAS las filas de productos con precio de esta lista de precios. ' +
+      'Copia el código/SKU, la descripción y la unidad o presentación tal como aparecen (null si no existen). ' +
+      'El precio debe ser un número sin separadores de miles; usa la moneda indicada en el documento (USD, VES o EUR). ' +
+      'No inventes filas ni precios.',
+    schema: { name: 'price_items', schema: PRICE_ITEMS_SCHEMA },
+  }) as { items: ExtractedPriceItem[] }
+
+  return parsed.items
+    .map(item => ({ ...item, description: cleanCell(item.description), price: Number(item.price) }))
+    .filter(item => item.description && Number.isFinite(item.price) && item.price > 0)
+}
+
+/**
+ * Extract price items from an upload using the best method for its format
+ */
+export async function extractPriceItems(source: {
+  buffer: Buffer
+  fileType: SupportedFileType
+  prepared: PreparedUpload
+  openaiFileId: string
+}): Promise<{ items: ExtractedPriceItem[]; method: ExtractionMethod }> {
+  switch (source.fileType.kind) {
+    case 'spreadsheet': {
+      const sheets = await spreadsheetToRows(source.buffer)
+      return { items: sheets.flatMap(sheet => extractItemsFromRows(sheet.rows)), method: 'table' }
+    }
+    case 'csv':
+      return { items: extractItemsFromRows(parseCSV(source.buffer.toString('utf8'))), method: 'table' }
+    case 'image':
+      // Images were already transcribed to Markdown tables during conversion
+      return { items: extractItemsFromMarkdown(source.prepared.buffer.toString('utf8')), method: 'table' }
+    case 'pdf':
+    case 'docx':
+      // Both are uploaded as-is, so the model reads the original file
+      return { items: await extractItemsWithModel(source.openaiFileId), method: 'model' }
+    default:
+      return { items: [], method: 'skipped' }
+  }
+}
+
+/**
+ * Replace the stored price items of a price list
+ * @returns Number of rows inserted
+ */
+export async function storePriceItems(
+  priceListId: string,
+  supplierName: string | null,
+  items: ExtractedPriceItem[]
+): Promise<number> {
+  const supabase = createSupabaseAdmin()
+
+  const { error: deleteError } = await supabase
+    .from('price_items')
+    .delete()
+    .eq('price_list_id', priceListId)
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous price items: ${deleteError.message}`)
+  }
+
+  for (let i = 0; i < items.length; i += INSERT_BATCH_SIZE) {
+    const batch = items.slice(i, i + INSERT_BATCH_SIZE).map(item => ({
+      price_list_id: priceListId,
+      sku: item.sku,
+      description: item.description,
+      unit: item.unit,
+      price: item.price,
+      currency: item.currency,
+      supplier_name: supplierName,
+    }))
+
+    const { error } = await supabase.from('price_items').insert(batch)
+    if (error) {
+      throw new Error(`Failed to insert price items: ${error.message}`)
+    }
+  }
+
+  return items.length
+}
+
+/**
+ * Run extraction for a freshly uploaded price list and record the outcome on price_lists.
+ * Never throws: failures are stored in extraction_status / extraction_error.
+ */
+export async function processPriceListExtraction(params: {
+  priceListId: string
+  buffer: Buffer
+  fileType: SupportedFileType
+  prepared: PreparedUpload
+  openaiFileId: string
+}): Promise<void> {
+  const startTime = Date.now()
+  const supabase = createSupabaseAdmin()
+
+  try {
+    const { data: priceList, error: statusError } = await supabase
+      .from('price_lists')
+      .update({ extraction_status: 'processing', extraction_error: null })
+      .eq('id', params.priceListId)
+      .select('supplier_name')
+      .single()
+
+    if (statusError || !priceList) {
+      throw new Error(`Price list not found: ${statusError?.message ?? params.priceListId}`)
+    }
+
+    const { items, method } = await extractPriceItems(params)
+
+    if (method === 'skipped') {
+      console.log(`⏭️ Price extraction skipped for ${params.fileType.label} (${params.priceListId.slice(-8)})`)
+      await supabase
+        .from('price_lists')
+        .update({ extraction_status: 'skipped', extracted_items_count: 0 })
+        .eq('id', params.priceListId)
+      return
+    }
+
+    const count = await storePriceItems(params.priceListId, priceList.supplier_name, items)
+    console.log(`💲 Extracted ${count} price items via ${method} in ${Date.now() - startTime}ms (${params.priceListId.slice(-8)})`)
+
+    await supabase
+      .from('price_lists')
+      .update({ extraction_status: 'completed', extracted_items_count: count })
+      .eq('id', params.priceListId)
+  } catch (error) {
+    console.error('❌ Price extraction failed:', error)
+    await supabase
+      .from('price_lists')
+      .update({
+        extraction_status: 'failed',
+        extraction_error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      .eq('id', params.priceListId)
+  }
+}
@@ -0,0 +1,198 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { toSnippet, type Citation } from '@/lib/citations'
+import type { PriceComparison } from '@/lib/price-comparison'
+import { getExchangeRates, withCurrencyAmounts, formatEquivalent, type CurrencyAmounts } from '@/lib/currency'
+
+/**
+ * Lookups over the structured price_items table (see search_price_items in supabase/schema.sql)
+ */
+
+export type PriceMatchType = 'exact_sku' | 'exact' | 'fulltext' | 'fuzzy'
+
+export interface PriceItemMatch extends CurrencyAmounts {
+  id: string
+  price_list_id: string
+  sku: string | null
+  description: string
+  unit: string | null
+  price: number
+  currency: string
+  supplier_name: string
+  file_name: string
+  uploaded_at: string
+  match_type: PriceMatchType
+  score: number
+}
+
+export interface PriceSearchOptions {
+  limit?: number
+  priceListIds?: string[]
+  exactOnly?: boolean
+}
+
+/**
+ * Structured rows that answer a chat question, ready to hand to the model
+ */
+export interface StructuredPriceLookup {
+  matches: PriceItemMatch[]
+  context: string
+  citations: Citation[]
+  // Set when the question asked to compare suppliers
+  comparison?: PriceComparison
+}
+
+// Fuzzy (trigram) matches below this score are not trusted to answer on their own
+export const MIN_CONFIDENT_SCORE = 0.45
+const MAX_CONTEXT_ITEMS = 15
+const MAX_CITATIONS = 5
+
+// Words that carry no product information in a price question
+const STOPWORDS = new Set([
+  'a', 'al', 'algun', 'alguna', 'cada', 'como', 'con', 'cual', 'cuales', 'cuanto', 'cuanta', 'cuantos',
+  'cuesta', 'cuestan', 'de', 'del', 'dame', 'dime', 'el', 'en', 'es', 'esta', 'este', 'hay', 'la', 'las',
+  'lo', 'los', 'me', 'mas', 'mi', 'por', 'para', 'que', 'se', 'su', 'sus', 'tiene', 'tienen', 'un', 'una',
+  'unos', 'unas', 'y', 'o', 'vale', 'valen', 'precio', 'precios', 'costo', 'costos', 'busca', 'buscar',
+  'quiero', 'saber', 'necesito', 'codigo', 'sku', 'ref', 'referencia', 'producto', 'productos',
+])
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+/**
+ * Reduce a natural-language question to the product terms worth searching for
+ */
+export function extractSearchTerms(question: string): string {
+  return question
+    .replace(/[¿?¡!,;:"'()[\]{}]/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^[.-]+|[.-]+$/g, '').toLowerCase())
+    .filter(word => word && !STOPWORDS.has(normalizeWord(word)))
+    .join(' ')
+}
+
+/**
+ * Search price_items over the organization's active price lists; prices come
+ * back in both USD and VES
+ */
+export async function searchPriceItems(
+  organizationId: string,
+  query: string,
+  options: PriceSearchOptions = {}
+): Promise<PriceItemMatch[]> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase.rpc('search_price_items', {
+    p_organization_id: organizationId,
+    p_query: query,
+    p_limit: options.limit ?? 20,
+    p_price_list_ids: options.priceListIds && options.priceListIds.length > 0 ? options.priceListIds : null,
+    p_exact_only: options.exactOnly ?? false,
+  })
+
+  if (error) {
+    throw new Error(`Price search failed: ${error.message}`)
+  }
+
+  const rows = (data || []).map((row: PriceItemMatch) => ({
+    ...row,
+    price: Number(row.price),
+    score: Number(row.score),
+  }))
+
+  return withCurrencyAmounts<PriceItemMatch>(rows, await getExchangeRates())
+}
+
+/**
+ * Keep matches good enough to answer from: exact and full-text hits, or strong fuzzy hits
+ */
+export function selectConfidentMatches(matches: PriceItemMatch[], minScore = MIN_CONFIDENT_SCORE): PriceItemMatch[] {
+  return matches.filter(match => match.match_type !== 'fuzzy' || match.score >= minScore)
+}
+
+/**
+ * Format a price in Venezuelan notation (1.234,50)
+ */
+export function formatPrice(price: number): string {
+  return price.toLocaleString('es-VE', { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+}
+
+const escapeCell = (value: string | null) => (value || '-').replace(/\|/g, '\\|')
+
+// "≈ Bs 912,50 (tasa 36,50 del 2025-09-01)", or null when there is no rate
+function formatEquivalentWithRate(match: PriceItemMatch): string | null {
+  const equivalent = formatEquivalent(match)
+  if (!equivalent || match.exchange_rate === null) return null
+  return `${equivalent} (tasa ${formatPrice(match.exchange_rate)} del ${match.rate_date})`
+}
+
+/**
+ * Render matches as a Markdown table for the model's context
+ */
+export function formatPriceItemsContext(matches: PriceItemMatch[]): string {
+  const rows = matches.map(match =>
+    `| ${escapeCell(match.supplier_name)} | ${escapeCell(match.sku)} | ${escapeCell(match.description)} | ` +
+    `${escapeCell(match.unit)} | ${formatPrice(match.price)} | ${match.currency} | ` +
+    `${escapeCell(formatEquivalentWithRate(match))} | ${escapeCell(match.file_name)} |`
+  )
+
+  return [
+    'Precios encontrados en la base de precios estructurada (extraídos de los catálogos activos).',
+    'Responde usando exclusivamente estos valores, sin recalcularlos ni inventar otros, e indica el proveedor y el catálogo de cada precio.',
+    'Los equivalentes en la otra moneda ya están calculados con la tasa vigente en la fecha de cada catálogo: cítalos tal cual y no hagas conversiones propias.',
+    'Si ninguna fila corresponde a lo que se pregunta, dilo claramente.',
+    '',
+    '| Proveedor | Código | Descripción | Unidad | Precio | Moneda | Equivalente | Catálogo |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...rows,
+  ].join('\n')
+}
+
+/**
+ * One citation per price list, quoting the matched rows
+ */
+export function priceMatchesToCitations(matches: PriceItemMatch[]): Citation[] {
+  const byPriceList = new Map<string, PriceItemMatch[]>()
+  for (const match of matches) {
+    byPriceList.set(match.price_list_id, [...(byPriceList.get(match.price_list_id) || []), match])
+  }
+
+  return Array.from(byPriceList.values())
+    .slice(0, MAX_CITATIONS)
+    .map(items => ({
+      price_list_id: items[0].price_list_id,
+      file_name: items[0].file_name,
+      supplier_name: items[0].supplier_name,
+      snippet: toSnippet(items
+        .map(item => `${item.sku ? `${item.sku} · ` : ''}${item.description}: ${formatPrice(item.price)} ${item.currency}`)
+        .join('; ')),
+    }))
+}
+
+/**
+ * Try to answer a chat question from price_items before falling back to file_search
+ * @returns null when nothing confident was found (or the lookup failed)
+ */
+export async function lookupStructuredPrices(
+  organizationId: string,
+  question: string,
+  priceListIds?: string[]
+): Promise<StructuredPriceLookup | null> {
+  const terms = extractSearchTerms(question)
+  if (!terms) return null
+
+  try {
+    const matches = selectConfidentMatches(
+      await searchPriceItems(organizationId, terms, { limit: MAX_CONTEXT_ITEMS, priceListIds })
+    )
+    if (matches.length === 0) return null
+
+    console.log(`💲 Structured price lookup: ${matches.length} match(es) for "${terms}"`)
+    return {
+      matches,
+      context: formatPriceItemsContext(matches),
+      citations: priceMatchesToCitations(matches),
+    }
+  } catch (error) {
+    console.warn('⚠️ Structured price lookup failed, falling back to file search:', error)
+    return null
+  }
+}
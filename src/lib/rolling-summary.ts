@@ -0,0 +1,159 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getLLMProvider, type ProviderMessage } from './llm-provider'
+import { resolveGenerationSettings } from '@/lib/model-settings'
+import { getAppSettings } from '@/lib/openai-responses'
+import { estimateTokens, getOwnedConversation } from '@/lib/conversations'
+
+/**
+ * Rolling summary of long conversations. Once the turns after the stored
+ * summary cross a token threshold, all but the most recent ones are condensed
+ * into conversations.summary, so each question only carries the summary plus
+ * a few recent turns instead of the whole history. Summary tokens are recorded
+ * in usage_events so they count in quotas and usage analytics.
+ */
+
+// Unsummarized history size that triggers a new summary; below the history budget
+// so turns are folded into the summary before they would be trimmed away
+export const SUMMARY_THRESHOLD_TOKENS = Number(process.env.CHAT_SUMMARY_THRESHOLD_TOKENS) || 1500
+// Latest messages always sent verbatim (two question/answer turns)
+export const SUMMARY_KEEP_RECENT_MESSAGES = 4
+export const SUMMARY_MAX_OUTPUT_TOKENS = 500
+// Unsummarized messages read per run
+const SUMMARY_FETCH_LIMIT = 200
+
+export interface StoredMessage {
+  role: 'user' | 'assistant'
+  content: string
+  created_at: string
+}
+
+const SUMMARY_PROMPT = `Resume la conversación entre un cliente y un asistente de listas de precios.
+Conserva los productos, marcas, proveedores, precios, monedas, cantidades y decisiones mencionados, y cualquier preferencia del cliente.
+Si hay un resumen anterior, intégralo en el nuevo. Escribe en español, en viñetas breves y sin inventar datos.`
+
+/**
+ * Split unsummarized messages (oldest first) into the part to fold into the
+ * summary and the recent part kept verbatim; null while under the threshold
+ */
+export function planSummary(
+  messages: StoredMessage[],
+  threshold: number = SUMMARY_THRESHOLD_TOKENS,
+  keepRecent: number = SUMMARY_KEEP_RECENT_MESSAGES
+): { fold: StoredMessage[]; keep: StoredMessage[] } | null {
+  const total = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0)
+  if (total <= threshold || messages.length <= keepRecent) return null
+
+  const cut = messages.length - keepRecent
+  return { fold: messages.slice(0, cut), keep: messages.slice(cut) }
+}
+
+/**
+ * Model input asking to merge the previous summary with the folded turns
+ */
+export function buildSummaryMessages(previousSummary: string | null, messages: StoredMessage[]): ProviderMessage[] {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'Cliente' : 'Asistente'}: ${message.content}`)
+    .join('\n\n')
+
+  return [
+    { role: 'system', content: SUMMARY_PROMPT },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Resumen anterior:\n${previousSummary}\n\nNuevos mensajes:\n${transcript}`
+        : `Mensajes:\n${transcript}`,
+    },
+  ]
+}
+
+/**
+ * Record the tokens of a summary for the user's quota and the usage analytics.
+ * A failed write is logged and never blocks the summary
+ */
+async function recordSummaryUsage(
+  organizationId: string,
+  userId: string,
+  conversationId: string,
+  model: string,
+  tokensUsed: number
+) {
+  const { error } = await createSupabaseAdmin()
+    .from('usage_events')
+    .insert({
+      organization_id: organizationId,
+      user_id: userId,
+      conversation_id: conversationId,
+      kind: 'summary',
+      model,
+      tokens_used: tokensUsed,
+    })
+
+  if (error) console.error(`❌ Failed to record summary usage of conversation ${conversationId.slice(-8)}:`, error)
+}
+
+/**
+ * Fold older turns into the conversation summary when the unsummarized history
+ * is over the threshold. Runs after the response; never throws
+ * @returns Whether a new summary was stored
+ */
+export async function summarizeConversationIfNeeded(
+  conversationId: string,
+  userId: string,
+  organizationId: string
+): Promise<boolean> {
+  try {
+    const conversation = await getOwnedConversation(conversationId, userId)
+    if (!conversation) return false
+
+    const supabaseAdmin = createSupabaseAdmin()
+    let query = supabaseAdmin
+      .from('messages')
+      .select('role, content, created_at')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .in('role', ['user', 'assistant'])
+
+    if (conversation.summarized_through) query = query.gt('created_at', conversation.summarized_through)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(SUMMARY_FETCH_LIMIT)
+
+    if (error) throw new Error(`Failed to load messages: ${error.message}`)
+
+    const plan = planSummary((data || []) as StoredMessage[])
+    if (!plan) return false
+
+    // The organization's model; temperature and length are fixed for summaries
+    const { model } = resolveGenerationSettings(await getAppSettings(organizationId), 'fallback')
+    const response = await getLLMProvider().chat({
+      messages: buildSummaryMessages(conversation.summary, plan.fold),
+      generation: { model, temperature: 0.2, max_output_tokens: SUMMARY_MAX_OUTPUT_TOKENS },
+    })
+    await recordSummaryUsage(organizationId, userId, conversationId, model, response.tokens_used ?? 0)
+
+    const summary = response.content.trim()
+    if (!summary) return false
+
+    const summarizedThrough = plan.fold[plan.fold.length - 1].created_at
+
+    // Only advance from the state that was read, so two concurrent runs can't
+    // overwrite each other's summary
+    let update = supabaseAdmin
+      .from('conversations')
+      .update({ summary, summarized_through: summarizedThrough })
+      .eq('id', conversationId)
+    update = conversation.summarized_through
+      ? update.eq('summarized_through', conversation.summarized_through)
+      : update.is('summarized_through', null)
+
+    const { error: updateError } = await update
+    if (updateError) throw new Error(`Failed to save summary: ${updateError.message}`)
+
+    console.log(`🧾 Summarized ${plan.fold.length} message(s) of conversation ${conversationId.slice(-8)} (${response.tokens_used ?? 0} tokens)`)
+    return true
+  } catch (error) {
+    console.error(`❌ Failed to summarize conversation ${conversationId.slice(-8)}:`, error)
+    return false
+  }
+}
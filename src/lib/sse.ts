@@ -0,0 +1,43 @@
+/**
+ * Server-Sent Events helpers shared by streaming API routes and their clients
+ */
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Serialize a named event with a JSON payload into an SSE frame
+ * @param event - Event name (e.g. "delta", "done", "error")
+ * @param data - JSON-serializable payload
+ * @returns SSE frame terminated by a blank line
+ */
+export function formatSSE(event: string, data: unknown): string {
+  const lines = JSON.stringify(data).split('\n').map(line => `data: ${line}`)
+  return `event: ${event}\n${lines.join('\n')}\n\n`
+}
+
+/**
+ * Parse complete SSE frames out of a text buffer
+ * @param buffer - Accumulated stream text
+ * @returns Parsed events and the trailing incomplete frame to keep buffering
+ */
+export function parseSSE(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n')
+  const frames = normalized.split('\n\n')
+  const rest = frames.pop() ?? ''
+  const events: ServerSentEvent[] = []
+
+  for (const frame of frames) {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+    }
+    if (data.length > 0) events.push({ event, data: data.join('\n') })
+  }
+
+  return { events, rest }
+}
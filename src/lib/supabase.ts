@@ -21,9 +21,30 @@ export const createSupabaseAdmin = () => {
 export type Database = {
   public: {
     Tables: {
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          slug: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          slug: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          slug?: string
+          created_at?: string
+        }
+      }
       user_profiles: {
         Row: {
           id: string
+          organization_id: string
           email: string
           full_name: string | null
           role: string
@@ -33,6 +54,7 @@ export type Database = {
         }
         Insert: {
           id: string
+          organization_id: string
           email: string
           full_name?: string | null
           role?: string
@@ -42,6 +64,7 @@ export type Database = {
         }
         Update: {
           id?: string
+          organization_id?: string
           email?: string
           full_name?: string | null
           role?: string
@@ -53,87 +76,741 @@ export type Database = {
       price_lists: {
         Row: {
           id: string
+          organization_id: string
           uploaded_by: string | null
           file_name: string
           supplier_name: string | null
           storage_path: string
           openai_file_id: string | null
           openai_vector_file_id: string | null
+          mime_type: string | null
+          extraction_status: string | null
+          extracted_items_count: number
+          extraction_error: string | null
           is_active: boolean
           uploaded_at: string
         }
         Insert: {
           id?: string
+          organization_id: string
           uploaded_by?: string | null
           file_name: string
           supplier_name?: string | null
           storage_path: string
           openai_file_id?: string | null
           openai_vector_file_id?: string | null
+          mime_type?: string | null
+          extraction_status?: string | null
+          extracted_items_count?: number
+          extraction_error?: string | null
           is_active?: boolean
           uploaded_at?: string
         }
         Update: {
           id?: string
+          organization_id?: string
           uploaded_by?: string | null
           file_name?: string
           supplier_name?: string | null
           storage_path?: string
           openai_file_id?: string | null
           openai_vector_file_id?: string | null
+          mime_type?: string | null
+          extraction_status?: string | null
+          extracted_items_count?: number
+          extraction_error?: string | null
           is_active?: boolean
           uploaded_at?: string
         }
       }
+      price_items: {
+        Row: {
+          id: string
+          price_list_id: string
+          sku: string | null
+          description: string
+          unit: string | null
+          price: number
+          currency: string
+          supplier_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          price_list_id: string
+          sku?: string | null
+          description: string
+          unit?: string | null
+          price: number
+          currency?: string
+          supplier_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          price_list_id?: string
+          sku?: string | null
+          description?: string
+          unit?: string | null
+          price?: number
+          currency?: string
+          supplier_name?: string | null
+          created_at?: string
+        }
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          base_currency: string
+          quote_currency: string
+          rate: number
+          effective_date: string
+          source: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          base_currency?: string
+          quote_currency?: string
+          rate: number
+          effective_date: string
+          source?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          base_currency?: string
+          quote_currency?: string
+          rate?: number
+          effective_date?: string
+          source?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      ingestion_jobs: {
+        Row: {
+          id: string
+          price_list_id: string
+          job_type: string
+          status: string
+          payload: Record<string, unknown>
+          attempts: number
+          max_attempts: number
+          run_after: string
+          locked_at: string | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          price_list_id: string
+          job_type: string
+          status?: string
+          payload?: Record<string, unknown>
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_at?: string | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          price_list_id?: string
+          job_type?: string
+          status?: string
+          payload?: Record<string, unknown>
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_at?: string | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+      }
+      vector_stores: {
+        Row: {
+          id: string
+          organization_id: string | null
+          kind: string
+          name: string | null
+          file_ids: string[]
+          file_ids_hash: string | null
+          price_list_id: string | null
+          status: string
+          expires_at: string | null
+          last_synced_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          organization_id?: string | null
+          kind: string
+          name?: string | null
+          file_ids?: string[]
+          file_ids_hash?: string | null
+          price_list_id?: string | null
+          status?: string
+          expires_at?: string | null
+          last_synced_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string | null
+          kind?: string
+          name?: string | null
+          file_ids?: string[]
+          file_ids_hash?: string | null
+          price_list_id?: string | null
+          status?: string
+          expires_at?: string | null
+          last_synced_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      vector_store_gc_runs: {
+        Row: {
+          id: string
+          trigger: string
+          triggered_by: string | null
+          retention_days: number
+          deleted_stores: unknown[]
+          deleted_files: unknown[]
+          errors: unknown[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trigger: string
+          triggered_by?: string | null
+          retention_days: number
+          deleted_stores?: unknown[]
+          deleted_files?: unknown[]
+          errors?: unknown[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trigger?: string
+          triggered_by?: string | null
+          retention_days?: number
+          deleted_stores?: unknown[]
+          deleted_files?: unknown[]
+          errors?: unknown[]
+          created_at?: string
+        }
+      }
+      usage_plans: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          daily_token_limit: number | null
+          monthly_token_limit: number | null
+          daily_request_limit: number | null
+          monthly_request_limit: number | null
+          is_default: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          daily_request_limit?: number | null
+          monthly_request_limit?: number | null
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          daily_request_limit?: number | null
+          monthly_request_limit?: number | null
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      user_quotas: {
+        Row: {
+          user_id: string
+          plan_id: string | null
+          daily_token_limit: number | null
+          monthly_token_limit: number | null
+          daily_request_limit: number | null
+          monthly_request_limit: number | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          plan_id?: string | null
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          daily_request_limit?: number | null
+          monthly_request_limit?: number | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          plan_id?: string | null
+          daily_token_limit?: number | null
+          monthly_token_limit?: number | null
+          daily_request_limit?: number | null
+          monthly_request_limit?: number | null
+          updated_at?: string
+        }
+      }
+      model_prices: {
+        Row: {
+          model: string
+          usd_per_1m_tokens: number
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          model: string
+          usd_per_1m_tokens: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          model?: string
+          usd_per_1m_tokens?: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      message_feedback: {
+        Row: {
+          id: string
+          message_id: string
+          user_id: string
+          rating: string
+          comment: string | null
+          correct_value: string | null
+          status: string
+          resolution_note: string | null
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          user_id: string
+          rating: string
+          comment?: string | null
+          correct_value?: string | null
+          status?: string
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          user_id?: string
+          rating?: string
+          comment?: string | null
+          correct_value?: string | null
+          status?: string
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      instruction_versions: {
+        Row: {
+          id: string
+          organization_id: string
+          version: number
+          system_instructions: string | null
+          note: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          version: number
+          system_instructions?: string | null
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          version?: number
+          system_instructions?: string | null
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      eval_questions: {
+        Row: {
+          id: string
+          organization_id: string
+          question: string
+          expected_facts: string[]
+          price_list_ids: string[] | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          question: string
+          expected_facts: string[]
+          price_list_ids?: string[] | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          question?: string
+          expected_facts?: string[]
+          price_list_ids?: string[] | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      eval_runs: {
+        Row: {
+          id: string
+          organization_id: string
+          status: string
+          total: number
+          completed: number
+          passed: number
+          score: number | null
+          model: string | null
+          instructions_version: number | null
+          error: string | null
+          started_by: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          status?: string
+          total?: number
+          completed?: number
+          passed?: number
+          score?: number | null
+          model?: string | null
+          instructions_version?: number | null
+          error?: string | null
+          started_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          status?: string
+          total?: number
+          completed?: number
+          passed?: number
+          score?: number | null
+          model?: string | null
+          instructions_version?: number | null
+          error?: string | null
+          started_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+      }
+      eval_results: {
+        Row: {
+          id: string
+          run_id: string
+          question_id: string | null
+          question: string
+          expected_facts: string[]
+          answer: string | null
+          matched_facts: string[]
+          missing_facts: string[]
+          score: number
+          passed: boolean
+          tokens_used: number | null
+          response_time_ms: number | null
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          question_id?: string | null
+          question: string
+          expected_facts: string[]
+          answer?: string | null
+          matched_facts?: string[]
+          missing_facts?: string[]
+          score?: number
+          passed?: boolean
+          tokens_used?: number | null
+          response_time_ms?: number | null
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          question_id?: string | null
+          question?: string
+          expected_facts?: string[]
+          answer?: string | null
+          matched_facts?: string[]
+          missing_facts?: string[]
+          score?: number
+          passed?: boolean
+          tokens_used?: number | null
+          response_time_ms?: number | null
+          error?: string | null
+          created_at?: string
+        }
+      }
+      audit_events: {
+        Row: {
+          id: string
+          organization_id: string | null
+          actor_id: string | null
+          actor_email: string | null
+          action: string
+          target_type: string
+          target_id: string | null
+          before: unknown
+          after: unknown
+          ip: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id?: string | null
+          actor_id?: string | null
+          actor_email?: string | null
+          action: string
+          target_type: string
+          target_id?: string | null
+          before?: unknown
+          after?: unknown
+          ip?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        // Append-only: the database rejects updates
+        Update: {
+          [_ in never]: never
+        }
+      }
+      answer_cache: {
+        Row: {
+          id: string
+          organization_id: string
+          context_key: string
+          query_normalized: string
+          embedding: string | null
+          response: string
+          citations: unknown[]
+          comparison: unknown | null
+          model: string | null
+          instructions_version: number | null
+          hit_count: number
+          last_hit_at: string | null
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          context_key: string
+          query_normalized: string
+          embedding?: string | null
+          response: string
+          citations?: unknown[]
+          comparison?: unknown | null
+          model?: string | null
+          instructions_version?: number | null
+          hit_count?: number
+          last_hit_at?: string | null
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          context_key?: string
+          query_normalized?: string
+          embedding?: string | null
+          response?: string
+          citations?: unknown[]
+          comparison?: unknown | null
+          model?: string | null
+          instructions_version?: number | null
+          hit_count?: number
+          last_hit_at?: string | null
+          expires_at?: string
+          created_at?: string
+        }
+      }
+      usage_events: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string | null
+          conversation_id: string | null
+          kind: 'summary'
+          model: string | null
+          tokens_used: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id?: string | null
+          conversation_id?: string | null
+          kind: 'summary'
+          model?: string | null
+          tokens_used?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string | null
+          conversation_id?: string | null
+          kind?: 'summary'
+          model?: string | null
+          tokens_used?: number
+          created_at?: string
+        }
+      }
       conversations: {
         Row: {
           id: string
+          organization_id: string
           user_id: string | null
           title: string | null
+          summary: string | null
+          summarized_through: string | null
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
+          // Filled from the user's profile by set_organization_from_user
+          organization_id?: string
           user_id?: string | null
           title?: string | null
+          summary?: string | null
+          summarized_through?: string | null
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
+          organization_id?: string
           user_id?: string | null
           title?: string | null
+          summary?: string | null
+          summarized_through?: string | null
           created_at?: string
+          updated_at?: string
         }
       }
       messages: {
         Row: {
           id: string
+          organization_id: string
           conversation_id: string | null
           user_id: string | null
           content: string
           role: string
           tokens_used: number
           response_time_ms: number
+          citations: unknown[]
+          comparison: unknown | null
+          model: string | null
+          temperature: number | null
+          max_output_tokens: number | null
+          instructions_version: number | null
+          cache_hit: boolean
           created_at: string
         }
         Insert: {
           id?: string
+          // Filled from the user's profile by set_organization_from_user
+          organization_id?: string
           conversation_id?: string | null
           user_id?: string | null
           content: string
           role: string
           tokens_used?: number
           response_time_ms?: number
+          citations?: unknown[]
+          comparison?: unknown | null
+          model?: string | null
+          temperature?: number | null
+          max_output_tokens?: number | null
+          instructions_version?: number | null
+          cache_hit?: boolean
           created_at?: string
         }
         Update: {
           id?: string
+          organization_id?: string
           conversation_id?: string | null
           user_id?: string | null
           content?: string
           role?: string
           tokens_used?: number
           response_time_ms?: number
+          citations?: unknown[]
+          comparison?: unknown | null
+          model?: string | null
+          temperature?: number | null
+          max_output_tokens?: number | null
+          instructions_version?: number | null
+          cache_hit?: boolean
           created_at?: string
         }
       }
@@ -0,0 +1,56 @@
+/**
+ * Line-based text diff (longest common subsequence), used to compare versions
+ * of the system instructions. Inputs are a few hundred lines at most.
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+const splitLines = (text: string | null | undefined) => (text ? text.replace(/\r\n/g, '\n').split('\n') : [])
+
+/**
+ * Lines of `after` compared to `before`, in order: unchanged, removed and added
+ */
+export function diffLines(before: string | null | undefined, after: string | null | undefined): DiffLine[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+
+  return lines
+}
+
+/**
+ * Number of added and removed lines in a diff
+ */
+export function diffStats(lines: DiffLine[]) {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  }
+}
@@ -0,0 +1,152 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { toCaracasDate } from '@/lib/currency'
+
+/**
+ * Token, cost and latency analytics over assistant answers. Aggregation happens
+ * in SQL (get_usage_analytics); this module picks the period and shapes the rows.
+ */
+
+export const ANALYTICS_GROUPS = ['total', 'day', 'user', 'model'] as const
+
+export type AnalyticsGroup = typeof ANALYTICS_GROUPS[number]
+
+export interface UsageAnalyticsRow {
+  group_key: string
+  label: string
+  answers: number
+  tokens: number
+  cost_usd: number
+  // Tokens of models without a configured price (left out of cost_usd)
+  unpriced_tokens: number
+  avg_response_ms: number | null
+  p50_response_ms: number | null
+  p95_response_ms: number | null
+}
+
+export interface AnalyticsRange {
+  // Venezuelan calendar days, both inclusive
+  from: string
+  to: string
+}
+
+export interface UsageAnalytics {
+  range: AnalyticsRange
+  totals: UsageAnalyticsRow
+  by_day: UsageAnalyticsRow[]
+  by_user: UsageAnalyticsRow[]
+  by_model: UsageAnalyticsRow[]
+}
+
+export interface ModelPrice {
+  model: string
+  usd_per_1m_tokens: number
+  updated_at: string
+}
+
+export const DEFAULT_ANALYTICS_DAYS = 30
+export const MAX_ANALYTICS_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const isDay = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+// Calendar arithmetic on YYYY-MM-DD strings (parsed as UTC, so no timezone shift)
+const dayDiff = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+const addDays = (day: string, days: number) => new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10)
+
+/**
+ * Validate ?from=&to= (YYYY-MM-DD); defaults to the last 30 days up to today
+ */
+export function parseAnalyticsRange(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  now: Date = new Date()
+): { range: AnalyticsRange; error: null } | { range: null; error: string } {
+  if ((from && !isDay(from)) || (to && !isDay(to))) {
+    return { range: null, error: 'from and to must be YYYY-MM-DD dates' }
+  }
+
+  const end = to || toCaracasDate(now)
+  const start = from || addDays(end, -(DEFAULT_ANALYTICS_DAYS - 1))
+
+  if (start > end) {
+    return { range: null, error: 'from must be on or before to' }
+  }
+  if (dayDiff(start, end) >= MAX_ANALYTICS_DAYS) {
+    return { range: null, error: `The range cannot exceed ${MAX_ANALYTICS_DAYS} days` }
+  }
+
+  return { range: { from: start, to: end }, error: null }
+}
+
+/**
+ * Timestamps bounding a range of Venezuelan days: [start of from, start of the day after to)
+ */
+export function rangeBounds(range: AnalyticsRange) {
+  return {
+    start: new Date(`${range.from}T00:00:00-04:00`).toISOString(),
+    end: new Date(`${addDays(range.to, 1)}T00:00:00-04:00`).toISOString(),
+  }
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+/**
+ * numeric/bigint columns arrive as strings from PostgREST
+ */
+export function normalizeAnalyticsRow(row: Record<string, unknown>): UsageAnalyticsRow {
+  return {
+    group_key: String(row.group_key),
+    label: String(row.label ?? row.group_key),
+    answers: Number(row.answers ?? 0),
+    tokens: Number(row.tokens ?? 0),
+    cost_usd: Number(row.cost_usd ?? 0),
+    unpriced_tokens: Number(row.unpriced_tokens ?? 0),
+    avg_response_ms: toNumber(row.avg_response_ms),
+    p50_response_ms: toNumber(row.p50_response_ms),
+    p95_response_ms: toNumber(row.p95_response_ms),
+  }
+}
+
+const EMPTY_TOTALS: UsageAnalyticsRow = {
+  group_key: 'total',
+  label: 'total',
+  answers: 0,
+  tokens: 0,
+  cost_usd: 0,
+  unpriced_tokens: 0,
+  avg_response_ms: null,
+  p50_response_ms: null,
+  p95_response_ms: null,
+}
+
+async function fetchGroup(organizationId: string, group: AnalyticsGroup, range: AnalyticsRange): Promise<UsageAnalyticsRow[]> {
+  const { start, end } = rangeBounds(range)
+  const { data, error } = await createSupabaseAdmin().rpc('get_usage_analytics', {
+    p_organization_id: organizationId,
+    p_group: group,
+    p_from: start,
+    p_to: end,
+  })
+
+  if (error) throw new Error(`Failed to load ${group} analytics: ${error.message}`)
+  return ((data || []) as Record<string, unknown>[]).map(normalizeAnalyticsRow)
+}
+
+/**
+ * Totals of an organization plus breakdowns by day, user and model (users and
+ * models by tokens, desc)
+ */
+export async function getUsageAnalytics(organizationId: string, range: AnalyticsRange): Promise<UsageAnalytics> {
+  const [totals, byDay, byUser, byModel] = await Promise.all(
+    ANALYTICS_GROUPS.map(group => fetchGroup(organizationId, group, range))
+  )
+  const byTokens = (a: UsageAnalyticsRow, b: UsageAnalyticsRow) => b.tokens - a.tokens
+
+  return {
+    range,
+    totals: totals[0] ?? EMPTY_TOTALS,
+    by_day: byDay,
+    by_user: byUser.sort(byTokens),
+    by_model: byModel.sort(byTokens),
+  }
+}
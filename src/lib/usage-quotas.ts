@@ -0,0 +1,211 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { QUOTA_LIMIT_KEYS } from '@/lib/api-schemas'
+
+/**
+ * Per-user chat quotas: tokens and requests (questions asked) per day and per
+ * month. Limits come from the user's plan (public.usage_plans, or the default
+ * plan of their organization) and can be overridden per user (public.user_quotas). A null limit means
+ * unlimited. Days and months follow the Venezuelan calendar.
+ */
+
+// Defined with the request schemas so client code can share them
+export { QUOTA_LIMIT_KEYS }
+
+export type QuotaLimitKey = typeof QUOTA_LIMIT_KEYS[number]
+
+export type QuotaLimits = Record<QuotaLimitKey, number | null>
+
+export interface UsagePlan extends QuotaLimits {
+  id: string
+  name: string
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface UserQuota extends QuotaLimits {
+  user_id: string
+  plan_id: string | null
+  updated_at: string
+}
+
+export interface ChatUsage {
+  day_tokens: number
+  day_requests: number
+  month_tokens: number
+  month_requests: number
+}
+
+export type QuotaMetric = 'tokens' | 'requests'
+export type QuotaPeriod = 'day' | 'month'
+
+/**
+ * One enforced limit and how much of it is left
+ */
+export interface QuotaCheck {
+  metric: QuotaMetric
+  period: QuotaPeriod
+  limit: number
+  used: number
+  remaining: number
+  reset_at: string
+}
+
+export interface QuotaStatus {
+  plan: { id: string; name: string } | null
+  limits: QuotaLimits
+  usage: ChatUsage
+  // Only the limits that are set; unlimited ones are left out
+  checks: QuotaCheck[]
+  // The exhausted limit that resets last, or null when the user can chat
+  exceeded: QuotaCheck | null
+}
+
+// Venezuela has no DST: fixed UTC-4 since 2016
+const CARACAS_OFFSET_MS = 4 * 60 * 60 * 1000
+
+const LIMIT_FIELDS: Record<QuotaLimitKey, { metric: QuotaMetric; period: QuotaPeriod }> = {
+  monthly_token_limit: { metric: 'tokens', period: 'month' },
+  monthly_request_limit: { metric: 'requests', period: 'month' },
+  daily_token_limit: { metric: 'tokens', period: 'day' },
+  daily_request_limit: { metric: 'requests', period: 'day' },
+}
+
+/**
+ * Start of the current day and month in Venezuelan time, and when each one ends
+ */
+export function getQuotaWindows(now: Date = new Date()) {
+  const local = new Date(now.getTime() - CARACAS_OFFSET_MS)
+  const year = local.getUTCFullYear()
+  const month = local.getUTCMonth()
+  const day = local.getUTCDate()
+  const at = (y: number, m: number, d: number) => new Date(Date.UTC(y, m, d) + CARACAS_OFFSET_MS)
+
+  return {
+    dayStart: at(year, month, day),
+    dayEnd: at(year, month, day + 1),
+    monthStart: at(year, month, 1),
+    monthEnd: at(year, month + 1, 1),
+  }
+}
+
+/**
+ * Effective limits: each per-user override wins over the plan's value
+ */
+export function resolveQuotaLimits(override: Partial<QuotaLimits> | null, plan: Partial<QuotaLimits> | null): QuotaLimits {
+  return Object.fromEntries(
+    QUOTA_LIMIT_KEYS.map(key => [key, override?.[key] ?? plan?.[key] ?? null])
+  ) as QuotaLimits
+}
+
+/**
+ * Compare usage against the limits. A limit is exhausted once it is reached, since
+ * the tokens of the next answer are not known in advance.
+ */
+export function evaluateQuota(limits: QuotaLimits, usage: ChatUsage, now: Date = new Date()) {
+  const windows = getQuotaWindows(now)
+  const checks: QuotaCheck[] = []
+
+  // Monthly limits first: when both are exhausted the monthly reset is the one that matters
+  for (const key of Object.keys(LIMIT_FIELDS) as QuotaLimitKey[]) {
+    const limit = limits[key]
+    if (limit === null) continue
+
+    const { metric, period } = LIMIT_FIELDS[key]
+    const used = usage[`${period}_${metric}` as const]
+    checks.push({
+      metric,
+      period,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      reset_at: (period === 'day' ? windows.dayEnd : windows.monthEnd).toISOString(),
+    })
+  }
+
+  return { checks, exceeded: checks.find(check => check.used >= check.limit) ?? null }
+}
+
+/**
+ * dd/mm/yyyy HH:mm in Venezuelan time, whatever the server's time zone
+ */
+export function formatCaracasDateTime(date: string | Date): string {
+  const value = typeof date === 'string' ? new Date(date) : date
+  const local = new Date(value.getTime() - CARACAS_OFFSET_MS)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+
+  return `${pad(local.getUTCDate())}/${pad(local.getUTCMonth() + 1)}/${local.getUTCFullYear()} ${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}`
+}
+
+/**
+ * Message shown in the chat when a limit is exhausted
+ */
+export function quotaExceededMessage(check: QuotaCheck): string {
+  const period = check.period === 'day' ? 'diario' : 'mensual'
+  const unit = check.metric === 'tokens' ? 'tokens' : 'consultas'
+  const limit = check.limit.toLocaleString('es-VE')
+
+  return `Has alcanzado tu límite ${period} de ${limit} ${unit}. ` +
+    `Podrás volver a consultar a partir del ${formatCaracasDateTime(check.reset_at)} (hora de Venezuela).`
+}
+
+/**
+ * Limits and current usage of a user of an organization
+ */
+export async function getUserQuotaStatus(organizationId: string, userId: string, now: Date = new Date()): Promise<QuotaStatus> {
+  const supabaseAdmin = createSupabaseAdmin()
+
+  const { data: override, error: overrideError } = await supabaseAdmin
+    .from('user_quotas')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (overrideError) throw new Error(`Failed to load user quota: ${overrideError.message}`)
+
+  const planQuery = supabaseAdmin.from('usage_plans').select('*').eq('organization_id', organizationId)
+  const { data: plan, error: planError } = override?.plan_id
+    ? await planQuery.eq('id', override.plan_id).maybeSingle()
+    : await planQuery.eq('is_default', true).maybeSingle()
+
+  if (planError) throw new Error(`Failed to load usage plan: ${planError.message}`)
+
+  const windows = getQuotaWindows(now)
+  const { data: usageRows, error: usageError } = await supabaseAdmin.rpc('get_chat_usage', {
+    p_user_id: userId,
+    p_day_start: windows.dayStart.toISOString(),
+    p_month_start: windows.monthStart.toISOString(),
+  })
+
+  if (usageError) throw new Error(`Failed to load chat usage: ${usageError.message}`)
+
+  const row = Array.isArray(usageRows) ? usageRows[0] : usageRows
+  const usage: ChatUsage = {
+    day_tokens: Number(row?.day_tokens ?? 0),
+    day_requests: Number(row?.day_requests ?? 0),
+    month_tokens: Number(row?.month_tokens ?? 0),
+    month_requests: Number(row?.month_requests ?? 0),
+  }
+
+  const limits = resolveQuotaLimits(override as UserQuota | null, plan as UsagePlan | null)
+
+  return {
+    plan: plan ? { id: plan.id, name: plan.name } : null,
+    limits,
+    usage,
+    ...evaluateQuota(limits, usage, now),
+  }
+}
+
+/**
+ * Quota check before answering a chat message. Fails open: if quotas cannot be
+ * read the user is not blocked.
+ */
+export async function checkChatQuota(organizationId: string, userId: string): Promise<QuotaStatus | null> {
+  try {
+    return await getUserQuotaStatus(organizationId, userId)
+  } catch (error) {
+    console.error('❌ Quota check failed, allowing the request:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
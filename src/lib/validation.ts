@@ -0,0 +1,240 @@
+/**
+ * Typed schema builders for request bodies. Schemas have no server imports, so
+ * API routes and client components share them (see api-schemas.ts). Parsing
+ * never throws and reports every invalid field by its path ("updates.role").
+ */
+
+export type FieldErrors = Record<string, string>
+
+export type ParseResult<T> = { data: T; errors: null } | { data: null; errors: FieldErrors }
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): ParseResult<T>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+// Field name used when the body itself is invalid
+const ROOT_PATH = 'body'
+
+const ok = <T>(data: T): ParseResult<T> => ({ data, errors: null })
+
+const fail = (path: string, message: string): ParseResult<never> =>
+  ({ data: null, errors: { [path || ROOT_PATH]: message } })
+
+const child = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key))
+
+function schema<T>(parse: (value: unknown, path: string) => ParseResult<T>): Schema<T> {
+  return { parse: (value, path = '') => parse(value, path) }
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null
+
+const hasErrors = (errors: FieldErrors) => Object.keys(errors).length > 0
+
+/**
+ * Trimmed, non-empty string unless min is 0
+ */
+export function string(options: {
+  min?: number
+  max?: number
+  pattern?: RegExp
+  patternMessage?: string
+  trim?: boolean
+} = {}): Schema<string> {
+  const { min = 1, max, pattern, patternMessage = 'has an invalid format', trim = true } = options
+
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (typeof value !== 'string') return fail(path, 'must be a string')
+
+    const text = trim ? value.trim() : value
+    if (min > 0 && text.length === 0) return fail(path, 'is required')
+    if (text.length < min) return fail(path, `must be at least ${min} characters long`)
+    if (max !== undefined && text.length > max) return fail(path, `must be at most ${max} characters long`)
+    if (pattern && !pattern.test(text)) return fail(path, patternMessage)
+    return ok(text)
+  })
+}
+
+/**
+ * Finite number; numeric strings are accepted when coerce is set (form inputs)
+ */
+export function number(options: {
+  integer?: boolean
+  positive?: boolean
+  min?: number
+  max?: number
+  coerce?: boolean
+} = {}): Schema<number> {
+  const { integer = false, positive = false, min, max, coerce = false } = options
+
+  return schema((value, path) => {
+    if (isMissing(value) || value === '') return fail(path, 'is required')
+
+    const numeric = typeof value === 'string' && coerce ? Number(value) : value
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric)) return fail(path, 'must be a number')
+    if (integer && !Number.isInteger(numeric)) return fail(path, 'must be an integer')
+    if (positive && numeric <= 0) return fail(path, 'must be a positive number')
+    if (min !== undefined && numeric < min) return fail(path, `must be at least ${min}`)
+    if (max !== undefined && numeric > max) return fail(path, `must be at most ${max}`)
+    return ok(numeric)
+  })
+}
+
+export function boolean(): Schema<boolean> {
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (typeof value !== 'boolean') return fail(path, 'must be true or false')
+    return ok(value)
+  })
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (typeof value !== 'string' || !values.includes(value)) return fail(path, `must be one of: ${values.join(', ')}`)
+    return ok(value as T[number])
+  })
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (!Array.isArray(value)) return fail(path, 'must be an array')
+    if (options.min !== undefined && value.length < options.min) return fail(path, `must have at least ${options.min} item(s)`)
+    if (options.max !== undefined && value.length > options.max) return fail(path, `must have at most ${options.max} item(s)`)
+
+    const items: T[] = []
+    const errors: FieldErrors = {}
+    value.forEach((element, index) => {
+      const result = item.parse(element, child(path, index))
+      if (result.errors) Object.assign(errors, result.errors)
+      else items.push(result.data)
+    })
+    return hasErrors(errors) ? { data: null, errors } : ok(items)
+  })
+}
+
+type Shape = Record<string, Schema<unknown>>
+
+// Keys whose schema accepts undefined become optional properties
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S]
+type ObjectOf<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+type ObjectType<S extends Shape> = { [K in keyof ObjectOf<S>]: ObjectOf<S>[K] }
+
+/**
+ * Object with the given fields. Unknown fields are dropped, reported when
+ * unknownKeys is 'reject' (for allowlists such as profile updates), or passed
+ * through with 'keep' for a domain parser to check
+ */
+export function object<S extends Shape>(shape: S, options: { unknownKeys: 'keep' }): Schema<ObjectType<S> & Record<string, unknown>>
+export function object<S extends Shape>(shape: S, options?: { unknownKeys?: 'strip' | 'reject' }): Schema<ObjectType<S>>
+export function object<S extends Shape>(
+  shape: S,
+  options: { unknownKeys?: 'strip' | 'reject' | 'keep' } = {}
+): Schema<ObjectType<S>> {
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (typeof value !== 'object' || Array.isArray(value)) return fail(path, 'must be an object')
+
+    const input = value as Record<string, unknown>
+    const data: Record<string, unknown> = options.unknownKeys === 'keep' ? { ...input } : {}
+    const errors: FieldErrors = {}
+
+    for (const [key, field] of Object.entries(shape)) {
+      const result = field.parse(input[key], child(path, key))
+      if (result.errors) Object.assign(errors, result.errors)
+      else if (result.data !== undefined) data[key] = result.data
+      else delete data[key]
+    }
+
+    if (options.unknownKeys === 'reject') {
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) errors[child(path, key)] = 'is not an allowed field'
+      }
+    }
+
+    return hasErrors(errors) ? { data: null, errors } : ok(data as ObjectType<S>)
+  })
+}
+
+/**
+ * Missing values become the fallback. null counts as missing unless the inner
+ * schema accepts it (optional(nullable(...)) keeps an explicit null)
+ */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined>
+export function optional<T>(inner: Schema<T>, fallback: T): Schema<T>
+export function optional<T>(inner: Schema<T>, fallback?: T): Schema<T | undefined> {
+  return schema((value, path) => {
+    if (value === undefined) return ok(fallback)
+    const result = inner.parse(value, path)
+    return value === null && result.errors ? ok(fallback) : result
+  })
+}
+
+/**
+ * null is a valid value of its own (e.g. clearing a date)
+ */
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path) => (value === null ? ok(null) : inner.parse(value, path)))
+}
+
+/**
+ * Form inputs send '' for an empty field: '', null and a missing value all
+ * become null (e.g. an unlimited quota)
+ */
+export function blankAsNull<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path) => (isMissing(value) || value === '' ? ok(null) : inner.parse(value, path)))
+}
+
+/**
+ * Reshape the raw value before the inner schema checks it (e.g. split a
+ * textarea into lines)
+ */
+export function preprocess<T>(reshape: (value: unknown) => unknown, inner: Schema<T>): Schema<T> {
+  return schema((value, path) => inner.parse(reshape(value), path))
+}
+
+/**
+ * First schema that accepts the value; reports the last one's errors otherwise
+ */
+export function union<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return schema<A | B>((value, path) => {
+    const result = first.parse(value, path)
+    return result.errors ? second.parse(value, path) : result
+  })
+}
+
+/**
+ * Object whose fields depend on a discriminator such as "action"
+ */
+export function variants<K extends string, V extends Record<string, Schema<object>>>(
+  key: K,
+  options: V
+): Schema<{ [A in keyof V]: { [P in K]: A } & Infer<V[A]> }[keyof V]> {
+  const names = Object.keys(options)
+
+  return schema((value, path) => {
+    if (isMissing(value)) return fail(path, 'is required')
+    if (typeof value !== 'object' || Array.isArray(value)) return fail(path, 'must be an object')
+
+    const tag = (value as Record<string, unknown>)[key]
+    if (typeof tag !== 'string' || !names.includes(tag)) {
+      return fail(child(path, key), `must be one of: ${names.join(', ')}`)
+    }
+
+    const result = options[tag].parse(value, path)
+    if (result.errors) return result
+    return ok({ ...result.data, [key]: tag } as { [A in keyof V]: { [P in K]: A } & Infer<V[A]> }[keyof V])
+  })
+}
+
+/**
+ * "updates.role must be one of: USER, ADMIN; userId is required"
+ */
+export function formatFieldErrors(errors: FieldErrors): string {
+  return Object.entries(errors).map(([field, message]) => `${field} ${message}`).join('; ')
+}
@@ -0,0 +1,260 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import {
+  listAllVectorStores,
+  listAllOpenAIFiles,
+  listAllVectorStoreFiles,
+  inferLegacyVectorStoreKind,
+  findLegacyMasterOwner,
+  deleteVectorStore,
+  deleteOpenAIFile,
+  type VectorStoreKind,
+} from './openai'
+import { listRecordedFileIds, listRegisteredVectorStores } from './vector-store-registry'
+
+/**
+ * Garbage collection for OpenAI resources nothing points to anymore:
+ * temporary and legacy vector stores that no price list references and no
+ * conversation has searched within the retention window, and uploaded files
+ * no price list references. Only stores and files in this deployment's
+ * registry (public.vector_stores) are collected by default. Untracked stores
+ * named like the ones older versions created (and their files) are reported
+ * apart as legacy, and only deleted when an admin asks for them, since
+ * another deployment sharing the OpenAI project uses the same names. Dry runs
+ * only report; real runs delete and write an audit row to vector_store_gc_runs.
+ */
+
+export const DEFAULT_RETENTION_DAYS = Number(process.env.VECTOR_STORE_GC_RETENTION_DAYS) || 7
+
+export type GcTrigger = 'admin' | 'cron'
+
+export interface OrphanedStore {
+  id: string
+  name: string | null
+  kind: VectorStoreKind
+  usage_bytes: number
+  last_active_at: string // last search (OpenAI last_active_at) or creation
+  reason: string
+}
+
+export interface OrphanedFile {
+  id: string
+  filename: string
+  bytes: number
+  created_at: string
+}
+
+export interface GarbageReport {
+  retention_days: number
+  cutoff: string
+  stores: OrphanedStore[]
+  files: OrphanedFile[]
+  total_bytes: number
+  // Untracked stores created before the registry and their files
+  legacy_stores: OrphanedStore[]
+  legacy_files: OrphanedFile[]
+  legacy_bytes: number
+}
+
+export interface GarbageCollectionResult extends GarbageReport {
+  run_id: string | null
+  deleted_stores: string[]
+  deleted_files: string[]
+  errors: { id: string; error: string }[]
+}
+
+const toIso = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString()
+
+const isNotFound = (error: unknown) => error instanceof Error && /\b404\b/.test(error.message)
+
+const toOrphanedFile = (file: { id: string; filename: string; bytes: number; created_at: number }): OrphanedFile => ({
+  id: file.id,
+  filename: file.filename,
+  bytes: file.bytes,
+  created_at: toIso(file.created_at),
+})
+
+const sumBytes = (stores: OrphanedStore[], files: OrphanedFile[]) =>
+  stores.reduce((sum, store) => sum + store.usage_bytes, 0) + files.reduce((sum, file) => sum + file.bytes, 0)
+
+/**
+ * Build the dry-run report; nothing is deleted
+ */
+export async function findOrphanedResources(retentionDays = DEFAULT_RETENTION_DAYS): Promise<GarbageReport> {
+  const cutoffSeconds = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60
+
+  const { data: priceLists, error } = await createSupabaseAdmin()
+    .from('price_lists')
+    .select('openai_file_id, openai_vector_file_id')
+
+  if (error) {
+    throw new Error(`Failed to load price list references: ${error.message}`)
+  }
+
+  const referencedStores = new Set((priceLists || []).map(list => list.openai_vector_file_id).filter(Boolean))
+  const referencedFiles = new Set((priceLists || []).map(list => list.openai_file_id).filter(Boolean))
+
+  const [registered, recordedFiles, remoteStores, remoteFiles] = await Promise.all([
+    listRegisteredVectorStores(),
+    listRecordedFileIds(),
+    listAllVectorStores(),
+    listAllOpenAIFiles(),
+  ])
+  const registeredKinds = new Map(registered.map(entry => [entry.id, entry.kind]))
+
+  const stores: OrphanedStore[] = []
+  const legacyStores: OrphanedStore[] = []
+  for (const store of remoteStores) {
+    if (referencedStores.has(store.id)) continue
+
+    const lastActive = Math.max(store.last_active_at ?? 0, store.created_at)
+    if (lastActive > cutoffSeconds) continue
+
+    // Untracked: only stores named like ours, and never without an explicit opt-in
+    const kind = registeredKinds.get(store.id)
+    if (!kind) {
+      const legacyKind = inferLegacyVectorStoreKind(store.name)
+      if (!legacyKind) continue
+      // Still the default organization's master until it registers one
+      if (legacyKind === 'master' && await findLegacyMasterOwner()) continue
+
+      legacyStores.push({
+        id: store.id,
+        name: store.name || null,
+        kind: legacyKind,
+        usage_bytes: store.usage_bytes,
+        last_active_at: toIso(lastActive),
+        reason: `Sin registrar (versión anterior), sin búsquedas en ${retentionDays} días`,
+      })
+      continue
+    }
+    if (kind === 'master') continue
+
+    stores.push({
+      id: store.id,
+      name: store.name || null,
+      kind,
+      usage_bytes: store.usage_bytes,
+      last_active_at: toIso(lastActive),
+      reason: kind === 'temp'
+        ? `Sin búsquedas en ${retentionDays} días`
+        : 'Ninguna lista de precios lo referencia',
+    })
+  }
+
+  // Recent files are skipped so an upload whose price list is not updated yet survives
+  const isCollectable = (file: { id: string; created_at: number }) =>
+    !referencedFiles.has(file.id) && file.created_at <= cutoffSeconds
+  const files = remoteFiles
+    .filter(file => recordedFiles.has(file.id) && isCollectable(file))
+    .map(toOrphanedFile)
+
+  // Files of legacy stores were never recorded; they are known by membership
+  const legacyFileIds = new Set<string>()
+  for (const store of legacyStores) {
+    for (const storeFile of await listAllVectorStoreFiles(store.id)) {
+      legacyFileIds.add(storeFile.id)
+    }
+  }
+  const legacyFiles = remoteFiles
+    .filter(file => legacyFileIds.has(file.id) && !recordedFiles.has(file.id) && isCollectable(file))
+    .map(toOrphanedFile)
+
+  return {
+    retention_days: retentionDays,
+    cutoff: toIso(cutoffSeconds),
+    stores,
+    files,
+    total_bytes: sumBytes(stores, files),
+    legacy_stores: legacyStores,
+    legacy_files: legacyFiles,
+    legacy_bytes: sumBytes(legacyStores, legacyFiles),
+  }
+}
+
+/**
+ * Delete everything in the report (legacy resources only with includeLegacy)
+ * and record an audit row
+ * Stores or files already gone in OpenAI (404) count as deleted
+ */
+export async function collectVectorStoreGarbage({
+  trigger,
+  triggeredBy = null,
+  retentionDays = DEFAULT_RETENTION_DAYS,
+  includeLegacy = false,
+}: {
+  trigger: GcTrigger
+  triggeredBy?: string | null
+  retentionDays?: number
+  includeLegacy?: boolean
+}): Promise<GarbageCollectionResult> {
+  const report = await findOrphanedResources(retentionDays)
+  const targetStores = includeLegacy ? [...report.stores, ...report.legacy_stores] : report.stores
+  const targetFiles = includeLegacy ? [...report.files, ...report.legacy_files] : report.files
+  const deletedStores: string[] = []
+  const deletedFiles: string[] = []
+  const errors: { id: string; error: string }[] = []
+
+  // Sequential on purpose: keeps well under OpenAI rate limits
+  for (const store of targetStores) {
+    try {
+      await deleteVectorStore(store.id)
+      deletedStores.push(store.id)
+    } catch (error) {
+      if (isNotFound(error)) {
+        deletedStores.push(store.id)
+      } else {
+        errors.push({ id: store.id, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+  }
+
+  for (const file of targetFiles) {
+    try {
+      await deleteOpenAIFile(file.id)
+      deletedFiles.push(file.id)
+    } catch (error) {
+      if (isNotFound(error)) {
+        deletedFiles.push(file.id)
+      } else {
+        errors.push({ id: file.id, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+  }
+
+  console.log(`🧹 Vector store GC (${trigger}): ${deletedStores.length} stores and ${deletedFiles.length} files deleted, ${errors.length} errors`)
+
+  let runId: string | null = null
+  if (deletedStores.length > 0 || deletedFiles.length > 0 || errors.length > 0) {
+    const { data, error } = await createSupabaseAdmin()
+      .from('vector_store_gc_runs')
+      .insert({
+        trigger,
+        triggered_by: triggeredBy,
+        retention_days: retentionDays,
+        deleted_stores: targetStores
+          .filter(store => deletedStores.includes(store.id))
+          .map(({ id, name, kind, reason }) => ({ id, name, kind, reason })),
+        deleted_files: targetFiles
+          .filter(file => deletedFiles.includes(file.id))
+          .map(({ id, filename, bytes }) => ({ id, filename, bytes })),
+        errors,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      // The deletions already happened; losing the audit row must not hide that
+      console.error('❌ Failed to record vector store GC run:', error)
+    } else {
+      runId = data.id
+    }
+  }
+
+  return {
+    ...report,
+    run_id: runId,
+    deleted_stores: deletedStores,
+    deleted_files: deletedFiles,
+    errors,
+  }
+}
@@ -0,0 +1,177 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+/**
+ * Database side of the vector store registry (public.vector_stores).
+ * Every store the app creates is recorded here with its kind and member
+ * files, so src/lib/openai.ts resolves stores by id instead of listing
+ * OpenAI stores and matching names.
+ */
+
+export type VectorStoreKind = 'master' | 'individual' | 'temp'
+export type RegisteredStoreStatus = 'in_progress' | 'completed' | 'failed' | 'expired' | 'deleted'
+
+export interface RegisteredVectorStore {
+  id: string
+  kind: VectorStoreKind
+  // null for temp stores, which are shared by file set
+  organization_id: string | null
+  name: string | null
+  file_ids: string[]
+  file_ids_hash: string | null
+  price_list_id: string | null
+  status: RegisteredStoreStatus
+  expires_at: string | null
+  last_synced_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Stores that may still be used; expired/deleted/failed ones are kept for history
+const USABLE_STATUSES: RegisteredStoreStatus[] = ['in_progress', 'completed']
+
+const STORE_COLUMNS = 'id, kind, organization_id, name, file_ids, file_ids_hash, price_list_id, status, expires_at, last_synced_at, created_at, updated_at'
+
+/**
+ * Convert OpenAI's unix-seconds expiry to a timestamp column value
+ */
+export const toExpiresAt = (expiresAt: number | null | undefined) =>
+  expiresAt ? new Date(expiresAt * 1000).toISOString() : null
+
+/**
+ * Insert or refresh a store record
+ */
+export async function registerVectorStore(entry: {
+  id: string
+  kind: VectorStoreKind
+  name: string | null
+  fileIds: string[]
+  fileIdsHash: string
+  status: string
+  expiresAt: number | null | undefined
+  priceListId?: string | null
+  organizationId?: string | null
+}): Promise<void> {
+  const { error } = await createSupabaseAdmin()
+    .from('vector_stores')
+    .upsert({
+      id: entry.id,
+      kind: entry.kind,
+      organization_id: entry.organizationId ?? null,
+      name: entry.name,
+      file_ids: entry.fileIds,
+      file_ids_hash: entry.fileIdsHash,
+      price_list_id: entry.priceListId ?? null,
+      status: entry.status,
+      expires_at: toExpiresAt(entry.expiresAt),
+      last_synced_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'id' })
+
+  if (error) {
+    throw new Error(`Failed to register vector store ${entry.id}: ${error.message}`)
+  }
+}
+
+/**
+ * Latest usable store of a kind, optionally with an exact member-file hash or
+ * of one organization (each has its own master store)
+ */
+export async function findRegisteredVectorStore(
+  kind: VectorStoreKind,
+  filters: { fileIdsHash?: string; organizationId?: string } = {}
+): Promise<RegisteredVectorStore | null> {
+  let query = createSupabaseAdmin()
+    .from('vector_stores')
+    .select(STORE_COLUMNS)
+    .eq('kind', kind)
+    .in('status', USABLE_STATUSES)
+
+  if (filters.fileIdsHash) {
+    query = query.eq('file_ids_hash', filters.fileIdsHash)
+  }
+  if (filters.organizationId) {
+    query = query.eq('organization_id', filters.organizationId)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up ${kind} vector store: ${error.message}`)
+  }
+
+  return (data as RegisteredVectorStore | null) ?? null
+}
+
+/**
+ * All stores not yet known to be gone, for reconciliation
+ */
+export async function listRegisteredVectorStores(): Promise<RegisteredVectorStore[]> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('vector_stores')
+    .select(STORE_COLUMNS)
+    .neq('status', 'deleted')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to list registered vector stores: ${error.message}`)
+  }
+
+  return (data as RegisteredVectorStore[] | null) ?? []
+}
+
+/**
+ * Every file the app has put in a store, deleted stores included; the only
+ * files cleanup may remove (others in the OpenAI project are not ours)
+ */
+export async function listRecordedFileIds(): Promise<Set<string>> {
+  const { data, error } = await createSupabaseAdmin()
+    .from('vector_stores')
+    .select('file_ids')
+
+  if (error) {
+    throw new Error(`Failed to list recorded vector store files: ${error.message}`)
+  }
+
+  return new Set((data || []).flatMap(entry => entry.file_ids as string[]))
+}
+
+export async function updateRegisteredVectorStore(
+  id: string,
+  changes: Partial<Omit<RegisteredVectorStore, 'id' | 'created_at' | 'updated_at'>>
+): Promise<void> {
+  const { error } = await createSupabaseAdmin()
+    .from('vector_stores')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to update vector store ${id}: ${error.message}`)
+  }
+}
+
+/**
+ * Record that a store no longer exists in OpenAI (expired or deleted)
+ */
+export async function markVectorStoreGone(id: string, status: 'expired' | 'deleted'): Promise<void> {
+  await updateRegisteredVectorStore(id, { status })
+  console.log(`🪦 Vector store ${id} marked as ${status} in registry`)
+}
+
+/**
+ * Price list that owns an individual store (price_lists.openai_vector_file_id)
+ */
+export async function findPriceListForStore(
+  vectorStoreId: string
+): Promise<{ id: string; organization_id: string } | null> {
+  const { data } = await createSupabaseAdmin()
+    .from('price_lists')
+    .select('id, organization_id')
+    .eq('openai_vector_file_id', vectorStoreId)
+    .limit(1)
+    .maybeSingle()
+
+  return data ?? null
+}
@@ -51,6 +51,7 @@ export async function middleware(req: NextRequest) {
     '/auth/signup',
     '/auth/callback',
     '/api/auth/',
+    '/api/jobs/', // cron endpoints authenticate with CRON_SECRET
     ...(allowPublicStatus ? ['/api/admin/vector-store-status'] : []),
   ]
   const pathname = req.nextUrl.pathname
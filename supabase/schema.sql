@@ -6,6 +6,8 @@ create extension if not exists "pgcrypto" with schema extensions;
 create extension if not exists "uuid-ossp" with schema extensions;
 create extension if not exists "pg_graphql" with schema graphql;
 create extension if not exists "supabase_vault" with schema vault;
+create extension if not exists "pg_trgm" with schema extensions;
+create extension if not exists "vector" with schema extensions;
 
 -- Schemas (ensure exist)
 create schema if not exists public;
@@ -14,8 +16,19 @@ create schema if not exists auth;
 set search_path = public, extensions, graphql, vault, auth;
 
 -- Tables
+-- Distributors the bot is resold to. Each one has its own price lists, master
+-- vector store, settings and instructions, usage plans, evals and admins;
+-- users belong to exactly one (user_profiles.organization_id)
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  created_at timestamptz default now()
+);
+
 create table if not exists public.user_profiles (
   id uuid primary key,
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
   email text not null,
   full_name text,
   role text default 'USER' check (role = any (array['ADMIN','USER']::text[])),
@@ -27,6 +40,7 @@ create table if not exists public.user_profiles (
 
 create table if not exists public.price_lists (
   id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
   is_active boolean default false,
   uploaded_by uuid references auth.users(id) on update cascade on delete restrict,
   file_name text not null,
@@ -34,25 +48,51 @@ create table if not exists public.price_lists (
   storage_path text not null,
   openai_file_id text unique,
   openai_vector_file_id text,
+  mime_type text, -- original upload format (pdf, docx, xlsx, csv, image)
+  extraction_status text check (extraction_status = any (array['processing','completed','skipped','failed']::text[])),
+  extracted_items_count integer default 0,
+  extraction_error text,
   uploaded_at timestamptz default now()
 );
 
+-- Structured rows extracted from each price list (see src/lib/price-extraction.ts)
+create table if not exists public.price_items (
+  id uuid primary key default gen_random_uuid(),
+  price_list_id uuid not null references public.price_lists(id) on update cascade on delete cascade,
+  sku text,
+  description text not null,
+  unit text,
+  price numeric(14,4) not null check (price > 0),
+  currency text not null default 'USD',
+  supplier_name text,
+  created_at timestamptz default now(),
+  search_vector tsvector generated always as (
+    to_tsvector('spanish', coalesce(sku, '') || ' ' || coalesce(description, ''))
+  ) stored
+);
+
 create table if not exists public.conversations (
   user_id uuid references auth.users(id) on update cascade on delete cascade,
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
   title text,
   id uuid primary key default gen_random_uuid(),
-  created_at timestamptz default now()
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
 );
 
 create table if not exists public.messages (
   conversation_id uuid references public.conversations(id) on update cascade on delete restrict,
   user_id uuid references auth.users(id) on update cascade on delete cascade,
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
   content text not null,
   role text check (role = any (array['user','assistant']::text[])),
   id uuid primary key default gen_random_uuid(),
   tokens_used integer default 0,
   response_time_ms integer default 0,
-  created_at timestamptz default now()
+  citations jsonb not null default '[]'::jsonb, -- [{price_list_id, file_name, supplier_name, snippet}]
+  comparison jsonb, -- cross-supplier price comparison {query, rows[]} when the answer compared suppliers
+  created_at timestamptz default now(),
+  search_vector tsvector generated always as (to_tsvector('spanish', coalesce(content, ''))) stored
 );
 
 create table if not exists public.admins (
@@ -60,28 +100,451 @@ create table if not exists public.admins (
   created_at timestamptz default now()
 );
 
--- Application-wide settings (single-row table)
+-- Settings of each organization (one row per organization)
 create table if not exists public.app_settings (
-  id integer primary key default 1 check (id = 1),
+  id serial primary key,
+  organization_id uuid not null unique references public.organizations(id) on update cascade on delete restrict,
   system_instructions text,
   updated_by uuid references auth.users(id) on update cascade on delete set null,
   updated_at timestamptz default now()
 );
 
+-- USD/VES exchange rate history (admin-managed); prices are converted with the
+-- rate in effect on each catalog's upload date (see src/lib/currency.ts)
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  base_currency text not null default 'USD',
+  quote_currency text not null default 'VES',
+  rate numeric(18,6) not null check (rate > 0), -- quote units per 1 base unit (Bs per USD)
+  effective_date date not null,
+  source text, -- e.g. BCV
+  created_by uuid references auth.users(id) on update cascade on delete set null,
+  created_at timestamptz default now(),
+  unique (base_currency, quote_currency, effective_date)
+);
+
+-- Background ingestion work (OpenAI upload, vector store indexing); claimed by
+-- claim_ingestion_job() and processed by src/lib/ingestion-jobs.ts
+create table if not exists public.ingestion_jobs (
+  id uuid primary key default gen_random_uuid(),
+  price_list_id uuid not null references public.price_lists(id) on update cascade on delete cascade,
+  job_type text not null check (job_type = any (array['upload','activate','deactivate']::text[])),
+  status text not null default 'pending' check (status = any (array['pending','running','completed','failed','cancelled']::text[])),
+  payload jsonb not null default '{}'::jsonb,
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  last_error text,
+  created_by uuid references auth.users(id) on update cascade on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  completed_at timestamptz
+);
+
+-- OpenAI vector stores created by the app, so lookups never depend on listing
+-- stores by name (see src/lib/vector-store-registry.ts); reconciled against
+-- OpenAI by reconcileVectorStores()
+create table if not exists public.vector_stores (
+  id text primary key, -- OpenAI vector store id (vs_...)
+  kind text not null check (kind = any (array['master','individual','temp']::text[])),
+  organization_id uuid references public.organizations(id) on update cascade on delete restrict, -- null for temp stores
+  name text,
+  file_ids text[] not null default '{}',
+  file_ids_hash text, -- generateFileIdsHash(file_ids), used to reuse temp stores
+  price_list_id uuid references public.price_lists(id) on update cascade on delete set null, -- individual stores
+  status text not null default 'in_progress' check (status = any (array['in_progress','completed','failed','expired','deleted']::text[])),
+  expires_at timestamptz,
+  last_synced_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Audit trail of vector store garbage collection runs (src/lib/vector-store-gc.ts);
+-- only runs that deleted something are recorded, dry runs are not
+create table if not exists public.vector_store_gc_runs (
+  id uuid primary key default gen_random_uuid(),
+  trigger text not null check (trigger = any (array['admin','cron']::text[])),
+  triggered_by uuid references auth.users(id) on update cascade on delete set null, -- null for scheduled runs
+  retention_days integer not null,
+  deleted_stores jsonb not null default '[]'::jsonb, -- [{ id, name, kind, reason }]
+  deleted_files jsonb not null default '[]'::jsonb, -- [{ id, filename, bytes }]
+  errors jsonb not null default '[]'::jsonb, -- [{ id, error }]
+  created_at timestamptz default now()
+);
+
+-- Chat usage plans: token and request quotas per day and per month (America/Caracas
+-- calendar). A null limit means unlimited; users without a plan get the default one
+-- (see src/lib/usage-quotas.ts)
+create table if not exists public.usage_plans (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  name text not null,
+  daily_token_limit integer check (daily_token_limit >= 0),
+  monthly_token_limit integer check (monthly_token_limit >= 0),
+  daily_request_limit integer check (daily_request_limit >= 0),
+  monthly_request_limit integer check (monthly_request_limit >= 0),
+  is_default boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Plan assignment and per-user limit overrides (admin-managed; kept out of
+-- user_profiles so users cannot raise their own limits)
+create table if not exists public.user_quotas (
+  user_id uuid primary key references public.user_profiles(id) on update cascade on delete cascade,
+  plan_id uuid references public.usage_plans(id) on update cascade on delete set null,
+  daily_token_limit integer check (daily_token_limit >= 0),
+  monthly_token_limit integer check (monthly_token_limit >= 0),
+  daily_request_limit integer check (daily_request_limit >= 0),
+  monthly_request_limit integer check (monthly_request_limit >= 0),
+  updated_at timestamptz default now()
+);
+
+-- Estimated price per model for the analytics dashboard (src/lib/usage-analytics.ts).
+-- messages only record total tokens, so this is a blended input/output price
+create table if not exists public.model_prices (
+  model text primary key,
+  usd_per_1m_tokens numeric(10,4) not null check (usd_per_1m_tokens >= 0),
+  updated_by uuid references auth.users(id) on update cascade on delete set null,
+  updated_at timestamptz default now()
+);
+
+-- User ratings of assistant answers; negative ones feed the admin review queue
+-- (src/lib/message-feedback.ts). One rating per user and answer
+create table if not exists public.message_feedback (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages(id) on update cascade on delete cascade,
+  user_id uuid not null references auth.users(id) on update cascade on delete cascade,
+  rating text not null check (rating = any (array['up','down']::text[])),
+  comment text,
+  correct_value text, -- what the answer should have said, e.g. the right price
+  status text not null default 'open' check (status = any (array['open','resolved']::text[])),
+  resolution_note text,
+  resolved_by uuid references auth.users(id) on update cascade on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique(message_id, user_id)
+);
+
+-- Append-only history of app_settings.system_instructions; rolling back saves
+-- an old text as a new version (src/lib/instruction-versions.ts)
+create table if not exists public.instruction_versions (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  version integer not null,
+  system_instructions text, -- null = built-in default prompt
+  note text,
+  created_by uuid references auth.users(id) on update cascade on delete set null,
+  created_at timestamptz default now()
+);
+
+-- Golden questions for the evaluation harness (src/lib/evals.ts): each answer
+-- must contain every expected fact, e.g. a price or a supplier name
+create table if not exists public.eval_questions (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  question text not null,
+  expected_facts text[] not null check (cardinality(expected_facts) > 0),
+  price_list_ids uuid[], -- restrict the search to these price lists, like @mentions in the chat
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id) on update cascade on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- One execution of every active eval question against the current stores and prompt
+create table if not exists public.eval_runs (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  status text not null default 'running' check (status = any (array['running','completed','failed']::text[])),
+  total integer not null default 0,
+  completed integer not null default 0,
+  passed integer not null default 0,
+  score numeric(5,4), -- average share of expected facts found, 0..1
+  model text,
+  instructions_version integer,
+  error text,
+  started_by uuid references auth.users(id) on update cascade on delete set null,
+  started_at timestamptz default now(),
+  finished_at timestamptz
+);
+
+-- Per-question outcome of a run; question and facts are copied so later edits
+-- don't change past results
+create table if not exists public.eval_results (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.eval_runs(id) on update cascade on delete cascade,
+  question_id uuid references public.eval_questions(id) on update cascade on delete set null,
+  question text not null,
+  expected_facts text[] not null,
+  answer text,
+  matched_facts text[] not null default '{}',
+  missing_facts text[] not null default '{}',
+  score numeric(5,4) not null default 0,
+  passed boolean not null default false,
+  tokens_used integer,
+  response_time_ms integer,
+  error text,
+  created_at timestamptz default now()
+);
+
+-- Append-only record of administrative actions; updates and deletes are rejected
+-- by prevent_audit_event_changes
+create table if not exists public.audit_events (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references auth.users(id) on update cascade on delete set null,
+  actor_email text, -- copied so the trail survives the actor's deletion
+  organization_id uuid references public.organizations(id) on update cascade on delete restrict, -- the actor's
+  action text not null,
+  target_type text not null,
+  target_id text,
+  before jsonb,
+  after jsonb,
+  ip text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+-- Answers reused for repeated questions (src/lib/answer-cache.ts). context_key hashes
+-- the organization, searched price lists, instructions version and model; embedding allows
+-- similarity matches. Cleared whenever price lists or exchange rates change
+create table if not exists public.answer_cache (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  context_key text not null,
+  query_normalized text not null,
+  embedding vector(1536),
+  response text not null,
+  citations jsonb not null default '[]'::jsonb,
+  comparison jsonb,
+  model text,
+  instructions_version integer,
+  hit_count integer not null default 0,
+  last_hit_at timestamptz,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  unique (context_key, query_normalized)
+);
+
+-- Model calls made for a user outside their chat answers (rolling summaries). Their
+-- tokens count in chat quotas (get_chat_usage) and usage analytics like the answers'
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on update cascade on delete restrict,
+  user_id uuid references auth.users(id) on update cascade on delete cascade,
+  conversation_id uuid references public.conversations(id) on update cascade on delete set null,
+  kind text not null check (kind = any (array['summary']::text[])),
+  model text,
+  tokens_used integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Columns added after the initial export (idempotent for existing databases)
+alter table public.messages add column if not exists citations jsonb not null default '[]'::jsonb;
+alter table public.price_lists add column if not exists mime_type text;
+alter table public.conversations add column if not exists updated_at timestamptz default now();
+alter table public.messages add column if not exists search_vector tsvector
+  generated always as (to_tsvector('spanish', coalesce(content, ''))) stored;
+alter table public.messages add column if not exists comparison jsonb;
+alter table public.price_lists add column if not exists extraction_status text;
+alter table public.price_lists add column if not exists extracted_items_count integer default 0;
+alter table public.price_lists add column if not exists extraction_error text;
+-- Model settings; null means the code default (src/lib/model-settings.ts)
+alter table public.app_settings add column if not exists model text;
+alter table public.app_settings add column if not exists temperature numeric(3,2) check (temperature between 0 and 2);
+alter table public.app_settings add column if not exists max_output_tokens integer check (max_output_tokens > 0);
+-- Settings each assistant answer was generated with
+alter table public.messages add column if not exists model text;
+alter table public.messages add column if not exists temperature numeric(3,2);
+alter table public.messages add column if not exists max_output_tokens integer;
+-- Instructions version in effect (app_settings) and the one each answer used (messages)
+alter table public.app_settings add column if not exists instructions_version integer;
+alter table public.messages add column if not exists instructions_version integer;
+-- Rolling summary of older turns; messages up to summarized_through are only sent through it
+alter table public.conversations add column if not exists summary text;
+alter table public.conversations add column if not exists summarized_through timestamptz;
+-- Answers served from answer_cache instead of the model
+alter table public.messages add column if not exists cache_hit boolean not null default false;
+-- Eval runs are answered in batches by runEvalWorker: the question snapshot (in
+-- order), the batch lock (claim_eval_run) and the time of the last saved result.
+-- Runs started before that cannot be resumed
+alter table public.eval_runs add column if not exists questions jsonb not null default '[]'::jsonb;
+alter table public.eval_runs add column if not exists locked_at timestamptz;
+alter table public.eval_runs add column if not exists progress_at timestamptz default now();
+update public.eval_runs
+set status = 'failed', error = 'Interrupted before runs could be resumed', finished_at = coalesce(finished_at, now())
+where status = 'running' and questions = '[]'::jsonb;
+-- Organizations: rows from before multi-tenancy belong to the default organization
+insert into public.organizations (name, slug) values ('Organización principal', 'principal')
+  on conflict (slug) do nothing;
+alter table public.user_profiles add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.price_lists add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.conversations add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.messages add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.app_settings add column if not exists organization_id uuid unique references public.organizations(id) on update cascade on delete restrict;
+alter table public.vector_stores add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.usage_plans add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.instruction_versions add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.eval_questions add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.eval_runs add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.audit_events add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+alter table public.answer_cache add column if not exists organization_id uuid references public.organizations(id) on update cascade on delete restrict;
+do $$
+declare
+  v_default uuid := (select id from public.organizations where slug = 'principal');
+  v_table text;
+begin
+  -- Cached answers from before are keyed without the organization and would never match again
+  delete from public.answer_cache where organization_id is null;
+  update public.vector_stores set organization_id = v_default where organization_id is null and kind <> 'temp';
+
+  foreach v_table in array array[
+    'user_profiles', 'price_lists', 'conversations', 'messages', 'app_settings',
+    'usage_plans', 'instruction_versions', 'eval_questions', 'eval_runs', 'answer_cache'
+  ] loop
+    execute format('update public.%I set organization_id = $1 where organization_id is null', v_table) using v_default;
+    execute format('alter table public.%I alter column organization_id set not null', v_table);
+  end loop;
+end $$;
+-- The audit trail from before organizations existed is attributed to the default one
+do $$
+declare
+  v_default public.organizations%rowtype;
+begin
+  select * into v_default from public.organizations where slug = 'principal';
+  if exists (select 1 from public.audit_events where organization_id is null and created_at < v_default.created_at) then
+    alter table public.audit_events disable trigger on_audit_event_changed;
+    update public.audit_events set organization_id = v_default.id
+    where organization_id is null and created_at < v_default.created_at;
+    alter table public.audit_events enable trigger on_audit_event_changed;
+  end if;
+end $$;
+-- app_settings holds one row per organization instead of the single id = 1 row
+alter table public.app_settings drop constraint if exists app_settings_id_check;
+create sequence if not exists public.app_settings_id_seq owned by public.app_settings.id;
+alter table public.app_settings alter column id set default nextval('public.app_settings_id_seq');
+select setval('public.app_settings_id_seq', (select coalesce(max(id), 0) + 1 from public.app_settings), false);
+-- Instruction version numbers, plan names, the default plan and the master store are per organization
+alter table public.instruction_versions drop constraint if exists instruction_versions_version_key;
+alter table public.usage_plans drop constraint if exists usage_plans_name_key;
+drop index if exists public.idx_usage_plans_single_default;
+drop index if exists public.idx_vector_stores_single_master;
+
 -- Indexes
 create index if not exists idx_user_profiles_is_active on public.user_profiles(is_active);
 create index if not exists idx_user_profiles_role on public.user_profiles(role);
 create index if not exists idx_user_profiles_license_expires on public.user_profiles(subscription_expires_at);
+create index if not exists idx_user_profiles_organization_id on public.user_profiles(organization_id);
 
 create index if not exists idx_price_lists_active on public.price_lists(is_active);
+create index if not exists idx_price_lists_organization_active on public.price_lists(organization_id, is_active);
 create index if not exists idx_price_lists_uploaded_by on public.price_lists(uploaded_by);
 
+create index if not exists idx_price_items_price_list_id on public.price_items(price_list_id);
+create index if not exists idx_price_items_sku on public.price_items(lower(sku));
+create index if not exists idx_price_items_description_trgm on public.price_items using gin(description gin_trgm_ops);
+create index if not exists idx_price_items_search_vector on public.price_items using gin(search_vector);
+
+create index if not exists idx_ingestion_jobs_ready on public.ingestion_jobs(status, run_after);
+create index if not exists idx_ingestion_jobs_price_list_id on public.ingestion_jobs(price_list_id, created_at desc);
+
+create index if not exists idx_vector_stores_kind_hash on public.vector_stores(kind, file_ids_hash);
+create unique index if not exists idx_vector_stores_master_per_organization on public.vector_stores(organization_id)
+  where kind = 'master' and status <> all (array['expired','deleted']::text[]);
+
+create index if not exists idx_vector_store_gc_runs_created_at on public.vector_store_gc_runs(created_at desc);
+
+create index if not exists idx_answer_cache_embedding on public.answer_cache using hnsw (embedding vector_cosine_ops);
+create index if not exists idx_answer_cache_expires_at on public.answer_cache(expires_at);
+create index if not exists idx_answer_cache_organization_id on public.answer_cache(organization_id);
+create index if not exists idx_usage_events_user_created on public.usage_events(user_id, created_at);
+create index if not exists idx_usage_events_organization_created on public.usage_events(organization_id, created_at);
+create index if not exists idx_messages_cache_hits on public.messages(created_at) where cache_hit;
+
 create index if not exists idx_conversations_user_id on public.conversations(user_id);
+create index if not exists idx_conversations_organization_id on public.conversations(organization_id);
+create index if not exists idx_conversations_user_updated on public.conversations(user_id, updated_at desc);
 
 create index if not exists idx_messages_conversation_id on public.messages(conversation_id);
 create index if not exists idx_messages_user_id on public.messages(user_id);
+create index if not exists idx_messages_search_vector on public.messages using gin(search_vector);
+create index if not exists idx_messages_user_created on public.messages(user_id, created_at);
+create index if not exists idx_messages_role_created on public.messages(role, created_at);
+create index if not exists idx_messages_organization_created on public.messages(organization_id, created_at);
+
+create index if not exists idx_eval_questions_organization_id on public.eval_questions(organization_id);
+create index if not exists idx_eval_runs_started_at on public.eval_runs(started_at desc);
+create index if not exists idx_eval_runs_organization_started on public.eval_runs(organization_id, started_at desc);
+-- One running evaluation per organization
+create unique index if not exists idx_eval_runs_one_running on public.eval_runs(organization_id) where status = 'running';
+create index if not exists idx_eval_results_run_id on public.eval_results(run_id);
+create index if not exists idx_eval_results_question_id on public.eval_results(question_id);
+
+create index if not exists idx_audit_events_created_at on public.audit_events(created_at desc);
+create index if not exists idx_audit_events_action_created on public.audit_events(action, created_at desc);
+create index if not exists idx_audit_events_actor_created on public.audit_events(actor_id, created_at desc);
+create index if not exists idx_audit_events_organization_created on public.audit_events(organization_id, created_at desc);
+
+create index if not exists idx_message_feedback_queue on public.message_feedback(rating, status, created_at desc);
+
+create unique index if not exists idx_usage_plans_organization_name on public.usage_plans(organization_id, name);
+create unique index if not exists idx_usage_plans_default_per_organization on public.usage_plans(organization_id)
+  where is_default;
+create index if not exists idx_user_quotas_plan_id on public.user_quotas(plan_id);
+
+create unique index if not exists idx_instruction_versions_organization_version
+  on public.instruction_versions(organization_id, version);
 
 -- Functions
+-- Organization of the signed-in user (null for the service role and anonymous callers)
+create or replace function public.current_organization_id()
+returns uuid
+language sql
+stable
+security definer
+as $$
+  select organization_id from public.user_profiles where id = auth.uid();
+$$;
+
+-- Platform operators (public.admins) manage organizations and the data shared by all
+-- of them: exchange rates, model prices and vector store garbage collection
+create or replace function public.is_platform_admin()
+returns boolean
+language sql
+stable
+security definer
+as $$
+  select exists (select 1 from public.admins where user_id = auth.uid());
+$$;
+
+-- Whether the caller administers an organization: one of its ADMIN members, a
+-- platform admin, or the service role (API routes scope every query themselves)
+create or replace function public.is_admin_of(p_organization_id uuid)
+returns boolean
+language sql
+stable
+security definer
+as $$
+  select auth.role() = 'service_role'
+    or public.is_platform_admin()
+    or exists (
+      select 1 from public.user_profiles up
+      where up.id = auth.uid() and up.role = 'ADMIN' and up.organization_id = p_organization_id
+    );
+$$;
+
+-- Whether the caller may read an organization's data: any member, or an admin as above
+create or replace function public.can_access_organization(p_organization_id uuid)
+returns boolean
+language sql
+stable
+security definer
+as $$
+  select p_organization_id = public.current_organization_id() or public.is_admin_of(p_organization_id);
+$$;
+
 create or replace function public.get_active_vector_store_ids()
 returns text[]
 language plpgsql
@@ -92,77 +555,753 @@ as $$
       select openai_vector_file_id
       from public.price_lists
       where is_active = true and openai_vector_file_id is not null
+        and organization_id = public.current_organization_id()
     );
   end;
 $$;
 
+-- New users join the organization in their app_metadata (set only with the service
+-- role, e.g. auth.admin.createUser), otherwise the default organization
 create or replace function public.handle_new_user()
 returns trigger
 language plpgsql
 security definer
 as $$
 begin
-  insert into public.user_profiles (id, email, full_name, role, is_active)
+  insert into public.user_profiles (id, email, full_name, role, is_active, organization_id)
   values (
     NEW.id,
     NEW.email,
     coalesce(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
     'USER',
-    true
+    true,
+    coalesce(
+      (select o.id from public.organizations o where o.id::text = NEW.raw_app_meta_data->>'organization_id'),
+      (select o.id from public.organizations o where o.slug = 'principal')
+    )
   );
   return NEW;
 end;
 $$;
 
+-- Users may edit their own profile (user_profiles_update_self) but not move to
+-- another organization or change their role; direct database access (no JWT)
+-- and platform admins are not restricted
+create or replace function public.protect_user_profile_columns()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  if auth.uid() is null or public.is_platform_admin() then
+    return NEW;
+  end if;
+  if NEW.organization_id is distinct from OLD.organization_id then
+    raise exception 'only platform admins can move users between organizations';
+  end if;
+  if NEW.role is distinct from OLD.role and not public.is_admin_of(OLD.organization_id) then
+    raise exception 'only organization admins can change roles';
+  end if;
+  return NEW;
+end;
+$$;
+
+-- Rows written on behalf of a user default to the user's organization; TG_ARGV[0]
+-- names the user column (user_id, actor_id)
+create or replace function public.set_organization_from_user()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_user_id uuid := (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+begin
+  if NEW.organization_id is null and v_user_id is not null then
+    select up.organization_id into NEW.organization_id
+    from public.user_profiles up
+    where up.id = v_user_id;
+  end if;
+  return NEW;
+end;
+$$;
+
+-- Keep conversations ordered by last activity
+create or replace function public.touch_conversation_updated_at()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  update public.conversations set updated_at = now() where id = NEW.conversation_id;
+  return NEW;
+end;
+$$;
+
+-- Full-text search over a user's conversations (title match or message content match)
+create or replace function public.search_conversations(p_user_id uuid, p_query text, p_limit integer default 50)
+returns table (id uuid, title text, created_at timestamptz, updated_at timestamptz, snippet text, rank real)
+language sql
+stable
+security definer
+as $$
+  with q as (
+    select websearch_to_tsquery('spanish', p_query) as query
+  ),
+  hits as (
+    select
+      m.conversation_id,
+      max(ts_rank(m.search_vector, q.query)) as rank,
+      (array_agg(m.content order by ts_rank(m.search_vector, q.query) desc))[1] as content
+    from public.messages m, q
+    where m.user_id = p_user_id and m.search_vector @@ q.query
+    group by m.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.created_at,
+    c.updated_at,
+    left(h.content, 160) as snippet,
+    (coalesce(h.rank, 0) + case when c.title ilike '%' || p_query || '%' then 1 else 0 end)::real as rank
+  from public.conversations c
+  left join hits h on h.conversation_id = c.id
+  where c.user_id = p_user_id
+    and (h.conversation_id is not null or c.title ilike '%' || p_query || '%')
+  order by rank desc, c.updated_at desc
+  limit p_limit;
+$$;
+
+-- Takes any user id and bypasses RLS: only the API (service role) may call it
+revoke execute on function public.search_conversations(uuid, text, integer) from public, anon, authenticated;
+grant execute on function public.search_conversations(uuid, text, integer) to service_role;
+
+-- Price item lookup over the active price lists of an organization: exact
+-- SKU/description first, then full-text, then trigram similarity (fuzzy) above p_min_similarity
+drop function if exists public.search_price_items(text, integer, uuid[], boolean, real);
+create or replace function public.search_price_items(
+  p_organization_id uuid,
+  p_query text,
+  p_limit integer default 20,
+  p_price_list_ids uuid[] default null,
+  p_exact_only boolean default false,
+  p_min_similarity real default 0.25
+)
+returns table (
+  id uuid,
+  price_list_id uuid,
+  sku text,
+  description text,
+  unit text,
+  price numeric,
+  currency text,
+  supplier_name text,
+  file_name text,
+  uploaded_at timestamptz,
+  match_type text,
+  score real
+)
+language sql
+stable
+security definer
+as $$
+  with candidates as (
+    select
+      pi.*,
+      pl.file_name,
+      pl.uploaded_at,
+      case
+        when lower(pi.sku) = lower(trim(p_query)) then 'exact_sku'
+        when lower(pi.description) = lower(trim(p_query)) then 'exact'
+        when pi.search_vector @@ websearch_to_tsquery('spanish', p_query) then 'fulltext'
+        else 'fuzzy'
+      end as match_type,
+      greatest(
+        extensions.similarity(pi.description, p_query),
+        extensions.word_similarity(p_query, pi.description)
+      )::real as score
+    from public.price_items pi
+    join public.price_lists pl on pl.id = pi.price_list_id
+    where pl.is_active = true
+      and pl.organization_id = p_organization_id
+      and public.can_access_organization(p_organization_id)
+      and (p_price_list_ids is null or pi.price_list_id = any (p_price_list_ids))
+  )
+  select
+    c.id, c.price_list_id, c.sku, c.description, c.unit, c.price, c.currency,
+    coalesce(c.supplier_name, 'Proveedor'), c.file_name, c.uploaded_at, c.match_type,
+    case when c.match_type in ('exact_sku', 'exact') then 1::real else c.score end as score
+  from candidates c
+  where c.match_type in ('exact_sku', 'exact')
+    or (not p_exact_only and (c.match_type = 'fulltext' or c.score >= p_min_similarity))
+  order by
+    case c.match_type when 'exact_sku' then 0 when 'exact' then 1 when 'fulltext' then 2 else 3 end,
+    c.score desc,
+    c.price asc
+  limit p_limit;
+$$;
+
+-- Claim the next runnable ingestion job; jobs left running longer than
+-- p_stale_after (crashed worker) are picked up again
+create or replace function public.claim_ingestion_job(p_stale_after interval default interval '10 minutes')
+returns setof public.ingestion_jobs
+language sql
+security definer
+as $$
+  update public.ingestion_jobs j
+  set status = 'running', locked_at = now(), updated_at = now()
+  where j.id = (
+    select id
+    from public.ingestion_jobs
+    where (status = 'pending' and run_after <= now())
+      or (status = 'running' and locked_at < now() - p_stale_after)
+    order by run_after
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+-- Only the ingestion worker (service role) claims jobs
+revoke execute on function public.claim_ingestion_job(interval) from public, anon, authenticated;
+grant execute on function public.claim_ingestion_job(interval) to service_role;
+
+-- Claim the oldest running eval run for a batch of questions; a run locked
+-- longer than p_stale_after (crashed worker) is picked up again
+create or replace function public.claim_eval_run(p_stale_after interval default interval '2 minutes')
+returns setof public.eval_runs
+language sql
+security definer
+as $$
+  update public.eval_runs r
+  set locked_at = now()
+  where r.id = (
+    select id
+    from public.eval_runs
+    where status = 'running'
+      and (locked_at is null or locked_at < now() - p_stale_after)
+    order by started_at
+    limit 1
+    for update skip locked
+  )
+  returning r.*;
+$$;
+
+-- Only the eval worker (service role) claims runs
+revoke execute on function public.claim_eval_run(interval) from public, anon, authenticated;
+grant execute on function public.claim_eval_run(interval) to service_role;
+
+-- Store new system instructions as an organization's next version and make them
+-- current. The table lock keeps version numbers sequential under concurrent saves
+drop function if exists public.save_instruction_version(text, text, uuid);
+create or replace function public.save_instruction_version(
+  p_organization_id uuid,
+  p_instructions text,
+  p_note text,
+  p_created_by uuid
+)
+returns setof public.instruction_versions
+language plpgsql
+security definer
+as $$
+declare
+  v_version integer;
+begin
+  if not public.is_admin_of(p_organization_id) then
+    raise exception 'not an admin of organization %', p_organization_id;
+  end if;
+
+  lock table public.instruction_versions in share row exclusive mode;
+  select coalesce(max(version), 0) + 1 into v_version
+  from public.instruction_versions
+  where organization_id = p_organization_id;
+
+  insert into public.app_settings (organization_id, system_instructions, instructions_version, updated_by, updated_at)
+  values (p_organization_id, p_instructions, v_version, p_created_by, now())
+  on conflict (organization_id) do update set
+    system_instructions = excluded.system_instructions,
+    instructions_version = excluded.instructions_version,
+    updated_by = excluded.updated_by,
+    updated_at = excluded.updated_at;
+
+  return query
+    insert into public.instruction_versions (organization_id, version, system_instructions, note, created_by)
+    values (p_organization_id, v_version, p_instructions, p_note, p_created_by)
+    returning *;
+end;
+$$;
+
+-- Chat usage of a user since the start of the current day and month: tokens of
+-- all their messages and usage events, requests = questions asked (role 'user')
+create or replace function public.get_chat_usage(p_user_id uuid, p_day_start timestamptz, p_month_start timestamptz)
+returns table (day_tokens bigint, day_requests bigint, month_tokens bigint, month_requests bigint)
+language sql
+stable
+security definer
+as $$
+  with usage as (
+    select m.created_at, m.tokens_used, m.role = 'user' as is_request
+    from public.messages m
+    where m.user_id = p_user_id
+      and m.created_at >= least(p_day_start, p_month_start)
+    union all
+    select e.created_at, e.tokens_used, false
+    from public.usage_events e
+    where e.user_id = p_user_id
+      and e.created_at >= least(p_day_start, p_month_start)
+  )
+  select
+    coalesce(sum(u.tokens_used) filter (where u.created_at >= p_day_start), 0)::bigint,
+    count(*) filter (where u.is_request and u.created_at >= p_day_start),
+    coalesce(sum(u.tokens_used) filter (where u.created_at >= p_month_start), 0)::bigint,
+    count(*) filter (where u.is_request and u.created_at >= p_month_start)
+  from usage u;
+$$;
+
+-- Takes any user id and bypasses RLS: only the API (service role) may call it
+revoke execute on function public.get_chat_usage(uuid, timestamptz, timestamptz) from public, anon, authenticated;
+grant execute on function public.get_chat_usage(uuid, timestamptz, timestamptz) to service_role;
+
+-- Usage analytics over an organization's assistant answers of a period, grouped by
+-- p_group: 'day' (Venezuelan calendar day), 'user', 'model' or 'total'. Cost uses
+-- model_prices; answers of unpriced models count in tokens but not in cost. Usage
+-- events (rolling summaries) add tokens and cost but are not answers
+drop function if exists public.get_usage_analytics(text, timestamptz, timestamptz);
+create or replace function public.get_usage_analytics(
+  p_organization_id uuid,
+  p_group text,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (
+  group_key text,
+  label text,
+  answers bigint,
+  tokens bigint,
+  cost_usd numeric,
+  unpriced_tokens bigint,
+  avg_response_ms numeric,
+  p50_response_ms double precision,
+  p95_response_ms double precision
+)
+language sql
+stable
+security definer
+as $$
+  with usage as (
+    select m.created_at, m.user_id, m.model, m.tokens_used, m.response_time_ms, true as is_answer
+    from public.messages m
+    where m.role = 'assistant'
+      and m.organization_id = p_organization_id
+      and m.created_at >= p_from
+      and m.created_at < p_to
+    union all
+    select e.created_at, e.user_id, e.model, e.tokens_used, null, false
+    from public.usage_events e
+    where e.organization_id = p_organization_id
+      and e.created_at >= p_from
+      and e.created_at < p_to
+  ),
+  answers as (
+    select
+      case p_group
+        when 'day' then to_char(u.created_at at time zone 'America/Caracas', 'YYYY-MM-DD')
+        when 'user' then coalesce(u.user_id::text, 'unknown')
+        when 'model' then coalesce(u.model, 'unknown')
+        else 'total'
+      end as group_key,
+      u.user_id,
+      u.tokens_used,
+      u.response_time_ms,
+      u.is_answer,
+      p.usd_per_1m_tokens
+    from usage u
+    left join public.model_prices p on p.model = u.model
+    where public.is_admin_of(p_organization_id)
+  )
+  select
+    a.group_key,
+    case when p_group = 'user' then coalesce(max(up.email), a.group_key) else a.group_key end,
+    count(*) filter (where a.is_answer),
+    coalesce(sum(a.tokens_used), 0)::bigint,
+    round(coalesce(sum(a.tokens_used * a.usd_per_1m_tokens / 1000000), 0), 4),
+    coalesce(sum(a.tokens_used) filter (where a.usd_per_1m_tokens is null), 0)::bigint,
+    round(avg(a.response_time_ms)),
+    percentile_cont(0.5) within group (order by a.response_time_ms),
+    percentile_cont(0.95) within group (order by a.response_time_ms)
+  from answers a
+  left join public.user_profiles up on p_group = 'user' and up.id = a.user_id
+  group by a.group_key
+  order by a.group_key;
+$$;
+
+-- Feedback review queue of an organization: each rating with the answer, the files
+-- it cited, the question that preceded it in the conversation and the user's email.
+-- Null filters match everything; total_count is the count before paging
+drop function if exists public.get_feedback_queue(text, text, integer, integer);
+create or replace function public.get_feedback_queue(
+  p_organization_id uuid,
+  p_rating text default 'down',
+  p_status text default 'open',
+  p_limit integer default 50,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  message_id uuid,
+  conversation_id uuid,
+  rating text,
+  comment text,
+  correct_value text,
+  status text,
+  resolution_note text,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  user_email text,
+  question text,
+  answer text,
+  citations jsonb,
+  model text,
+  answered_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security definer
+as $$
+  select
+    f.id,
+    f.message_id,
+    m.conversation_id,
+    f.rating,
+    f.comment,
+    f.correct_value,
+    f.status,
+    f.resolution_note,
+    f.resolved_at,
+    f.created_at,
+    up.email,
+    q.content,
+    m.content,
+    m.citations,
+    m.model,
+    m.created_at,
+    count(*) over ()
+  from public.message_feedback f
+  join public.messages m on m.id = f.message_id
+  left join public.user_profiles up on up.id = f.user_id
+  left join lateral (
+    select qm.content
+    from public.messages qm
+    where qm.conversation_id = m.conversation_id
+      and qm.role = 'user'
+      and qm.created_at <= m.created_at
+    order by qm.created_at desc
+    limit 1
+  ) q on true
+  where m.organization_id = p_organization_id
+    and public.is_admin_of(p_organization_id)
+    and (p_rating is null or f.rating = p_rating)
+    and (p_status is null or f.status = p_status)
+  order by f.created_at desc
+  limit p_limit
+  offset p_offset;
+$$;
+
+-- Audit events are append-only, even for the service role
+create or replace function public.prevent_audit_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+-- Closest unexpired cached answer for the same context, by cosine similarity
+create or replace function public.match_answer_cache(p_context_key text, p_embedding vector(1536), p_min_similarity double precision)
+returns table (
+  id uuid,
+  query_normalized text,
+  response text,
+  citations jsonb,
+  comparison jsonb,
+  model text,
+  instructions_version integer,
+  similarity double precision
+)
+language sql
+stable
+as $$
+  select
+    c.id,
+    c.query_normalized,
+    c.response,
+    c.citations,
+    c.comparison,
+    c.model,
+    c.instructions_version,
+    1 - (c.embedding <=> p_embedding) as similarity
+  from public.answer_cache c
+  where c.context_key = p_context_key
+    and c.expires_at > now()
+    and c.embedding is not null
+    and 1 - (c.embedding <=> p_embedding) >= p_min_similarity
+  order by c.embedding <=> p_embedding
+  limit 5;
+$$;
+
+create or replace function public.record_answer_cache_hit(p_id uuid)
+returns void
+language sql
+as $$
+  update public.answer_cache set hit_count = hit_count + 1, last_hit_at = now() where id = p_id;
+$$;
+
+-- Cached answers may be stale once an exchange rate used by comparisons changes;
+-- rates are shared by every organization
+create or replace function public.clear_answer_cache()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  delete from public.answer_cache where true;
+  return null;
+end;
+$$;
+
+-- Price lists belong to one organization, so only its cached answers go stale
+-- (both organizations' when a list is moved)
+create or replace function public.clear_organization_answer_cache()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  delete from public.answer_cache
+  where organization_id = any (array[NEW.organization_id, OLD.organization_id]);
+  return null;
+end;
+$$;
+
 -- Trigger on auth.users
 drop trigger if exists on_auth_user_created on auth.users;
 create trigger on_auth_user_created
 after insert on auth.users
 for each row execute function public.handle_new_user();
 
+-- Trigger on user_profiles
+drop trigger if exists on_user_profile_updated on public.user_profiles;
+create trigger on_user_profile_updated
+before update on public.user_profiles
+for each row execute function public.protect_user_profile_columns();
+
+-- Trigger on conversations
+drop trigger if exists on_conversation_set_organization on public.conversations;
+create trigger on_conversation_set_organization
+before insert on public.conversations
+for each row execute function public.set_organization_from_user('user_id');
+
+-- Trigger on messages
+drop trigger if exists on_message_created on public.messages;
+create trigger on_message_created
+after insert on public.messages
+for each row execute function public.touch_conversation_updated_at();
+
+drop trigger if exists on_message_set_organization on public.messages;
+create trigger on_message_set_organization
+before insert on public.messages
+for each row execute function public.set_organization_from_user('user_id');
+
+-- Trigger on audit_events
+drop trigger if exists on_audit_event_changed on public.audit_events;
+create trigger on_audit_event_changed
+before update or delete on public.audit_events
+for each row execute function public.prevent_audit_event_changes();
+
+drop trigger if exists on_audit_event_set_organization on public.audit_events;
+create trigger on_audit_event_set_organization
+before insert on public.audit_events
+for each row execute function public.set_organization_from_user('actor_id');
+
+-- Trigger on price_lists
+drop trigger if exists on_price_list_changed_clear_answer_cache on public.price_lists;
+create trigger on_price_list_changed_clear_answer_cache
+after insert or delete or update of is_active, openai_file_id, extraction_status, organization_id on public.price_lists
+for each row execute function public.clear_organization_answer_cache();
+
+-- Trigger on exchange_rates
+drop trigger if exists on_exchange_rate_changed_clear_answer_cache on public.exchange_rates;
+create trigger on_exchange_rate_changed_clear_answer_cache
+after insert or update or delete on public.exchange_rates
+for each statement execute function public.clear_answer_cache();
+
 -- RLS policies and enabling RLS
+alter table public.organizations enable row level security;
 alter table public.user_profiles enable row level security;
 alter table public.price_lists enable row level security;
+alter table public.price_items enable row level security;
+alter table public.exchange_rates enable row level security;
+alter table public.ingestion_jobs enable row level security;
+alter table public.vector_stores enable row level security;
+alter table public.vector_store_gc_runs enable row level security;
+alter table public.usage_plans enable row level security;
+alter table public.user_quotas enable row level security;
+alter table public.model_prices enable row level security;
+alter table public.message_feedback enable row level security;
+alter table public.instruction_versions enable row level security;
+alter table public.eval_questions enable row level security;
+alter table public.eval_runs enable row level security;
+alter table public.eval_results enable row level security;
+alter table public.audit_events enable row level security;
+alter table public.answer_cache enable row level security;
+alter table public.usage_events enable row level security;
 alter table public.conversations enable row level security;
 alter table public.messages enable row level security;
 alter table public.admins enable row level security;
 alter table public.app_settings enable row level security;
 
--- user_profiles policies
+-- organizations policies (members read their own; platform admins manage all)
+drop policy if exists organizations_platform_admin_access on public.organizations;
+create policy organizations_platform_admin_access on public.organizations
+  for all to public using (public.is_platform_admin());
+
+drop policy if exists organizations_read_own on public.organizations;
+create policy organizations_read_own on public.organizations
+  for select to public using (id = public.current_organization_id());
+
+-- user_profiles policies (admins see the members of their organization)
 drop policy if exists user_profiles_select_all_admins on public.user_profiles;
 create policy user_profiles_select_all_admins on public.user_profiles
-  for select to public using (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for select to public using (public.is_admin_of(organization_id));
 
 drop policy if exists user_profiles_select_self on public.user_profiles;
 create policy user_profiles_select_self on public.user_profiles
   for select to public using (auth.uid() = id);
 
+-- organization_id and role are guarded by protect_user_profile_columns
 drop policy if exists user_profiles_update_self on public.user_profiles;
 create policy user_profiles_update_self on public.user_profiles
   for update to public using (auth.uid() = id);
 
--- price_lists policies
+-- price_lists policies (organization admins write; members read)
 drop policy if exists price_lists_admin_access on public.price_lists;
 create policy price_lists_admin_access on public.price_lists
-  for all to public using (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
 
 drop policy if exists price_lists_read_all on public.price_lists;
 create policy price_lists_read_all on public.price_lists
+  for select to public using (organization_id = public.current_organization_id());
+
+-- price_items policies (same access as their price list)
+drop policy if exists price_items_admin_access on public.price_items;
+create policy price_items_admin_access on public.price_items
+  for all to public using (
+    exists (select 1 from public.price_lists pl where pl.id = price_list_id and public.is_admin_of(pl.organization_id))
+  );
+
+drop policy if exists price_items_read_all on public.price_items;
+create policy price_items_read_all on public.price_items
+  for select to public using (
+    exists (select 1 from public.price_lists pl where pl.id = price_list_id and pl.organization_id = public.current_organization_id())
+  );
+
+-- exchange_rates policies (shared by every organization: platform admins write; authenticated can read)
+drop policy if exists exchange_rates_admin_access on public.exchange_rates;
+create policy exchange_rates_admin_access on public.exchange_rates
+  for all to public using (public.is_platform_admin());
+
+drop policy if exists exchange_rates_read_all on public.exchange_rates;
+create policy exchange_rates_read_all on public.exchange_rates
   for select to public using (auth.role() = 'authenticated');
 
+-- ingestion_jobs policies (admins of the price list's organization; the worker uses the service role)
+drop policy if exists ingestion_jobs_admin_access on public.ingestion_jobs;
+create policy ingestion_jobs_admin_access on public.ingestion_jobs
+  for all to public using (
+    exists (select 1 from public.price_lists pl where pl.id = price_list_id and public.is_admin_of(pl.organization_id))
+  );
+
+-- vector_stores policies (organization admins; temp stores only platform admins; the app uses the service role)
+drop policy if exists vector_stores_admin_access on public.vector_stores;
+create policy vector_stores_admin_access on public.vector_stores
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+-- vector_store_gc_runs policies (platform admins only; GC is not per organization)
+drop policy if exists vector_store_gc_runs_admin_access on public.vector_store_gc_runs;
+create policy vector_store_gc_runs_admin_access on public.vector_store_gc_runs
+  for all to public using (public.is_platform_admin());
+
+-- usage_plans / user_quotas policies (organization admins; quotas are enforced with the service role)
+drop policy if exists usage_plans_admin_access on public.usage_plans;
+create policy usage_plans_admin_access on public.usage_plans
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+drop policy if exists user_quotas_admin_access on public.user_quotas;
+create policy user_quotas_admin_access on public.user_quotas
+  for all to public using (
+    exists (select 1 from public.user_profiles up where up.id = user_id and public.is_admin_of(up.organization_id))
+  );
+
+-- model_prices policies (shared by every organization: platform admins write; admins read)
+drop policy if exists model_prices_admin_access on public.model_prices;
+create policy model_prices_admin_access on public.model_prices
+  for all to public using (public.is_platform_admin());
+
+drop policy if exists model_prices_admin_read on public.model_prices;
+create policy model_prices_admin_read on public.model_prices
+  for select to public using (public.is_admin_of(public.current_organization_id()));
+
+-- message_feedback policies (users rate their own answers; admins of the answer's organization review)
+drop policy if exists message_feedback_admin_access on public.message_feedback;
+create policy message_feedback_admin_access on public.message_feedback
+  for all to public using (
+    exists (select 1 from public.messages m where m.id = message_id and public.is_admin_of(m.organization_id))
+  );
+
+drop policy if exists message_feedback_own on public.message_feedback;
+create policy message_feedback_own on public.message_feedback
+  for all to public using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- instruction_versions policies (organization admins)
+drop policy if exists instruction_versions_admin_access on public.instruction_versions;
+create policy instruction_versions_admin_access on public.instruction_versions
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+-- eval_questions / eval_runs / eval_results policies (organization admins)
+drop policy if exists eval_questions_admin_access on public.eval_questions;
+create policy eval_questions_admin_access on public.eval_questions
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+drop policy if exists eval_runs_admin_access on public.eval_runs;
+create policy eval_runs_admin_access on public.eval_runs
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+drop policy if exists eval_results_admin_access on public.eval_results;
+create policy eval_results_admin_access on public.eval_results
+  for all to public using (
+    exists (select 1 from public.eval_runs r where r.id = run_id and public.is_admin_of(r.organization_id))
+  );
+
+-- audit_events policies (organization admins read; rows are written by the service role)
+drop policy if exists audit_events_admin_read on public.audit_events;
+create policy audit_events_admin_read on public.audit_events
+  for select to public using (public.is_admin_of(organization_id));
+
+-- answer_cache policies (organization admins; the chat uses the service role)
+drop policy if exists answer_cache_admin_access on public.answer_cache;
+create policy answer_cache_admin_access on public.answer_cache
+  for all to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+-- usage_events policies (organization admins read; rows are written by the service role)
+drop policy if exists usage_events_admin_read on public.usage_events;
+create policy usage_events_admin_read on public.usage_events
+  for select to public using (public.is_admin_of(organization_id));
+
 -- conversations policies
 drop policy if exists conversations_admin_access on public.conversations;
 create policy conversations_admin_access on public.conversations
-  for select to public using (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for select to public using (public.is_admin_of(organization_id));
 
 drop policy if exists conversations_user_access on public.conversations;
 create policy conversations_user_access on public.conversations
@@ -171,10 +1310,7 @@ create policy conversations_user_access on public.conversations
 -- messages policies
 drop policy if exists messages_admin_access on public.messages;
 create policy messages_admin_access on public.messages
-  for select to public using (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for select to public using (public.is_admin_of(organization_id));
 
 drop policy if exists messages_user_access on public.messages;
 create policy messages_user_access on public.messages
@@ -185,37 +1321,42 @@ drop policy if exists admins_select_self on public.admins;
 create policy admins_select_self on public.admins
   for select to public using (auth.uid() = user_id);
 
--- app_settings policies (admins can read/write; authenticated can read)
+-- app_settings policies (organization admins can read/write; members can read)
 drop policy if exists app_settings_read_all on public.app_settings;
 create policy app_settings_read_all on public.app_settings
-  for select to public using (auth.role() = 'authenticated');
+  for select to public using (public.can_access_organization(organization_id));
 
 drop policy if exists app_settings_admin_update on public.app_settings;
 create policy app_settings_admin_update on public.app_settings
-  for insert to public with check (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for insert to public with check (public.is_admin_of(organization_id));
 
 drop policy if exists app_settings_admin_upd on public.app_settings;
 create policy app_settings_admin_upd on public.app_settings
-  for update to public using (
-    exists (select 1 from public.user_profiles up where up.id = auth.uid() and up.role = 'ADMIN')
-    or exists (select 1 from public.admins a where a.user_id = auth.uid())
-  );
+  for update to public using (public.is_admin_of(organization_id)) with check (public.is_admin_of(organization_id));
+
+-- Seed a settings row for every organization without one
+insert into public.app_settings (organization_id, system_instructions)
+select o.id, null
+from public.organizations o
+where not exists (select 1 from public.app_settings s where s.organization_id = o.id);
 
--- Seed a default row if empty (id=1)
+-- Start each organization's history with the instructions in place before versioning existed
 do $$
 begin
-  if not exists (select 1 from public.app_settings where id = 1) then
-    insert into public.app_settings (id, system_instructions)
-    values (1, null);
-  end if;
+  insert into public.instruction_versions (organization_id, version, system_instructions, note, created_by)
+  select s.organization_id, 1, s.system_instructions, 'Versión inicial', s.updated_by
+  from public.app_settings s
+  where not exists (select 1 from public.instruction_versions v where v.organization_id = s.organization_id);
+
+  update public.app_settings s set instructions_version = 1
+  where s.instructions_version is null
+    and exists (select 1 from public.instruction_versions v where v.organization_id = s.organization_id and v.version = 1);
 end $$;
 
 -- Notes:
 -- - This schema assumes extensions schemas exist (extensions/graphql/vault) as on Supabase.
 -- - It references auth.users. In a fresh Supabase project, auth schema is provisioned automatically.
 -- - Review ON DELETE actions to ensure they match your desired behavior.
+-- - Platform admins (public.admins) are added by hand, e.g. from the SQL editor.
 
 